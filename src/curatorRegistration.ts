@@ -0,0 +1,24 @@
+/**
+ * Curator processor registration
+ * Registers the standard processors with the curator service at module load time,
+ * so their settings are available when DEFAULT_SETTINGS is built
+ */
+
+import { curatorService } from './models/curatorManager/curatorManager';
+import {
+    uidProcessor,
+    relatedFrontMatterProcessor,
+    relatedListProcessor,
+    genderInferenceProcessor,
+    genderRenderProcessor,
+    memberFrontMatterProcessor,
+    membersListProcessor
+} from './curators';
+
+curatorService.register(uidProcessor);
+curatorService.register(relatedFrontMatterProcessor);
+curatorService.register(relatedListProcessor);
+curatorService.register(genderInferenceProcessor);
+curatorService.register(genderRenderProcessor);
+curatorService.register(memberFrontMatterProcessor);
+curatorService.register(membersListProcessor);
@@ -5,20 +5,20 @@
 
 import type { CuratorProcessor } from '../models/curatorManager/types.js';
 import { RunType } from '../models/curatorManager/types.js';
+import type { ContactNote } from '../models/contactNote/contactNote.js';
 import { parseRelatedSection, inferGenderFromType } from '../models/contactNote/relationships.js';
 
-// Simple interface for contact data
-interface ContactNote {
-    path: string;
-    frontmatter?: Record<string, any>;
-    content: string;
-}
-
 export const genderInferenceProcessor: CuratorProcessor = {
     name: 'genderInferenceProcessor',
     description: 'Infer gender from relationship terms',
     runType: RunType.UPCOMING,
     dependencies: ['relatedFrontMatterProcessor'],
+    settingProperties: {
+        key: 'genderInferenceProcessorEnabled',
+        name: 'Gender inference',
+        description: 'Infer a missing GENDER from gendered relationship terms',
+        default: true
+    },
     
     async shouldRun(contact: ContactNote): Promise<boolean> {
         // Run if contact has relationships but no gender set
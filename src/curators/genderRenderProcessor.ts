@@ -5,21 +5,21 @@
 
 import type { CuratorProcessor } from '../models/curatorManager/types.js';
 import { RunType } from '../models/curatorManager/types.js';
-import { parseRelatedSection, getGenderedType, generateRelatedSection } from '../models/contactNote/relationships.js';
+import type { ContactNote } from '../models/contactNote/contactNote.js';
+import { parseRelatedSection, getGenderedRelationshipType, generateRelatedSection } from '../models/contactNote/relationships.js';
 import { replaceSection } from '../models/contactNote/markdown.js';
 
-// Simple interface for contact data
-interface ContactNote {
-    path: string;
-    frontmatter?: Record<string, any>;
-    content: string;
-}
-
 export const genderRenderProcessor: CuratorProcessor = {
     name: 'genderRenderProcessor',
     description: 'Render relationships with gender-specific terms',
     runType: RunType.UPCOMING,
     dependencies: ['genderInferenceProcessor'],
+    settingProperties: {
+        key: 'genderRenderProcessorEnabled',
+        name: 'Gender rendering',
+        description: 'Render Related section entries with gender-specific terms',
+        default: true
+    },
     
     async shouldRun(contact: ContactNote): Promise<boolean> {
         // Run if contact has gender and relationships
@@ -40,7 +40,7 @@ export const genderRenderProcessor: CuratorProcessor = {
         // Convert to gendered types
         const genderedRelationships = relationships.map(rel => ({
             ...rel,
-            type: getGenderedType(rel.type, gender)
+            type: getGenderedRelationshipType(rel.type, gender)
         }));
         
         // Generate new Related section
@@ -7,3 +7,5 @@ export { relatedFrontMatterProcessor } from './relatedFrontMatterProcessor.js';
 export { relatedListProcessor } from './relatedListProcessor.js';
 export { genderInferenceProcessor } from './genderInferenceProcessor.js';
 export { genderRenderProcessor } from './genderRenderProcessor.js';
+export { memberFrontMatterProcessor } from './memberFrontMatterProcessor.js';
+export { membersListProcessor } from './membersListProcessor.js';
@@ -0,0 +1,62 @@
+/**
+ * Member FrontMatter Processor
+ * Syncs group members from Members section to frontmatter MEMBER fields
+ */
+
+import type { CuratorProcessor } from '../models/curatorManager/types.js';
+import { RunType } from '../models/curatorManager/types.js';
+import type { ContactNote } from '../models/contactNote/contactNote.js';
+import type { ContactManager } from '../models/contactManager/contactManager.js';
+import {
+    parseMembersSection,
+    generateMemberFrontmatter,
+    formatMemberReference
+} from '../models/contactNote/members.js';
+import { findSection } from '../models/contactNote/markdown.js';
+
+export const memberFrontMatterProcessor: CuratorProcessor = {
+    name: 'memberFrontMatterProcessor',
+    description: 'Sync group members from Members section to frontmatter',
+    runType: RunType.UPCOMING,
+    dependencies: [],
+    settingProperties: {
+        key: 'memberFrontMatterProcessorEnabled',
+        name: 'Members to frontmatter',
+        description: 'Sync the Members section of group contacts to MEMBER frontmatter fields',
+        default: true
+    },
+    
+    async shouldRun(contact: ContactNote): Promise<boolean> {
+        // Only run when the note has a Members section, so that members present only
+        // in frontmatter are not wiped; an emptied section removes all members
+        return findSection(contact.content, 'Members') !== null;
+    },
+    
+    async process(contact: ContactNote, settings: Record<string, any>, contactManager?: ContactManager): Promise<void> {
+        if (!contact.frontmatter) {
+            contact.frontmatter = {};
+        }
+        
+        // Resolve linked member notes to their UIDs; unknown names keep a name: reference
+        const members = parseMembersSection(contact.content).map(member => {
+            if (member.reference) {
+                return member;
+            }
+            const entry = contactManager?.getContactByName(member.name!);
+            return { ...member, reference: entry ? formatMemberReference(entry.uid) : `name:${member.name}` };
+        });
+        
+        // Replace all MEMBER fields
+        for (const key in contact.frontmatter) {
+            if (/^MEMBER(\.\d+)?$/.test(key)) {
+                delete contact.frontmatter[key];
+            }
+        }
+        Object.assign(contact.frontmatter, generateMemberFrontmatter(members));
+        
+        // MEMBER is only defined for groups
+        if (members.length > 0 && !contact.frontmatter.KIND) {
+            contact.frontmatter.KIND = 'group';
+        }
+    }
+};
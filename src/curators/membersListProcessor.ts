@@ -0,0 +1,47 @@
+/**
+ * Members List Processor
+ * Syncs group members from frontmatter MEMBER fields to Members section
+ */
+
+import type { CuratorProcessor } from '../models/curatorManager/types.js';
+import { RunType } from '../models/curatorManager/types.js';
+import type { ContactNote } from '../models/contactNote/contactNote.js';
+import type { ContactManager } from '../models/contactManager/contactManager.js';
+import { parseMemberFrontmatter, generateMembersSection } from '../models/contactNote/members.js';
+import { findSection, replaceSection } from '../models/contactNote/markdown.js';
+
+export const membersListProcessor: CuratorProcessor = {
+    name: 'membersListProcessor',
+    description: 'Sync group members from frontmatter to Members section',
+    runType: RunType.UPCOMING,
+    dependencies: ['memberFrontMatterProcessor'],
+    settingProperties: {
+        key: 'membersListProcessorEnabled',
+        name: 'Frontmatter to Members',
+        description: 'Sync MEMBER frontmatter fields of group contacts to the Members section',
+        default: true
+    },
+    
+    async shouldRun(contact: ContactNote): Promise<boolean> {
+        return parseMemberFrontmatter(contact.frontmatter ?? {}).length > 0;
+    },
+    
+    async process(contact: ContactNote, settings: Record<string, any>, contactManager?: ContactManager): Promise<void> {
+        // Link members to their notes through the contact cache; unresolved members stay URIs
+        const members = parseMemberFrontmatter(contact.frontmatter).map(member => {
+            const entry = contactManager?.resolveReference(member.reference);
+            if (!entry) {
+                return member;
+            }
+            return { ...member, name: entry.path.substring(entry.path.lastIndexOf('/') + 1).replace(/\.md$/, '') };
+        });
+        
+        const membersSection = generateMembersSection(members);
+        
+        if (findSection(contact.content, 'Members')) {
+            contact.content = replaceSection(contact.content, 'Members', membersSection);
+        } else {
+            contact.content = contact.content.trim() + '\n\n' + membersSection;
+        }
+    }
+};
@@ -5,24 +5,27 @@
 
 import type { CuratorProcessor } from '../models/curatorManager/types.js';
 import { RunType } from '../models/curatorManager/types.js';
-import { parseRelatedSection, generateRelatedFrontmatter } from '../models/contactNote/relationships.js';
-
-// Simple interface for contact data
-interface ContactNote {
-    path: string;
-    frontmatter?: Record<string, any>;
-    content: string;
-}
+import type { ContactNote } from '../models/contactNote/contactNote.js';
+import { parseRelatedSection, generateRelatedFrontmatter, findRelatedHeading } from '../models/contactNote/relationships.js';
 
 export const relatedFrontMatterProcessor: CuratorProcessor = {
     name: 'relatedFrontMatterProcessor',
     description: 'Sync relationships from Related section to frontmatter',
     runType: RunType.UPCOMING,
     dependencies: [],
+    settingProperties: {
+        key: 'relatedFrontMatterProcessorEnabled',
+        name: 'Related to frontmatter',
+        description: 'Sync relationships from the Related section to RELATED frontmatter fields',
+        default: true
+    },
     
     async shouldRun(contact: ContactNote): Promise<boolean> {
-        // Always run to keep frontmatter in sync with Related section
-        return true;
+        // Run whenever the note has a Related section, even an empty one, so that
+        // removing the last entry clears the frontmatter. Notes without the section
+        // (e.g. just imported from a VCF) keep their RELATED fields until
+        // relatedListProcessor has rendered them
+        return findRelatedHeading(contact.content) !== null;
     },
     
     async process(contact: ContactNote): Promise<void> {
@@ -5,21 +5,21 @@
 
 import type { CuratorProcessor } from '../models/curatorManager/types.js';
 import { RunType } from '../models/curatorManager/types.js';
+import type { ContactNote } from '../models/contactNote/contactNote.js';
 import { parseRelatedFrontmatter, generateRelatedSection } from '../models/contactNote/relationships.js';
 import { findSection, replaceSection } from '../models/contactNote/markdown.js';
 
-// Simple interface for contact data
-interface ContactNote {
-    path: string;
-    frontmatter?: Record<string, any>;
-    content: string;
-}
-
 export const relatedListProcessor: CuratorProcessor = {
     name: 'relatedListProcessor',
     description: 'Sync relationships from frontmatter to Related section',
     runType: RunType.UPCOMING,
     dependencies: [],
+    settingProperties: {
+        key: 'relatedListProcessorEnabled',
+        name: 'Frontmatter to Related',
+        description: 'Sync RELATED frontmatter fields to the Related section',
+        default: true
+    },
     
     async shouldRun(contact: ContactNote): Promise<boolean> {
         // Always run to keep Related section in sync with frontmatter
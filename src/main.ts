@@ -1,14 +1,21 @@
 import { Plugin, Notice } from 'obsidian';
-import { VcardFile } from "./models/vcardFile";
-import { SyncWatcher } from "src/plugin/services/syncWatcher";
-import { setupVcardDropHandler } from 'src/plugin/services/dropHandler';
+import { VcardFile, ContactDiff, MergeConflict } from "./models/vcardFile";
+import { SyncWatcher, FileChange } from "src/plugin/services/syncWatcher";
+import { setupVcardDropHandler, registerImportCommands } from 'src/plugin/services/dropHandler';
+import { registerCsvExportCommands } from 'src/plugin/services/csvExport';
+import { registerLdifExportCommands } from 'src/plugin/services/ldifExport';
+import { registerGroupExportCommands } from 'src/plugin/services/groupExport';
+import { registerValidationCommands } from 'src/plugin/services/contactValidation';
+import { registerWriteBackCommands } from 'src/plugin/services/vcardWriteBack';
 import { setApp, clearApp } from "src/plugin/context/sharedAppContext";
 import { setSettings, clearSettings } from "src/plugin/context/sharedSettingsContext";
 import { CuratorManager, curatorService } from "./models/curatorManager/curatorManager";
 import { waitForMetadataCache } from "src/plugin/services/metadataCacheWaiter";
+import { ContactDiffModal } from "src/plugin/ui/modals/contactDiffModal";
+import { MergeConflictModal } from "src/plugin/ui/modals/mergeConflictModal";
 
 import { ContactNote } from "./models/contactNote";
-import { ContactManager } from "./models/contactManager";
+import { ContactManager, SyncBaseStore } from "./models/contactManager";
 
 import { ContactsSettingTab, DEFAULT_SETTINGS } from './plugin/settings';
 import { ContactsPluginSettings } from  './plugin/settings';
@@ -21,6 +28,7 @@ export default class ContactsPlugin extends Plugin {
 	private vcardDropCleanup: (() => void) | null = null;
 	private contactManager: ContactManager | null = null;
 	private curatorManager: CuratorManager | null = null;
+	private syncBase: SyncBaseStore | null = null;
 
 	async onload() {
 		await this.loadSettings();
@@ -64,24 +72,128 @@ export default class ContactsPlugin extends Plugin {
 				console.debug(`Error during contact data consistency check: ${error.message}`);
 			}
 
+			// Load the contact data of the last sync, the base of three-way merges
+			this.syncBase = new SyncBaseStore(this.app, `${this.manifest.dir}/sync-base.json`);
+			await this.syncBase.load();
+
 			// Initialize VCard sync watcher
 			this.syncWatcher = new SyncWatcher(this.app, this.settings);
-			await this.syncWatcher.start();
+			await this.syncWatcher.start(changes => this.applyVcfChanges(changes));
 
 			// Initialize vcard drop handler (watch for .vcf files created in the vault)
-			this.vcardDropCleanup = setupVcardDropHandler(this.app, this.settings);
+			this.vcardDropCleanup = setupVcardDropHandler(this.app, this.settings, vcardFile => this.importVcardFile(vcardFile));
+
+			// Register the command importing VCF, jCard, xCard, CSV and LDIF files
+			registerImportCommands(this, this.settings, vcardFile => this.importVcardFile(vcardFile));
 
 			// Register curator processor commands
 			if (this.curatorManager) {
 				this.curatorManager.registerCommands(this);
 			}
 
+			// Register CSV export commands
+			registerCsvExportCommands(this, this.contactManager, this.settings);
+
+			// Register LDIF export commands
+			registerLdifExportCommands(this, this.contactManager, this.settings);
+
+			// Register group VCF export command
+			registerGroupExportCommands(this, this.contactManager, this.settings);
+
+			// Register contact validation command
+			registerValidationCommands(this, this.contactManager);
+
+			// Register vcard write back command
+			registerWriteBackCommands(this, this.contactManager, this.syncWatcher, this.settings);
+
 			console.debug('[ContactsPlugin] Plugin initialization complete');
 		} catch (error: any) {
 			console.error(`[ContactsPlugin] Error during async initialization: ${error.message}`);
 		}
 	}
 
+	/**
+	 * Create notes for the contacts of an imported file, skipping contacts that already exist.
+	 */
+	private async importVcardFile(vcardFile: VcardFile): Promise<void> {
+		if (!this.contactManager) {
+			return;
+		}
+		const result = await this.contactManager.importContacts(vcardFile.getAllContacts(), {
+			createNotes: true,
+			overwrite: false,
+			syncBase: this.syncBase ?? undefined
+		});
+		await this.syncBase?.save();
+		result.errors.forEach(error => console.error(`[ContactsPlugin] Import failed for ${error}`));
+		new Notice(`Created ${result.created} contact(s), skipped ${result.skipped} duplicate(s)` +
+			(result.errors.length > 0 ? `, ${result.errors.length} failed` : ''));
+	}
+
+	/**
+	 * Import the contacts of created and modified files in the watch folder
+	 * when vcardWatchAutoApply is enabled. Notes with the same UID are merged
+	 * with the incoming changes since the last sync; conflicts REV does not
+	 * decide are shown for resolution, and when contactSectionSyncConfirmation
+	 * is enabled the changed fields are confirmed first.
+	 */
+	private async applyVcfChanges(changes: FileChange[]): Promise<void> {
+		if (!this.contactManager || !this.syncWatcher || !this.settings.vcardWatchAutoApply) {
+			return;
+		}
+
+		try {
+			for (const change of changes) {
+				if (change.type !== 'created' && change.type !== 'modified') {
+					continue;
+				}
+				const fileName = change.path.split(/[\\/]/).pop();
+				try {
+					const vcardFile = this.syncWatcher.readVcfFile(change.path);
+					const result = await this.contactManager.importContacts(vcardFile.getAllContacts(), {
+						createNotes: true,
+						overwrite: true,
+						confirmUpdate: this.settings.contactSectionSyncConfirmation
+							? (name, diff) => this.confirmContactUpdate(name, diff)
+							: undefined,
+						syncBase: this.syncBase ?? undefined,
+						preferNewerRev: this.settings.vcardMergeByRev,
+						resolveConflicts: (name, conflicts) => this.resolveSyncConflicts(name, conflicts)
+					});
+					result.errors.forEach(error => console.error(`[ContactsPlugin] Sync failed for ${error}`));
+					if (result.created > 0 || result.updated > 0 || result.errors.length > 0) {
+						new Notice(`Synced ${fileName}: created ${result.created}, updated ${result.updated} contact(s)` +
+							(result.errors.length > 0 ? `, ${result.errors.length} failed` : ''));
+					}
+				} catch (error: any) {
+					console.error(`[ContactsPlugin] Sync failed for ${change.path}:`, error);
+					new Notice(`Sync failed for ${fileName}: ${error.message}`);
+				}
+			}
+		} finally {
+			await this.syncBase?.save();
+		}
+	}
+
+	/**
+	 * Show the changes of an incoming vCard and ask whether to apply them
+	 */
+	private confirmContactUpdate(name: string, diff: ContactDiff): Promise<boolean> {
+		return new Promise(resolve => {
+			new ContactDiffModal(this.app, name, diff, () => resolve(true), () => resolve(false)).open();
+		});
+	}
+
+	/**
+	 * Ask which side to keep for fields changed in both the note and the VCF file;
+	 * skipping resolves null and drops the incoming change of the contact
+	 */
+	private resolveSyncConflicts(name: string, conflicts: MergeConflict[]): Promise<Record<string, 'ours' | 'theirs'> | null> {
+		return new Promise(resolve => {
+			new MergeConflictModal(this.app, name, conflicts, resolve, () => resolve(null)).open();
+		});
+	}
+
 	onunload() {
 		// Clean up ContactManager event listeners
 		if (this.contactManager) {
@@ -92,6 +204,9 @@ export default class ContactsPlugin extends Plugin {
 		// Clean up CuratorManager
 		this.curatorManager = null;
 
+		// Clean up sync base store
+		this.syncBase = null;
+
 		// Clean up app context
 		clearApp();
 		// Clean up settings context
@@ -0,0 +1,176 @@
+/**
+ * Attachment storage for contact notes
+ * Writes embedded PHOTO, LOGO and SOUND data to the attachments folder and
+ * resolves the links again when a vCard is generated
+ */
+
+import { App, TFile, normalizePath } from 'obsidian';
+import { ContactsPluginSettings } from '../../plugin/settings';
+import {
+  attachmentFileName,
+  findAttachments,
+  mediaTypeForPath,
+  parseAttachmentLink,
+  toAttachmentLink,
+  toDataUri
+} from '../vcardFile/attachments';
+import { getFieldMapping } from '../vcardFile/schema';
+
+/**
+ * An attachment file to write to the vault
+ */
+export interface AttachmentFile {
+  /** Vault path of the file */
+  path: string;
+  /** File content */
+  data: ArrayBuffer;
+}
+
+/**
+ * Contact data with its embedded media moved to attachment files
+ */
+export interface StoredAttachments<T> {
+  /** Contact data with links instead of data URIs */
+  data: T;
+  /** Embeds for the note body */
+  embeds: string[];
+  /** Attachment files to write */
+  files: AttachmentFile[];
+}
+
+/**
+ * Plan the attachment files for the embedded media of a contact without writing them
+ * @param data - Flat contact data
+ * @param name - Contact name, used for the file names
+ * @param settings - Plugin settings
+ * @returns Contact data with links instead of data URIs, embeds for the note body and the files to write
+ */
+export function planAttachments<T extends Record<string, any>>(
+  data: T,
+  name: string,
+  settings: ContactsPluginSettings
+): StoredAttachments<T> {
+  const attachments = settings.vcardExtractAttachments ? findAttachments(data) : [];
+  if (attachments.length === 0) {
+    return { data, embeds: [], files: [] };
+  }
+
+  const folder = normalizePath(settings.vcardAttachmentsFolder || '/');
+  const stored: Record<string, any> = { ...data };
+  const embeds: string[] = [];
+  const files: AttachmentFile[] = [];
+  for (const attachment of attachments) {
+    const fileName = attachmentFileName(name, attachment);
+    const path = normalizePath(folder === '/' ? fileName : `${folder}/${fileName}`);
+    files.push({ path, data: attachment.data });
+    stored[attachment.key] = toAttachmentLink(path);
+    embeds.push(`!${toAttachmentLink(path)}`);
+  }
+
+  return { data: stored as T, embeds, files };
+}
+
+/**
+ * Write attachment files, creating their folder if needed
+ * Existing files are replaced
+ * @param app - Obsidian app instance
+ * @param files - Attachment files
+ */
+export async function writeAttachments(app: App, files: AttachmentFile[]): Promise<void> {
+  for (const file of files) {
+    const folder = file.path.includes('/') ? file.path.substring(0, file.path.lastIndexOf('/')) : '';
+    if (folder && !app.vault.getAbstractFileByPath(folder)) {
+      await app.vault.createFolder(folder);
+    }
+
+    const existing = app.vault.getAbstractFileByPath(file.path);
+    if (existing instanceof TFile) {
+      await app.vault.modifyBinary(existing, file.data);
+    } else {
+      await app.vault.createBinary(file.path, file.data);
+    }
+  }
+}
+
+/**
+ * Check whether writing attachment files would change the vault
+ * @param app - Obsidian app instance
+ * @param files - Attachment files
+ * @returns True if a file is missing or has other content
+ */
+export async function attachmentsChanged(app: App, files: AttachmentFile[]): Promise<boolean> {
+  for (const file of files) {
+    const existing = app.vault.getAbstractFileByPath(file.path);
+    if (!(existing instanceof TFile)) {
+      return true;
+    }
+
+    const current = new Uint8Array(await app.vault.readBinary(existing));
+    const incoming = new Uint8Array(file.data);
+    if (current.length !== incoming.length || current.some((byte, index) => byte !== incoming[index])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Move embedded media of a contact into the attachments folder
+ * Existing attachment files of the same contact are replaced
+ * @param app - Obsidian app instance
+ * @param data - Flat contact data
+ * @param name - Contact name, used for the file names
+ * @param settings - Plugin settings
+ * @returns Contact data with links instead of data URIs, and embeds for the note body
+ */
+export async function saveAttachments<T extends Record<string, any>>(
+  app: App,
+  data: T,
+  name: string,
+  settings: ContactsPluginSettings
+): Promise<{ data: T; embeds: string[] }> {
+  const { data: stored, embeds, files } = planAttachments(data, name, settings);
+  await writeAttachments(app, files);
+  return { data: stored, embeds };
+}
+
+/**
+ * Replace attachment links of PHOTO, LOGO and SOUND with the value written to vCards
+ * With vcardAttachmentExport "inline" (or no base URI) the file becomes a data URI,
+ * with "uri" a link below vcardAttachmentBaseUri. Links to missing files are dropped
+ * @param app - Obsidian app instance
+ * @param data - Flat contact data from frontmatter
+ * @param settings - Plugin settings
+ * @returns Contact data ready for vCard generation
+ */
+export async function resolveAttachments(
+  app: App,
+  data: Record<string, any>,
+  settings: ContactsPluginSettings
+): Promise<Record<string, any>> {
+  const resolved = { ...data };
+
+  for (const [key, value] of Object.entries(data)) {
+    const path = parseAttachmentLink(value);
+    if (!path || key.includes('.@') || getFieldMapping(key.split('.')[0]).type !== 'binary') {
+      continue;
+    }
+
+    const file = app.vault.getAbstractFileByPath(normalizePath(path)) ?? app.metadataCache?.getFirstLinkpathDest(path, '');
+    if (!(file instanceof TFile)) {
+      console.warn(`[Attachments] Dropped ${key}: ${path} not found`);
+      delete resolved[key];
+      continue;
+    }
+
+    const mediaType = mediaTypeForPath(file.path);
+    if (settings.vcardAttachmentExport === 'uri' && settings.vcardAttachmentBaseUri) {
+      resolved[key] = `${settings.vcardAttachmentBaseUri.replace(/\/*$/, '/')}${encodeURI(file.path)}`;
+      resolved[`${key}.@MEDIATYPE`] = data[`${key}.@MEDIATYPE`] ?? mediaType;
+    } else {
+      resolved[key] = toDataUri(mediaType, await app.vault.readBinary(file));
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,533 @@
+/**
+ * ContactManager class - Authoritative registry of contact notes in the vault
+ */
+
+import { App, EventRef, TAbstractFile, TFile } from 'obsidian';
+import { ContactsPluginSettings } from '../../plugin/settings';
+import { parseFrontmatter } from '../contactNote/frontmatter';
+import { ContactNote, generateUUID } from '../contactNote/contactNote';
+import { VCardData } from '../vcardFile/types';
+import { generateVcfContact } from '../vcardFile/generation';
+import { getValueInLanguage } from '../vcardFile/languages';
+import { fingerprintContact } from '../vcardFile/fingerprint';
+import { diffContacts } from '../vcardFile/diff';
+import { mergeContacts, resolveMergeConflicts } from '../vcardFile/merge';
+import { BatchImportOptions } from '../vcardManager/types';
+import { ContactCacheEntry, ContactImportResult } from './types';
+import {
+  buildUIDIndex,
+  buildPathIndex,
+  updateCacheEntry,
+  removeCacheEntry,
+  getCacheEntryByUID,
+  getCacheEntryByPath,
+  getAllCacheEntries,
+  clearCache,
+  validateCacheConsistency
+} from './cache';
+import {
+  StoredAttachments,
+  attachmentsChanged,
+  planAttachments,
+  resolveAttachments,
+  saveAttachments,
+  writeAttachments
+} from './attachments';
+
+/**
+ * Manages the collection of contact notes in the vault
+ * Keeps UID and path indices current by listening to vault events
+ */
+export class ContactManager {
+  private app: App;
+  private settings: ContactsPluginSettings;
+  private uidIndex: Map<string, ContactCacheEntry> = new Map();
+  private pathIndex: Map<string, string> = new Map();
+  private eventRefs: EventRef[] = [];
+
+  /**
+   * Create a new ContactManager
+   * @param app - Obsidian app instance
+   * @param settings - Plugin settings
+   */
+  constructor(app: App, settings: ContactsPluginSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  /**
+   * Scan the contacts folder and rebuild the UID and path indices
+   */
+  async initializeCache(): Promise<void> {
+    const entries: ContactCacheEntry[] = [];
+    const seenUIDs = new Map<string, string>();
+
+    for (const file of this.findContactFiles()) {
+      const entry = await this.readCacheEntry(file);
+      if (!entry) {
+        continue;
+      }
+
+      const duplicatePath = seenUIDs.get(entry.uid);
+      if (duplicatePath) {
+        console.warn(`[ContactManager] Duplicate UID ${entry.uid} in ${entry.path} and ${duplicatePath}`);
+        continue;
+      }
+
+      seenUIDs.set(entry.uid, entry.path);
+      entries.push(entry);
+    }
+
+    this.uidIndex = buildUIDIndex(entries);
+    this.pathIndex = buildPathIndex(entries);
+  }
+
+  /**
+   * Register vault event listeners that keep the cache current
+   */
+  setupEventListeners(): void {
+    if (this.eventRefs.length > 0) {
+      return;
+    }
+
+    this.eventRefs.push(
+      this.app.vault.on('create', (file) => this.onFileCreate(file)),
+      this.app.vault.on('modify', (file) => this.onFileModify(file)),
+      this.app.vault.on('delete', (file) => this.onFileDelete(file)),
+      this.app.vault.on('rename', (file, oldPath) => this.onFileRename(file, oldPath))
+    );
+  }
+
+  /**
+   * Remove all registered vault event listeners
+   */
+  cleanupEventListeners(): void {
+    for (const ref of this.eventRefs) {
+      this.app.vault.offref(ref);
+    }
+    this.eventRefs = [];
+  }
+
+  /**
+   * Verify that the cache indices agree with each other and with the vault
+   * Rebuilds the cache from the vault when an inconsistency is found
+   */
+  async ensureContactDataConsistency(): Promise<void> {
+    const errors = validateCacheConsistency(this.uidIndex, this.pathIndex);
+
+    for (const entry of getAllCacheEntries(this.uidIndex)) {
+      if (!(this.app.vault.getAbstractFileByPath(entry.path) instanceof TFile)) {
+        errors.push(`UID ${entry.uid} points to missing file ${entry.path}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      console.debug(`[ContactManager] Rebuilding cache after ${errors.length} consistency error(s)`);
+      errors.forEach(error => console.debug(`[ContactManager] ${error}`));
+      await this.initializeCache();
+    }
+  }
+
+  /**
+   * Update settings, rescanning if the contacts folder changed
+   * @param settings - New plugin settings
+   */
+  async updateSettings(settings: ContactsPluginSettings): Promise<void> {
+    const folderChanged = settings.contactsFolder !== this.settings.contactsFolder;
+    this.settings = settings;
+
+    if (folderChanged) {
+      await this.initializeCache();
+    }
+  }
+
+  /**
+   * Get a contact by UID
+   * @param uid - Contact UID
+   * @returns Cache entry or undefined if not found
+   */
+  getContactByUID(uid: string): ContactCacheEntry | undefined {
+    return getCacheEntryByUID(this.uidIndex, uid);
+  }
+
+  /**
+   * Get a contact by file path
+   * @param path - File path in vault
+   * @returns Cache entry or undefined if not found
+   */
+  getContactByPath(path: string): ContactCacheEntry | undefined {
+    return getCacheEntryByPath(this.uidIndex, this.pathIndex, path);
+  }
+
+  /**
+   * Get a contact by name or note file name (case-insensitive)
+   * @param name - Contact name (FN) or note basename, as used in wiki-links
+   * @returns Cache entry or undefined if not found
+   */
+  getContactByName(name: string): ContactCacheEntry | undefined {
+    const target = name.replace(/\.md$/i, '').toLowerCase();
+    const basename = (entry: ContactCacheEntry) => entry.path.substring(entry.path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+    const entries = this.getAllContacts();
+    return entries.find(entry => entry.path.replace(/\.md$/, '').toLowerCase() === target || basename(entry).toLowerCase() === target)
+      ?? entries.find(entry => entry.name.toLowerCase() === target);
+  }
+
+  /**
+   * Resolve a MEMBER or RELATED reference to a contact
+   * @param reference - urn:uuid:, uid: or name: reference, or a bare UID
+   * @returns Cache entry or undefined if the reference does not match a contact
+   */
+  resolveReference(reference: string): ContactCacheEntry | undefined {
+    if (reference.startsWith('name:')) {
+      return this.getContactByName(reference.substring(5));
+    }
+
+    const bare = reference.replace(/^(urn:uuid|uid):/i, '');
+    return this.getContactByUID(reference) ?? this.getContactByUID(bare) ?? this.getContactByUID(`urn:uuid:${bare}`);
+  }
+
+  /**
+   * Check whether contact data differs from the cached note data
+   * Data that only differs in key order, formatting or REV counts as unchanged
+   * @param uid - Contact UID
+   * @param data - Contact data, e.g. from a VCF file
+   * @returns True if the contact is not cached or its fingerprint differs
+   */
+  hasContactChanged(uid: string, data: Record<string, any>): boolean {
+    const entry = this.getContactByUID(uid);
+    return !entry || entry.fingerprint !== fingerprintContact(data);
+  }
+
+  /**
+   * Get all cached contacts
+   * @returns Array of cache entries
+   */
+  getAllContacts(): ContactCacheEntry[] {
+    return getAllCacheEntries(this.uidIndex);
+  }
+
+  /**
+   * Get the number of cached contacts
+   * @returns Number of contacts
+   */
+  getContactCount(): number {
+    return this.uidIndex.size;
+  }
+
+  /**
+   * Get the file for a cached contact
+   * @param uid - Contact UID
+   * @returns TFile or null if the contact or file does not exist
+   */
+  getContactFile(uid: string): TFile | null {
+    const entry = this.getContactByUID(uid);
+    if (!entry) {
+      return null;
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    return file instanceof TFile ? file : null;
+  }
+
+  /**
+   * Import contacts as contact notes
+   * Contacts without a UID get one. A contact is a duplicate when its UID is already in the
+   * vault or earlier in the batch, or when a contact with the same name exists; duplicates
+   * are skipped. When overwriting, a contact whose UID is in the vault updates that note (after
+   * confirmUpdate, if given, accepts the diff of the note's fields) while a name match alone is
+   * still skipped. With a sync base the update is a three-way merge
+   * that keeps the note's own changes. Embedded PHOTO, LOGO and SOUND
+   * data is written to the attachments folder and embedded in the note; for an update only
+   * once the update is accepted
+   * @param contacts - Contact data from a VCF, jCard, xCard or CSV file
+   * @param options - Import options; with createNotes false nothing is written and the result is a dry run
+   * @returns Counts of created, updated and skipped contacts and the errors of failed ones
+   */
+  async importContacts(contacts: VCardData[], options: BatchImportOptions): Promise<ContactImportResult> {
+    const result: ContactImportResult = { created: 0, updated: 0, skipped: 0, errors: [] };
+    const folder = options.targetFolder?.replace(/^\/+|\/+$/g, '') ?? this.getContactsFolder();
+    const seenUIDs = new Set<string>();
+    const names = new Map<string, ContactCacheEntry>();
+    for (const entry of this.getAllContacts()) {
+      names.set(entry.name.toLowerCase(), entry);
+    }
+
+    for (const contact of contacts) {
+      const data = { ...contact, UID: contact.UID || `urn:uuid:${generateUUID()}` };
+      const name = String(this.getDisplayName(data) || data.UID);
+
+      if (seenUIDs.has(data.UID)) {
+        result.skipped++;
+        continue;
+      }
+      seenUIDs.add(data.UID);
+
+      try {
+        const existing = this.getContactByUID(data.UID);
+        // A different contact with the same name is never overwritten
+        if (!existing && names.has(name.toLowerCase())) {
+          result.skipped++;
+          continue;
+        }
+        if (existing) {
+          if (!options.overwrite) {
+            result.skipped++;
+            continue;
+          }
+          if (options.createNotes) {
+            const attachments = planAttachments(data, existing.name, this.settings);
+            if (!(await this.updateContactNote(existing, attachments, options))) {
+              result.skipped++;
+              continue;
+            }
+          }
+          result.updated++;
+          continue;
+        }
+
+        if (options.createNotes) {
+          const { data: stored, embeds } = await saveAttachments(this.app, data, name, this.settings);
+          const note = await ContactNote.create(this.app, name, folder, this.settings, stored, embeds.join('\n'));
+          options.syncBase?.set(data.UID, stored);
+          names.set(name.toLowerCase(), { uid: data.UID, path: note.path, name, mtime: Date.now() });
+        }
+        result.created++;
+      } catch (error) {
+        result.errors.push(`${name}: ${error.message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Generate the vCard written back for a contact
+   * Attachment links become data URIs or URIs as configured, in the write-back vCard version
+   * @param uid - Contact UID
+   * @returns vCard content, or null if the contact or its file does not exist
+   */
+  async generateContactVcf(uid: string): Promise<string | null> {
+    const file = this.getContactFile(uid);
+    if (!file) {
+      return null;
+    }
+
+    const { frontmatter } = parseFrontmatter(await this.app.vault.cachedRead(file));
+    const data = await resolveAttachments(this.app, frontmatter, this.settings);
+    return generateVcfContact(data as VCardData, { version: this.settings.vcardWriteBackVersion });
+  }
+
+  /**
+   * Clear the cache indices
+   */
+  clear(): void {
+    clearCache(this.uidIndex, this.pathIndex);
+  }
+
+  /**
+   * Check whether a file lives in the contacts folder and is a markdown note
+   * @param file - File to check
+   * @returns True if the file is a candidate contact note
+   */
+  isContactFile(file: TAbstractFile): file is TFile {
+    if (!(file instanceof TFile) || file.extension !== 'md') {
+      return false;
+    }
+
+    const folder = this.getContactsFolder();
+    return folder === '' || file.path.startsWith(`${folder}/`);
+  }
+
+  /**
+   * Find all markdown files in the contacts folder
+   * @returns Array of candidate contact files
+   */
+  findContactFiles(): TFile[] {
+    return this.app.vault.getMarkdownFiles().filter(file => this.isContactFile(file));
+  }
+
+  /**
+   * Handle file creation
+   */
+  private async onFileCreate(file: TAbstractFile): Promise<void> {
+    if (!this.isContactFile(file)) {
+      return;
+    }
+
+    await this.refreshFile(file);
+  }
+
+  /**
+   * Handle file modification
+   */
+  private async onFileModify(file: TAbstractFile): Promise<void> {
+    if (!this.isContactFile(file)) {
+      return;
+    }
+
+    await this.refreshFile(file);
+  }
+
+  /**
+   * Handle file deletion
+   */
+  private async onFileDelete(file: TAbstractFile): Promise<void> {
+    this.removePath(file.path);
+  }
+
+  /**
+   * Handle file rename or move
+   */
+  private async onFileRename(file: TAbstractFile, oldPath: string): Promise<void> {
+    this.removePath(oldPath);
+
+    if (this.isContactFile(file)) {
+      await this.refreshFile(file);
+    }
+  }
+
+  /**
+   * Re-read a file and update or remove its cache entry
+   * @param file - Contact file
+   */
+  private async refreshFile(file: TFile): Promise<void> {
+    try {
+      const entry = await this.readCacheEntry(file);
+      const previousUID = this.pathIndex.get(file.path);
+
+      // The UID of this file changed (or was removed), drop the stale entry
+      if (previousUID && previousUID !== entry?.uid) {
+        removeCacheEntry(this.uidIndex, this.pathIndex, previousUID);
+      }
+
+      if (!entry) {
+        return;
+      }
+
+      const existing = this.uidIndex.get(entry.uid);
+      if (existing && existing.path !== entry.path) {
+        console.warn(`[ContactManager] Duplicate UID ${entry.uid} in ${entry.path} and ${existing.path}`);
+        return;
+      }
+
+      updateCacheEntry(this.uidIndex, this.pathIndex, entry);
+    } catch (error) {
+      console.error(`[ContactManager] Error updating cache for ${file.path}:`, error);
+    }
+  }
+
+  /**
+   * Remove the cache entry indexed under a path
+   * @param path - File path
+   */
+  private removePath(path: string): void {
+    const uid = this.pathIndex.get(path);
+    if (uid) {
+      removeCacheEntry(this.uidIndex, this.pathIndex, uid);
+    }
+  }
+
+  /**
+   * Get the formatted name of a contact in the display language
+   * @param data - Contact data
+   * @returns FN in the display language if the contact has it, otherwise FN
+   */
+  private getDisplayName(data: Record<string, any>): any {
+    return getValueInLanguage(data, 'FN', this.settings.displayLanguage || '');
+  }
+
+  /**
+   * Build a cache entry from a contact file
+   * @param file - Contact file
+   * @returns Cache entry or null if the file has no UID
+   */
+  private async readCacheEntry(file: TFile): Promise<ContactCacheEntry | null> {
+    const content = await this.app.vault.cachedRead(file);
+    const { frontmatter } = parseFrontmatter(content);
+
+    if (!frontmatter.UID || typeof frontmatter.UID !== 'string') {
+      return null;
+    }
+
+    const name = this.getDisplayName(frontmatter);
+    return {
+      uid: frontmatter.UID,
+      path: file.path,
+      name: typeof name === 'string' && name ? name : file.basename,
+      mtime: file.stat?.mtime ?? 0,
+      fingerprint: fingerprintContact(frontmatter)
+    };
+  }
+
+  /**
+   * Replace the vCard fields of an existing contact note with imported data
+   * Fields the import does not set are kept, and the note keeps its UID. When the sync base has
+   * the contact, only the fields changed since the last sync are taken, and fields changed on
+   * both sides are decided by REV or resolveConflicts. Nothing is written, attachment files
+   * included, when the merged data has the fingerprint of the note's data, no embeds are missing
+   * and the attachment files are unchanged, when confirmUpdate declines the changes, or when
+   * conflicts are not resolved. The sync base takes the imported data once the note holds it,
+   * so a declined update or unresolved conflicts keep the previous base
+   * @param entry - Cache entry of the existing contact
+   * @param attachments - Imported contact data, its attachment files and the embeds to add to the body if it lacks them
+   * @param options - Import options with the sync base and the confirmation callbacks
+   * @returns True if the note was written
+   */
+  private async updateContactNote(
+    entry: ContactCacheEntry,
+    attachments: StoredAttachments<VCardData>,
+    options: Partial<BatchImportOptions> = {}
+  ): Promise<boolean> {
+    const { data, embeds, files } = attachments;
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) {
+      throw new Error(`Cannot update contact: ${entry.path} not found`);
+    }
+
+    const note = await ContactNote.fromFile(this.app, file, this.settings);
+    let frontmatter: Record<string, any> = { ...note.frontmatter, ...data, UID: entry.uid };
+    const base = options.syncBase?.get(entry.uid);
+    if (base) {
+      const result = mergeContacts(base, note.frontmatter, data, { preferNewerRev: options.preferNewerRev });
+      let merged = result.merged;
+      if (result.conflicts.length > 0) {
+        const choices = options.resolveConflicts ? await options.resolveConflicts(entry.name, result.conflicts) : null;
+        if (!choices) {
+          return false;
+        }
+        merged = resolveMergeConflicts(result, choices);
+      }
+      frontmatter = { ...merged, UID: entry.uid };
+    }
+
+    const missing = embeds.filter(embed => !note.content.includes(embed));
+    const changed = fingerprintContact(frontmatter) !== fingerprintContact(note.frontmatter);
+    const replaced = await attachmentsChanged(this.app, files);
+    if (!changed && !replaced && missing.length === 0) {
+      options.syncBase?.set(entry.uid, data);
+      return false;
+    }
+    if ((changed || replaced) && options.confirmUpdate && !(await options.confirmUpdate(entry.name, diffContacts(note.frontmatter, frontmatter)))) {
+      return false;
+    }
+
+    await writeAttachments(this.app, files);
+    if (missing.length > 0) {
+      note.frontmatter = frontmatter;
+      note.content = `${note.content.replace(/\n*$/, '\n')}\n${missing.join('\n')}\n`;
+      await note.save();
+    } else if (changed) {
+      await note.setFrontmatter(frontmatter);
+    }
+    options.syncBase?.set(entry.uid, data);
+    return true;
+  }
+
+  /**
+   * Get the normalized contacts folder path
+   * @returns Folder path without leading or trailing slashes
+   */
+  private getContactsFolder(): string {
+    return (this.settings.contactsFolder || '').replace(/^\/+|\/+$/g, '');
+  }
+}
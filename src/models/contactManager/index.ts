@@ -0,0 +1,40 @@
+/**
+ * ContactManager module exports
+ */
+
+export type {
+  ContactCacheEntry,
+  ContactImportResult,
+  SyncBase,
+  RelationshipValidationResult,
+  RelationshipError,
+  RelationshipWarning,
+  ReverseRelationshipMap
+} from './types';
+
+export { ContactManager } from './contactManager';
+
+export { saveAttachments, planAttachments, writeAttachments, attachmentsChanged, resolveAttachments } from './attachments';
+export type { AttachmentFile, StoredAttachments } from './attachments';
+
+export { SyncBaseStore } from './syncBase';
+
+export {
+  buildUIDIndex,
+  buildPathIndex,
+  updateCacheEntry,
+  removeCacheEntry,
+  getCacheEntryByUID,
+  getCacheEntryByPath,
+  getAllCacheEntries,
+  clearCache,
+  validateCacheConsistency
+} from './cache';
+
+export {
+  getReverseRelationshipType,
+  isSymmetricRelationship,
+  normalizeRelationshipTypeForComparison,
+  validateRelationshipPair,
+  getPossibleReverseTypes
+} from './relationships';
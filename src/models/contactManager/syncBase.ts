@@ -0,0 +1,72 @@
+/**
+ * Store of the contact data of the last sync
+ */
+
+import { App } from 'obsidian';
+import { SyncBase } from './types';
+
+/**
+ * Keeps the data of each contact as last synced with the watch folder, by UID,
+ * in a JSON file of the plugin; used as the base of three-way merges
+ */
+export class SyncBaseStore implements SyncBase {
+  private app: App;
+  private path: string;
+  private bases: Record<string, Record<string, any>> = {};
+  private dirty: boolean = false;
+
+  /**
+   * Create a new SyncBaseStore
+   * @param app - Obsidian app instance
+   * @param path - Path of the JSON file, relative to the vault root
+   */
+  constructor(app: App, path: string) {
+    this.app = app;
+    this.path = path;
+  }
+
+  /**
+   * Read the stored data; a missing or unreadable file leaves the store empty
+   */
+  async load(): Promise<void> {
+    this.bases = {};
+    this.dirty = false;
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        this.bases = JSON.parse(await this.app.vault.adapter.read(this.path));
+      }
+    } catch (error) {
+      console.warn(`[SyncBaseStore] Cannot read ${this.path}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the last synced data of a contact
+   * @param uid - Contact UID
+   * @returns Contact data, or undefined if the contact was not synced yet
+   */
+  get(uid: string): Record<string, any> | undefined {
+    return this.bases[uid];
+  }
+
+  /**
+   * Record the synced data of a contact
+   * @param uid - Contact UID
+   * @param data - Contact data
+   */
+  set(uid: string, data: Record<string, any>): void {
+    this.bases[uid] = { ...data };
+    this.dirty = true;
+  }
+
+  /**
+   * Write the data if it changed since it was loaded or saved
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+    await this.app.vault.adapter.write(this.path, JSON.stringify(this.bases));
+    this.dirty = false;
+  }
+}
@@ -14,6 +14,32 @@ export interface ContactCacheEntry {
   name: string;
   /** Last modified time */
   mtime: number;
+  /** Content fingerprint of the contact's vCard data, see fingerprintContact */
+  fingerprint?: string;
+}
+
+/**
+ * Contact data as of the last sync, the base of three-way merges
+ */
+export interface SyncBase {
+  /** Get the last synced data of a contact */
+  get(uid: string): Record<string, any> | undefined;
+  /** Record the synced data of a contact */
+  set(uid: string, data: Record<string, any>): void;
+}
+
+/**
+ * Result of importing contacts into the vault
+ */
+export interface ContactImportResult {
+  /** Number of contact notes created */
+  created: number;
+  /** Number of existing contact notes updated */
+  updated: number;
+  /** Number of contacts skipped as duplicates, or whose note already had the same data */
+  skipped: number;
+  /** Error messages of contacts that could not be imported */
+  errors: string[];
 }
 
 /**
@@ -0,0 +1,466 @@
+/**
+ * ContactNote class - A contact note bound to a file in the vault
+ */
+
+import { App, TFile, normalizePath } from 'obsidian';
+import type { ContactsPluginSettings } from '../../plugin/settings';
+import { ContactKind, ContactSectionData, GroupMember, Relationship } from './types';
+import { parseFrontmatter, generateFrontmatter, splitFrontmatter, replaceFrontmatterAndBody } from './frontmatter';
+import {
+  parseRelatedFrontmatter,
+  generateRelatedFrontmatter,
+  generateRelatedSection,
+  normalizeRelationshipType
+} from './relationships';
+import { parseKind, parseMemberFrontmatter, generateMemberFrontmatter } from './members';
+import {
+  parseContactSection,
+  generateContactSection,
+  findSection,
+  replaceSection
+} from './markdown';
+
+/**
+ * Generate a UUID v4
+ * @returns Random UUID string
+ */
+export function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = Math.random() * 16 | 0;
+    const v = c === 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+}
+
+/**
+ * Format a date as a vCard REV timestamp (e.g. 20250125T103000Z)
+ * @param date - Date to format
+ * @returns REV timestamp string
+ */
+export function formatREV(date: Date = new Date()): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Represents a single contact note
+ *
+ * `frontmatter` and `content` (the body without frontmatter) hold the working
+ * copy of the note. Curator processors mutate them directly and call `save()`;
+ * the other mutators update the working copy and persist immediately.
+ */
+export class ContactNote {
+  /** Obsidian file reference */
+  public file: TFile;
+
+  /** Working copy of the frontmatter */
+  public frontmatter: Record<string, any>;
+
+  /** Working copy of the note body (without frontmatter) */
+  public content: string;
+
+  private app: App;
+  private settings: ContactsPluginSettings;
+
+  /**
+   * Create a ContactNote from already loaded data
+   * @param app - Obsidian app instance
+   * @param file - Contact file
+   * @param settings - Plugin settings
+   * @param frontmatter - Frontmatter data
+   * @param content - Note body without frontmatter
+   */
+  constructor(
+    app: App,
+    file: TFile,
+    settings: ContactsPluginSettings,
+    frontmatter: Record<string, any> = {},
+    content: string = ''
+  ) {
+    this.app = app;
+    this.file = file;
+    this.settings = settings;
+    this.frontmatter = frontmatter;
+    this.content = content;
+  }
+
+  /**
+   * Load a contact note from a file
+   * @param app - Obsidian app instance
+   * @param file - Contact file
+   * @param settings - Plugin settings
+   * @returns ContactNote instance
+   */
+  static async fromFile(app: App, file: TFile, settings: ContactsPluginSettings): Promise<ContactNote> {
+    const note = new ContactNote(app, file, settings);
+    await note.reload();
+    return note;
+  }
+
+  /**
+   * Create a new contact note file with a fresh UID
+   * @param app - Obsidian app instance
+   * @param name - Contact display name (also used as filename)
+   * @param folder - Folder to create the note in ('' for vault root)
+   * @param settings - Plugin settings
+   * @param frontmatter - Additional frontmatter fields
+   * @param content - Markdown added to the note body after the default hashtags
+   * @returns ContactNote instance for the new file
+   */
+  static async create(
+    app: App,
+    name: string,
+    folder: string,
+    settings: ContactsPluginSettings,
+    frontmatter: Record<string, any> = {},
+    content: string = ''
+  ): Promise<ContactNote> {
+    const filename = name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim();
+    if (!filename) {
+      throw new Error(`Cannot create contact: invalid name "${name}"`);
+    }
+
+    const path = normalizePath(folder ? `${folder}/${filename}.md` : `${filename}.md`);
+    if (app.vault.getAbstractFileByPath(path)) {
+      throw new Error(`Cannot create contact: ${path} already exists`);
+    }
+
+    const data = {
+      UID: `urn:uuid:${generateUUID()}`,
+      FN: name,
+      ...frontmatter
+    };
+    const body = (settings.defaultHashtag ? `\n${settings.defaultHashtag}\n` : '') + (content ? `\n${content}\n` : '');
+    const file = await app.vault.create(path, `---\n${generateFrontmatter(data)}---\n${body}`);
+
+    return new ContactNote(app, file, settings, data, body);
+  }
+
+  /**
+   * File path in the vault
+   */
+  get path(): string {
+    return this.file.path;
+  }
+
+  /**
+   * Re-read frontmatter and body from the file, discarding unsaved changes
+   */
+  async reload(): Promise<void> {
+    const data = await this.app.vault.read(this.file);
+    const { frontmatter, body } = parseFrontmatter(data);
+    this.frontmatter = frontmatter;
+    this.content = body;
+  }
+
+  /**
+   * Persist the working copy of frontmatter and body to the file in a single write
+   */
+  async save(): Promise<void> {
+    const frontmatter = this.frontmatter;
+    const content = this.content;
+    await this.app.vault.process(this.file, (data) => replaceFrontmatterAndBody(data, frontmatter, content));
+  }
+
+  /**
+   * Get a copy of the frontmatter
+   * @returns Frontmatter data
+   */
+  async getFrontmatter(): Promise<Record<string, any>> {
+    return { ...this.frontmatter };
+  }
+
+  /**
+   * Replace the frontmatter
+   * @param data - New frontmatter data
+   */
+  async setFrontmatter(data: Record<string, any>): Promise<void> {
+    this.frontmatter = { ...data };
+    await this.saveFrontmatter();
+  }
+
+  /**
+   * Set or remove a single frontmatter field
+   * @param key - Field key
+   * @param value - Field value (undefined, null or '' removes the field)
+   */
+  async updateFrontmatterField(key: string, value: any): Promise<void> {
+    if (value === undefined || value === null || value === '') {
+      delete this.frontmatter[key];
+    } else {
+      this.frontmatter[key] = value;
+    }
+    await this.saveFrontmatter();
+  }
+
+  /**
+   * Get the contact UID
+   * @returns UID or undefined if not set
+   */
+  getUID(): string | undefined {
+    const uid = this.frontmatter.UID;
+    return typeof uid === 'string' && uid ? uid : undefined;
+  }
+
+  /**
+   * Set the contact UID
+   * @param uid - New UID
+   */
+  async setUID(uid: string): Promise<void> {
+    await this.updateFrontmatterField('UID', uid);
+  }
+
+  /**
+   * Make sure the contact has a UID, generating one if missing
+   * @returns The existing or newly generated UID
+   */
+  async ensureUID(): Promise<string> {
+    const existing = this.getUID();
+    if (existing) {
+      return existing;
+    }
+
+    const uid = `urn:uuid:${generateUUID()}`;
+    await this.setUID(uid);
+    return uid;
+  }
+
+  /**
+   * Get relationships from RELATED frontmatter fields
+   * @returns Array of relationships
+   */
+  getRelationships(): Relationship[] {
+    return parseRelatedFrontmatter(this.frontmatter);
+  }
+
+  /**
+   * Add a relationship, stored with its genderless type
+   * @param type - Relationship type
+   * @param target - Target UID or reference (urn:uuid:, uid: or name: prefixed)
+   */
+  async addRelationship(type: string, target: string): Promise<void> {
+    const relationship = this.toRelationship(type, target);
+    const relationships = this.getRelationships();
+
+    const exists = relationships.some(rel =>
+      normalizeRelationshipType(rel.type) === relationship.type &&
+      rel.targetUID === relationship.targetUID
+    );
+    if (exists) {
+      return;
+    }
+
+    relationships.push(relationship);
+    await this.writeRelationships(relationships);
+  }
+
+  /**
+   * Remove a relationship
+   * @param type - Relationship type (gendered or genderless)
+   * @param target - Target UID or reference
+   */
+  async removeRelationship(type: string, target: string): Promise<void> {
+    const removed = this.toRelationship(type, target);
+    const relationships = this.getRelationships();
+
+    const remaining = relationships.filter(rel =>
+      !(normalizeRelationshipType(rel.type) === removed.type && rel.targetUID === removed.targetUID)
+    );
+    if (remaining.length === relationships.length) {
+      return;
+    }
+
+    await this.writeRelationships(remaining);
+  }
+
+  /**
+   * Get the Related section markdown
+   * @returns Section markdown including heading, or '' if missing
+   */
+  getRelatedSection(): string {
+    return findSection(this.content, 'Related') ?? '';
+  }
+
+  /**
+   * Replace the Related section with the given relationships
+   * @param relationships - Relationships to render
+   */
+  async updateRelatedSection(relationships: Relationship[]): Promise<void> {
+    this.content = replaceSection(this.content, 'Related', generateRelatedSection(relationships));
+    await this.saveContent();
+  }
+
+  /**
+   * Parse the Contact section
+   * @returns Contact section data
+   */
+  getContactSection(): ContactSectionData {
+    return parseContactSection(this.content);
+  }
+
+  /**
+   * Replace the Contact section
+   * @param data - Contact section data to render
+   */
+  async updateContactSection(data: ContactSectionData): Promise<void> {
+    this.content = replaceSection(this.content, 'Contact', generateContactSection(data));
+    await this.saveContent();
+  }
+
+  /**
+   * Get the contact gender
+   * @returns Gender (M, F, O, N, U) or undefined if not set
+   */
+  getGender(): string | undefined {
+    const gender = this.frontmatter['GENDER.SEX'] ?? this.frontmatter.GENDER;
+    return typeof gender === 'string' && gender ? gender.toUpperCase() : undefined;
+  }
+
+  /**
+   * Set the contact gender, keeping the existing key style (GENDER or GENDER.SEX)
+   * @param gender - Gender (M, F, O, N, U)
+   */
+  async setGender(gender: string): Promise<void> {
+    const key = 'GENDER.SEX' in this.frontmatter ? 'GENDER.SEX' : 'GENDER';
+    await this.updateFrontmatterField(key, gender.toUpperCase());
+  }
+
+  /**
+   * Get the kind of object the contact represents
+   * @returns KIND, individual if missing or unknown
+   */
+  getKind(): ContactKind {
+    return parseKind(this.frontmatter);
+  }
+
+  /**
+   * Set the kind of object the contact represents
+   * @param kind - New kind
+   */
+  async setKind(kind: ContactKind): Promise<void> {
+    await this.updateFrontmatterField('KIND', kind);
+  }
+
+  /**
+   * Get the members of a group contact from MEMBER frontmatter fields
+   * @returns Members in index order
+   */
+  getMembers(): GroupMember[] {
+    return parseMemberFrontmatter(this.frontmatter);
+  }
+
+  /**
+   * Add a member to a group contact
+   * @param reference - MEMBER URI, e.g. urn:uuid:...
+   */
+  async addMember(reference: string): Promise<void> {
+    const members = this.getMembers();
+    if (members.some(member => member.reference === reference)) {
+      return;
+    }
+
+    members.push({ reference });
+    await this.writeMembers(members);
+  }
+
+  /**
+   * Remove a member from a group contact
+   * @param reference - MEMBER URI
+   */
+  async removeMember(reference: string): Promise<void> {
+    const members = this.getMembers();
+    const remaining = members.filter(member => member.reference !== reference);
+    if (remaining.length === members.length) {
+      return;
+    }
+
+    await this.writeMembers(remaining);
+  }
+
+  /**
+   * Get the revision timestamp
+   * @returns REV value or undefined if not set
+   */
+  getREV(): string | undefined {
+    return this.frontmatter.REV;
+  }
+
+  /**
+   * Set the revision timestamp to now
+   */
+  async updateREV(): Promise<void> {
+    await this.updateFrontmatterField('REV', formatREV());
+  }
+
+  /**
+   * Build a relationship from a type and a target reference
+   */
+  private toRelationship(type: string, target: string): Relationship {
+    const normalizedType = normalizeRelationshipType(type);
+
+    if (target.startsWith('urn:uuid:')) {
+      return { type: normalizedType, targetUID: target.substring(9), namespace: 'urn:uuid' };
+    }
+    if (target.startsWith('uid:')) {
+      return { type: normalizedType, targetUID: target.substring(4), namespace: 'uid' };
+    }
+    if (target.startsWith('name:')) {
+      const name = target.substring(5);
+      return { type: normalizedType, targetUID: name, targetName: name, namespace: 'name' };
+    }
+
+    const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(target);
+    return { type: normalizedType, targetUID: target, namespace: isUUID ? 'urn:uuid' : 'uid' };
+  }
+
+  /**
+   * Replace all RELATED frontmatter fields and persist
+   */
+  private async writeRelationships(relationships: Relationship[]): Promise<void> {
+    for (const key of Object.keys(this.frontmatter)) {
+      if (key.startsWith('RELATED.')) {
+        delete this.frontmatter[key];
+      }
+    }
+    Object.assign(this.frontmatter, generateRelatedFrontmatter(relationships));
+    await this.saveFrontmatter();
+  }
+
+  /**
+   * Replace all MEMBER frontmatter fields and persist
+   */
+  private async writeMembers(members: GroupMember[]): Promise<void> {
+    for (const key of Object.keys(this.frontmatter)) {
+      if (/^MEMBER(\.\d+)?$/.test(key)) {
+        delete this.frontmatter[key];
+      }
+    }
+    Object.assign(this.frontmatter, generateMemberFrontmatter(members));
+    await this.saveFrontmatter();
+  }
+
+  /**
+   * Write the working copy of the frontmatter through the file manager
+   */
+  private async saveFrontmatter(): Promise<void> {
+    const updated = this.frontmatter;
+    await this.app.fileManager.processFrontMatter(this.file, (frontmatter) => {
+      for (const key of Object.keys(frontmatter)) {
+        if (!(key in updated)) {
+          delete frontmatter[key];
+        }
+      }
+      Object.assign(frontmatter, updated);
+    });
+  }
+
+  /**
+   * Write the working copy of the body, leaving the frontmatter block untouched
+   */
+  private async saveContent(): Promise<void> {
+    const content = this.content;
+    await this.app.vault.process(this.file, (data) => {
+      const { body } = splitFrontmatter(data);
+      return data.substring(0, data.length - body.length) + content;
+    });
+  }
+}
@@ -5,38 +5,47 @@
 
 import YAML from 'yaml';
 import { ValidationResult } from './types';
+import { checkFrontmatterKey } from '../vcardFile/schema';
 
 /**
- * Parse frontmatter from markdown content
+ * Split markdown content into its frontmatter block and body without parsing the YAML
  * @param content - Full markdown content including frontmatter
- * @returns Object with frontmatter and body
+ * @returns YAML text (null without a frontmatter block) and body
  */
-export function parseFrontmatter(content: string): { frontmatter: Record<string, any>; body: string } {
+export function splitFrontmatter(content: string): { yaml: string | null; body: string } {
   const frontmatterRegex = /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/;
   const emptyFrontmatterRegex = /^---\s*\n---\s*\n([\s\S]*)$/;
   
   // Check for empty frontmatter first
   let match = content.match(emptyFrontmatterRegex);
   if (match) {
-    return {
-      frontmatter: {},
-      body: match[1]
-    };
+    return { yaml: '', body: match[1] };
   }
   
   // Check for regular frontmatter
   match = content.match(frontmatterRegex);
   if (!match) {
+    return { yaml: null, body: content };
+  }
+  return { yaml: match[1], body: match[2] };
+}
+
+/**
+ * Parse frontmatter from markdown content
+ * @param content - Full markdown content including frontmatter
+ * @returns Object with frontmatter and body
+ */
+export function parseFrontmatter(content: string): { frontmatter: Record<string, any>; body: string } {
+  const { yaml, body } = splitFrontmatter(content);
+  if (!yaml) {
     return {
       frontmatter: {},
-      body: content
+      body
     };
   }
   
   try {
-    const frontmatterText = match[1].trim();
-    const frontmatter = YAML.parse(frontmatterText) || {};
-    const body = match[2];
+    const frontmatter = YAML.parse(yaml.trim()) || {};
     return { frontmatter, body };
   } catch (error) {
     console.error('Error parsing frontmatter:', error);
@@ -47,6 +56,23 @@ export function parseFrontmatter(content: string): { frontmatter: Record<string,
   }
 }
 
+/**
+ * Replace frontmatter and body of markdown content
+ * Like processFrontMatter, a frontmatter block that is not valid YAML is not overwritten
+ * @param content - Current markdown content
+ * @param frontmatter - New frontmatter data
+ * @param body - New body
+ * @returns Updated markdown content
+ * @throws If the current frontmatter is not valid YAML
+ */
+export function replaceFrontmatterAndBody(content: string, frontmatter: Record<string, any>, body: string): string {
+  const { yaml } = splitFrontmatter(content);
+  if (yaml) {
+    YAML.parse(yaml.trim());
+  }
+  return `---\n${generateFrontmatter(frontmatter)}---\n${body}`;
+}
+
 /**
  * Generate YAML frontmatter string from data
  * @param data - Frontmatter data object
@@ -113,11 +139,15 @@ export function validateFrontmatter(data: Record<string, any>): ValidationResult
     errors.push('UID must be a string');
   }
   
-  // Check for invalid field types
+  // Check for invalid field types and keys outside the vCard property schema
   for (const [key, value] of Object.entries(data)) {
     if (value === undefined) {
       warnings.push(`Field ${key} is undefined`);
     }
+    const keyWarning = checkFrontmatterKey(key);
+    if (keyWarning) {
+      warnings.push(keyWarning);
+    }
   }
   
   return {
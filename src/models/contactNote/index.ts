@@ -2,7 +2,8 @@
  * ContactNote module exports
  */
 
-export type { Relationship, ContactSectionData, ContactField, Heading, ValidationResult } from './types';
+export { ContactNote, generateUUID, formatREV } from './contactNote';
+export type { Relationship, ContactKind, GroupMember, ContactSectionData, ContactField, Heading, ValidationResult } from './types';
 export { 
   parseFrontmatter, 
   generateFrontmatter, 
@@ -20,11 +21,21 @@ export {
   inferGenderFromType,
   findRelatedHeading
 } from './relationships';
+export {
+  parseKind,
+  parseMembersSection,
+  generateMembersSection,
+  parseMemberFrontmatter,
+  generateMemberFrontmatter,
+  formatMemberReference
+} from './members';
 export {
   parseContactSection,
   generateContactSection,
   extractHeadings,
   findSectionByHeading,
   replaceSectionByHeading,
+  findSection,
+  replaceSection,
   ensureSectionOrder
 } from './markdown';
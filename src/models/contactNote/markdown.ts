@@ -149,6 +149,45 @@ export function replaceSectionByHeading(content: string, heading: string, newCon
   return `${before}\n${newContent}\n${after}`;
 }
 
+/**
+ * Find a complete section, heading line included
+ * @param content - Markdown content
+ * @param heading - Heading text to search for
+ * @returns Section markdown or null if not found
+ */
+export function findSection(content: string, heading: string): string | null {
+  const range = findSectionRange(content, heading);
+  if (!range) {
+    return null;
+  }
+
+  return content.substring(range.start, range.end).trim();
+}
+
+/**
+ * Replace a complete section, heading line included, with new section markdown
+ * @param content - Markdown content
+ * @param heading - Heading text to search for
+ * @param section - New section markdown, including its heading
+ * @returns Updated markdown content (section appended if not found)
+ */
+export function replaceSection(content: string, heading: string, section: string): string {
+  const range = findSectionRange(content, heading);
+
+  if (!range) {
+    return section ? `${content.trimEnd()}\n\n${section}\n` : content;
+  }
+
+  const before = content.substring(0, range.start);
+  const after = content.substring(range.end);
+
+  if (!section) {
+    return `${before.trimEnd()}\n${after ? `\n${after}` : ''}`;
+  }
+
+  return `${before}${section}\n${after ? `\n${after}` : ''}`;
+}
+
 /**
  * Ensure sections appear in correct order
  * @param content - Markdown content
@@ -280,3 +319,24 @@ function extractTypeLabel(line: string, value: string): string | undefined {
   
   return undefined;
 }
+
+/**
+ * Locate a section from its heading line to the next heading
+ * @param content - Markdown content
+ * @param heading - Heading text to search for
+ * @returns Start and end character indices or null if not found
+ */
+function findSectionRange(content: string, heading: string): { start: number; end: number } | null {
+  const headingRegex = new RegExp(`^#{1,6}\\s+${heading}\\s*$`, 'im');
+  const match = headingRegex.exec(content);
+
+  if (!match) {
+    return null;
+  }
+
+  const bodyStart = match.index + match[0].length;
+  const nextHeadingMatch = content.substring(bodyStart).match(/^#{1,6}\s+/m);
+  const end = nextHeadingMatch ? bodyStart + nextHeadingMatch.index! : content.length;
+
+  return { start: match.index, end };
+}
@@ -0,0 +1,115 @@
+/**
+ * Group member operations for contact notes
+ * Handles parsing and generation of the Members section and MEMBER frontmatter fields
+ */
+
+import { ContactKind, GroupMember } from './types';
+import { findSection } from './markdown';
+
+/**
+ * Kinds a contact can have; unknown KIND values are treated as individual
+ */
+const CONTACT_KINDS: ContactKind[] = ['individual', 'group', 'org', 'location'];
+
+/**
+ * Get the kind of a contact from its frontmatter
+ * @param frontmatter - Frontmatter data
+ * @returns Contact kind, individual if KIND is missing or unknown
+ */
+export function parseKind(frontmatter: Record<string, any>): ContactKind {
+  const kind = String(frontmatter.KIND ?? '').toLowerCase() as ContactKind;
+  return CONTACT_KINDS.includes(kind) ? kind : 'individual';
+}
+
+/**
+ * Parse members from the Members markdown section
+ * Wiki-links name member notes; other list items are kept as MEMBER URIs
+ * @param content - Markdown content
+ * @returns Members in list order
+ */
+export function parseMembersSection(content: string): GroupMember[] {
+  const section = findSection(content, 'Members');
+  if (!section) {
+    return [];
+  }
+
+  const members: GroupMember[] = [];
+  const listItemRegex = /^[-*]\s+(.+?)\s*$/gm;
+  let match;
+
+  while ((match = listItemRegex.exec(section)) !== null) {
+    const link = match[1].match(/^\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]$/);
+    if (link) {
+      members.push({ reference: '', name: link[1].trim() });
+    } else if (/^[a-z][a-z0-9+.-]*:\S+$/i.test(match[1])) {
+      members.push({ reference: match[1] });
+    }
+  }
+
+  return members;
+}
+
+/**
+ * Generate Members section markdown
+ * @param members - Members, linked by name when known
+ * @returns Markdown string for the Members section, or '' if there are no members
+ */
+export function generateMembersSection(members: GroupMember[]): string {
+  if (members.length === 0) {
+    return '';
+  }
+
+  const lines: string[] = ['## Members', ''];
+  for (const member of members) {
+    lines.push(member.name ? `- [[${member.name}]]` : `- ${member.reference}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Parse members from MEMBER frontmatter fields
+ * @param frontmatter - Frontmatter data
+ * @returns Members in index order
+ */
+export function parseMemberFrontmatter(frontmatter: Record<string, any>): GroupMember[] {
+  return Object.keys(frontmatter)
+    .map(key => ({ key, match: key.match(/^MEMBER(?:\.(\d+))?$/) }))
+    .filter(({ key, match }) => match && typeof frontmatter[key] === 'string' && frontmatter[key] !== '')
+    .sort((a, b) => Number(a.match![1] ?? -1) - Number(b.match![1] ?? -1))
+    .map(({ key }) => {
+      const reference: string = frontmatter[key];
+      return reference.startsWith('name:') ? { reference, name: reference.substring(5) } : { reference };
+    });
+}
+
+/**
+ * Generate MEMBER frontmatter fields
+ * A single member is stored as MEMBER, several as MEMBER.0, MEMBER.1, ...
+ * @param members - Members with a reference
+ * @returns Frontmatter fields object
+ */
+export function generateMemberFrontmatter(members: GroupMember[]): Record<string, any> {
+  const references = members.map(member => member.reference).filter(reference => reference !== '');
+  if (references.length === 1) {
+    return { MEMBER: references[0] };
+  }
+
+  const frontmatter: Record<string, any> = {};
+  references.forEach((reference, index) => {
+    frontmatter[`MEMBER.${index}`] = reference;
+  });
+  return frontmatter;
+}
+
+/**
+ * Format the MEMBER URI of a contact
+ * @param uid - UID of the member contact
+ * @returns The UID if it is a URI, urn:uuid: for bare UUIDs, otherwise uid:
+ */
+export function formatMemberReference(uid: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(uid)) {
+    return uid;
+  }
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uid) ? `urn:uuid:${uid}` : `uid:${uid}`;
+}
@@ -16,6 +16,21 @@ export interface Relationship {
   namespace: 'urn:uuid' | 'uid' | 'name';
 }
 
+/**
+ * Kind of object a contact represents (RFC 6350 section 6.1.4)
+ */
+export type ContactKind = 'individual' | 'group' | 'org' | 'location';
+
+/**
+ * A member of a group contact
+ */
+export interface GroupMember {
+  /** MEMBER URI (e.g. "urn:uuid:..."); empty until a Members section entry is resolved */
+  reference: string;
+  /** Name of the member's contact note, if known */
+  name?: string;
+}
+
 /**
  * Contact section data structure
  */
@@ -0,0 +1,276 @@
+/**
+ * CuratorManager - Coordinates sequential curator processor execution
+ */
+
+import { App, Notice, Plugin, TFile } from 'obsidian';
+import type { ContactsPluginSettings } from '../../plugin/settings';
+import type { ContactManager } from '../contactManager';
+import { ContactNote } from '../contactNote';
+import type { CuratorProcessor, CuratorSetting, CuratorRunResult } from './types';
+import { RunType } from './types';
+import { ProcessorRegistry } from './processorRegistry';
+import { CuratorQueue } from './queue';
+
+/**
+ * Module-level registry of the available curator processors
+ * Processors are registered at load time (see curatorRegistration.ts) so
+ * their settings are known before any CuratorManager is created
+ */
+export class CuratorService {
+    private registry: ProcessorRegistry = new ProcessorRegistry();
+
+    /**
+     * Register a processor
+     */
+    register(processor: CuratorProcessor): void {
+        this.registry.register(processor);
+    }
+
+    /**
+     * Get all processors in dependency order
+     */
+    getProcessors(): CuratorProcessor[] {
+        return this.registry.getSorted();
+    }
+
+    /**
+     * Get the plugin settings contributed by the registered processors
+     */
+    settings(): CuratorSetting[] {
+        const settings: CuratorSetting[] = [];
+
+        for (const processor of this.registry.getSorted()) {
+            if (processor.settingProperties) {
+                settings.push({
+                    settingPropertyName: processor.settingProperties.key,
+                    settingDefaultValue: processor.settingProperties.default,
+                    name: processor.settingProperties.name,
+                    description: processor.settingProperties.description
+                });
+            }
+        }
+
+        return settings;
+    }
+}
+
+/**
+ * Shared curator service instance
+ */
+export const curatorService = new CuratorService();
+
+/**
+ * Runs curator processors over contact notes, one contact and one processor at a time
+ */
+export class CuratorManager {
+    private app: App;
+    private settings: ContactsPluginSettings;
+    private contactManager: ContactManager;
+    private registry: ProcessorRegistry = new ProcessorRegistry();
+    private queue: CuratorQueue = new CuratorQueue();
+
+    /**
+     * Create a new CuratorManager with all processors known to the curator service
+     * @param app - Obsidian app instance
+     * @param settings - Plugin settings
+     * @param contactManager - Contact registry used to resolve contact files
+     */
+    constructor(app: App, settings: ContactsPluginSettings, contactManager: ContactManager) {
+        this.app = app;
+        this.settings = settings;
+        this.contactManager = contactManager;
+
+        for (const processor of curatorService.getProcessors()) {
+            this.registerProcessor(processor);
+        }
+    }
+
+    /**
+     * Register a processor with this manager
+     */
+    registerProcessor(processor: CuratorProcessor): void {
+        this.registry.register(processor);
+    }
+
+    /**
+     * Get a processor by name
+     */
+    getProcessor(name: string): CuratorProcessor | undefined {
+        return this.registry.get(name);
+    }
+
+    /**
+     * Update the settings passed to processors
+     */
+    updateSettings(settings: ContactsPluginSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Add a contact to the processing queue
+     */
+    enqueueContact(contact: ContactNote, runType: RunType): void {
+        this.queue.enqueue(contact, runType);
+    }
+
+    /**
+     * Drain the queue, running the processors on each contact in turn
+     * Returns immediately if the queue is already being processed
+     */
+    async processQueue(): Promise<CuratorRunResult> {
+        const result: CuratorRunResult = { processed: 0, changed: 0, errors: [] };
+
+        if (this.queue.getStatus().isProcessing) {
+            return result;
+        }
+
+        try {
+            let item = this.queue.dequeue();
+            while (item) {
+                this.queue.setProcessing(true, item.contact.path);
+
+                try {
+                    if (await this.runProcessors(item.contact, result.errors)) {
+                        await item.contact.save();
+                        result.changed++;
+                    }
+                } catch (error: any) {
+                    console.error(`[CuratorManager] Error saving ${item.contact.path}:`, error);
+                    result.errors.push(`${item.contact.path}: ${error?.message ?? error}`);
+                }
+                result.processed++;
+
+                item = this.queue.dequeue();
+            }
+        } finally {
+            this.queue.setProcessing(false);
+        }
+
+        return result;
+    }
+
+    /**
+     * Run all enabled processors on a contact in dependency order
+     * Processor failures are logged and collected without stopping later processors
+     * @param contact - Contact to process (mutated in place)
+     * @param errors - Collector for processor error messages
+     * @returns True if the contact's frontmatter or content changed
+     */
+    async runProcessors(contact: ContactNote, errors: string[] = []): Promise<boolean> {
+        const before = this.snapshot(contact);
+
+        for (const processor of this.registry.getSorted()) {
+            if (!this.isEnabled(processor)) {
+                continue;
+            }
+
+            try {
+                await this.runProcessor(processor, contact);
+            } catch (error: any) {
+                const message = `${contact.path}: ${processor.name}: ${error?.message ?? error}`;
+                console.error(`[CuratorManager] ${message}`);
+                errors.push(message);
+            }
+        }
+
+        return this.snapshot(contact) !== before;
+    }
+
+    /**
+     * Run a single processor on a contact if it applies
+     */
+    async runProcessor(processor: CuratorProcessor, contact: ContactNote): Promise<void> {
+        if (await processor.shouldRun(contact, this.settings, this.contactManager)) {
+            await processor.process(contact, this.settings, this.contactManager);
+        }
+    }
+
+    /**
+     * Run the pipeline on a set of contact files
+     * @param files - Contact files to process
+     * @param runType - Queue priority for the contacts
+     */
+    async runOnFiles(files: TFile[], runType: RunType = RunType.UPCOMING): Promise<CuratorRunResult> {
+        const errors: string[] = [];
+
+        for (const file of files) {
+            try {
+                this.enqueueContact(await ContactNote.fromFile(this.app, file, this.settings), runType);
+            } catch (error: any) {
+                errors.push(`${file.path}: ${error?.message ?? error}`);
+            }
+        }
+
+        const result = await this.processQueue();
+        result.errors.unshift(...errors);
+        return result;
+    }
+
+    /**
+     * Register the manual curator commands with the plugin
+     */
+    registerCommands(plugin: Plugin): void {
+        plugin.addCommand({
+            id: 'run-curators-current-contact',
+            name: 'Run curator processors on current contact',
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || !this.contactManager.isContactFile(file)) {
+                    return false;
+                }
+
+                if (!checking) {
+                    this.runAndReport([file]);
+                }
+                return true;
+            }
+        });
+
+        plugin.addCommand({
+            id: 'run-curators-all-contacts',
+            name: 'Run curator processors on all contacts',
+            callback: () => {
+                const files = this.contactManager.getAllContacts()
+                    .map(entry => this.contactManager.getContactFile(entry.uid))
+                    .filter((file): file is TFile => file !== null);
+                this.runAndReport(files, RunType.IMPROVEMENT);
+            }
+        });
+    }
+
+    /**
+     * Run the pipeline on files and report the outcome with a notice
+     */
+    private async runAndReport(files: TFile[], runType?: RunType): Promise<void> {
+        try {
+            const result = await this.runOnFiles(files, runType);
+            const summary = `Curators processed ${result.processed} contact(s), ${result.changed} updated`;
+            new Notice(result.errors.length > 0
+                ? `${summary}, ${result.errors.length} error(s) (see console)`
+                : summary);
+        } catch (error: any) {
+            console.error('[CuratorManager] Error running curators:', error);
+            new Notice(`Error running curators: ${error.message}`);
+        }
+    }
+
+    /**
+     * Check whether a processor is enabled in settings
+     */
+    private isEnabled(processor: CuratorProcessor): boolean {
+        const properties = processor.settingProperties;
+        if (!properties) {
+            return true;
+        }
+
+        const value = this.settings[properties.key];
+        return value === undefined ? properties.default : value !== false;
+    }
+
+    /**
+     * Serialize the mutable parts of a contact for change detection
+     */
+    private snapshot(contact: ContactNote): string {
+        return JSON.stringify({ frontmatter: contact.frontmatter, content: contact.content });
+    }
+}
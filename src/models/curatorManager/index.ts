@@ -5,3 +5,4 @@
 export * from './types';
 export * from './processorRegistry';
 export * from './queue';
+export * from './curatorManager';
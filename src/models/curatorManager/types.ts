@@ -3,6 +3,7 @@
  */
 
 import type { ContactNote } from '../contactNote';
+import type { ContactManager } from '../contactManager';
 
 /**
  * When processors should run
@@ -30,6 +31,32 @@ export interface CuratorSettingProperties {
     default: boolean;
 }
 
+/**
+ * Plugin setting contributed by a curator processor
+ */
+export interface CuratorSetting {
+    /** Property name in plugin settings */
+    settingPropertyName: string;
+    /** Default value of the setting */
+    settingDefaultValue: boolean;
+    /** Display name */
+    name: string;
+    /** Description */
+    description: string;
+}
+
+/**
+ * Result of running the curator pipeline on one or more contacts
+ */
+export interface CuratorRunResult {
+    /** Number of contacts processed */
+    processed: number;
+    /** Number of contacts whose data changed */
+    changed: number;
+    /** Processor failures as "path: processor: message" strings */
+    errors: string[];
+}
+
 /**
  * Curator processor interface
  */
@@ -45,13 +72,14 @@ export interface CuratorProcessor {
     
     /**
      * Determine if processor should run for this contact
+     * The contact manager resolves references to other contacts
      */
-    shouldRun(contact: ContactNote, settings: Record<string, any>): Promise<boolean>;
+    shouldRun(contact: ContactNote, settings: Record<string, any>, contactManager?: ContactManager): Promise<boolean>;
     
     /**
      * Process the contact
      */
-    process(contact: ContactNote, settings: Record<string, any>): Promise<void>;
+    process(contact: ContactNote, settings: Record<string, any>, contactManager?: ContactManager): Promise<void>;
     
     /** Optional settings configuration */
     settingProperties?: CuratorSettingProperties;
@@ -0,0 +1,155 @@
+/**
+ * Embedded media of PHOTO, LOGO and SOUND
+ * Inline data URIs are stored as vault files and referenced from frontmatter by a link;
+ * generation turns the link back into a data URI or a URI
+ */
+
+import { parseFrontmatterKey } from './schema';
+
+/**
+ * Data URI of a binary property value found in frontmatter
+ */
+export interface VCardAttachment {
+  /** Frontmatter key holding the data URI, e.g. PHOTO or LOGO.1 */
+  key: string;
+  /** Property name, e.g. PHOTO */
+  property: string;
+  /** Media type from the data URI, e.g. image/jpeg */
+  mediaType: string;
+  /** File extension for the media type, without a dot */
+  extension: string;
+  /** Decoded content */
+  data: ArrayBuffer;
+}
+
+/**
+ * File extensions of common media types; other types use their subtype
+ */
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+  'image/x-icon': 'ico',
+  'audio/mpeg': 'mp3',
+  'audio/x-wav': 'wav',
+  'audio/mp4': 'm4a',
+  'application/octet-stream': 'bin'
+};
+
+/**
+ * Media types by file extension, for the extensions attachments are written with
+ */
+const MEDIA_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  mp3: 'audio/mpeg',
+  wav: 'audio/x-wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4'
+};
+
+/**
+ * Find the inline data URIs of PHOTO, LOGO and SOUND
+ * KEY is binary too but stays in frontmatter
+ * @param data - Flat frontmatter
+ * @returns Decoded attachments in key order
+ */
+export function findAttachments(data: Record<string, any>): VCardAttachment[] {
+  const attachments: VCardAttachment[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    const parsed = parseFrontmatterKey(key);
+    if (!parsed || parsed.mapping.type !== 'binary' || parsed.property === 'KEY' || typeof value !== 'string') {
+      continue;
+    }
+
+    const match = value.match(/^data:([^;,]*)((?:;[^;,]*)*?)(;base64)?,([\s\S]*)$/i);
+    if (!match) {
+      continue;
+    }
+
+    const mediaType = (match[1] || 'application/octet-stream').toLowerCase();
+    attachments.push({
+      key,
+      property: parsed.property,
+      mediaType,
+      extension: EXTENSIONS[mediaType] ?? mediaType.substring(mediaType.indexOf('/') + 1).replace(/[^a-z0-9]/g, ''),
+      data: match[3] ? decodeBase64(match[4]) : new TextEncoder().encode(decodeURIComponent(match[4])).buffer as ArrayBuffer
+    });
+  }
+
+  return attachments;
+}
+
+/**
+ * Build the file name of an attachment from the contact name and its frontmatter key
+ * @param contactName - Contact name
+ * @param attachment - Attachment
+ * @returns File name such as "Jane Doe-photo.jpg" or "Jane Doe-logo-work.png"
+ */
+export function attachmentFileName(contactName: string, attachment: VCardAttachment): string {
+  const name = contactName.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'contact';
+  return `${name}-${attachment.key.toLowerCase().replace(/\./g, '-')}.${attachment.extension}`;
+}
+
+/**
+ * Build the frontmatter link to an attachment
+ * @param path - Vault path of the attachment
+ * @returns Wiki link, e.g. [[Attachments/Jane Doe-photo.jpg]]
+ */
+export function toAttachmentLink(path: string): string {
+  return `[[${path}]]`;
+}
+
+/**
+ * Read the vault path from an attachment link
+ * @param value - Frontmatter value
+ * @returns Linked path without alias or heading, or null if the value is not a wiki link
+ */
+export function parseAttachmentLink(value: any): string | null {
+  const match = typeof value === 'string' ? value.trim().match(/^!?\[\[([^\]|#]+)(?:[|#][^\]]*)?\]\]$/) : null;
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Get the media type of an attachment file
+ * @param path - File path
+ * @returns Media type, or application/octet-stream for unknown extensions
+ */
+export function mediaTypeForPath(path: string): string {
+  const extension = path.substring(path.lastIndexOf('.') + 1).toLowerCase();
+  return MEDIA_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Encode file content as a base64 data URI
+ * @param mediaType - Media type
+ * @param data - File content
+ * @returns Data URI
+ */
+export function toDataUri(mediaType: string, data: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(data).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:${mediaType};base64,${btoa(binary)}`;
+}
+
+/**
+ * Decode base64 text to bytes
+ * @param value - Base64 text, whitespace is ignored
+ * @returns Decoded content
+ */
+function decodeBase64(value: string): ArrayBuffer {
+  const binary = atob(value.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
@@ -0,0 +1,730 @@
+/**
+ * CSV import and export
+ * Each CSV row is mapped to flat frontmatter keys and run through parseFlatContact,
+ * so rows are validated and normalized like cards from a .vcf file.
+ * Exported columns are flat frontmatter keys resolved against each contact's frontmatter
+ */
+
+import {
+  VCardData,
+  VcfDiagnostic,
+  VcfParseOptions,
+  VcfParseResult,
+  CsvColumnMapping,
+  CsvPreset,
+  CsvExportOptions
+} from './types';
+import { parseFlatContact } from './parsing';
+import { getFieldMapping, parseFrontmatterKey } from './schema';
+import { PRESERVED_KEY, RFC6350_PROPERTIES, addFlatValue, fallbackFormattedName } from './properties';
+
+/**
+ * A CSV record and the line it starts on
+ */
+interface CsvRecord {
+  /** 1-based line number of the first line of the record */
+  line: number;
+  /** Field values */
+  values: string[];
+}
+
+/**
+ * A flat frontmatter key split into property, types, index and structured component
+ */
+interface FlatKey {
+  /** Property name, uppercase */
+  property: string;
+  /** Types, uppercase */
+  types: string[];
+  /** Index of a repeated value, or -1 */
+  index: number;
+  /** Canonical component name of a structured property, or '' */
+  component: string;
+}
+
+/**
+ * Properties holding dates
+ */
+const DATE_PROPERTIES = new Set(['BDAY', 'ANNIVERSARY']);
+
+/**
+ * Separator of multiple values in one Google Contacts cell
+ */
+const GOOGLE_VALUE_SEPARATOR = /\s+:::\s+/;
+
+/**
+ * Number of numbered column groups (E-mail 1, E-mail 2, ...) mapped in the Google presets
+ */
+const GOOGLE_NUMBERED_COLUMNS = 5;
+
+/**
+ * vCard types for the type labels used by Google Contacts
+ */
+const TYPE_LABELS: Record<string, string> = {
+  home: 'HOME',
+  work: 'WORK',
+  mobile: 'CELL',
+  cell: 'CELL',
+  pager: 'PAGER',
+  fax: 'FAX',
+  'home fax': 'FAX',
+  'work fax': 'FAX'
+};
+
+/**
+ * GENDER sex values for the gender names used in CSV exports
+ */
+const GENDER_VALUES: Record<string, string> = {
+  m: 'M',
+  male: 'M',
+  f: 'F',
+  female: 'F',
+  o: 'O',
+  other: 'O',
+  n: 'N',
+  none: 'N',
+  u: 'U',
+  unknown: 'U'
+};
+
+/**
+ * Frontmatter keys offered when mapping the columns of an arbitrary CSV file
+ */
+export const CSV_FIELD_OPTIONS: { key: string; label: string }[] = [
+  { key: 'FN', label: 'Full name' },
+  { key: 'N.GIVENNAMES', label: 'First name' },
+  { key: 'N.ADDITIONALNAMES', label: 'Middle name' },
+  { key: 'N.FAMILYNAMES', label: 'Last name' },
+  { key: 'N.HONORIFICPREFIXES', label: 'Name prefix' },
+  { key: 'N.HONORIFICSUFFIXES', label: 'Name suffix' },
+  { key: 'NICKNAME', label: 'Nickname' },
+  { key: 'EMAIL', label: 'Email' },
+  { key: 'EMAIL.HOME', label: 'Email (home)' },
+  { key: 'EMAIL.WORK', label: 'Email (work)' },
+  { key: 'TEL', label: 'Phone' },
+  { key: 'TEL.CELL', label: 'Phone (mobile)' },
+  { key: 'TEL.HOME', label: 'Phone (home)' },
+  { key: 'TEL.WORK', label: 'Phone (work)' },
+  { key: 'TEL.FAX', label: 'Fax' },
+  { key: 'ADR.HOME.STREETADDRESS', label: 'Home street' },
+  { key: 'ADR.HOME.LOCALITY', label: 'Home city' },
+  { key: 'ADR.HOME.REGION', label: 'Home region' },
+  { key: 'ADR.HOME.POSTALCODE', label: 'Home postal code' },
+  { key: 'ADR.HOME.COUNTRYNAME', label: 'Home country' },
+  { key: 'ADR.WORK.STREETADDRESS', label: 'Work street' },
+  { key: 'ADR.WORK.LOCALITY', label: 'Work city' },
+  { key: 'ADR.WORK.REGION', label: 'Work region' },
+  { key: 'ADR.WORK.POSTALCODE', label: 'Work postal code' },
+  { key: 'ADR.WORK.COUNTRYNAME', label: 'Work country' },
+  { key: 'ORG.0', label: 'Company' },
+  { key: 'ORG.1', label: 'Department' },
+  { key: 'TITLE', label: 'Job title' },
+  { key: 'ROLE', label: 'Role' },
+  { key: 'BDAY', label: 'Birthday' },
+  { key: 'ANNIVERSARY', label: 'Anniversary' },
+  { key: 'GENDER.SEX', label: 'Gender' },
+  { key: 'URL', label: 'Website' },
+  { key: 'NOTE', label: 'Notes' },
+  { key: 'CATEGORIES', label: 'Categories' },
+  { key: 'UID', label: 'Unique ID' }
+];
+
+/**
+ * Frontmatter keys for common hand-made column names, by lowercase alphanumeric name
+ */
+const COMMON_COLUMN_NAMES: Record<string, string> = {
+  name: 'FN',
+  fullname: 'FN',
+  displayname: 'FN',
+  firstname: 'N.GIVENNAMES',
+  givenname: 'N.GIVENNAMES',
+  middlename: 'N.ADDITIONALNAMES',
+  lastname: 'N.FAMILYNAMES',
+  surname: 'N.FAMILYNAMES',
+  familyname: 'N.FAMILYNAMES',
+  nickname: 'NICKNAME',
+  email: 'EMAIL',
+  emailaddress: 'EMAIL',
+  mail: 'EMAIL',
+  phone: 'TEL',
+  phonenumber: 'TEL',
+  telephone: 'TEL',
+  tel: 'TEL',
+  mobile: 'TEL.CELL',
+  cell: 'TEL.CELL',
+  street: 'ADR.STREETADDRESS',
+  address: 'ADR.STREETADDRESS',
+  city: 'ADR.LOCALITY',
+  state: 'ADR.REGION',
+  region: 'ADR.REGION',
+  zip: 'ADR.POSTALCODE',
+  zipcode: 'ADR.POSTALCODE',
+  postalcode: 'ADR.POSTALCODE',
+  postcode: 'ADR.POSTALCODE',
+  country: 'ADR.COUNTRYNAME',
+  company: 'ORG.0',
+  organization: 'ORG.0',
+  organisation: 'ORG.0',
+  department: 'ORG.1',
+  title: 'TITLE',
+  jobtitle: 'TITLE',
+  role: 'ROLE',
+  birthday: 'BDAY',
+  dateofbirth: 'BDAY',
+  bday: 'BDAY',
+  anniversary: 'ANNIVERSARY',
+  gender: 'GENDER.SEX',
+  website: 'URL',
+  url: 'URL',
+  web: 'URL',
+  notes: 'NOTE',
+  note: 'NOTE',
+  categories: 'CATEGORIES',
+  tags: 'CATEGORIES',
+  groups: 'CATEGORIES',
+  uid: 'UID'
+};
+
+/**
+ * Built-in mappings for the Google Contacts (current and legacy layout) and Outlook CSV exports
+ */
+export const CSV_PRESETS: CsvPreset[] = [
+  googlePreset('google', 'Google Contacts', 'Label', {
+    'First Name': 'N.GIVENNAMES',
+    'Middle Name': 'N.ADDITIONALNAMES',
+    'Last Name': 'N.FAMILYNAMES',
+    'Name Prefix': 'N.HONORIFICPREFIXES',
+    'Name Suffix': 'N.HONORIFICSUFFIXES',
+    'Nickname': 'NICKNAME',
+    'Organization Name': 'ORG.0',
+    'Organization Department': 'ORG.1',
+    'Organization Title': 'TITLE',
+    'Birthday': 'BDAY',
+    'Notes': 'NOTE',
+    'Photo': 'PHOTO',
+    'Labels': 'CATEGORIES'
+  }),
+  googlePreset('google-legacy', 'Google Contacts (legacy)', 'Type', {
+    'Name': 'FN',
+    'Given Name': 'N.GIVENNAMES',
+    'Additional Name': 'N.ADDITIONALNAMES',
+    'Family Name': 'N.FAMILYNAMES',
+    'Name Prefix': 'N.HONORIFICPREFIXES',
+    'Name Suffix': 'N.HONORIFICSUFFIXES',
+    'Nickname': 'NICKNAME',
+    'Organization 1 - Name': 'ORG.0',
+    'Organization 1 - Department': 'ORG.1',
+    'Organization 1 - Title': 'TITLE',
+    'Birthday': 'BDAY',
+    'Gender': 'GENDER.SEX',
+    'Notes': 'NOTE',
+    'Photo': 'PHOTO',
+    'Group Membership': 'CATEGORIES'
+  }),
+  {
+    id: 'outlook',
+    name: 'Outlook',
+    columns: {
+      'Title': 'N.HONORIFICPREFIXES',
+      'First Name': 'N.GIVENNAMES',
+      'Middle Name': 'N.ADDITIONALNAMES',
+      'Last Name': 'N.FAMILYNAMES',
+      'Suffix': 'N.HONORIFICSUFFIXES',
+      'Nickname': 'NICKNAME',
+      'Company': 'ORG.0',
+      'Department': 'ORG.1',
+      'Job Title': 'TITLE',
+      ...outlookAddressColumns('Business', 'ADR.WORK'),
+      ...outlookAddressColumns('Home', 'ADR.HOME'),
+      ...outlookAddressColumns('Other', 'ADR'),
+      'Business Phone': 'TEL.WORK',
+      'Business Phone 2': 'TEL.WORK',
+      'Business Fax': 'TEL.FAX',
+      'Home Phone': 'TEL.HOME',
+      'Home Phone 2': 'TEL.HOME',
+      'Home Fax': 'TEL.FAX',
+      'Mobile Phone': 'TEL.CELL',
+      'Other Phone': 'TEL',
+      'Pager': 'TEL.PAGER',
+      'E-mail Address': 'EMAIL',
+      'E-mail 2 Address': 'EMAIL',
+      'E-mail 3 Address': 'EMAIL',
+      'Web Page': 'URL',
+      'Birthday': 'BDAY',
+      'Anniversary': 'ANNIVERSARY',
+      'Gender': 'GENDER.SEX',
+      'Categories': 'CATEGORIES',
+      'Notes': 'NOTE'
+    }
+  }
+];
+
+/**
+ * Read the header row and first data row of CSV content
+ * @param content - CSV text
+ * @returns Column headers and sample values, empty arrays if the content has none
+ */
+export function getCsvPreview(content: string): { headers: string[]; sample: string[] } {
+  const { headers, records } = readCsv(content);
+  return { headers, sample: records.length > 0 ? records[0].values : [] };
+}
+
+/**
+ * Find the built-in preset matching the columns of a CSV file
+ * The preset sharing the most headers wins; ties and files sharing fewer than three are not matched
+ * @param headers - Column headers
+ * @returns Matching preset or null
+ */
+export function detectCsvPreset(headers: string[]): CsvPreset | null {
+  const scored = CSV_PRESETS
+    .map(preset => ({ preset, score: headers.filter(header => header in preset.columns).length }))
+    .sort((a, b) => b.score - a.score);
+
+  if (scored[0].score < 3 || scored[0].score === scored[1].score) {
+    return null;
+  }
+  return scored[0].preset;
+}
+
+/**
+ * Suggest a mapping for the columns of an arbitrary CSV file
+ * Headers are looked up in the presets first, then as frontmatter keys (files written by
+ * generateCsv), then by common column names
+ * @param headers - Column headers
+ * @returns Suggested mapping; headers without a suggestion are left unmapped
+ */
+export function suggestCsvMapping(headers: string[]): CsvColumnMapping {
+  const columns: Record<string, string> = {};
+
+  for (const header of headers) {
+    const preset = CSV_PRESETS.find(candidate => header in candidate.columns);
+    const property = header.split('.')[0];
+    const key = preset
+      ? preset.columns[header]
+      : /^[A-Z]/.test(header) && RFC6350_PROPERTIES.has(property) && header === header.toUpperCase()
+        ? header
+        : COMMON_COLUMN_NAMES[header.toLowerCase().replace(/[^a-z0-9]/g, '')];
+    if (key) {
+      columns[header] = key;
+    }
+  }
+
+  return { columns };
+}
+
+/**
+ * Parse contacts from CSV content
+ * Rows keep their UID column if mapped; otherwise a UID is generated
+ * @param content - CSV text with a header row
+ * @param mapping - Column mapping or preset
+ * @param options - Parse options
+ * @returns Parsed contacts and diagnostics; the card of a diagnostic is the data row index
+ */
+export function parseCsvContacts(
+  content: string,
+  mapping: CsvColumnMapping,
+  options: VcfParseOptions = {}
+): VcfParseResult {
+  const { headers, records } = readCsv(content);
+  const contacts: VCardData[] = [];
+  const diagnostics: VcfDiagnostic[] = [];
+
+  if (headers.length === 0) {
+    return { contacts, diagnostics: [{ card: -1, line: 0, message: 'No header row found', severity: 'error' }] };
+  }
+
+  records.forEach((record, index) => {
+    const warn = (property: string, message: string) => {
+      diagnostics.push({ card: index, line: record.line, property, message, severity: 'warning' });
+    };
+
+    const data = rowToFrontmatter(headers, record.values, mapping, warn);
+    if (Object.keys(data).length === 0) {
+      return;
+    }
+
+    if (!data.FN) {
+      data.FN = fallbackFormattedName(data);
+    }
+    if (!data.FN) {
+      diagnostics.push({ card: index, line: record.line, property: 'FN', message: 'Row has no name', severity: 'error' });
+      return;
+    }
+
+    const result = parseFlatContact(data, options);
+    contacts.push(...result.contacts);
+    diagnostics.push(...result.diagnostics.map(diagnostic => ({ ...diagnostic, card: index, line: record.line })));
+  });
+
+  return { contacts, diagnostics };
+}
+
+/**
+ * Write contacts as CSV (RFC 4180) with a header row of column keys
+ * @param contacts - Flat frontmatter of each contact
+ * @param options - Columns, preferred types and delimiter
+ * @returns CSV text with CRLF line endings
+ */
+export function generateCsv(contacts: Record<string, any>[], options: CsvExportOptions): string {
+  const delimiter = options.delimiter ?? ',';
+  const preferredTypes = (options.preferredTypes ?? []).map(type => type.toUpperCase());
+  const rows = [options.columns];
+
+  for (const frontmatter of contacts) {
+    rows.push(options.columns.map(column => resolveCsvColumn(frontmatter, column, preferredTypes)));
+  }
+
+  return rows.map(row => row.map(value => quoteCsvValue(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+/**
+ * Find the value of a column in a contact's frontmatter
+ * A column matches keys of the same property and component that have at least the column's
+ * types; of those, the key with the most preferred type wins, then the lowest index.
+ * List properties (ORG, CATEGORIES, NICKNAME) without an index join their values
+ * @param frontmatter - Flat frontmatter of the contact
+ * @param column - Column key
+ * @param preferredTypes - Uppercase types in order of preference
+ * @returns Value text, '' if the contact has no matching key
+ */
+export function resolveCsvColumn(frontmatter: Record<string, any>, column: string, preferredTypes: string[] = []): string {
+  const target = parseFlatKey(column);
+  if (!target) {
+    return '';
+  }
+
+  const candidates: { key: string; field: FlatKey; rank: number; order: number }[] = [];
+  Object.keys(frontmatter).forEach((key, order) => {
+    const field = parseFlatKey(key);
+    if (!field || field.property !== target.property || field.component !== target.component) {
+      return;
+    }
+    if (target.index !== -1 && Math.max(field.index, 0) !== target.index) {
+      return;
+    }
+
+    const types = new Set(field.types);
+    const typeParameter = frontmatter[`${key}.@TYPE`];
+    if (typeParameter) {
+      String(typeParameter).split(',').forEach(type => types.add(type.trim().toUpperCase()));
+    }
+    if (frontmatter[`${key}.@PREF`] !== undefined) {
+      types.add('PREF');
+    }
+    if (!target.types.every(type => types.has(type))) {
+      return;
+    }
+
+    const ranks = Array.from(types).map(type => preferredTypes.indexOf(type)).filter(rank => rank !== -1);
+    candidates.push({ key, field, rank: ranks.length > 0 ? Math.min(...ranks) : preferredTypes.length, order });
+  });
+
+  candidates.sort((a, b) => a.rank - b.rank || a.field.index - b.field.index || a.order - b.order);
+  if (candidates.length === 0) {
+    return '';
+  }
+
+  const mapping = getFieldMapping(target.property);
+  if (mapping.type === 'list' && target.index === -1) {
+    // Join the values of the best variant (ORG.WORK.0, ORG.WORK.1, ...)
+    const types = candidates[0].field.types.join('.');
+    return candidates
+      .filter(candidate => candidate.field.types.join('.') === types)
+      .sort((a, b) => a.field.index - b.field.index)
+      .map(candidate => csvText(frontmatter[candidate.key]))
+      .join(`${mapping.separator} `);
+  }
+
+  return csvText(frontmatter[candidates[0].key]);
+}
+
+/**
+ * Split a flat frontmatter key
+ * @param key - Key such as EMAIL.WORK.0 or ADR.HOME.CITY
+ * @returns Key parts, or null for parameter and preserved keys and unknown components
+ */
+function parseFlatKey(key: string): FlatKey | null {
+  const parsed = parseFrontmatterKey(key);
+  if (!parsed || parsed.property === PRESERVED_KEY) {
+    return null;
+  }
+
+  return {
+    property: parsed.property,
+    types: parsed.types.map(type => type.toUpperCase()),
+    index: parsed.item !== -1 ? parsed.item : parsed.index,
+    component: parsed.component
+  };
+}
+
+/**
+ * Convert a frontmatter value to cell text
+ * @param value - Frontmatter value
+ * @returns Text; arrays are joined with commas
+ */
+function csvText(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+/**
+ * Quote a CSV value if it contains the delimiter, a quote, a line break or surrounding spaces
+ * @param value - Cell text
+ * @param delimiter - Field delimiter
+ * @returns Cell as written to the file
+ */
+function quoteCsvValue(value: string, delimiter: string): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Build the Google Contacts preset for one export layout
+ * @param id - Preset identifier
+ * @param name - Display name
+ * @param typeSuffix - Suffix of the type label columns ("Label" or "Type")
+ * @param columns - Columns that are not numbered
+ * @returns Preset with the numbered E-mail, Phone, Address and Website columns added
+ */
+function googlePreset(id: string, name: string, typeSuffix: string, columns: Record<string, string>): CsvPreset {
+  const preset: CsvPreset = { id, name, columns: { ...columns }, typeColumns: {} };
+
+  const add = (header: string, key: string, typeColumn: string) => {
+    preset.columns[header] = key;
+    preset.typeColumns![header] = typeColumn;
+  };
+
+  for (let n = 1; n <= GOOGLE_NUMBERED_COLUMNS; n++) {
+    const index = n - 1;
+    // Values get the next free index of their type as they are added
+    add(`E-mail ${n} - Value`, 'EMAIL', `E-mail ${n} - ${typeSuffix}`);
+    add(`Phone ${n} - Value`, 'TEL', `Phone ${n} - ${typeSuffix}`);
+    add(`Website ${n} - Value`, 'URL', `Website ${n} - ${typeSuffix}`);
+    add(`Address ${n} - Street`, `ADR.${index}.STREETADDRESS`, `Address ${n} - ${typeSuffix}`);
+    add(`Address ${n} - Extended Address`, `ADR.${index}.EXTENDEDADDRESS`, `Address ${n} - ${typeSuffix}`);
+    add(`Address ${n} - PO Box`, `ADR.${index}.POSTOFFICEBOX`, `Address ${n} - ${typeSuffix}`);
+    add(`Address ${n} - City`, `ADR.${index}.LOCALITY`, `Address ${n} - ${typeSuffix}`);
+    add(`Address ${n} - Region`, `ADR.${index}.REGION`, `Address ${n} - ${typeSuffix}`);
+    add(`Address ${n} - Postal Code`, `ADR.${index}.POSTALCODE`, `Address ${n} - ${typeSuffix}`);
+    add(`Address ${n} - Country`, `ADR.${index}.COUNTRYNAME`, `Address ${n} - ${typeSuffix}`);
+  }
+
+  return preset;
+}
+
+/**
+ * Build the Outlook columns of one address
+ * @param prefix - Column prefix ("Business", "Home" or "Other")
+ * @param key - Frontmatter key prefix
+ * @returns Columns of the address
+ */
+function outlookAddressColumns(prefix: string, key: string): Record<string, string> {
+  return {
+    [`${prefix} Street`]: `${key}.STREETADDRESS`,
+    [`${prefix} Street 2`]: `${key}.STREETADDRESS`,
+    [`${prefix} Street 3`]: `${key}.STREETADDRESS`,
+    [`${prefix} PO Box`]: `${key}.POSTOFFICEBOX`,
+    [`${prefix} City`]: `${key}.LOCALITY`,
+    [`${prefix} State`]: `${key}.REGION`,
+    [`${prefix} Postal Code`]: `${key}.POSTALCODE`,
+    [`${prefix} Country/Region`]: `${key}.COUNTRYNAME`
+  };
+}
+
+/**
+ * Map the values of one CSV row to frontmatter
+ * @param headers - Column headers
+ * @param values - Row values
+ * @param mapping - Column mapping
+ * @param warn - Reports values that were ignored
+ * @returns Frontmatter data, empty if no mapped column has a value
+ */
+function rowToFrontmatter(
+  headers: string[],
+  values: string[],
+  mapping: CsvColumnMapping,
+  warn: (property: string, message: string) => void
+): Record<string, any> {
+  const data: Record<string, any> = {};
+
+  headers.forEach((header, column) => {
+    const key = mapping.columns[header];
+    const cell = (values[column] ?? '').trim();
+    if (!key || !cell) {
+      return;
+    }
+
+    const typeColumn = mapping.typeColumns?.[header];
+    const type = typeColumn ? typeFromLabel(values[headers.indexOf(typeColumn)] ?? '') : '';
+    const parts = key.split('.');
+    const property = parts[0].toUpperCase();
+    const typedKey = type ? [parts[0], type, ...parts.slice(1)].join('.') : key;
+
+    for (const value of splitCell(property, cell)) {
+      const converted = convertValue(property, value);
+      if (converted === null) {
+        warn(property, `Ignored invalid value "${value}" in column "${header}"`);
+      } else if (converted) {
+        addFlatValue(data, typedKey, converted);
+      }
+    }
+  });
+
+  return data;
+}
+
+/**
+ * Split a cell holding several values
+ * Google separates values with " ::: " and marks system groups ("* myContacts") with a star
+ * @param property - Property the cell maps to
+ * @param cell - Cell text
+ * @returns Values
+ */
+function splitCell(property: string, cell: string): string[] {
+  const values = cell.split(GOOGLE_VALUE_SEPARATOR);
+  if (property !== 'CATEGORIES') {
+    return values;
+  }
+
+  const categories: string[] = [];
+  for (const value of values) {
+    if (!value.startsWith('* ')) {
+      categories.push(...value.split(/[;,]/).map(category => category.trim()).filter(Boolean));
+    }
+  }
+  return categories;
+}
+
+/**
+ * Convert a CSV value to its frontmatter form
+ * @param property - Property the value maps to
+ * @param value - Value text
+ * @returns Converted value, '' to skip the value, or null if it is invalid
+ */
+function convertValue(property: string, value: string): string | null {
+  if (DATE_PROPERTIES.has(property)) {
+    return csvDate(value);
+  }
+  if (property === 'GENDER') {
+    const lower = value.toLowerCase();
+    return lower === 'unspecified' ? '' : GENDER_VALUES[lower] ?? null;
+  }
+  return value;
+}
+
+/**
+ * Convert a CSV date to a vCard date
+ * Accepts ISO dates, Google dates without year (--MM-DD) and Outlook M/D/YYYY dates
+ * @param value - Date text
+ * @returns Date in basic format, '' for Outlook's empty date (0/0/00), or null if not a date
+ */
+function csvDate(value: string): string | null {
+  let match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (match) {
+    return `${match[1]}${match[2]}${match[3]}`;
+  }
+
+  match = value.match(/^--(\d{2})-?(\d{2})$/);
+  if (match) {
+    return `--${match[1]}${match[2]}`;
+  }
+
+  match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (match) {
+    if (Number(match[1]) === 0 || Number(match[2]) === 0) {
+      return '';
+    }
+    if (match[3].length === 4) {
+      return `${match[3]}${match[1].padStart(2, '0')}${match[2].padStart(2, '0')}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Map a type label to a vCard type
+ * @param label - Label text ("* Home", "Mobile", ...)
+ * @returns Uppercase type, or '' for labels without a vCard type (Other, Main, custom labels)
+ */
+function typeFromLabel(label: string): string {
+  return TYPE_LABELS[label.replace(/^\*\s*/, '').trim().toLowerCase()] ?? '';
+}
+
+/**
+ * Read CSV content (RFC 4180) into a header row and records
+ * The delimiter (comma, semicolon or tab) is taken from the header row; empty records are dropped
+ * @param content - CSV text
+ * @returns Trimmed headers and records
+ */
+function readCsv(content: string): { headers: string[]; records: CsvRecord[] } {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const delimiter = detectDelimiter(text.substring(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n')));
+  const records: CsvRecord[] = [];
+
+  let record: CsvRecord = { line: 1, values: [] };
+  let field = '';
+  let quoted = false;
+  let line = 1;
+
+  const endRecord = () => {
+    record.values.push(field);
+    if (record.values.some(value => value.trim() !== '')) {
+      records.push(record);
+    }
+    field = '';
+    record = { line: line + 1, values: [] };
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.values.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRecord();
+      line++;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.values.length > 0) {
+    endRecord();
+  }
+
+  const [header, ...rows] = records;
+  return {
+    headers: header ? header.values.map(value => value.trim()) : [],
+    records: rows
+  };
+}
+
+/**
+ * Pick the delimiter that occurs most often in the header row
+ * @param headerLine - First line of the file
+ * @returns Delimiter character, comma if none occurs
+ */
+function detectDelimiter(headerLine: string): string {
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: headerLine.split(delimiter).length - 1 }));
+  counts.sort((a, b) => b.count - a.count);
+  return counts[0].count > 0 ? counts[0].delimiter : ',';
+}
@@ -0,0 +1,201 @@
+/**
+ * Date and time values (RFC 6350 section 4.3)
+ * vCard writes dates in ISO 8601 basic format (19850415, --0415, 19850415T1030Z);
+ * frontmatter keeps them in extended format (1985-04-15, --04-15, 1985-04-15T10:30Z) so
+ * Obsidian shows full dates as dates. Only the separators differ, so each form is
+ * regenerated exactly
+ */
+
+/**
+ * A date, time or date-time with the components that were written
+ * Missing components are undefined: --0415 has no year, 1985-04 no day
+ */
+export interface VCardDateTime {
+  year?: number;
+  month?: number;
+  day?: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+  /** "Z" or a UTC offset such as "+0530" or "-05" */
+  zone?: string;
+}
+
+/**
+ * UTC designator or offset, basic or extended
+ */
+const ZONE = '(Z|[+-]\\d{2}(?::?\\d{2})?)?';
+
+/**
+ * Date forms: full date, year and month, year, month and day, month, day
+ */
+const DATE_PATTERNS: [RegExp, (keyof VCardDateTime)[]][] = [
+  [/^(\d{4})-?(\d{2})-?(\d{2})$/, ['year', 'month', 'day']],
+  [/^(\d{4})-(\d{2})$/, ['year', 'month']],
+  [/^(\d{4})$/, ['year']],
+  [/^--(\d{2})-?(\d{2})$/, ['month', 'day']],
+  [/^--(\d{2})$/, ['month']],
+  [/^---(\d{2})$/, ['day']]
+];
+
+/**
+ * Time forms: hour with optional minute and second, minute with optional second, second
+ */
+const TIME_PATTERNS: [RegExp, (keyof VCardDateTime)[]][] = [
+  [new RegExp(`^(\\d{2})(?::?(\\d{2})(?::?(\\d{2}))?)?${ZONE}$`), ['hour', 'minute', 'second']],
+  [new RegExp(`^-(\\d{2})(?::?(\\d{2}))?${ZONE}$`), ['minute', 'second']],
+  [new RegExp(`^--(\\d{2})${ZONE}$`), ['second']]
+];
+
+/**
+ * Upper bounds of the components
+ */
+const MAXIMUM: Partial<Record<keyof VCardDateTime, number>> = {
+  month: 12,
+  day: 31,
+  hour: 23,
+  minute: 59,
+  second: 60
+};
+
+/**
+ * Parse a date, time or date-time in basic or extended format
+ * Times are prefixed with "T"; in a date-time the date must not be truncated on the right
+ * @param value - Value such as 19850415, 1985-04, --0415, T1030 or 19850415T103000Z
+ * @returns Components, or null if the value is not a date or time
+ */
+export function parseDateAndOrTime(value: string): VCardDateTime | null {
+  const separator = value.indexOf('T');
+  const datePart = separator === -1 ? value : value.substring(0, separator);
+  const timePart = separator === -1 ? null : value.substring(separator + 1);
+
+  const date = datePart === '' ? {} : matchComponents(datePart, DATE_PATTERNS);
+  const time = timePart === null ? {} : matchComponents(timePart, TIME_PATTERNS);
+  if (!date || !time || (datePart === '' && timePart === null)) {
+    return null;
+  }
+
+  if (timePart !== null) {
+    // A date-time needs a full, month-day or day-only date and an hour
+    const truncated = datePart !== '' && (date.day === undefined || (date.year !== undefined && date.month === undefined));
+    if (truncated || (datePart !== '' && time.hour === undefined)) {
+      return null;
+    }
+  }
+
+  return { ...date, ...time };
+}
+
+/**
+ * Write date and time components
+ * @param value - Components
+ * @param extended - Use the ISO 8601 extended format (frontmatter) instead of basic (vCard)
+ * @returns Formatted value
+ */
+export function formatDateAndOrTime(value: VCardDateTime, extended: boolean): string {
+  const dash = extended ? '-' : '';
+  const colon = extended ? ':' : '';
+  const pad = (number: number) => String(number).padStart(2, '0');
+
+  let date = '';
+  if (value.year !== undefined) {
+    date = String(value.year).padStart(4, '0');
+    if (value.month !== undefined) {
+      // Year and month keep their hyphen in basic format
+      date += value.day !== undefined ? `${dash}${pad(value.month)}${dash}${pad(value.day)}` : `-${pad(value.month)}`;
+    }
+  } else if (value.month !== undefined) {
+    date = `--${pad(value.month)}${value.day !== undefined ? `${dash}${pad(value.day)}` : ''}`;
+  } else if (value.day !== undefined) {
+    date = `---${pad(value.day)}`;
+  }
+
+  let time = '';
+  if (value.hour !== undefined) {
+    time = pad(value.hour);
+    if (value.minute !== undefined) {
+      time += `${colon}${pad(value.minute)}`;
+      if (value.second !== undefined) {
+        time += `${colon}${pad(value.second)}`;
+      }
+    }
+  } else if (value.minute !== undefined) {
+    time = `-${pad(value.minute)}${value.second !== undefined ? `${colon}${pad(value.second)}` : ''}`;
+  } else if (value.second !== undefined) {
+    time = `--${pad(value.second)}`;
+  }
+
+  if (time !== '' && value.zone) {
+    time += value.zone === 'Z' ? 'Z' : value.zone.replace(/^([+-]\d{2}):?(\d{2})$/, `$1${colon}$2`);
+  }
+
+  return time === '' ? date : `${date}T${time}`;
+}
+
+/**
+ * Check whether a value is a date, time or date-time that frontmatter keeps in extended format
+ * @param valueType - Default value type of the property
+ * @param valueParameter - VALUE parameter of the field
+ * @returns True for BDAY and ANNIVERSARY values that are not text
+ */
+export function isDateValue(valueType: string | undefined, valueParameter: string | undefined): boolean {
+  return valueType === 'date-and-or-time' && (valueParameter ?? '').toLowerCase() !== 'text';
+}
+
+/**
+ * Convert a vCard date value to its frontmatter form
+ * @param value - Date in basic format
+ * @returns Date in extended format, or the value unchanged if it is not a date
+ */
+export function toFrontmatterDate(value: string): string {
+  const parsed = parseDateAndOrTime(value);
+  return parsed ? formatDateAndOrTime(parsed, true) : value;
+}
+
+/**
+ * Convert a frontmatter date value to its vCard form
+ * Dates already in basic format are unchanged
+ * @param value - Frontmatter value; YAML dates are accepted
+ * @returns Date in basic format, or the value as text if it is not a date
+ */
+export function toVcardDate(value: any): string {
+  const text = value instanceof Date ? value.toISOString().substring(0, 10) : String(value);
+  const parsed = parseDateAndOrTime(text);
+  return parsed ? formatDateAndOrTime(parsed, false) : text;
+}
+
+/**
+ * Match a date or time against its forms
+ * @param value - Date or time part
+ * @param patterns - Forms with the component each group holds
+ * @returns Components, or null if no form matches or a component is out of range
+ */
+function matchComponents(
+  value: string,
+  patterns: [RegExp, (keyof VCardDateTime)[]][]
+): Partial<VCardDateTime> | null {
+  for (const [pattern, names] of patterns) {
+    const match = value.match(pattern);
+    if (!match) {
+      continue;
+    }
+
+    const components: Record<string, any> = {};
+    for (let i = 0; i < names.length; i++) {
+      if (match[i + 1] === undefined) {
+        continue;
+      }
+      const number = Number(match[i + 1]);
+      const maximum = MAXIMUM[names[i]];
+      if (maximum !== undefined && (number > maximum || (number === 0 && (names[i] === 'month' || names[i] === 'day')))) {
+        return null;
+      }
+      components[names[i]] = number;
+    }
+    if (match[names.length + 1]) {
+      components.zone = match[names.length + 1];
+    }
+    return components;
+  }
+  return null;
+}
@@ -0,0 +1,213 @@
+/**
+ * Field-level differences between two versions of a contact
+ * Both versions are compared in their canonical form (see fingerprint.ts), so key order,
+ * alias component names, type case, date formats and REV do not show up as changes.
+ * Structured values (N, ADR, GENDER) and lists (ORG, NICKNAME) are compared as one field
+ * with their parameters; values of repeatable properties (EMAIL, TEL, ADR, RELATED, ...)
+ * that only moved to another index are not reported, nor are references of RELATED and MEMBER
+ * that only changed between the urn:uuid: and uid: forms
+ */
+
+import { parseFrontmatterKey, buildFrontmatterKey } from './schema';
+import { canonicalFields } from './fingerprint';
+import { FieldMapping } from './types';
+
+/**
+ * One added, removed or changed property value
+ */
+export interface ContactFieldChange {
+  /** vCard property name, e.g. EMAIL */
+  property: string;
+  /** Frontmatter key of the value, without component or item, e.g. ADR.HOME or EMAIL.WORK.1 */
+  key: string;
+  /** Key the value had before, when it moved to another type */
+  previousKey?: string;
+  /** Value before the change: components and list items joined, parameters in parentheses */
+  before?: string;
+  /** Value after the change, in the same form */
+  after?: string;
+}
+
+/**
+ * Differences between two versions of a contact
+ */
+export interface ContactDiff {
+  /** Values only in the new version */
+  added: ContactFieldChange[];
+  /** Values only in the old version */
+  removed: ContactFieldChange[];
+  /** Values that changed, or moved to another type */
+  changed: ContactFieldChange[];
+}
+
+/**
+ * One property value with its components, list items and parameters
+ */
+export interface GroupedField {
+  /** vCard property name */
+  property: string;
+  /** Canonical frontmatter key of the value, without component or item */
+  key: string;
+  /** Key without index, used to match repeatable values that were renumbered */
+  slotKey: string;
+  repeatable: boolean;
+  mapping?: FieldMapping;
+  /** Values by component name or list item index; '' holds a plain value */
+  parts: Map<string, string>;
+  /** Keys and values of the field in the contact data, parameters included */
+  entries: Record<string, any>;
+  /** Value with components and list items joined, parameters in parentheses */
+  text: string;
+  /** Value compared across keys; references of RELATED and MEMBER lose their uid namespace */
+  identity: string;
+  /** Identity and parameters; fields with the same signature hold the same value */
+  signature: string;
+}
+
+/**
+ * Properties whose values reference other contacts
+ */
+const REFERENCE_PROPERTIES = new Set(['RELATED', 'MEMBER']);
+
+/**
+ * Compare two versions of a contact
+ * @param before - Flat contact data or frontmatter of the old version
+ * @param after - Flat contact data or frontmatter of the new version
+ * @returns Added, removed and changed values, each sorted by key
+ */
+export function diffContacts(before: Record<string, any>, after: Record<string, any>): ContactDiff {
+  const oldFields = groupContactFields(before);
+  const newFields = groupContactFields(after);
+  const diff: ContactDiff = { added: [], removed: [], changed: [] };
+
+  // Unchanged values under the same key
+  for (const [key, field] of Array.from(oldFields)) {
+    if (newFields.get(key)?.signature === field.signature) {
+      oldFields.delete(key);
+      newFields.delete(key);
+    }
+  }
+
+  // Repeatable values that were renumbered or got another type
+  for (const [key, field] of Array.from(oldFields)) {
+    if (!field.repeatable) {
+      continue;
+    }
+    const match = Array.from(newFields.values()).find(candidate =>
+      candidate.property === field.property && candidate.identity === field.identity
+    );
+    if (!match) {
+      continue;
+    }
+    if (match.slotKey !== field.slotKey || match.signature !== field.signature) {
+      diff.changed.push({ property: field.property, key: match.key, previousKey: key, before: field.text, after: match.text });
+    }
+    oldFields.delete(key);
+    newFields.delete(match.key);
+  }
+
+  for (const [key, field] of oldFields) {
+    const match = newFields.get(key);
+    if (match) {
+      diff.changed.push({ property: field.property, key, before: field.text, after: match.text });
+      newFields.delete(key);
+    } else {
+      diff.removed.push({ property: field.property, key, before: field.text });
+    }
+  }
+  for (const [key, field] of newFields) {
+    diff.added.push({ property: field.property, key, after: field.text });
+  }
+
+  const byKey = (a: ContactFieldChange, b: ContactFieldChange) => a.key.localeCompare(b.key);
+  diff.added.sort(byKey);
+  diff.removed.sort(byKey);
+  diff.changed.sort(byKey);
+  return diff;
+}
+
+/**
+ * Check whether a diff has no changes
+ * @param diff - Contact diff
+ * @returns True if nothing was added, removed or changed
+ */
+export function isEmptyDiff(diff: ContactDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+/**
+ * Group the canonical values of contact data by property value
+ * @param data - Flat contact data or frontmatter
+ * @returns Fields by canonical key
+ */
+export function groupContactFields(data: Record<string, any>): Map<string, GroupedField> {
+  const fields = new Map<string, GroupedField>();
+  const parameters = new Map<string, Map<string, { key: string; value: string }>>();
+
+  for (const [key, { key: dataKey, value }] of canonicalFields(data)) {
+    const parameterIndex = key.indexOf('.@');
+    if (parameterIndex !== -1) {
+      const propertyKey = key.substring(0, parameterIndex);
+      const fieldParameters = parameters.get(propertyKey) ?? new Map();
+      parameters.set(propertyKey, fieldParameters.set(key.substring(parameterIndex + 2), { key: dataKey, value }));
+      continue;
+    }
+
+    const parsed = parseFrontmatterKey(key);
+    const fieldKey = parsed ? parsed.propertyKey : key;
+    let field = fields.get(fieldKey);
+    if (!field) {
+      field = {
+        property: parsed ? parsed.property : key.split('.')[0],
+        key: fieldKey,
+        slotKey: parsed ? buildFrontmatterKey(parsed.mapping, { type: parsed.types.join('.'), language: parsed.language }) : key,
+        repeatable: parsed ? parsed.mapping.cardinality === '*' || parsed.mapping.cardinality === '1*' : false,
+        mapping: parsed?.mapping,
+        parts: new Map(),
+        entries: {},
+        text: '',
+        identity: '',
+        signature: ''
+      };
+      fields.set(fieldKey, field);
+    }
+    field.parts.set(parsed?.component || (parsed && parsed.item >= 0 ? String(parsed.item) : ''), value);
+    field.entries[dataKey] = data[dataKey];
+  }
+
+  // Parameters of a value that is not there are left out
+  for (const field of Array.from(fields.values())) {
+    const value = formatParts(field);
+    const fieldParameters = parameters.get(field.key) ?? new Map<string, { key: string; value: string }>();
+    fieldParameters.forEach(parameter => {
+      field.entries[parameter.key] = data[parameter.key];
+    });
+    const names = Array.from(fieldParameters, ([name, parameter]) => `${name}=${parameter.value}`).sort();
+    const suffix = names.length > 0 ? ` (${names.join(', ')})` : '';
+    field.text = value + suffix;
+    field.identity = REFERENCE_PROPERTIES.has(field.property) ? value.replace(/^(urn:uuid:|uid:)/i, '') : value;
+    field.signature = field.identity + suffix;
+  }
+
+  return fields;
+}
+
+/**
+ * Join the components or list items of a value in schema order
+ */
+function formatParts(field: GroupedField): string {
+  const mapping = field.mapping;
+  if (mapping?.components) {
+    return mapping.components
+      .map(names => field.parts.get(names[0]))
+      .filter((part): part is string => part !== undefined)
+      .join(', ');
+  }
+  if (field.parts.has('')) {
+    return field.parts.get('')!;
+  }
+  return Array.from(field.parts)
+    .sort((a, b) => Number(a[0]) - Number(b[0]))
+    .map(([, part]) => part)
+    .join(mapping?.separator === ';' ? '; ' : ', ');
+}
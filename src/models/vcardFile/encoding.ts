@@ -0,0 +1,163 @@
+/**
+ * Character encoding of incoming files
+ * vCard 4.0 is always UTF-8, but Outlook exports UTF-16 with a byte order mark and
+ * older phones write Latin-1 or Windows-1252, sometimes announced by CHARSET parameters.
+ * The bytes are decoded here so the parsers always see UTF-8 text
+ */
+
+import { VcfDiagnostic } from './types';
+
+/**
+ * Text decoded from the bytes of a file
+ */
+export interface DecodedVcf {
+  /** Decoded content without byte order mark */
+  content: string;
+  /** Encoding the bytes were decoded from, e.g. utf-8 or utf-16le */
+  encoding: string;
+  /** How the encoding was found */
+  detectedBy: 'bom' | 'charset' | 'heuristic' | 'default';
+  /** Warning when the content was converted to UTF-8 */
+  diagnostics: VcfDiagnostic[];
+}
+
+/**
+ * Byte order marks, longest first
+ */
+const BYTE_ORDER_MARKS: [number[], string][] = [
+  [[0xEF, 0xBB, 0xBF], 'utf-8'],
+  [[0xFF, 0xFE], 'utf-16le'],
+  [[0xFE, 0xFF], 'utf-16be']
+];
+
+/**
+ * Fallback for 8-bit files that are not UTF-8; a superset of Latin-1
+ */
+const FALLBACK_ENCODING = 'windows-1252';
+
+/**
+ * Number of bytes inspected to recognize UTF-16 without a byte order mark
+ */
+const SAMPLE_SIZE = 1024;
+
+/**
+ * Decode the bytes of a VCF (or other contact) file
+ * The encoding is taken from the byte order mark, then from NUL bytes (UTF-16 without BOM),
+ * then UTF-8 if the bytes are valid UTF-8, then the first CHARSET parameter, and finally
+ * Windows-1252
+ * @param data - File content
+ * @returns Decoded content, with a warning if it was not UTF-8
+ */
+export function decodeVcfBytes(data: ArrayBuffer | Uint8Array): DecodedVcf {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  for (const [mark, encoding] of BYTE_ORDER_MARKS) {
+    if (mark.every((byte, index) => bytes[index] === byte)) {
+      return decoded(decode(bytes.subarray(mark.length), encoding), encoding, 'bom');
+    }
+  }
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) {
+    return decoded(decode(bytes, utf16), utf16, 'heuristic');
+  }
+
+  try {
+    return decoded(new TextDecoder('utf-8', { fatal: true }).decode(bytes), 'utf-8', 'default');
+  } catch (error) {
+    // Not UTF-8, look for the encoding the card announces
+  }
+
+  const charset = findCharset(bytes);
+  if (charset) {
+    return decoded(decode(bytes, charset), charset, 'charset');
+  }
+
+  return decoded(decode(bytes, FALLBACK_ENCODING), FALLBACK_ENCODING, 'heuristic');
+}
+
+/**
+ * Recognize UTF-16 without a byte order mark from the NUL bytes of ASCII characters
+ * @param bytes - File content
+ * @returns utf-16le or utf-16be, or null if most bytes of one parity are not NUL
+ */
+function detectUtf16(bytes: Uint8Array): string | null {
+  const length = Math.min(bytes.length, SAMPLE_SIZE) & ~1;
+  if (length < 2) {
+    return null;
+  }
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) {
+      evenZeros++;
+    }
+    if (bytes[i + 1] === 0) {
+      oddZeros++;
+    }
+  }
+
+  const pairs = length / 2;
+  if (oddZeros > pairs * 0.8 && evenZeros < pairs * 0.1) {
+    return 'utf-16le';
+  }
+  if (evenZeros > pairs * 0.8 && oddZeros < pairs * 0.1) {
+    return 'utf-16be';
+  }
+  return null;
+}
+
+/**
+ * Find the first CHARSET parameter that names a supported encoding other than UTF-8
+ * @param bytes - File content
+ * @returns Encoding label, or null if no usable CHARSET parameter is found
+ */
+function findCharset(bytes: Uint8Array): string | null {
+  // Parameter names and values are ASCII, so a Latin-1 view is enough to find them
+  const text = decode(bytes, 'iso-8859-1');
+  const charsetRegex = /;CHARSET="?([A-Za-z0-9_.-]+)/gi;
+  let match;
+
+  while ((match = charsetRegex.exec(text)) !== null) {
+    const charset = match[1].toLowerCase();
+    if (charset === 'utf-8' || charset === 'us-ascii') {
+      continue;
+    }
+    try {
+      new TextDecoder(charset);
+      return charset;
+    } catch (error) {
+      // Unknown label, try the next parameter
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decode bytes, replacing invalid sequences
+ */
+function decode(bytes: Uint8Array, encoding: string): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+/**
+ * Build the result, with a warning when the content was converted
+ */
+function decoded(content: string, encoding: string, detectedBy: DecodedVcf['detectedBy']): DecodedVcf {
+  const reasons = {
+    bom: 'byte order mark',
+    charset: 'CHARSET parameter',
+    heuristic: 'detected',
+    default: 'default'
+  };
+  const diagnostics: VcfDiagnostic[] = encoding === 'utf-8' ? [] : [{
+    card: -1,
+    line: 0,
+    message: `Converted from ${encoding.toUpperCase()} (${reasons[detectedBy]}) to UTF-8`,
+    severity: 'warning'
+  }];
+
+  return { content, encoding, detectedBy, diagnostics };
+}
@@ -0,0 +1,147 @@
+/**
+ * Content fingerprints of contacts
+ * A fingerprint is a hash of the canonical form of a contact's vCard data: keys in any order,
+ * alias component names, type case and date formats give the same fingerprint, so a file
+ * that was only touched (or rewritten with the same data) can be told apart from a real edit
+ */
+
+import { PRESERVED_KEY, buildFrontmatterKey, isSchemaProperty, parseFrontmatterKey } from './schema';
+import { isDateValue, toVcardDate } from './dates';
+
+/**
+ * Properties that change on every write without changing the contact
+ */
+const VOLATILE_PROPERTIES = new Set(['REV', 'VERSION', 'PRODID']);
+
+/**
+ * Build the canonical form of contact data
+ * Only vCard properties are included; other frontmatter (tags, aliases) and REV, VERSION and
+ * PRODID are left out, as are empty values. Values of repeatable properties lose their index
+ * and are sorted within their type, so renumbered or reordered EMAIL and TEL values give the
+ * same form
+ * @param data - Flat contact data or frontmatter
+ * @returns One "KEY=value" line per value, the lines of each property value sorted together
+ */
+export function canonicalizeContact(data: Record<string, any>): string {
+  const values = new Map<string, string[]>();
+
+  for (const [key, field] of canonicalFields(data)) {
+    const parameterIndex = key.indexOf('.@');
+    const parsed = parseFrontmatterKey(parameterIndex === -1 ? key : key.substring(0, parameterIndex));
+    const valueKey = parsed ? parsed.propertyKey : key.substring(0, parameterIndex === -1 ? key.length : parameterIndex);
+    const repeatable = parsed && (parsed.mapping.cardinality === '*' || parsed.mapping.cardinality === '1*');
+    const slotKey = repeatable
+      ? buildFrontmatterKey(parsed!.mapping, { type: parsed!.types.join('.'), language: parsed!.language })
+      : valueKey;
+    const lines = values.get(valueKey) ?? [];
+    values.set(valueKey, [...lines, `${slotKey}${key.substring(valueKey.length)}=${field.value}`]);
+  }
+
+  return Array.from(values.values(), lines => lines.sort().join('\n')).sort().join('\n');
+}
+
+/**
+ * Canonical keys and values of contact data, as used by canonicalizeContact
+ * Parameter keys keep their ".@PARAM" suffix after the canonical property key
+ * @param data - Flat contact data or frontmatter
+ * @returns Canonical value text and the key in data, by canonical key
+ */
+export function canonicalFields(data: Record<string, any>): Map<string, { key: string; value: string }> {
+  const fields = new Map<string, { key: string; value: string }>();
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+
+    const parameterIndex = key.indexOf('.@');
+    const propertyKey = parameterIndex === -1 ? key : key.substring(0, parameterIndex);
+    const parsed = parseFrontmatterKey(propertyKey);
+    const property = parsed ? parsed.property : propertyKey.split('.')[0].toUpperCase();
+    if (VOLATILE_PROPERTIES.has(property) || !(isSchemaProperty(property) || property.startsWith('X-') || property === PRESERVED_KEY)) {
+      continue;
+    }
+
+    const canonicalKey = parsed
+      ? buildFrontmatterKey(parsed.mapping, {
+        type: parsed.types.map(type => type.toUpperCase()).join('.'),
+        index: parsed.index,
+        language: parsed.language.toLowerCase(),
+        component: parsed.component,
+        item: parsed.item
+      })
+      : propertyKey;
+
+    if (parameterIndex !== -1) {
+      const parameter = key.substring(parameterIndex + 2).toUpperCase();
+      const text = canonicalText(value);
+      fields.set(`${canonicalKey}.@${parameter}`, { key, value: parameter === 'TYPE' ? text.toLowerCase() : text });
+      continue;
+    }
+
+    const date = parsed && isDateValue(parsed.mapping.valueType, data[`${propertyKey}.@VALUE`]);
+    fields.set(canonicalKey, { key, value: date ? toVcardDate(value) : canonicalText(value) });
+  }
+
+  return fields;
+}
+
+/**
+ * Compute the content fingerprint of a contact
+ * @param data - Flat contact data or frontmatter
+ * @returns 14-digit hex hash of the canonical form; not a cryptographic hash
+ */
+export function fingerprintContact(data: Record<string, any>): string {
+  return hashText(canonicalizeContact(data));
+}
+
+/**
+ * Compute one fingerprint for a set of contacts, e.g. the cards of a VCF file
+ * @param contacts - Flat contact data of each contact
+ * @returns 14-digit hex hash that does not depend on the order of the contacts
+ */
+export function fingerprintContacts(contacts: Record<string, any>[]): string {
+  return hashText(contacts.map(fingerprintContact).sort().join('\n'));
+}
+
+/**
+ * Derive a UID from the content of a contact that has none
+ * The same content always gets the same UID, so reading a card again does not turn it
+ * into a new contact
+ * @param text - Content of the contact in a form that does not depend on line or key order
+ * @returns urn:uuid: UID in the custom (version 8) layout; not a cryptographic hash
+ */
+export function contentUID(text: string): string {
+  const hex = [0, 1, 2].map(seed => hashText(`${seed}:${text}`)).join('');
+  const variant = (8 + (parseInt(hex[16], 16) & 0x3)).toString(16);
+  return `urn:uuid:${hex.substring(0, 8)}-${hex.substring(8, 12)}-8${hex.substring(13, 16)}-${variant}${hex.substring(17, 20)}-${hex.substring(20, 32)}`;
+}
+
+/**
+ * Write a value as trimmed text; list values are joined with commas
+ */
+function canonicalText(value: any): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return (Array.isArray(value) ? value.map(item => String(item).trim()).join(',') : String(value)).trim();
+}
+
+/**
+ * 53-bit string hash (cyrb53)
+ * @param text - Text to hash
+ * @returns Hash as zero-padded hex
+ */
+function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
@@ -1,17 +1,74 @@
 /**
  * VCF file generation functions
- * Converts JavaScript objects to vCard 4.0 format
+ * Converts JavaScript objects to vCard 4.0 format, or 3.0 for legacy clients
  */
 
 import { unflatten } from 'flat';
-import { VCardData } from './types';
+import { VCardData, VcfGenerateOptions } from './types';
+import { PRESERVED_KEY, findValueColon, splitParameters } from './properties';
+import { FrontmatterKey, basePropertyKey, parseFrontmatterKey } from './schema';
+import { isDateValue, toVcardDate } from './dates';
+
+/**
+ * A frontmatter entry and its key parts
+ */
+interface FrontmatterField {
+  key: string;
+  value: any;
+  parsed: FrontmatterKey;
+}
+
+/**
+ * Parameters whose value is a comma-separated list
+ */
+const LIST_PARAMETERS = new Set(['TYPE', 'PID', 'SORT-AS']);
+
+/**
+ * vCard 4.0 properties written under a different name in vCard 3.0
+ * KIND and MEMBER use the names understood by Apple and most CardDAV servers
+ */
+const VCARD3_PROPERTY_NAMES: Record<string, string> = {
+  KIND: 'X-ADDRESSBOOKSERVER-KIND',
+  MEMBER: 'X-ADDRESSBOOKSERVER-MEMBER',
+  GENDER: 'X-GENDER',
+  ANNIVERSARY: 'X-ANNIVERSARY',
+  RELATED: 'X-RELATED',
+  LANG: 'X-LANG'
+};
+
+/**
+ * vCard 4.0 properties without a vCard 3.0 equivalent
+ */
+const VCARD3_DROPPED_PROPERTIES = new Set(['CLIENTPIDMAP', 'XML']);
+
+/**
+ * vCard 4.0 parameters without a vCard 3.0 equivalent
+ */
+const VCARD3_DROPPED_PARAMETERS = new Set(['PID', 'ALTID', 'SORT-AS', 'GEO', 'TZ', 'CALSCALE', 'MEDIATYPE', 'INDEX', 'LEVEL']);
+
+/**
+ * Properties vCard 3.0 allows exactly once; of their language alternatives only one is written
+ */
+const VCARD3_SINGLE_PROPERTIES = new Set(['FN', 'N']);
+
+/**
+ * X-GENDER values for the GENDER sex component
+ */
+const VCARD3_GENDER_NAMES: Record<string, string> = {
+  M: 'Male',
+  F: 'Female',
+  O: 'Other',
+  N: 'None',
+  U: 'Unknown'
+};
 
 /**
  * Generate a VCF file containing multiple contacts
  * @param contacts - Array of contact data
+ * @param options - Generate options
  * @returns VCF file content as string
  */
-export function generateVcfFile(contacts: VCardData[]): string {
+export function generateVcfFile(contacts: VCardData[], options: VcfGenerateOptions = {}): string {
   if (!contacts || contacts.length === 0) {
     return '';
   }
@@ -20,7 +77,7 @@ export function generateVcfFile(contacts: VCardData[]): string {
   
   for (const contact of contacts) {
     try {
-      const vcardString = generateVcfContact(contact);
+      const vcardString = generateVcfContact(contact, options);
       if (vcardString) {
         vcards.push(vcardString);
       }
@@ -30,15 +87,16 @@ export function generateVcfFile(contacts: VCardData[]): string {
     }
   }
   
-  return vcards.join('\n');
+  return vcards.map(vcard => `${vcard}\r\n`).join('');
 }
 
 /**
  * Generate a single vCard string
  * @param data - Contact data
+ * @param options - Generate options
  * @returns vCard as string
  */
-export function generateVcfContact(data: VCardData): string {
+export function generateVcfContact(data: VCardData, options: VcfGenerateOptions = {}): string {
   if (!data.UID) {
     throw new Error('Cannot generate vCard: missing UID');
   }
@@ -47,7 +105,7 @@ export function generateVcfContact(data: VCardData): string {
   }
 
   try {
-    return frontmatterToVcard(data);
+    return frontmatterToVcard(data, options);
   } catch (error) {
     console.error('Error generating vCard:', error);
     throw error;
@@ -57,132 +115,100 @@ export function generateVcfContact(data: VCardData): string {
 /**
  * Convert flat frontmatter format to vCard string
  * @param frontmatter - Flat frontmatter data
+ * @param options - Generate options
  * @returns vCard string
  */
-export function frontmatterToVcard(frontmatter: Record<string, any>): string {
-  const lines: string[] = [];
+export function frontmatterToVcard(frontmatter: Record<string, any>, options: VcfGenerateOptions = {}): string {
+  const version = options.version ?? '4.0';
+  let lines: string[] = [];
   
   // Start vCard
   lines.push('BEGIN:VCARD');
-  lines.push('VERSION:4.0');
+  lines.push(`VERSION:${version}`);
   
-  // Process required fields first
-  if (frontmatter.UID) {
-    lines.push(`UID:${frontmatter.UID}`);
-  }
-  if (frontmatter.FN) {
-    lines.push(`FN:${frontmatter.FN}`);
-  }
-  
-  // Group fields by base property name
+  // Group fields by base property name, collecting KEY.@PARAM parameters by property key
   const processedKeys = new Set(['UID', 'FN', 'VERSION']);
-  const fieldGroups = new Map<string, any[]>();
+  const fieldGroups = new Map<string, FrontmatterField[]>();
+  const parameters = new Map<string, Record<string, string>>();
   
   for (const [key, value] of Object.entries(frontmatter)) {
     if (processedKeys.has(key) || value === undefined || value === null || value === '') {
       continue;
     }
+
+    const parameterIndex = key.indexOf('.@');
+    if (parameterIndex !== -1) {
+      const propertyKey = key.substring(0, parameterIndex);
+      if (!parameters.has(propertyKey)) {
+        parameters.set(propertyKey, {});
+      }
+      parameters.get(propertyKey)![key.substring(parameterIndex + 2).toUpperCase()] =
+        Array.isArray(value) ? value.join(',') : String(value);
+      continue;
+    }
     
-    // Parse the key to extract base property and sub-parts
-    const parts = key.split('.');
-    const baseProp = parts[0];
-    
+    // Group by the first key segment, skipping unknown components of structured properties
+    const parsed = parseFrontmatterKey(key);
+    if (!parsed) {
+      continue;
+    }
+    const baseProp = key.split(parsed.language ? /[.:]/ : '.')[0];
+
     if (!fieldGroups.has(baseProp)) {
       fieldGroups.set(baseProp, []);
     }
     
-    fieldGroups.get(baseProp)!.push({ key, value, parts });
+    fieldGroups.get(baseProp)!.push({ key, value, parsed });
+  }
+
+  for (const fields of fieldGroups.values()) {
+    assignAltIds(fields, parameters);
   }
   
+  // Process required fields first
+  if (frontmatter.UID) {
+    lines.push(`UID${formatParameters([], parameters.get('UID'))}:${frontmatter.UID}`);
+  }
+  if (frontmatter.FN) {
+    lines.push(`FN${formatParameters([], parameters.get('FN'))}:${escapeText(String(frontmatter.FN))}`);
+  }
+
   // Generate lines for each field group
   for (const [baseProp, fields] of fieldGroups) {
-    if (baseProp === 'N') {
-      // Handle structured name field
-      const nParts = ['', '', '', '', '']; // Family, Given, Middle, Prefix, Suffix
-      for (const field of fields) {
-        if (field.parts.length >= 2) {
-          const subKey = field.parts[1].toUpperCase();
-          if (subKey === 'FN' || subKey === 'FAMILYNAMES') nParts[0] = field.value;
-          else if (subKey === 'GN' || subKey === 'GIVENNAMES') nParts[1] = field.value;
-          else if (subKey === 'MN' || subKey === 'ADDITIONALNAMES') nParts[2] = field.value;
-          else if (subKey === 'PREFIX' || subKey === 'HONORIFICPREFIXES') nParts[3] = field.value;
-          else if (subKey === 'SUFFIX' || subKey === 'HONORIFICSUFFIXES') nParts[4] = field.value;
-        }
-      }
-      lines.push(`N:${nParts.join(';')}`);
-    } else if (baseProp === 'ADR') {
-      // Handle address fields grouped by type
-      const addressGroups = new Map<string, any>();
-      for (const field of fields) {
-        const type = field.parts[1] || 'HOME';
-        if (!addressGroups.has(type)) {
-          addressGroups.set(type, {});
-        }
-        if (field.parts.length >= 3) {
-          const subKey = field.parts[2].toUpperCase();
-          addressGroups.get(type)![subKey] = field.value;
-        }
-      }
-      
-      for (const [type, adrParts] of addressGroups) {
-        const parts = [
-          '', // PO Box
-          '', // Extended address
-          adrParts.STREET || adrParts.STREETADDRESS || '',
-          adrParts.CITY || adrParts.LOCALITY || '',
-          adrParts.REGION || '',
-          adrParts.POSTAL || adrParts.POSTALCODE || '',
-          adrParts.COUNTRY || adrParts.COUNTRYNAME || ''
-        ];
-        lines.push(`ADR;TYPE=${type.toLowerCase()}:${parts.join(';')}`);
-      }
-    } else if (baseProp === 'EMAIL' || baseProp === 'TEL' || baseProp === 'URL') {
-      // Handle typed fields
-      for (const field of fields) {
-        if (field.parts.length === 1) {
-          // Simple email/tel without type
-          lines.push(`${baseProp}:${field.value}`);
-        } else if (field.parts.length >= 2) {
-          // Email/tel with type
-          const type = field.parts[1];
-          if (!isNaN(Number(type))) {
-            // It's an index, not a type
-            lines.push(`${baseProp}:${field.value}`);
-          } else {
-            lines.push(`${baseProp};TYPE=${type.toLowerCase()}:${field.value}`);
-          }
-        }
-      }
-    } else if (baseProp === 'RELATED') {
-      // Handle relationships
-      for (const field of fields) {
-        if (field.parts.length >= 2) {
-          const relType = field.parts[1];
-          if (!isNaN(Number(relType))) {
-            // It's an index within a type
-            if (field.parts.length >= 3) {
-              const actualType = field.parts[2];
-              lines.push(`RELATED;TYPE=${actualType.toLowerCase()}:${field.value}`);
-            }
-          } else {
-            lines.push(`RELATED;TYPE=${relType.toLowerCase()}:${field.value}`);
-          }
-        }
-      }
+    if (baseProp.toUpperCase() === PRESERVED_KEY) {
+      continue;
+    }
+
+    const mapping = fields[0].parsed.mapping;
+    if (mapping.type === 'structured' && mapping.components) {
+      lines.push(...generateStructuredLines(mapping.vcardField, fields, mapping.components.length, parameters));
+    } else if (mapping.type === 'list') {
+      lines.push(...generateListLines(mapping.vcardField, fields, mapping.separator ?? ',', parameters));
     } else {
-      // Handle simple fields
+      // Typed or repeated fields: PROP, PROP.TYPE, PROP.0, PROP.TYPE.0; only text values are escaped
+      // and dates return to ISO 8601 basic format
       for (const field of fields) {
-        if (field.parts.length === 1) {
-          lines.push(`${baseProp}:${field.value}`);
-        }
+        const value = mapping.type === 'text'
+          ? formatValue(field.value, ',')
+          : isDateValue(mapping.valueType, parameters.get(field.key)?.VALUE)
+            ? toVcardDate(field.value)
+            : (Array.isArray(field.value) ? field.value.join(',') : String(field.value));
+        lines.push(`${mapping.vcardField}${formatParameters(field.parsed.types, parameters.get(field.key))}:${value}`);
       }
     }
   }
   
+  if (version === '3.0') {
+    lines = convertToVcard3(lines);
+  }
+
+  // Content lines kept verbatim from the source vCard
+  lines.push(...preservedLines(fieldGroups.get(PRESERVED_KEY) ?? []));
+
   // End vCard
   lines.push('END:VCARD');
   
-  return lines.join('\r\n');
+  return lines.map(foldLine).join('\r\n');
 }
 
 /**
@@ -196,3 +222,383 @@ export function unflattenFrontmatter(flat: Record<string, any>): object {
     object: true
   });
 }
+
+/**
+ * Regenerate the ALTID groups of language alternatives
+ * A key with a language (FN:en) and the same key without it (FN) form one group. Each group
+ * gets the next ALTID the property does not use otherwise, and the alternatives their LANGUAGE
+ * @param fields - Frontmatter fields of one property
+ * @param parameters - Parameters by property key, updated in place
+ */
+function assignAltIds(fields: FrontmatterField[], parameters: Map<string, Record<string, string>>): void {
+  const groups = new Map<string, Map<string, string>>();
+  for (const { parsed } of fields) {
+    if (!parsed.language) {
+      continue;
+    }
+    const base = basePropertyKey(parsed);
+    if (!groups.has(base)) {
+      groups.set(base, new Map());
+    }
+    groups.get(base)!.set(parsed.propertyKey, parsed.language);
+  }
+  if (groups.size === 0) {
+    return;
+  }
+
+  const used = new Set<string>();
+  for (const { parsed } of fields) {
+    const altId = parameters.get(parsed.propertyKey)?.ALTID;
+    if (altId && !groups.has(parsed.propertyKey) && !parsed.language) {
+      used.add(altId);
+    }
+  }
+
+  let next = 1;
+  for (const [base, alternatives] of groups) {
+    while (used.has(String(next))) {
+      next++;
+    }
+    const altId = String(next++);
+    parameters.set(base, { ...parameters.get(base), ALTID: altId });
+    for (const [propertyKey, language] of alternatives) {
+      parameters.set(propertyKey, { ...parameters.get(propertyKey), ALTID: altId, LANGUAGE: language });
+    }
+  }
+}
+
+/**
+ * Generate lines for a structured property (N, ADR, GENDER)
+ * Keys are PROP.COMPONENT or PROP.TYPE.COMPONENT; a plain PROP key is emitted as-is
+ * @param property - Property name
+ * @param fields - Frontmatter fields of the property
+ * @param componentCount - Number of components
+ * @param parameters - Parameters by property key
+ * @returns vCard lines, one per type
+ */
+function generateStructuredLines(
+  property: string,
+  fields: FrontmatterField[],
+  componentCount: number,
+  parameters: Map<string, Record<string, string>>
+): string[] {
+  const lines: string[] = [];
+  const groups = new Map<string, { types: string[]; values: string[] }>();
+
+  for (const field of fields) {
+    const { component, types, propertyKey, mapping } = field.parsed;
+    if (component === '') {
+      lines.push(`${property}${formatParameters([], parameters.get(field.key))}:${formatValue(field.value, ';', ';,')}`);
+      continue;
+    }
+
+    if (!groups.has(propertyKey)) {
+      groups.set(propertyKey, { types, values: new Array(componentCount).fill('') });
+    }
+    const index = mapping.components!.findIndex(names => names[0] === component);
+    groups.get(propertyKey)!.values[index] = formatValue(field.value, ',');
+  }
+
+  for (const [propertyKey, { types, values }] of groups) {
+    // The GENDER identity component is optional
+    if (property === 'GENDER') {
+      while (values.length > 1 && values[values.length - 1] === '') {
+        values.pop();
+      }
+    }
+    lines.push(`${property}${formatParameters(types, parameters.get(propertyKey))}:${values.join(';')}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Generate lines for a multi-valued property (ORG, CATEGORIES, NICKNAME)
+ * Keys are PROP.0, PROP.TYPE.0, ...; a plain PROP or PROP.TYPE key is emitted as-is
+ * @param property - Property name
+ * @param fields - Frontmatter fields of the property
+ * @param separator - Value separator
+ * @param parameters - Parameters by property key
+ * @returns vCard lines, one per type
+ */
+function generateListLines(
+  property: string,
+  fields: FrontmatterField[],
+  separator: string,
+  parameters: Map<string, Record<string, string>>
+): string[] {
+  const groups = new Map<string, { types: string[]; values: { index: number; value: string }[] }>();
+
+  for (const field of fields) {
+    const { item, types, propertyKey } = field.parsed;
+    if (!groups.has(propertyKey)) {
+      groups.set(propertyKey, { types, values: [] });
+    }
+    groups.get(propertyKey)!.values.push({
+      index: item,
+      value: formatValue(field.value, separator, item === -1 ? separator : '')
+    });
+  }
+
+  const lines: string[] = [];
+  for (const [propertyKey, { types, values }] of groups) {
+    const value = values
+      .sort((a, b) => a.index - b.index)
+      .map(entry => entry.value)
+      .join(separator);
+    lines.push(`${property}${formatParameters(types, parameters.get(propertyKey))}:${value}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Collect verbatim content lines from PRESERVED.N keys in index order
+ * @param fields - Frontmatter fields of the PRESERVED key
+ * @returns Content lines
+ */
+function preservedLines(fields: FrontmatterField[]): string[] {
+  const lines: string[] = [];
+  const sorted = fields
+    .map(field => ({ index: Math.max(field.parsed.index, 0), value: field.value }))
+    .sort((a, b) => a.index - b.index);
+
+  for (const entry of sorted) {
+    lines.push(...(Array.isArray(entry.value) ? entry.value.map(String) : [String(entry.value)]));
+  }
+
+  return lines;
+}
+
+/**
+ * Convert generated vCard 4.0 content lines to vCard 3.0 (RFC 2426)
+ * @param lines - vCard 4.0 content lines, unfolded
+ * @returns vCard 3.0 content lines
+ */
+function convertToVcard3(lines: string[]): string[] {
+  const converted: string[] = [];
+
+  // Keep the value without a language, or else the first alternative
+  const kept = new Map<string, string>();
+  for (const line of lines) {
+    const [name, ...segments] = splitParameters(line.substring(0, findValueColon(line)));
+    if (VCARD3_SINGLE_PROPERTIES.has(name) && (!kept.has(name) || (/;LANGUAGE=/i.test(kept.get(name)!) && !segments.some(segment => /^LANGUAGE=/i.test(segment))))) {
+      kept.set(name, line);
+    }
+  }
+
+  for (const line of lines) {
+    const colon = findValueColon(line);
+    const [name, ...segments] = splitParameters(line.substring(0, colon));
+    let value = line.substring(colon + 1);
+
+    if (name === 'BEGIN' || name === 'VERSION') {
+      converted.push(line);
+      continue;
+    }
+    if (VCARD3_DROPPED_PROPERTIES.has(name) || (name === 'KIND' && value.toLowerCase() === 'individual')) {
+      continue;
+    }
+    if (VCARD3_SINGLE_PROPERTIES.has(name) && kept.get(name) !== line) {
+      continue;
+    }
+
+    // PREF becomes TYPE=pref, and the ADR LABEL parameter becomes a LABEL property
+    const types: string[] = [];
+    const parameters: string[] = [];
+    let label = '';
+    for (const segment of segments) {
+      const equals = segment.indexOf('=');
+      const parameterName = segment.substring(0, equals).toUpperCase();
+      const parameterValue = segment.substring(equals + 1);
+
+      if (parameterName === 'TYPE') {
+        types.push(...(parameterValue.match(/(?:[^,"]|"[^"]*")+/g) ?? []));
+      } else if (parameterName === 'PREF') {
+        types.push('pref');
+      } else if (parameterName === 'LABEL' && name === 'ADR') {
+        label = decodeParameterValue(parameterValue);
+      } else if (parameterName === 'VALUE' && name === 'TEL') {
+        continue;
+      } else if (!VCARD3_DROPPED_PARAMETERS.has(parameterName)) {
+        parameters.push(segment);
+      }
+    }
+
+    if (name === 'GENDER') {
+      const [sex, identity = ''] = value.split(/(?<!\\);/);
+      value = VCARD3_GENDER_NAMES[sex.toUpperCase()] ?? identity;
+      if (value === '') {
+        continue;
+      }
+    } else if (name === 'KIND') {
+      value = value.toLowerCase();
+    } else if (name === 'TEL') {
+      value = value.replace(/^tel:/i, '');
+    } else if (name === 'GEO') {
+      value = value.replace(/^geo:([^,;]+),([^,;]+).*$/i, '$1;$2');
+    } else if (name === 'TZ') {
+      const offset = value.match(/^([+-]\d{2})(\d{2})$/);
+      if (offset) {
+        value = `${offset[1]}:${offset[2]}`;
+      } else if (!parameters.some(segment => /^VALUE=/i.test(segment))) {
+        parameters.push('VALUE=text');
+      }
+    } else if (name === 'BDAY' || name === 'ANNIVERSARY') {
+      value = value.replace(/^(\d{4})(\d{2})(\d{2})(?=T|$)/, '$1-$2-$3');
+    }
+
+    // Inline data URIs become base64 values with ENCODING=b and the format as TYPE
+    const data = value.match(/^data:([^;,]*)(;base64)?,(.*)$/i);
+    if (data && data[2]) {
+      value = data[3];
+      parameters.push('ENCODING=b');
+      if (data[1]) {
+        types.push(data[1].substring(data[1].indexOf('/') + 1).toUpperCase());
+      }
+    }
+
+    const typeParameter = types.length > 0 ? [`TYPE=${Array.from(new Set(types)).join(',')}`] : [];
+    const propertyName = VCARD3_PROPERTY_NAMES[name] ?? name;
+    converted.push(`${[propertyName, ...typeParameter, ...parameters].join(';')}:${value}`);
+
+    if (label) {
+      converted.push(`LABEL${typeParameter.map(type => `;${type}`).join('')}:${escapeText(label)}`);
+    }
+  }
+
+  // N is required in vCard 3.0
+  if (!converted.some(line => /^N[;:]/.test(line))) {
+    const fnIndex = converted.findIndex(line => /^FN[;:]/.test(line));
+    converted.splice(fnIndex + 1, 0, 'N:;;;;');
+  }
+
+  return converted;
+}
+
+/**
+ * Decode a written parameter value (RFC 6868), removing surrounding quotes
+ * @param value - Parameter value as written
+ * @returns Raw parameter value
+ */
+export function decodeParameterValue(value: string): string {
+  return value
+    .replace(/^"(.*)"$/, '$1')
+    .replace(/\^([n'^])/g, (_, char: string) => (char === 'n' ? '\n' : char === "'" ? '"' : '^'));
+}
+
+/**
+ * Build the parameter list of a content line
+ * A TYPE stored as KEY.@TYPE replaces the types taken from the key
+ * @param types - Type names from the frontmatter key
+ * @param parameters - Parameters stored as KEY.@PARAM
+ * @returns Parameter string such as ";TYPE=work;PREF=1", or '' when there are none
+ */
+function formatParameters(types: string[], parameters: Record<string, string> = {}): string {
+  const typeValues = parameters.TYPE !== undefined
+    ? parameters.TYPE.split(',').map(type => type.trim())
+    : types.map(type => type.toLowerCase());
+
+  let result = typeValues.length > 0
+    ? `;TYPE=${typeValues.map(quoteParameterValue).join(',')}`
+    : '';
+
+  for (const [name, value] of Object.entries(parameters)) {
+    if (name === 'TYPE') {
+      continue;
+    }
+    const values = LIST_PARAMETERS.has(name) ? value.split(',') : [value];
+    result += `;${name}=${values.map(quoteParameterValue).join(',')}`;
+  }
+
+  return result;
+}
+
+/**
+ * Format a frontmatter value as an escaped vCard text value
+ * @param value - Frontmatter value (array items are escaped and joined)
+ * @param separator - Separator for array values
+ * @param structural - Separators already present in a pre-formatted string value, left unescaped
+ * @returns Value string
+ */
+function formatValue(value: any, separator: string, structural: string = ''): string {
+  if (Array.isArray(value)) {
+    return value.map(item => escapeText(String(item))).join(separator);
+  }
+  return escapeText(String(value), structural);
+}
+
+/**
+ * Escape a text value (RFC 6350 section 3.4)
+ * @param value - Raw text
+ * @param structural - Characters among ',' and ';' to leave unescaped
+ * @returns Escaped text
+ */
+export function escapeText(value: string, structural: string = ''): string {
+  let escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+  for (const char of [',', ';']) {
+    if (!structural.includes(char)) {
+      escaped = escaped.split(char).join(`\\${char}`);
+    }
+  }
+
+  return escaped;
+}
+
+/**
+ * Encode a parameter value (RFC 6868) and quote it when it contains ':', ';' or ','
+ * @param value - Raw parameter value
+ * @returns Parameter value safe to write
+ */
+export function quoteParameterValue(value: string): string {
+  const encoded = value
+    .replace(/\^/g, '^^')
+    .replace(/\r\n|\r|\n/g, '^n')
+    .replace(/"/g, "^'");
+
+  return /[:;,]/.test(encoded) ? `"${encoded}"` : encoded;
+}
+
+/**
+ * Fold a content line at 75 octets without splitting UTF-8 sequences (RFC 6350 section 3.2)
+ * @param line - Unfolded content line
+ * @returns Folded line using CRLF followed by a space
+ */
+function foldLine(line: string): string {
+  const segments: string[] = [];
+  let current = '';
+  let size = 0;
+  let limit = 75;
+
+  for (const char of line) {
+    const charSize = utf8Length(char);
+    if (size + charSize > limit) {
+      segments.push(current);
+      current = '';
+      size = 0;
+      // Continuation lines start with a space, which counts towards the limit
+      limit = 74;
+    }
+    current += char;
+    size += charSize;
+  }
+  segments.push(current);
+
+  return segments.join('\r\n ');
+}
+
+/**
+ * Number of UTF-8 octets needed to encode a single code point
+ * @param char - Character (one code point)
+ * @returns Octet count
+ */
+function utf8Length(char: string): number {
+  const codePoint = char.codePointAt(0)!;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
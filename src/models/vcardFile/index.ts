@@ -4,6 +4,26 @@
  */
 
 export { VcardFile } from './vcardFile';
-export { parseVcfFile, parseVcfContact, vcardToFrontmatter, flattenVCardData } from './parsing';
+export { parseVcfFile, parseVcfContact, parseVcfDocument, parseFlatContact, formatVcfDiagnostic, vcardToFrontmatter, flattenVCardData } from './parsing';
 export { generateVcfFile, generateVcfContact, frontmatterToVcard, unflattenFrontmatter } from './generation';
-export type { VCardData, VCardField, VCardFieldType, FieldMapping } from './types';
+export { parseJCard, generateJCard, isJCard } from './jcard';
+export { parseXCard, generateXCard, isXCard, XCARD_NAMESPACE } from './xcard';
+export { parseCsvContacts, generateCsv, resolveCsvColumn, getCsvPreview, detectCsvPreset, suggestCsvMapping, CSV_PRESETS, CSV_FIELD_OPTIONS } from './csv';
+export { parseLdif, generateLdif } from './ldif';
+export { RFC6350_PROPERTIES, PRESERVED_KEY, isPreservedLine } from './properties';
+export { PROPERTY_SCHEMA, getFieldMapping, buildFrontmatterKey, parseFrontmatterKey, basePropertyKey, checkFrontmatterKey } from './schema';
+export type { FrontmatterKey } from './schema';
+export { validateVcardData } from './validation';
+export { parseDateAndOrTime, formatDateAndOrTime, toFrontmatterDate, toVcardDate } from './dates';
+export type { VCardDateTime } from './dates';
+export { findAttachments, attachmentFileName, toAttachmentLink, parseAttachmentLink, mediaTypeForPath, toDataUri } from './attachments';
+export type { VCardAttachment } from './attachments';
+export { decodeVcfBytes } from './encoding';
+export { getLanguageAlternatives, getValueInLanguage } from './languages';
+export { canonicalizeContact, fingerprintContact, fingerprintContacts } from './fingerprint';
+export { diffContacts, isEmptyDiff } from './diff';
+export type { ContactDiff, ContactFieldChange } from './diff';
+export { mergeContacts, resolveMergeConflicts } from './merge';
+export type { MergeConflict, MergeResult, MergeOptions } from './merge';
+export type { DecodedVcf } from './encoding';
+export type { VCardData, VCardField, VCardFieldType, VCardCardinality, FieldMapping, VcfParseOptions, VcardConversion, VcardVersion, VcfGenerateOptions, VcfDiagnostic, VcfDiagnosticSeverity, VcfParseResult, JCard, JCardProperty, CsvColumnMapping, CsvPreset, CsvExportOptions } from './types';
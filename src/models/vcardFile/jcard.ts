@@ -0,0 +1,264 @@
+/**
+ * jCard (RFC 7095) conversion
+ * jCards are converted to and from vCard 4.0 content lines, so they share the flat
+ * frontmatter model of parseVcfDocument and frontmatterToVcard
+ */
+
+import { VCardData, VcfDiagnostic, VcfParseOptions, VcfParseResult, JCard, JCardProperty } from './types';
+import {
+  RFC6350_PROPERTIES,
+  findValueColon,
+  splitParameters,
+  splitEscaped,
+  unescapeText,
+  defaultValueType,
+  isDefaultValueType
+} from './properties';
+import { parseVcfDocument } from './parsing';
+import { getFieldMapping, hasComponents } from './schema';
+import { frontmatterToVcard, escapeText, quoteParameterValue, decodeParameterValue } from './generation';
+
+/**
+ * Value types that are written in ISO 8601 extended format in jCard and basic format in vCard
+ */
+export const DATE_VALUE_TYPES = new Set(['date', 'time', 'date-time', 'date-and-or-time', 'timestamp']);
+
+/**
+ * Check whether a value looks like a jCard or a list of jCards
+ * @param value - Parsed JSON
+ * @returns True if the value is a jCard or an array of jCards
+ */
+export function isJCard(value: unknown): boolean {
+  const isSingle = (item: unknown) => Array.isArray(item) && item[0] === 'vcard' && Array.isArray(item[1]);
+  return isSingle(value) || (Array.isArray(value) && value.length > 0 && value.every(isSingle));
+}
+
+/**
+ * Parse one or more jCards
+ * @param json - jCard JSON text, a parsed jCard or an array of jCards
+ * @param options - Parse options
+ * @returns Parsed contacts and diagnostics; line numbers are not known for jCards and are 0
+ */
+export function parseJCard(json: string | unknown, options: VcfParseOptions = {}): VcfParseResult {
+  let value: unknown = json;
+  if (typeof json === 'string') {
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      return { contacts: [], diagnostics: [jCardError(`Invalid JSON: ${error.message}`)] };
+    }
+  }
+
+  if (!isJCard(value)) {
+    return { contacts: [], diagnostics: [jCardError('Not a jCard')] };
+  }
+
+  const jCards = (Array.isArray((value as any[])[0]) ? value : [value]) as JCard[];
+  const content = jCards.map(jCard => jCardToVcard(jCard)).join('');
+  const { contacts, diagnostics } = parseVcfDocument(content, options);
+
+  return {
+    contacts,
+    diagnostics: diagnostics.map(diagnostic => ({ ...diagnostic, line: 0 }))
+  };
+}
+
+/**
+ * Generate a jCard for each contact
+ * @param contacts - Contact data
+ * @returns jCards in contact order
+ */
+export function generateJCard(contacts: VCardData[]): JCard[] {
+  return contacts.map(contact => {
+    const lines = frontmatterToVcard(contact)
+      .replace(/\r\n[ \t]/g, '')
+      .split('\r\n')
+      .filter(line => !/^(BEGIN|END):VCARD$/i.test(line));
+
+    return ['vcard', lines.map(lineToJCardProperty)] as JCard;
+  });
+}
+
+/**
+ * Convert a jCard to vCard 4.0 text
+ * @param jCard - jCard
+ * @returns vCard text ending with CRLF
+ */
+function jCardToVcard(jCard: JCard): string {
+  const lines = ['BEGIN:VCARD', 'VERSION:4.0'];
+  for (const property of jCard[1]) {
+    if (String(property[0]).toUpperCase() !== 'VERSION') {
+      lines.push(jCardPropertyToLine(property));
+    }
+  }
+  lines.push('END:VCARD');
+
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Convert a jCard property to a vCard content line
+ * @param property - jCard property [name, parameters, type, ...values]
+ * @returns Content line
+ */
+function jCardPropertyToLine(property: JCardProperty): string {
+  const [name, parameters = {}, type = 'unknown', ...values] = property;
+  const propertyName = String(name).toUpperCase();
+  let group = '';
+  const segments = [propertyName];
+
+  for (const [parameterName, parameterValue] of Object.entries(parameters)) {
+    if (parameterName.toLowerCase() === 'group') {
+      group = `${parameterValue}.`;
+      continue;
+    }
+    const list = Array.isArray(parameterValue) ? parameterValue : [parameterValue];
+    segments.push(`${parameterName.toUpperCase()}=${list.map(item => quoteParameterValue(String(item))).join(',')}`);
+  }
+  if (type !== 'unknown' && !isDefaultValueType(propertyName, type)) {
+    segments.push(`VALUE=${type}`);
+  }
+
+  const value = values
+    .map(item => Array.isArray(item)
+      ? item.map(component => Array.isArray(component)
+        ? component.map(part => formatValue(part, type)).join(',')
+        : formatValue(component, type)).join(';')
+      : formatValue(item, type))
+    .join(',');
+
+  return `${group}${segments.join(';')}:${value}`;
+}
+
+/**
+ * Convert a vCard content line to a jCard property
+ * @param line - Unfolded content line
+ * @returns jCard property
+ */
+function lineToJCardProperty(line: string): JCardProperty {
+  const colon = findValueColon(line);
+  const [groupedName, ...segments] = splitParameters(line.substring(0, colon));
+  const dot = groupedName.indexOf('.');
+  const name = groupedName.substring(dot + 1).toUpperCase();
+  const rawValue = line.substring(colon + 1);
+
+  const parameters: Record<string, string | string[]> = {};
+  if (dot !== -1) {
+    parameters.group = groupedName.substring(0, dot);
+  }
+
+  let type = RFC6350_PROPERTIES.has(name) ? defaultValueType(name, rawValue) : 'unknown';
+  for (const segment of segments) {
+    const equals = segment.indexOf('=');
+    const parameterName = segment.substring(0, equals).toLowerCase();
+    const values = (segment.substring(equals + 1).match(/(?:[^,"]|"[^"]*")+/g) ?? [''])
+      .map(decodeParameterValue);
+
+    if (parameterName === 'value') {
+      type = values[0].toLowerCase();
+    } else {
+      parameters[parameterName] = values.length > 1 ? values : values[0];
+    }
+  }
+
+  return [name.toLowerCase(), parameters, type, ...parseValues(name, type, rawValue)];
+}
+
+/**
+ * Split a content line value into jCard values
+ * @param name - Property name
+ * @param type - Value type
+ * @param value - Raw value
+ * @returns jCard values (a structured value is one array)
+ */
+function parseValues(name: string, type: string, value: string): any[] {
+  if (type === 'unknown') {
+    return [value];
+  }
+  const mapping = getFieldMapping(name);
+  // ORG and CLIENTPIDMAP are jCard structured values too
+  if (hasComponents(mapping)) {
+    const components = splitEscaped(value, ';').map(component => {
+      const parts = splitEscaped(component, ',').map(unescapeText);
+      return parts.length > 1 ? parts : parts[0];
+    });
+    return components.length > 1 ? [components] : components;
+  }
+  // CATEGORIES and NICKNAME have one jCard value per item
+  if (mapping.type === 'list') {
+    return splitEscaped(value, ',').map(unescapeText);
+  }
+  if (type === 'text') {
+    return [unescapeText(value)];
+  }
+  if (DATE_VALUE_TYPES.has(type)) {
+    return [toExtendedFormat(value)];
+  }
+  if (type === 'utc-offset') {
+    return [value.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2')];
+  }
+  return [value];
+}
+
+/**
+ * Format a jCard value as a content line value
+ * @param value - jCard value
+ * @param type - Value type
+ * @returns Content line value
+ */
+function formatValue(value: any, type: string): string {
+  const text = String(value ?? '');
+  if (type === 'text') {
+    return escapeText(text);
+  }
+  if (DATE_VALUE_TYPES.has(type)) {
+    return toBasicFormat(text);
+  }
+  if (type === 'utc-offset') {
+    return text.replace(/^([+-]\d{2}):(\d{2})$/, '$1$2');
+  }
+  return text;
+}
+
+/**
+ * Convert an ISO 8601 basic date or time (19850415T103000Z) to extended format (1985-04-15T10:30:00Z)
+ * @param value - vCard date, time or timestamp
+ * @returns jCard date, time or timestamp
+ */
+export function toExtendedFormat(value: string): string {
+  const [date, time] = value.split('T');
+  const extendedDate = date
+    .replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3')
+    .replace(/^--(\d{2})(\d{2})$/, '--$1-$2');
+
+  if (time === undefined) {
+    return extendedDate;
+  }
+  const extendedTime = time
+    .replace(/^(\d{2})(\d{2})(\d{2})?/, (_, hours, minutes, seconds) => `${hours}:${minutes}${seconds ? `:${seconds}` : ''}`)
+    .replace(/([+-]\d{2})(\d{2})$/, '$1:$2');
+  return `${extendedDate}T${extendedTime}`;
+}
+
+/**
+ * Convert an ISO 8601 extended date or time (1985-04-15T10:30:00Z) to basic format (19850415T103000Z)
+ * @param value - jCard date, time or timestamp
+ * @returns vCard date, time or timestamp
+ */
+export function toBasicFormat(value: string): string {
+  const [date, time] = value.split('T');
+  const basicDate = date
+    .replace(/^(\d{4})-(\d{2})-(\d{2})$/, '$1$2$3')
+    .replace(/^--(\d{2})-(\d{2})$/, '--$1$2');
+
+  return time === undefined ? basicDate : `${basicDate}T${time.replace(/:/g, '')}`;
+}
+
+/**
+ * Build a diagnostic for content that is not a usable jCard
+ * @param message - Problem description
+ * @returns Error diagnostic
+ */
+function jCardError(message: string): VcfDiagnostic {
+  return { card: -1, line: 0, message, severity: 'error' };
+}
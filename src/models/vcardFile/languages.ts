@@ -0,0 +1,51 @@
+/**
+ * Language alternatives (RFC 6350 sections 5.1 and 5.4)
+ * A property written in several languages shares one ALTID; frontmatter keeps the first
+ * representation under its key and the others under the key with their language, e.g.
+ * FN for Japanese with FN.@LANGUAGE: ja, and FN:en for English
+ */
+
+/**
+ * Get the languages a property key is available in
+ * @param data - Flat contact data
+ * @param key - Property key without language, e.g. FN or TITLE.1
+ * @returns Language tags of the alternatives by frontmatter key, with the key itself first
+ *          ('' if it has no LANGUAGE parameter)
+ */
+export function getLanguageAlternatives(data: Record<string, any>, key: string): Map<string, string> {
+  const alternatives = new Map<string, string>();
+  if (data[key] !== undefined) {
+    alternatives.set(key, String(data[`${key}.@LANGUAGE`] ?? ''));
+  }
+
+  const prefix = `${key}:`;
+  for (const candidate of Object.keys(data)) {
+    if (candidate.startsWith(prefix) && !candidate.substring(prefix.length).includes('.')) {
+      alternatives.set(candidate, candidate.substring(prefix.length));
+    }
+  }
+
+  return alternatives;
+}
+
+/**
+ * Pick the value of a property in a language
+ * An exact language tag is preferred over one that only shares the primary language (en for en-GB)
+ * @param data - Flat contact data
+ * @param key - Property key without language, e.g. FN
+ * @param language - Language tag; '' picks the key itself
+ * @returns Value in the language, or of the key itself if no alternative matches
+ */
+export function getValueInLanguage(data: Record<string, any>, key: string, language: string): any {
+  const wanted = language.trim().toLowerCase();
+  if (!wanted) {
+    return data[key];
+  }
+
+  const alternatives = Array.from(getLanguageAlternatives(data, key));
+  const primary = (tag: string) => tag.toLowerCase().split('-')[0];
+  const match = alternatives.find(([, tag]) => tag.toLowerCase() === wanted)
+    ?? alternatives.find(([, tag]) => tag !== '' && primary(tag) === primary(wanted));
+
+  return data[match ? match[0] : key];
+}
@@ -0,0 +1,452 @@
+/**
+ * LDIF (RFC 2849) conversion for Thunderbird and LDAP address books
+ * inetOrgPerson and Mozilla attributes are mapped to flat frontmatter keys, which are run
+ * through parseFlatContact on import and resolved with resolveCsvColumn on export
+ */
+
+import { VCardData, VcfDiagnostic, VcfParseOptions, VcfParseResult } from './types';
+import { parseFlatContact } from './parsing';
+import { resolveCsvColumn } from './csv';
+import { addFlatValue, fallbackFormattedName } from './properties';
+
+/**
+ * An attribute of an LDIF entry
+ */
+interface LdifAttribute {
+  /** Attribute name, lowercase, without options */
+  name: string;
+  /** Value; base64 values are decoded, except binary ones */
+  value: string;
+  /** Whether the value was base64 encoded */
+  base64: boolean;
+}
+
+/**
+ * An LDIF entry and the line it starts on
+ */
+interface LdifRecord {
+  /** 1-based line number of the dn line */
+  line: number;
+  /** Attributes in file order, dn included */
+  attributes: LdifAttribute[];
+}
+
+/**
+ * Frontmatter keys of the inetOrgPerson and Mozilla attributes, by lowercase attribute name
+ */
+const LDIF_ATTRIBUTES: Record<string, string> = {
+  givenname: 'N.GIVENNAMES',
+  sn: 'N.FAMILYNAMES',
+  surname: 'N.FAMILYNAMES',
+  mozillanickname: 'NICKNAME',
+  xmozillanickname: 'NICKNAME',
+  mail: 'EMAIL',
+  mozillasecondemail: 'EMAIL',
+  xmozillasecondemail: 'EMAIL',
+  telephonenumber: 'TEL.WORK',
+  homephone: 'TEL.HOME',
+  mobile: 'TEL.CELL',
+  cellphone: 'TEL.CELL',
+  facsimiletelephonenumber: 'TEL.FAX',
+  fax: 'TEL.FAX',
+  pager: 'TEL.PAGER',
+  o: 'ORG.0',
+  company: 'ORG.0',
+  ou: 'ORG.1',
+  department: 'ORG.1',
+  title: 'TITLE',
+  street: 'ADR.WORK.STREETADDRESS',
+  streetaddress: 'ADR.WORK.STREETADDRESS',
+  mozillaworkstreet2: 'ADR.WORK.STREETADDRESS',
+  postofficebox: 'ADR.WORK.POSTOFFICEBOX',
+  l: 'ADR.WORK.LOCALITY',
+  locality: 'ADR.WORK.LOCALITY',
+  st: 'ADR.WORK.REGION',
+  postalcode: 'ADR.WORK.POSTALCODE',
+  co: 'ADR.WORK.COUNTRYNAME',
+  countryname: 'ADR.WORK.COUNTRYNAME',
+  c: 'ADR.WORK.COUNTRYNAME',
+  mozillahomestreet: 'ADR.HOME.STREETADDRESS',
+  mozillahomestreet2: 'ADR.HOME.STREETADDRESS',
+  mozillahomelocalityname: 'ADR.HOME.LOCALITY',
+  mozillahomestate: 'ADR.HOME.REGION',
+  mozillahomepostalcode: 'ADR.HOME.POSTALCODE',
+  mozillahomecountryname: 'ADR.HOME.COUNTRYNAME',
+  mozillaworkurl: 'URL.WORK',
+  workurl: 'URL.WORK',
+  mozillahomeurl: 'URL.HOME',
+  homeurl: 'URL.HOME',
+  labeleduri: 'URL',
+  description: 'NOTE'
+};
+
+/**
+ * Object classes of exported entries
+ */
+const OBJECT_CLASSES = ['top', 'person', 'organizationalPerson', 'inetOrgPerson', 'mozillaAbPersonAlpha'];
+
+/**
+ * Object classes of entries that are not people (Thunderbird mailing lists, LDAP groups)
+ */
+const GROUP_OBJECT_CLASSES = new Set(['groupofnames', 'groupofuniquenames']);
+
+/**
+ * Exported attributes and the column they are resolved from, in output order
+ * Work attributes fall back to untyped values (see WORK_FALLBACK_EXCLUDED_TYPES)
+ */
+const LDIF_EXPORT_ATTRIBUTES: [string, string][] = [
+  ['givenName', 'N.GIVENNAMES'],
+  ['sn', 'N.FAMILYNAMES'],
+  ['mozillaNickname', 'NICKNAME'],
+  ['telephoneNumber', 'TEL.WORK'],
+  ['homePhone', 'TEL.HOME'],
+  ['mobile', 'TEL.CELL'],
+  ['facsimileTelephoneNumber', 'TEL.FAX'],
+  ['pager', 'TEL.PAGER'],
+  ['o', 'ORG.0'],
+  ['ou', 'ORG.1'],
+  ['title', 'TITLE'],
+  ['street', 'ADR.WORK.STREETADDRESS'],
+  ['postOfficeBox', 'ADR.WORK.POSTOFFICEBOX'],
+  ['l', 'ADR.WORK.LOCALITY'],
+  ['st', 'ADR.WORK.REGION'],
+  ['postalCode', 'ADR.WORK.POSTALCODE'],
+  ['c', 'ADR.WORK.COUNTRYNAME'],
+  ['mozillaHomeStreet', 'ADR.HOME.STREETADDRESS'],
+  ['mozillaHomeLocalityName', 'ADR.HOME.LOCALITY'],
+  ['mozillaHomeState', 'ADR.HOME.REGION'],
+  ['mozillaHomePostalCode', 'ADR.HOME.POSTALCODE'],
+  ['mozillaHomeCountryName', 'ADR.HOME.COUNTRYNAME'],
+  ['mozillaWorkUrl', 'URL.WORK'],
+  ['mozillaHomeUrl', 'URL.HOME'],
+  ['description', 'NOTE']
+];
+
+/**
+ * Types with their own attribute; values of these types are not used as work values
+ */
+const WORK_FALLBACK_EXCLUDED_TYPES = ['HOME', 'CELL', 'FAX', 'PAGER'];
+
+/**
+ * Maximum line length before folding (RFC 2849 recommends 76)
+ */
+const MAX_LINE_LENGTH = 76;
+
+/**
+ * Parse the person entries of an LDIF file
+ * Change records other than add and group entries are skipped with a warning
+ * @param content - LDIF text
+ * @param options - Parse options
+ * @returns Parsed contacts and diagnostics; the card of a diagnostic is the entry index
+ */
+export function parseLdif(content: string, options: VcfParseOptions = {}): VcfParseResult {
+  const contacts: VCardData[] = [];
+  const diagnostics: VcfDiagnostic[] = [];
+  const records = readLdif(content);
+
+  if (records.length === 0) {
+    return { contacts, diagnostics: [{ card: -1, line: 0, message: 'No LDIF entries found', severity: 'error' }] };
+  }
+
+  records.forEach((record, index) => {
+    const values = (name: string) => record.attributes.filter(attribute => attribute.name === name);
+    const report = (message: string, severity: 'error' | 'warning', property?: string) => {
+      diagnostics.push({ card: index, line: record.line, property, message, severity });
+    };
+
+    const changeType = values('changetype')[0]?.value.toLowerCase();
+    if (changeType && changeType !== 'add') {
+      report(`Skipped ${changeType} change record`, 'warning');
+      return;
+    }
+
+    const objectClasses = values('objectclass').map(attribute => attribute.value.toLowerCase());
+    if (objectClasses.some(objectClass => GROUP_OBJECT_CLASSES.has(objectClass))) {
+      report('Skipped group entry', 'warning');
+      return;
+    }
+
+    const data = entryToFrontmatter(record, report);
+    if (!data.FN) {
+      data.FN = fallbackFormattedName(data);
+    }
+    if (!data.FN) {
+      report('Entry has no name', 'error', 'FN');
+      return;
+    }
+
+    const result = parseFlatContact(data, options);
+    contacts.push(...result.contacts);
+    diagnostics.push(...result.diagnostics.map(diagnostic => ({ ...diagnostic, card: index, line: record.line })));
+  });
+
+  return { contacts, diagnostics };
+}
+
+/**
+ * Write contacts as an LDIF file of Thunderbird-compatible inetOrgPerson entries
+ * sn is required by the person object class and falls back to the full name
+ * @param contacts - Contact data or contact note frontmatter
+ * @returns LDIF text
+ */
+export function generateLdif(contacts: Record<string, any>[]): string {
+  const entries = contacts.map(contact => {
+    const lines: string[] = [];
+    const add = (name: string, value: string) => {
+      if (value) {
+        lines.push(ldifLine(name, value));
+      }
+    };
+
+    const fn = String(contact.FN ?? '');
+    const emails = Object.keys(contact)
+      .filter(key => key.split('.')[0] === 'EMAIL' && !key.includes('.@'))
+      .map(key => String(contact[key]));
+    const mail = resolveCsvColumn(contact, 'EMAIL', ['PREF']);
+
+    add('dn', mail ? `cn=${escapeDn(fn)},mail=${escapeDn(mail)}` : `cn=${escapeDn(fn)}`);
+    OBJECT_CLASSES.forEach(objectClass => add('objectclass', objectClass));
+    add('cn', fn);
+    add('mail', mail);
+    add('mozillaSecondEmail', emails.find(email => email !== mail) ?? '');
+
+    const untyped = withoutTypes(contact, WORK_FALLBACK_EXCLUDED_TYPES);
+    for (const [name, column] of LDIF_EXPORT_ATTRIBUTES) {
+      let value = resolveCsvColumn(contact, column);
+      if (!value && column.includes('.WORK')) {
+        value = resolveCsvColumn(untyped, column.replace('.WORK', ''));
+      }
+      if (!value && name === 'sn') {
+        value = fn;
+      }
+      add(name, value);
+    }
+
+    const birthday = String(contact.BDAY ?? '').match(/^(\d{4}|-)-?(\d{2})-?(\d{2})$/);
+    if (birthday) {
+      add('birthyear', birthday[1] === '-' ? '' : birthday[1]);
+      add('birthmonth', birthday[2]);
+      add('birthday', birthday[3]);
+    }
+
+    const photo = String(contact.PHOTO ?? '').match(/^data:image\/jpeg;base64,(.+)$/i);
+    if (photo) {
+      lines.push(foldLdifLine(`jpegPhoto:: ${photo[1]}`));
+    }
+
+    return lines.join('\n');
+  });
+
+  return `version: 1\n\n${entries.join('\n\n')}\n`;
+}
+
+/**
+ * Map the attributes of one entry to frontmatter
+ * @param record - LDIF entry
+ * @param report - Reports values that were ignored
+ * @returns Frontmatter data
+ */
+function entryToFrontmatter(
+  record: LdifRecord,
+  report: (message: string, severity: 'error' | 'warning', property?: string) => void
+): Record<string, any> {
+  const data: Record<string, any> = {};
+  const first = (name: string) => record.attributes.find(attribute => attribute.name === name)?.value;
+  const has = (name: string) => record.attributes.some(attribute => attribute.name === name);
+
+  const fn = first('displayname') ?? first('cn');
+  if (fn) {
+    data.FN = fn;
+  }
+
+  const entryUUID = first('entryuuid');
+  if (entryUUID) {
+    data.UID = `urn:uuid:${entryUUID.toLowerCase()}`;
+  }
+
+  const month = first('birthmonth');
+  const day = first('birthday');
+  if (month && day) {
+    const year = first('birthyear');
+    data.BDAY = `${year ? year.padStart(4, '0') : '--'}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
+  }
+
+  for (const attribute of record.attributes) {
+    if (attribute.name === 'jpegphoto') {
+      if (attribute.base64) {
+        addFlatValue(data, 'PHOTO', `data:image/jpeg;base64,${attribute.value}`);
+      } else {
+        report('Ignored jpegPhoto that is not base64 encoded', 'warning', 'PHOTO');
+      }
+      continue;
+    }
+
+    // The country code is only used when there is no country name
+    if (attribute.name === 'c' && (has('co') || has('countryname'))) {
+      continue;
+    }
+
+    const key = LDIF_ATTRIBUTES[attribute.name];
+    const value = attribute.name === 'labeleduri'
+      ? attribute.value.split(' ')[0]
+      : attribute.value.trim();
+    if (key && value) {
+      addFlatValue(data, key, value);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Read the entries of LDIF content
+ * Comments and the version line are dropped, and folded lines are unfolded
+ * @param content - LDIF text
+ * @returns Entries with their attributes
+ */
+function readLdif(content: string): LdifRecord[] {
+  const records: LdifRecord[] = [];
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n?|\n/);
+  let record: LdifRecord | null = null;
+  let comment = false;
+
+  const addLine = (text: string) => {
+    const separator = text.indexOf(':');
+    if (separator <= 0) {
+      return;
+    }
+
+    const name = text.substring(0, separator).split(';')[0].trim().toLowerCase();
+    const base64 = text[separator + 1] === ':';
+    const url = text[separator + 1] === '<';
+    const raw = text.substring(separator + (base64 || url ? 2 : 1)).trim();
+
+    if (name === 'dn') {
+      record = { line: lineNumber, attributes: [] };
+      records.push(record);
+    } else if (!record || url) {
+      return;
+    }
+
+    const value = base64 && name !== 'jpegphoto' ? decodeBase64(raw) : raw;
+    record!.attributes.push({ name, value, base64 });
+  };
+
+  let pending = '';
+  let pendingLine = 0;
+  let lineNumber = 0;
+  const flush = () => {
+    if (pending) {
+      lineNumber = pendingLine;
+      addLine(pending);
+    }
+    pending = '';
+  };
+
+  lines.forEach((line, index) => {
+    if (line.startsWith(' ')) {
+      if (!comment) {
+        pending += line.substring(1);
+      }
+      return;
+    }
+
+    flush();
+    comment = line.startsWith('#');
+    if (line.trim() === '') {
+      record = null;
+    } else if (!comment && !(records.length === 0 && !record && /^version:/i.test(line))) {
+      pending = line;
+      pendingLine = index + 1;
+    }
+  });
+  flush();
+
+  return records;
+}
+
+/**
+ * Format an attribute line, base64 encoding values that are not safe strings (RFC 2849)
+ * @param name - Attribute name
+ * @param value - Value
+ * @returns Folded line
+ */
+function ldifLine(name: string, value: string): string {
+  const safe = /^[\x01-\x09\x0B\x0C\x0E-\x1F\x21-\x39\x3B\x3D-\x7F][\x01-\x09\x0B\x0C\x0E-\x7F]*$/.test(value)
+    && !value.endsWith(' ');
+  return foldLdifLine(safe ? `${name}: ${value}` : `${name}:: ${encodeBase64(value)}`);
+}
+
+/**
+ * Fold a line longer than 76 characters; continuation lines start with a space
+ * @param line - Unfolded line
+ * @returns Folded line
+ */
+function foldLdifLine(line: string): string {
+  if (line.length <= MAX_LINE_LENGTH) {
+    return line;
+  }
+
+  const parts = [line.substring(0, MAX_LINE_LENGTH)];
+  for (let i = MAX_LINE_LENGTH; i < line.length; i += MAX_LINE_LENGTH - 1) {
+    parts.push(` ${line.substring(i, i + MAX_LINE_LENGTH - 1)}`);
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Escape a distinguished name value (RFC 4514)
+ * @param value - Attribute value
+ * @returns Escaped value
+ */
+function escapeDn(value: string): string {
+  return value
+    .replace(/[\\,+"<>;=]/g, char => `\\${char}`)
+    .replace(/^([#\s])/, '\\$1')
+    .replace(/(\s)$/, '\\$1');
+}
+
+/**
+ * Decode base64 text as UTF-8
+ * @param value - Base64 text
+ * @returns Decoded text
+ */
+function decodeBase64(value: string): string {
+  const binary = atob(value.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+/**
+ * Encode text as base64 of its UTF-8 bytes
+ * @param value - Text
+ * @returns Base64 text
+ */
+function encodeBase64(value: string): string {
+  let binary = '';
+  new TextEncoder().encode(value).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Copy frontmatter without the keys that have one of the given types
+ * @param data - Flat frontmatter
+ * @param types - Uppercase types to drop
+ * @returns Frontmatter without those keys
+ */
+function withoutTypes(data: Record<string, any>, types: string[]): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(data)) {
+    const parts = key.split('.').map(part => part.toUpperCase());
+    const typeParameter = String(data[`${key}.@TYPE`] ?? '').toUpperCase().split(',');
+    if (!parts.some(part => types.includes(part)) && !typeParameter.some(type => types.includes(type))) {
+      result[key] = data[key];
+    }
+  }
+  return result;
+}
@@ -0,0 +1,241 @@
+/**
+ * Three-way merge of two versions of a contact
+ * The note ("ours") and an incoming vCard ("theirs") are merged against the data of the last
+ * sync ("base"), one field at a time as grouped by diff.ts. Values of repeatable properties are
+ * first given the note's keys by type and value, so values that were only renumbered or reordered
+ * are not changes. A field changed on one side takes that side's value; a field both sides changed
+ * to different values is a conflict, which the REV timestamps may decide
+ */
+
+import { GroupedField, groupContactFields } from './diff';
+import { parseFrontmatterKey } from './schema';
+
+/**
+ * A field both sides changed to different values
+ */
+export interface MergeConflict {
+  /** vCard property name */
+  property: string;
+  /** Canonical frontmatter key of the field, e.g. ADR.HOME */
+  key: string;
+  /** Value at the last sync, undefined if the field did not exist */
+  base?: string;
+  /** Value in the note, undefined if it was removed */
+  ours?: string;
+  /** Incoming value, undefined if it was removed */
+  theirs?: string;
+  /** Keys and values of the field in the note */
+  oursEntries: Record<string, any>;
+  /** Keys and values of the field in the incoming data */
+  theirsEntries: Record<string, any>;
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  /** Merged data; open conflicts keep the note's value */
+  merged: Record<string, any>;
+  /** Conflicts left to resolve */
+  conflicts: MergeConflict[];
+  /** Conflicts decided by the newer REV */
+  decidedByRev: MergeConflict[];
+}
+
+/**
+ * Options for merging contacts
+ */
+export interface MergeOptions {
+  /** Let the side with the newer REV win conflicts; sides without REV are never newer */
+  preferNewerRev?: boolean;
+}
+
+/**
+ * Merge the changes of a note and of an incoming vCard since the last sync
+ * Non-vCard frontmatter of the note (tags, aliases) is kept, and REV is the newer one
+ * @param base - Contact data at the last sync
+ * @param ours - Frontmatter of the note
+ * @param theirs - Incoming contact data
+ * @param options - Merge options
+ * @returns Merged data and the conflicts
+ */
+export function mergeContacts(
+  base: Record<string, any>,
+  ours: Record<string, any>,
+  theirs: Record<string, any>,
+  options: MergeOptions = {}
+): MergeResult {
+  // Incoming values the note removed take their base key, so they stay removed
+  const alignedBase = alignRepeatableKeys([ours], base);
+  const baseFields = groupContactFields(alignedBase);
+  const ourFields = groupContactFields(ours);
+  const theirFields = groupContactFields(alignRepeatableKeys([ours, alignedBase], theirs));
+  const keys = new Set([...Array.from(baseFields.keys()), ...Array.from(ourFields.keys()), ...Array.from(theirFields.keys())]);
+  const comparison = compareRev(ours.REV, theirs.REV);
+  const result: MergeResult = { merged: { ...ours }, conflicts: [], decidedByRev: [] };
+
+  keys.forEach(key => {
+    const baseField = baseFields.get(key);
+    const ourField = ourFields.get(key);
+    const theirField = theirFields.get(key);
+    const baseSignature = baseField?.signature;
+    const ourSignature = ourField?.signature;
+    const theirSignature = theirField?.signature;
+
+    if (ourSignature === theirSignature || theirSignature === baseSignature) {
+      return;
+    }
+    if (ourSignature === baseSignature) {
+      replaceEntries(result.merged, ourField?.entries ?? {}, theirField?.entries ?? {});
+      return;
+    }
+
+    const conflict: MergeConflict = {
+      property: (ourField ?? theirField)!.property,
+      key,
+      base: baseField?.text,
+      ours: ourField?.text,
+      theirs: theirField?.text,
+      oursEntries: ourField?.entries ?? {},
+      theirsEntries: theirField?.entries ?? {}
+    };
+    if (options.preferNewerRev && comparison !== 0) {
+      if (comparison < 0) {
+        replaceEntries(result.merged, conflict.oursEntries, conflict.theirsEntries);
+      }
+      result.decidedByRev.push(conflict);
+      return;
+    }
+    result.conflicts.push(conflict);
+  });
+
+  if (comparison < 0) {
+    result.merged.REV = theirs.REV;
+  }
+  return result;
+}
+
+/**
+ * Apply the choices made for the open conflicts of a merge
+ * @param result - Merge result
+ * @param choices - Side to keep by conflict key; conflicts without a choice keep the note's value
+ * @returns Merged data with the chosen values
+ */
+export function resolveMergeConflicts(result: MergeResult, choices: Record<string, 'ours' | 'theirs'>): Record<string, any> {
+  const merged = { ...result.merged };
+  for (const conflict of result.conflicts) {
+    if (choices[conflict.key] === 'theirs') {
+      replaceEntries(merged, conflict.oursEntries, conflict.theirsEntries);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Replace the keys of a field in merged data with the keys of the other side
+ */
+function replaceEntries(merged: Record<string, any>, current: Record<string, any>, replacement: Record<string, any>): void {
+  for (const key of Object.keys(current)) {
+    delete merged[key];
+  }
+  Object.assign(merged, replacement);
+}
+
+/**
+ * Give the values of repeatable properties the keys the same values have in reference versions
+ * A value matches a reference value of the same property and type (EMAIL.HOME, TEL.CELL) with
+ * the same value, in the first reference before the later ones; values of later references only
+ * match under keys the earlier ones do not use. Values that lose their key to a match take the
+ * keys the matches left
+ * @param references - Contact data whose keys are kept, in order of preference
+ * @param data - Contact data to re-key
+ * @returns Contact data with matched values under the references' keys
+ */
+function alignRepeatableKeys(references: Record<string, any>[], data: Record<string, any>): Record<string, any> {
+  const referenceFields: GroupedField[] = [];
+  for (const reference of references) {
+    const taken = new Set(referenceFields.map(field => field.key));
+    referenceFields.push(...Array.from(groupContactFields(reference).values()).filter(field => field.repeatable && !taken.has(field.key)));
+  }
+  const fields = Array.from(groupContactFields(data).values()).filter(field => field.repeatable && fieldPrefix(field));
+  const used = new Set<GroupedField>();
+  const moves = new Map<GroupedField, string>();
+
+  // Values already under the key of the same value stay
+  const unmatched = fields.filter(field => {
+    const target = referenceFields.find(candidate => !used.has(candidate) && candidate.key === field.key && candidate.identity === field.identity);
+    if (target) {
+      used.add(target);
+    }
+    return !target;
+  });
+
+  const targetKeys = new Set<string>();
+  for (const field of unmatched) {
+    const target = referenceFields.find(candidate =>
+      !used.has(candidate) && candidate.slotKey === field.slotKey && candidate.identity === field.identity && fieldPrefix(candidate)
+    );
+    if (target) {
+      used.add(target);
+      moves.set(field, fieldPrefix(target)!);
+      targetKeys.add(target.key);
+    }
+  }
+  if (moves.size === 0) {
+    return data;
+  }
+
+  // Values under a key a match moves to take a key a match left, of the same type
+  const vacated = Array.from(moves.keys()).filter(field => !targetKeys.has(field.key));
+  for (const field of unmatched) {
+    if (moves.has(field) || !targetKeys.has(field.key)) {
+      continue;
+    }
+    const index = vacated.findIndex(candidate => candidate.slotKey === field.slotKey);
+    if (index !== -1) {
+      moves.set(field, fieldPrefix(vacated[index])!);
+      vacated.splice(index, 1);
+    }
+  }
+
+  const aligned = { ...data };
+  moves.forEach((_, field) => {
+    Object.keys(field.entries).forEach(key => delete aligned[key]);
+  });
+  moves.forEach((prefix, field) => {
+    const oldPrefix = fieldPrefix(field)!;
+    for (const [key, value] of Object.entries(field.entries)) {
+      aligned[prefix + key.substring(oldPrefix.length)] = value;
+    }
+  });
+  return aligned;
+}
+
+/**
+ * Get the key all keys of a field start with in its contact data, e.g. EMAIL.HOME.1
+ * @returns Key prefix, or undefined if the keys do not share one
+ */
+function fieldPrefix(field: GroupedField): string | undefined {
+  const keys = Object.keys(field.entries);
+  const valueKey = keys.find(key => !key.includes('.@'));
+  const prefix = valueKey ? parseFrontmatterKey(valueKey)?.propertyKey : undefined;
+  return prefix && keys.every(key => key === prefix || key.startsWith(`${prefix}.`) || key.startsWith(`${prefix}:`)) ? prefix : undefined;
+}
+
+/**
+ * Compare two REV timestamps
+ * Both basic (20240101T120000Z) and extended (2024-01-01T12:00:00Z) formats are accepted
+ * @returns Negative if the second is newer, positive if the first is, 0 if equal or either is missing
+ */
+function compareRev(first: any, second: any): number {
+  const digits = (value: any) => {
+    const text = value instanceof Date ? value.toISOString() : String(value ?? '');
+    return text.replace(/[^0-9]/g, '').substring(0, 14).padEnd(14, '0');
+  };
+  const a = digits(first);
+  const b = digits(second);
+  if (/^0+$/.test(a) || /^0+$/.test(b) || a === b) {
+    return 0;
+  }
+  return a < b ? -1 : 1;
+}
@@ -1,54 +1,198 @@
 /**
  * VCF file parsing functions
  * Converts vCard 4.0 format to JavaScript objects using the vcard4 library
+ * vCard 2.1 and 3.0 cards are upgraded to 4.0 before they are parsed
  */
 
 import { parse } from 'vcard4';
 import { flatten } from 'flat';
-import { VCardData } from './types';
+import { VCardData, VCardField, VcfDiagnostic, VcfParseOptions, VcfParseResult } from './types';
+import { PRESERVED_KEY, isPreservedLine, parseContentLineName, findValueColon, splitParameters, unescapeText } from './properties';
+import { frontmatterToVcard, quoteParameterValue } from './generation';
+import { getFieldMapping, buildFrontmatterKey, isRequired } from './schema';
+import { isDateValue, toFrontmatterDate } from './dates';
+import { canonicalizeContact, contentUID } from './fingerprint';
+
+/**
+ * Stand-ins for escaped characters while vcard4 splits values
+ * vcard4 unescapes \n before \\ and skips any value that contains something URI-like,
+ * so escape sequences are resolved here instead (RFC 6350 section 3.4)
+ */
+const ESCAPE_PLACEHOLDERS: Record<string, string> = {
+  '\\': '\uE000',
+  ',': '\uE001',
+  ';': '\uE002',
+  'n': '\uE003'
+};
+
+/**
+ * Characters the escape placeholders stand for
+ */
+const UNESCAPED_CHARACTERS: Record<string, string> = {
+  '\uE000': '\\',
+  '\uE001': ',',
+  '\uE002': ';',
+  '\uE003': '\n'
+};
+
+/**
+ * Content lines of one card in a VCF file
+ */
+interface VcfCard {
+  /** 1-based line number of BEGIN:VCARD */
+  line: number;
+  /** Content lines, still folded */
+  lines: string[];
+  /** Whether the card ends with END:VCARD */
+  complete: boolean;
+}
+
+/**
+ * vCard versions that are upgraded to 4.0 before parsing
+ */
+const LEGACY_VERSIONS = new Set(['2.1', '3.0']);
+
+/**
+ * Bare vCard 2.1 parameter tokens that name an encoding rather than a type
+ */
+const ENCODING_TOKENS = new Set(['QUOTED-PRINTABLE', 'BASE64', 'B', '8BIT', '7BIT']);
+
+/**
+ * Types without a meaning in vCard 4.0 (EMAIL transports)
+ */
+const OBSOLETE_TYPES = new Set(['internet', 'x400']);
+
+/**
+ * vCard 2.1 and 3.0 properties that vCard 4.0 no longer defines
+ * LABEL is not listed: it becomes the LABEL parameter of an ADR
+ */
+const OBSOLETE_PROPERTIES = new Set(['MAILER', 'NAME', 'PROFILE', 'CLASS', 'SORT-STRING', 'AGENT']);
+
+/**
+ * vCard 3.0 extension properties with a vCard 4.0 equivalent (Apple and CardDAV group cards)
+ */
+const EXTENSION_PROPERTIES: Record<string, string> = {
+  'X-ADDRESSBOOKSERVER-KIND': 'KIND',
+  'X-ADDRESSBOOKSERVER-MEMBER': 'MEMBER'
+};
+
+/**
+ * Media type of inline binary data by property, used when TYPE only names the format (TYPE=JPEG)
+ */
+const MEDIA_CATEGORIES: Record<string, string> = {
+  PHOTO: 'image',
+  LOGO: 'image',
+  SOUND: 'audio',
+  KEY: 'application'
+};
 
 /**
  * Parse a VCF file containing one or more contacts
+ * Invalid cards are skipped; use parseVcfDocument to find out why
  * @param content - VCF file content as string
+ * @param options - Parse options
  * @returns Array of parsed contact data
  */
-export function parseVcfFile(content: string): VCardData[] {
-  if (!content || content.trim().length === 0) {
-    return [];
-  }
+export function parseVcfFile(content: string, options: VcfParseOptions = {}): VCardData[] {
+  const { contacts, diagnostics } = parseVcfDocument(content, options);
 
-  try {
-    const parsed = parse(content);
-    
-    // parse() returns either a single contact or an array of contacts
-    const contacts = Array.isArray(parsed) ? parsed : [parsed];
-    
-    return contacts.map(contact => vcardToFrontmatter(contact));
-  } catch (error) {
-    console.error('Error parsing VCF file:', error);
-    return [];
+  for (const diagnostic of diagnostics) {
+    console.error(`Error parsing VCF file: ${formatVcfDiagnostic(diagnostic)}`);
   }
+
+  return contacts;
 }
 
 /**
  * Parse a single vCard string
  * @param vcardString - Single vCard as string
+ * @param options - Parse options
  * @returns Parsed contact data or null if invalid
  */
-export function parseVcfContact(vcardString: string): VCardData | null {
+export function parseVcfContact(vcardString: string, options: VcfParseOptions = {}): VCardData | null {
   if (!vcardString || !vcardString.includes('BEGIN:VCARD')) {
     return null;
   }
 
-  try {
-    const parsed = parse(vcardString);
-    // parse() always returns an object for a single vCard
-    const contact = Array.isArray(parsed) ? parsed[0] : parsed;
-    return vcardToFrontmatter(contact);
-  } catch (error) {
-    console.error('Error parsing vCard:', error);
-    return null;
+  const { contacts, diagnostics } = parseVcfDocument(vcardString, options);
+
+  for (const diagnostic of diagnostics) {
+    console.error(`Error parsing vCard: ${formatVcfDiagnostic(diagnostic)}`);
+  }
+
+  return contacts[0] ?? null;
+}
+
+/**
+ * Parse a VCF file card by card, so one invalid card does not discard the others
+ * @param content - VCF file content as string
+ * @param options - Parse options
+ * @returns Parsed contacts and diagnostics for the cards that were skipped or need attention
+ */
+export function parseVcfDocument(content: string, options: VcfParseOptions = {}): VcfParseResult {
+  const result: VcfParseResult = { contacts: [], diagnostics: [] };
+  if (!content || content.trim().length === 0) {
+    return result;
   }
+
+  const { cards, diagnostics } = splitCards(content);
+  result.diagnostics.push(...diagnostics);
+
+  cards.forEach((card, index) => {
+    if (!card.complete) {
+      result.diagnostics.push({
+        card: index,
+        line: card.line + card.lines.length - 1,
+        message: 'Card is missing END:VCARD',
+        severity: 'error'
+      });
+      return;
+    }
+
+    try {
+      result.contacts.push(parseCard(card.lines, index, options));
+    } catch (error) {
+      result.diagnostics.push(cardDiagnostic(error, card, index));
+    }
+  });
+
+  if (cards.length === 0) {
+    result.diagnostics.push({ card: -1, line: 1, message: 'No BEGIN:VCARD found', severity: 'error' });
+  }
+
+  return result;
+}
+
+/**
+ * Validate and normalize flat frontmatter built by an importer (CSV, LDIF)
+ * The data is written as a vCard and parsed back, so it ends up in the same form as
+ * a card from a .vcf file; a missing UID is derived from the data, so importing the same
+ * row again finds the contact it created
+ * @param data - Flat frontmatter data with at least an FN
+ * @param options - Parse options
+ * @returns The contact, or a diagnostic if the data does not form a valid card
+ */
+export function parseFlatContact(data: Record<string, any>, options: VcfParseOptions = {}): VcfParseResult {
+  const contact = data.UID ? data : { ...data, UID: contentUID(canonicalizeContact(data)) };
+  return parseVcfDocument(frontmatterToVcard(contact), options);
+}
+
+/**
+ * Format a diagnostic for notices and logs
+ * @param diagnostic - Parse diagnostic
+ * @returns Text such as "Card 3, line 42 (EMAIL): message"
+ */
+export function formatVcfDiagnostic(diagnostic: VcfDiagnostic): string {
+  const parts: string[] = [];
+  if (diagnostic.card >= 0) {
+    parts.push(`Card ${diagnostic.card + 1}`);
+  }
+  if (diagnostic.line > 0) {
+    parts.push(diagnostic.card >= 0 ? `line ${diagnostic.line}` : `Line ${diagnostic.line}`);
+  }
+  const location = parts.length > 0 ? parts.join(', ') : 'File';
+  const property = diagnostic.property ? ` (${diagnostic.property})` : '';
+  return `${location}${property}: ${diagnostic.message}`;
 }
 
 /**
@@ -66,46 +210,90 @@ export function vcardToFrontmatter(vcard: any): VCardData {
     throw new Error('Invalid vCard: no properties found');
   }
 
+  const fields: VCardField[] = properties.map((prop: any) => ({
+    name: prop.property.toUpperCase(),
+    value: restoreEscapes(prop.value),
+    parameters: normalizeParameters(restoreEscapes(prop.parameters || {}))
+  }));
+
+  // Alternatives in other languages share the key of the first field of their ALTID group
+  const alternatives = findLanguageAlternatives(fields);
+
+  // Repeated keys are numbered (EMAIL.0, EMAIL.1, TEL.CELL.0, ...); required properties (FN)
+  // keep their first value under the plain key
+  const keyCounts = new Map<string, number>();
+  for (const field of fields) {
+    if (alternatives.has(field)) {
+      continue;
+    }
+    const key = baseKey(field);
+    keyCounts.set(key, (keyCounts.get(key) ?? 0) + 1);
+  }
+  const seen = new Map<string, number>();
+  const slots = new Map<VCardField, { type?: string; index: number }>();
+
   // Process each property
-  for (const prop of properties) {
-    const propName = prop.property.toUpperCase();
-    const propValue = prop.value;
-    const parameters = prop.parameters || {};
-    
-    // Build the key with type parameter if present
-    let key = propName;
-    if (parameters.TYPE) {
-      const type = Array.isArray(parameters.TYPE) ? parameters.TYPE[0] : parameters.TYPE;
-      key = `${propName}.${type.toUpperCase()}`;
+  for (const field of fields) {
+    const mapping = getFieldMapping(field.name);
+    const first = alternatives.get(field);
+    let type: string | undefined;
+    let index: number;
+    if (first) {
+      ({ type, index } = slots.get(first)!);
+    } else {
+      type = typeValues(field)[0]?.toUpperCase();
+      const base = baseKey(field);
+      const occurrence = seen.get(base) ?? 0;
+      seen.set(base, occurrence + 1);
+      index = keyCounts.get(base)! > 1 && !(isRequired(mapping) && occurrence === 0) ? occurrence : -1;
+      slots.set(field, { type, index });
     }
+
+    const language = first ? normalizeLanguage(field.parameters!.LANGUAGE) : undefined;
+    const key = buildFrontmatterKey(mapping, { type, index, language });
+
+    const propValue = field.value;
+    let written = false;
     
     // Handle different value types
     if (typeof propValue === 'object' && !Array.isArray(propValue)) {
-      // Structured value (N, ADR, GENDER, etc.)
+      // Structured value (N, ADR, GENDER, etc.), stored under the canonical component names
       for (const [subKey, subValue] of Object.entries(propValue)) {
-        if (subValue && subValue !== '') {
-          data[`${key}.${subKey.toUpperCase()}`] = subValue;
+        if (subValue && subValue !== '' && !(Array.isArray(subValue) && subValue.length === 0)) {
+          const names = mapping.components?.find(candidate => candidate.includes(subKey.toUpperCase()));
+          const componentKey = names
+            ? buildFrontmatterKey(mapping, { type, index, language, component: names[0] })
+            : `${key}.${subKey.toUpperCase()}`;
+          data[componentKey] = subValue;
+          written = true;
         }
       }
     } else if (Array.isArray(propValue)) {
       // Array value
       propValue.forEach((val, idx) => {
         if (val && val !== '') {
-          data[`${key}.${idx}`] = val;
+          const itemKey = mapping.type === 'list'
+            ? buildFrontmatterKey(mapping, { type, index, language, item: idx })
+            : `${key}.${idx}`;
+          data[itemKey] = val;
+          written = true;
         }
       });
     } else if (propValue && propValue !== '') {
-      // Simple value
-      // Check if this key already exists (for repeating properties like EMAIL, TEL)
-      if (data[key] !== undefined) {
-        // Find next available index
-        let index = 0;
-        while (data[`${propName}.${index}`] !== undefined) {
-          index++;
+      // Simple value; dates are stored in ISO 8601 extended format unless they are text
+      data[key] = isDateValue(mapping.valueType, field.parameters?.VALUE) ? toFrontmatterDate(propValue) : propValue;
+      written = true;
+    }
+
+    // Parameters are stored next to the value as KEY.@PARAM; a single TYPE is already part of the key,
+    // as is the language of an alternative, and the ALTID of language alternatives is regenerated on export
+    if (written) {
+      const grouped = first !== undefined || Array.from(alternatives.values()).includes(field);
+      for (const [name, value] of Object.entries(field.parameters ?? {})) {
+        if ((name === 'TYPE' && typeValues(field).length <= 1) || (name === 'ALTID' && grouped) || (name === 'LANGUAGE' && first)) {
+          continue;
         }
-        data[`${propName}.${index}`] = propValue;
-      } else {
-        data[key] = propValue;
+        data[`${key}.@${name}`] = value;
       }
     }
   }
@@ -142,3 +330,549 @@ export function flattenVCardData(nested: object): VCardData {
 
   return flattened as VCardData;
 }
+
+/**
+ * Find the fields that are alternative representations of an earlier field in another language
+ * Fields of an ALTID group with a language tag not used by an earlier field of the group are
+ * alternatives of the group's first field; other group members keep keys of their own
+ * @param fields - Parsed fields in file order
+ * @returns First field of the group by alternative field
+ */
+function findLanguageAlternatives(fields: VCardField[]): Map<VCardField, VCardField> {
+  const alternatives = new Map<VCardField, VCardField>();
+  const groups = new Map<string, { first: VCardField; languages: Set<string> }>();
+
+  for (const field of fields) {
+    const altId = field.parameters?.ALTID;
+    if (!altId) {
+      continue;
+    }
+
+    const language = (field.parameters?.LANGUAGE ?? '').toLowerCase();
+    const group = groups.get(`${field.name};${altId}`);
+    if (!group) {
+      groups.set(`${field.name};${altId}`, { first: field, languages: new Set([language]) });
+    } else if (/^[a-z]{2,8}(?:-[a-z0-9]{1,8})*$/.test(language) && !group.languages.has(language)) {
+      group.languages.add(language);
+      alternatives.set(field, group.first);
+    }
+  }
+
+  return alternatives;
+}
+
+/**
+ * Write a language tag with a lowercase primary subtag, as used in frontmatter keys
+ * @param tag - Language tag, e.g. EN or zh-Hant
+ * @returns Tag such as en or zh-Hant
+ */
+function normalizeLanguage(tag: string): string {
+  return tag.replace(/^[^-]+/, primary => primary.toLowerCase());
+}
+
+/**
+ * Get the TYPE parameter values of a field
+ * @param field - Parsed field
+ * @returns Type values in order
+ */
+function typeValues(field: VCardField): string[] {
+  const type = field.parameters?.TYPE;
+  return type ? type.split(',').map(value => value.trim()).filter(value => value !== '') : [];
+}
+
+/**
+ * Build the frontmatter key of a field from its key template and first TYPE value
+ * @param field - Parsed field
+ * @returns Key such as EMAIL or EMAIL.WORK
+ */
+function baseKey(field: VCardField): string {
+  return buildFrontmatterKey(getFieldMapping(field.name), { type: typeValues(field)[0]?.toUpperCase() });
+}
+
+/**
+ * Convert vcard4 parameters to strings, joining multiple values with commas
+ * @param parameters - Parameters from vcard4
+ * @returns Parameter values by uppercased name
+ */
+function normalizeParameters(parameters: Record<string, any>): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [name, value] of Object.entries(parameters)) {
+    normalized[name.toUpperCase()] = Array.isArray(value) ? value.join(',') : String(value);
+  }
+  return normalized;
+}
+
+/**
+ * Separate the content lines that must be kept verbatim from those vcard4 should parse
+ * @param content - Raw VCF content
+ * @param options - Parse options
+ * @returns Content without preserved lines, and the preserved lines of each vCard in order
+ */
+function splitPreservedLines(content: string, options: VcfParseOptions): { content: string; preserved: string[][] } {
+  if (!options.preserveUnknownProperties) {
+    return { content, preserved: [] };
+  }
+
+  const kept: string[] = [];
+  const preserved: string[][] = [];
+  let current: string[] = [];
+
+  for (const line of content.replace(/\r\n[ \t]/g, '').split('\r\n')) {
+    if (/^END:VCARD$/i.test(line.trim())) {
+      preserved.push(current);
+      current = [];
+    } else if (isPreservedLine(line)) {
+      current.push(line);
+      continue;
+    }
+    kept.push(line);
+  }
+
+  return { content: kept.join('\r\n'), preserved };
+}
+
+/**
+ * Store preserved content lines as PRESERVED.N frontmatter keys
+ * @param data - Parsed contact data
+ * @param lines - Verbatim content lines of the contact
+ * @returns Contact data including the preserved lines
+ */
+function addPreservedLines(data: VCardData, lines: string[] = []): VCardData {
+  lines.forEach((line, index) => {
+    data[`${PRESERVED_KEY}.${index}`] = line;
+  });
+  return data;
+}
+
+/**
+ * Prepare raw content for vcard4: unfold lines, merge repeated TYPE parameters
+ * and replace escape sequences with placeholders
+ * @param content - Raw vCard content
+ * @returns Content safe to pass to vcard4
+ */
+function prepareContent(content: string): string {
+  return content
+    .replace(/\r\n[ \t]/g, '')
+    .split('\r\n')
+    .map(mergeTypeParameters)
+    .join('\r\n')
+    .replace(/\\([\\,;nN])/g, (_, char: string) => ESCAPE_PLACEHOLDERS[char === 'N' ? 'n' : char]);
+}
+
+/**
+ * Merge repeated TYPE parameters (TYPE=work;TYPE=voice) into one (TYPE=work,voice)
+ * vcard4 keeps only the last occurrence of a parameter
+ * @param line - Unfolded content line
+ * @returns Content line with a single TYPE parameter
+ */
+function mergeTypeParameters(line: string): string {
+  const colon = findValueColon(line);
+  if (colon === -1) {
+    return line;
+  }
+
+  const segments = splitParameters(line.substring(0, colon));
+  const types = segments.filter(segment => /^TYPE=/i.test(segment));
+  if (types.length < 2) {
+    return line;
+  }
+
+  const typeValue = types.map(segment => segment.substring(5).replace(/"/g, '')).join(',');
+  const others = segments.filter(segment => !/^TYPE=/i.test(segment));
+  return `${[others[0], `TYPE=${typeValue}`, ...others.slice(1)].join(';')}${line.substring(colon)}`;
+}
+
+/**
+ * Split VCF content into the content lines of each card
+ * Line endings are normalized to CRLF
+ * @param content - Raw VCF content
+ * @returns Cards with their 1-based starting line, and warnings about content outside any card
+ */
+function splitCards(content: string): { cards: VcfCard[]; diagnostics: VcfDiagnostic[] } {
+  const cards: VcfCard[] = [];
+  const diagnostics: VcfDiagnostic[] = [];
+  let card: VcfCard | null = null;
+
+  content.replace(/\r\n|\r|\n/g, '\r\n').split('\r\n').forEach((line, index) => {
+    if (/^BEGIN:VCARD$/i.test(line.trim())) {
+      card = { line: index + 1, lines: [line], complete: false };
+      cards.push(card);
+    } else if (card) {
+      card.lines.push(line);
+      if (/^END:VCARD$/i.test(line.trim())) {
+        card.complete = true;
+        card = null;
+      }
+    } else if (line.trim() !== '') {
+      diagnostics.push({
+        card: -1,
+        line: index + 1,
+        message: 'Ignored content outside BEGIN:VCARD and END:VCARD',
+        severity: 'warning'
+      });
+    }
+  });
+
+  return { cards, diagnostics };
+}
+
+/**
+ * Parse the content lines of one card
+ * @param lines - Content lines from BEGIN:VCARD to END:VCARD
+ * @param index - Index of the card in the file
+ * @param options - Parse options
+ * @returns Parsed contact data
+ */
+function parseCard(lines: string[], index: number, options: VcfParseOptions): VCardData {
+  const upgraded = `${upgradeCard(lines, index, options).join('\r\n')}\r\n`;
+  const { content: understood, preserved } = splitPreservedLines(upgraded, options);
+  const parsed = parse(prepareContent(understood));
+  const contact = Array.isArray(parsed) ? parsed[0] : parsed;
+  return addPreservedLines(vcardToFrontmatter(contact), preserved[0]);
+}
+
+/**
+ * Build the diagnostic for a card that could not be parsed
+ * The property is taken from the error message and located in the card to find its line
+ * @param error - Error thrown while parsing the card
+ * @param card - The card
+ * @param index - Index of the card in the file
+ * @returns Error diagnostic
+ */
+function cardDiagnostic(error: any, card: VcfCard, index: number): VcfDiagnostic {
+  const message = String(error?.message ?? error);
+  const match = message.match(/\bon ([A-Z0-9-]+) property/i)
+    ?? message.match(/\bproperty:? ([A-Z0-9-]+)/i)
+    ?? message.match(/\bmissing ([A-Z0-9-]+)\b/)
+    ?? message.match(/\b([A-Z][A-Z0-9-]+) (?:property|field)\b/);
+  const property = match ? match[1].toUpperCase() : undefined;
+
+  let line = card.line;
+  if (property) {
+    const offset = card.lines.findIndex(content => parseContentLineName(content)?.name === property);
+    if (offset !== -1) {
+      line = card.line + offset;
+    }
+  }
+
+  return { card: index, line, property, message, severity: 'error' };
+}
+
+/**
+ * Upgrade the content lines of one card if it declares vCard 2.1 or 3.0
+ * @param lines - Content lines from BEGIN:VCARD to END:VCARD
+ * @param index - Index of the card in the file
+ * @param options - Parse options, collecting the conversions made
+ * @returns vCard 4.0 content lines
+ */
+function upgradeCard(lines: string[], index: number, options: VcfParseOptions): string[] {
+  const versionLine = lines.find(line => /^VERSION:/i.test(line.trim()));
+  const version = versionLine ? versionLine.trim().substring(8).trim() : '';
+  if (!LEGACY_VERSIONS.has(version)) {
+    return lines;
+  }
+
+  const report = (property: string, description: string) => {
+    options.conversions?.push({ card: index, version, property, description });
+  };
+  report('VERSION', `Upgraded vCard ${version} to 4.0`);
+
+  const upgraded: string[] = [];
+  for (const line of unfoldLegacyLines(lines)) {
+    const result = upgradeLine(line, report, options);
+    if (result !== null) {
+      upgraded.push(result);
+    }
+  }
+  moveLabelsToAddresses(upgraded, report);
+
+  // vCard 2.1 makes FN optional and older exports often lack a UID; both are required in 4.0
+  const names = upgraded.map(line => line.substring(0, findValueColon(line)).split(';')[0].toUpperCase());
+  const missing: string[] = [];
+  if (!names.includes('FN')) {
+    const nLine = upgraded[names.indexOf('N')];
+    const formatted = nLine ? formattedNameFromN(nLine.substring(findValueColon(nLine) + 1)) : '';
+    if (formatted) {
+      missing.push(`FN:${formatted}`);
+      report('FN', 'Generated missing FN from N');
+    }
+  }
+  if (!names.includes('UID')) {
+    // Derived from the card's content so that parsing the same card twice gives the same contact
+    const content = upgraded
+      .filter((line, lineIndex) => !['BEGIN', 'END', 'VERSION', 'REV', 'PRODID'].includes(names[lineIndex]))
+      .concat(missing)
+      .sort()
+      .join('\n');
+    missing.push(`UID:${contentUID(content)}`);
+    report('UID', 'Generated missing UID from the card content');
+  }
+  upgraded.splice(upgraded.length - 1, 0, ...missing);
+
+  return upgraded;
+}
+
+/**
+ * Move LABEL properties into the LABEL parameter of the ADR they belong to
+ * A label belongs to the ADR of the same group (item1.LABEL and item1.ADR), or else to the first
+ * ADR with the same types that has no label yet. vCard 4.0 has no LABEL property, so a label
+ * without an address is dropped
+ * @param lines - Upgraded content lines, changed in place
+ * @param report - Records a conversion
+ */
+function moveLabelsToAddresses(lines: string[], report: (property: string, description: string) => void): void {
+  const split = (line: string) => {
+    const colon = findValueColon(line);
+    const [groupedName = '', ...segments] = splitParameters(line.substring(0, colon === -1 ? line.length : colon));
+    const dot = groupedName.lastIndexOf('.');
+    return {
+      group: dot === -1 ? '' : groupedName.substring(0, dot).toLowerCase(),
+      name: groupedName.substring(dot + 1).toUpperCase(),
+      types: segments.find(segment => /^TYPE=/i.test(segment))?.toLowerCase() ?? '',
+      hasLabel: segments.some(segment => /^LABEL=/i.test(segment)),
+      colon
+    };
+  };
+
+  const labels = lines.filter(line => split(line).name === 'LABEL');
+  for (const line of labels) {
+    const label = split(line);
+    lines.splice(lines.indexOf(line), 1);
+    if (label.colon === -1) {
+      continue;
+    }
+    const parameter = `LABEL=${quoteParameterValue(unescapeText(line.substring(label.colon + 1)))}`;
+
+    const addresses = lines.map(split).map((address, index) => ({ ...address, index }))
+      .filter(address => address.name === 'ADR' && !address.hasLabel);
+    const address = (label.group ? addresses.find(candidate => candidate.group === label.group) : undefined)
+      ?? addresses.find(candidate => candidate.types === label.types);
+    if (address) {
+      const adr = lines[address.index];
+      lines[address.index] = `${adr.substring(0, address.colon)};${parameter}${adr.substring(address.colon)}`;
+      report('LABEL', 'Moved to the LABEL parameter of ADR');
+    } else {
+      report('LABEL', 'Dropped LABEL without a matching ADR');
+    }
+  }
+}
+
+/**
+ * Unfold the content lines of a legacy card
+ * Quoted-printable values continue on the next line after a trailing "=" (soft line break)
+ * @param lines - Folded content lines
+ * @returns Unfolded content lines
+ */
+function unfoldLegacyLines(lines: string[]): string[] {
+  const unfolded: string[] = [];
+  for (const line of lines) {
+    const last = unfolded.length - 1;
+    if (last >= 0 && isSoftLineBreak(unfolded[last])) {
+      unfolded[last] = unfolded[last].slice(0, -1) + line;
+    } else if (last >= 0 && /^[ \t]/.test(line)) {
+      unfolded[last] += line.substring(1);
+    } else {
+      unfolded.push(line);
+    }
+  }
+  return unfolded;
+}
+
+/**
+ * Check whether a quoted-printable content line continues on the next line
+ * @param line - Content line
+ * @returns True if the line ends with a soft line break
+ */
+function isSoftLineBreak(line: string): boolean {
+  const colon = findValueColon(line);
+  return colon !== -1 && line.endsWith('=') && /QUOTED-PRINTABLE/i.test(line.substring(0, colon));
+}
+
+/**
+ * Rewrite one legacy content line in vCard 4.0 form
+ * @param line - Unfolded content line
+ * @param report - Records a conversion
+ * @param options - Parse options
+ * @returns vCard 4.0 content line, or null if the line is dropped
+ */
+function upgradeLine(
+  line: string,
+  report: (property: string, description: string) => void,
+  options: VcfParseOptions
+): string | null {
+  const colon = findValueColon(line);
+  if (colon === -1) {
+    return line.trim() === '' ? null : line;
+  }
+
+  const [groupedName, ...segments] = splitParameters(line.substring(0, colon));
+  const name = groupedName.substring(groupedName.lastIndexOf('.') + 1).toUpperCase();
+  let value = line.substring(colon + 1);
+
+  if (name === 'VERSION') {
+    return 'VERSION:4.0';
+  }
+  if (EXTENSION_PROPERTIES[name]) {
+    const standardName = EXTENSION_PROPERTIES[name];
+    report(name, `Renamed to ${standardName}`);
+    return `${[standardName, ...segments].join(';')}:${standardName === 'KIND' ? value.toLowerCase() : value}`;
+  }
+  if (OBSOLETE_PROPERTIES.has(name) && !options.preserveUnknownProperties) {
+    report(name, 'Dropped property not defined in vCard 4.0');
+    return null;
+  }
+
+  let types: string[] = [];
+  let encoding = '';
+  let charset = '';
+  const bareTokens: string[] = [];
+  const parameters: string[] = [];
+  for (const segment of segments) {
+    const equals = segment.indexOf('=');
+    const parameterName = equals === -1 ? '' : segment.substring(0, equals).trim().toUpperCase();
+    const parameterValue = equals === -1 ? segment.trim() : segment.substring(equals + 1);
+
+    if (parameterName === 'ENCODING' || (equals === -1 && ENCODING_TOKENS.has(parameterValue.toUpperCase()))) {
+      encoding = parameterValue.toUpperCase();
+    } else if (parameterName === 'CHARSET') {
+      charset = parameterValue.replace(/"/g, '');
+    } else if (equals === -1 || parameterName === 'TYPE') {
+      if (equals === -1) {
+        bareTokens.push(parameterValue);
+      }
+      types.push(...parameterValue.replace(/"/g, '').split(',').map(type => type.trim().toLowerCase()).filter(type => type !== ''));
+    } else if (parameterName === 'VALUE' && parameterValue.toUpperCase() === 'URL') {
+      parameters.push('VALUE=uri');
+    } else {
+      parameters.push(segment);
+    }
+  }
+
+  if (bareTokens.length > 0) {
+    report(name, `Converted bare parameters ${bareTokens.join(';')} to TYPE`);
+  }
+
+  if (encoding === 'QUOTED-PRINTABLE') {
+    value = decodeQuotedPrintable(value, charset).replace(/\r\n|\r|\n/g, '\\n');
+    report(name, charset ? `Decoded quoted-printable value (${charset})` : 'Decoded quoted-printable value');
+  } else if (charset) {
+    report(name, `Removed CHARSET=${charset}`);
+  }
+
+  if (encoding === 'B' || encoding === 'BASE64') {
+    const format = types.find(type => type !== 'pref');
+    const category = MEDIA_CATEGORIES[name] ?? 'application';
+    const mediaType = format ? (format.includes('/') ? format : `${category}/${format}`) : 'application/octet-stream';
+    value = `data:${mediaType};base64,${value.replace(/\s/g, '')}`;
+    types = types.filter(type => type === 'pref');
+    report(name, `Converted inline base64 data to a ${mediaType} data URI`);
+  }
+
+  if (types.includes('pref')) {
+    if (!parameters.some(segment => /^PREF=/i.test(segment))) {
+      parameters.push('PREF=1');
+    }
+    report(name, 'Converted TYPE=pref to PREF=1');
+  }
+  const removedTypes = types.filter(type => OBSOLETE_TYPES.has(type));
+  if (removedTypes.length > 0) {
+    report(name, `Removed TYPE=${removedTypes.join(',')}`);
+  }
+  types = types.filter(type => type !== 'pref' && !OBSOLETE_TYPES.has(type));
+
+  value = upgradeValue(name, value, report);
+
+  const typeParameter = types.length > 0 ? [`TYPE=${types.join(',')}`] : [];
+  return `${[groupedName, ...typeParameter, ...parameters].join(';')}:${value}`;
+}
+
+/**
+ * Convert legacy value formats of GEO, TZ and date properties
+ * @param name - Property name
+ * @param value - Decoded value
+ * @param report - Records a conversion
+ * @returns vCard 4.0 value
+ */
+function upgradeValue(name: string, value: string, report: (property: string, description: string) => void): string {
+  let upgraded = value;
+
+  if (name === 'GEO') {
+    // GEO:37.386013;-122.082932 becomes a geo: URI
+    upgraded = value.replace(/^\s*(-?[\d.]+)\s*;\s*(-?[\d.]+)\s*$/, 'geo:$1,$2');
+  } else if (name === 'TZ') {
+    // UTC offsets lose their colon (-05:00 becomes -0500)
+    upgraded = value.replace(/^([+-]\d{2}):(\d{2})$/, '$1$2');
+  } else if (getFieldMapping(name).type === 'date') {
+    // ISO 8601 extended format becomes basic format (1985-04-15T10:30:00Z becomes 19850415T103000Z)
+    upgraded = value
+      .replace(/^(\d{4})-(\d{2})-(\d{2})/, '$1$2$3')
+      .replace(/T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?/, (_, hours, minutes, seconds) => `T${hours}${minutes}${seconds ?? ''}`)
+      .replace(/([+-]\d{2}):(\d{2})$/, '$1$2');
+  }
+
+  if (upgraded !== value) {
+    report(name, `Converted value ${value} to ${upgraded}`);
+  }
+  return upgraded;
+}
+
+/**
+ * Decode a quoted-printable value
+ * @param value - Encoded value with soft line breaks already removed
+ * @param charset - Character set of the decoded bytes (default UTF-8)
+ * @returns Decoded text
+ */
+function decodeQuotedPrintable(value: string, charset: string): string {
+  const encoder = new TextEncoder();
+  const bytes: number[] = [];
+  for (const part of value.split(/(=[0-9A-Fa-f]{2})/)) {
+    if (/^=[0-9A-Fa-f]{2}$/.test(part)) {
+      bytes.push(parseInt(part.substring(1), 16));
+    } else {
+      bytes.push(...Array.from(encoder.encode(part)));
+    }
+  }
+
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset || 'utf-8');
+  } catch (error) {
+    decoder = new TextDecoder('utf-8');
+  }
+  return decoder.decode(new Uint8Array(bytes));
+}
+
+/**
+ * Build a formatted name from an N value (prefix, given, additional, family, suffix)
+ * @param value - Raw N value
+ * @returns Formatted name, or an empty string if N has no components
+ */
+function formattedNameFromN(value: string): string {
+  const [family = '', given = '', additional = '', prefix = '', suffix = ''] = value.split(/(?<!\\);/);
+  return [prefix, given, additional, family, suffix]
+    .map(component => component.replace(/\\?,/g, ' ').trim())
+    .filter(component => component !== '')
+    .join(' ');
+}
+
+/**
+ * Replace escape placeholders in a parsed value with the characters they stand for
+ * @param value - Parsed value (string, array or structured object)
+ * @returns Unescaped value
+ */
+function restoreEscapes(value: any): any {
+  if (typeof value === 'string') {
+    return value.replace(/[\uE000-\uE003]/g, char => UNESCAPED_CHARACTERS[char]);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => restoreEscapes(item));
+  }
+  if (value && typeof value === 'object') {
+    const restored: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      restored[key] = restoreEscapes(item);
+    }
+    return restored;
+  }
+  return value;
+}
@@ -0,0 +1,168 @@
+/**
+ * vCard property definitions shared by parsing and generation
+ */
+
+import { PROPERTY_SCHEMA, getFieldMapping, hasComponents, parseFrontmatterKey } from './schema';
+
+export { PRESERVED_KEY } from './schema';
+
+/**
+ * Properties defined by RFC 6350
+ */
+export const RFC6350_PROPERTIES = new Set(PROPERTY_SCHEMA.map(mapping => mapping.vcardField));
+
+/**
+ * Split the group and property name off a content line
+ * @param line - Unfolded content line
+ * @returns Group (or null) and uppercased property name, or null if the line is malformed
+ */
+export function parseContentLineName(line: string): { group: string | null; name: string } | null {
+  const match = line.match(/^(?:([A-Za-z0-9-]+)\.)?([A-Za-z0-9-]+)(?=[;:])/);
+  if (!match) {
+    return null;
+  }
+
+  return { group: match[1] ?? null, name: match[2].toUpperCase() };
+}
+
+/**
+ * Check whether a content line has to be preserved verbatim
+ * Grouped properties and properties outside RFC 6350 (X- and unknown IANA names)
+ * cannot be represented in frontmatter keys without loss
+ * @param line - Unfolded content line
+ * @returns True if the line should be kept as-is
+ */
+export function isPreservedLine(line: string): boolean {
+  const parsed = parseContentLineName(line);
+  if (!parsed) {
+    return false;
+  }
+
+  return parsed.group !== null || !RFC6350_PROPERTIES.has(parsed.name);
+}
+
+/**
+ * Find the colon that separates the name and parameters of a content line from its value
+ * @param line - Unfolded content line
+ * @returns Index of the first colon outside quotes, or -1
+ */
+export function findValueColon(line: string): number {
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split the name and parameters of a content line at semicolons outside quotes
+ * @param head - Content line up to the value colon
+ * @returns Name followed by the raw parameter segments
+ */
+export function splitParameters(head: string): string[] {
+  return head.match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+}
+
+/**
+ * Default value type of a property
+ * UID defaults to uri but usually holds text, so the value decides
+ * @param name - Property name
+ * @param value - Raw value
+ * @returns Value type
+ */
+export function defaultValueType(name: string, value: string): string {
+  if (name === 'UID') {
+    return /^[a-z][a-z0-9+.-]*:/i.test(value) ? 'uri' : 'text';
+  }
+  return getFieldMapping(name).valueType ?? 'text';
+}
+
+/**
+ * Check whether a value type is the default of a property, so VALUE can be left out
+ * @param name - Property name
+ * @param type - Value type
+ * @returns True if no VALUE parameter is needed
+ */
+export function isDefaultValueType(name: string, type: string): boolean {
+  if (name === 'UID') {
+    return type === 'uri' || type === 'text';
+  }
+  return (getFieldMapping(name).valueType ?? 'text') === type.toLowerCase();
+}
+
+/**
+ * Split a value at separators that are not escaped
+ * @param value - Escaped value
+ * @param separator - ';' or ','
+ * @returns Parts, still escaped
+ */
+export function splitEscaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Resolve escape sequences of a text value (RFC 6350 section 3.4)
+ * @param value - Escaped text
+ * @returns Raw text
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Add a value to flat frontmatter without overwriting a value already set for the key
+ * Components are joined; other values are added under the next free index
+ * @param data - Frontmatter data
+ * @param key - Frontmatter key
+ * @param value - Value
+ */
+export function addFlatValue(data: Record<string, any>, key: string, value: string): void {
+  const parsed = parseFrontmatterKey(key);
+  if (!(key in data)) {
+    data[key] = value;
+  } else if (parsed && hasComponents(parsed.mapping)) {
+    data[key] = `${data[key]}, ${value}`;
+  } else {
+    let index = 1;
+    while (`${key}.${index}` in data) {
+      index++;
+    }
+    data[`${key}.${index}`] = value;
+  }
+}
+
+/**
+ * Build a formatted name for imported data without one
+ * @param data - Flat frontmatter data
+ * @returns Name from the N components, the company or the first email address, or ''
+ */
+export function fallbackFormattedName(data: Record<string, any>): string {
+  const name = ['N.HONORIFICPREFIXES', 'N.GIVENNAMES', 'N.ADDITIONALNAMES', 'N.FAMILYNAMES', 'N.HONORIFICSUFFIXES']
+    .map(key => data[key])
+    .filter(Boolean)
+    .join(' ');
+  if (name) {
+    return name;
+  }
+
+  const fallback = Object.keys(data).find(key => key === 'ORG.0' || key.split('.')[0] === 'EMAIL');
+  return fallback ? String(data[fallback]) : '';
+}
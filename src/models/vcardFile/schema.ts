@@ -0,0 +1,343 @@
+/**
+ * Property schema
+ * One FieldMapping per RFC 6350 property drives frontmatter keys in parsing and generation,
+ * value escaping and structured components, and frontmatter validation
+ */
+
+import { FieldMapping } from './types';
+
+/**
+ * Frontmatter key parts of a property key, split according to its field mapping
+ */
+export interface FrontmatterKey {
+  /** vCard property name */
+  property: string;
+  /** Field mapping of the property */
+  mapping: FieldMapping;
+  /** Type segments, as written in the key */
+  types: string[];
+  /** Index of a repeated key, -1 if none */
+  index: number;
+  /** Canonical component name, '' if the key holds the whole value */
+  component: string;
+  /** Index of a list value, -1 if the key holds the whole value */
+  item: number;
+  /** Language of an alternative representation, '' for the key without a language */
+  language: string;
+  /** Key of the whole property value, without component and item; parameters are stored under it */
+  propertyKey: string;
+}
+
+/**
+ * Frontmatter key holding verbatim content lines (PRESERVED.0, PRESERVED.1, ...)
+ */
+export const PRESERVED_KEY = 'PRESERVED';
+
+/**
+ * Parameters of most properties that hold one of several alternative values
+ */
+const ALTERNATIVE_PARAMETERS = ['VALUE', 'PID', 'PREF', 'ALTID', 'TYPE'];
+
+/**
+ * Parameters of text properties that may be written in several languages
+ */
+const TEXT_PARAMETERS = [...ALTERNATIVE_PARAMETERS, 'LANGUAGE'];
+
+/**
+ * Parameters of URI properties that may point to media
+ */
+const URI_PARAMETERS = [...ALTERNATIVE_PARAMETERS, 'MEDIATYPE'];
+
+/**
+ * Key template of properties stored as one value per key
+ * Alternative representations in other languages (same ALTID) append the language: FN:en
+ */
+const VALUE_KEY = '[.{type}][.{index}][:{language}]';
+
+/**
+ * Key template of structured properties
+ */
+const COMPONENT_KEY = '[.{type}][.{index}][:{language}].{component}';
+
+/**
+ * Key template of list properties
+ */
+const LIST_KEY = '[.{type}][.{index}][:{language}][.{item}]';
+
+/**
+ * Language segment of a property key, e.g. ":ja" in N:ja.FAMILYNAMES
+ * The primary language subtag is lowercase, which tells it apart from uppercase types
+ */
+const LANGUAGE_SEGMENT = /:([a-z]{2,8}(?:-[A-Za-z0-9]{1,8})*)(?=\.|$)/;
+
+/**
+ * Properties defined by RFC 6350, in the order of its section 6
+ */
+export const PROPERTY_SCHEMA: FieldMapping[] = [
+  { vcardField: 'BEGIN', frontmatterKey: 'BEGIN', type: 'text', cardinality: '1', parameters: [] },
+  { vcardField: 'END', frontmatterKey: 'END', type: 'text', cardinality: '1', parameters: [] },
+  { vcardField: 'SOURCE', frontmatterKey: `SOURCE${VALUE_KEY}`, type: 'uri', cardinality: '*', valueType: 'uri', parameters: ['VALUE', 'PID', 'PREF', 'ALTID', 'MEDIATYPE'] },
+  { vcardField: 'KIND', frontmatterKey: `KIND${VALUE_KEY}`, type: 'text', cardinality: '*1', parameters: ['VALUE'] },
+  { vcardField: 'XML', frontmatterKey: `XML${VALUE_KEY}`, type: 'text', cardinality: '*', parameters: ['VALUE', 'ALTID'] },
+  { vcardField: 'FN', frontmatterKey: `FN${VALUE_KEY}`, type: 'text', cardinality: '1*', parameters: TEXT_PARAMETERS },
+  {
+    vcardField: 'N',
+    frontmatterKey: `N${COMPONENT_KEY}`,
+    type: 'structured',
+    cardinality: '*1',
+    components: [
+      ['FAMILYNAMES', 'FN'],
+      ['GIVENNAMES', 'GN'],
+      ['ADDITIONALNAMES', 'MN'],
+      ['HONORIFICPREFIXES', 'PREFIX'],
+      ['HONORIFICSUFFIXES', 'SUFFIX']
+    ],
+    parameters: ['VALUE', 'SORT-AS', 'LANGUAGE', 'ALTID']
+  },
+  { vcardField: 'NICKNAME', frontmatterKey: `NICKNAME${LIST_KEY}`, type: 'list', cardinality: '*', separator: ',', parameters: TEXT_PARAMETERS },
+  { vcardField: 'PHOTO', frontmatterKey: `PHOTO${VALUE_KEY}`, type: 'binary', cardinality: '*', valueType: 'uri', parameters: URI_PARAMETERS },
+  { vcardField: 'BDAY', frontmatterKey: `BDAY${VALUE_KEY}`, type: 'date', cardinality: '*1', valueType: 'date-and-or-time', parameters: ['VALUE', 'ALTID', 'CALSCALE', 'LANGUAGE'] },
+  { vcardField: 'ANNIVERSARY', frontmatterKey: `ANNIVERSARY${VALUE_KEY}`, type: 'date', cardinality: '*1', valueType: 'date-and-or-time', parameters: ['VALUE', 'ALTID', 'CALSCALE'] },
+  {
+    vcardField: 'GENDER',
+    frontmatterKey: `GENDER${COMPONENT_KEY}`,
+    type: 'structured',
+    cardinality: '*1',
+    components: [
+      ['SEX'],
+      ['IDENTITY', 'GENDER']
+    ],
+    parameters: ['VALUE']
+  },
+  {
+    vcardField: 'ADR',
+    frontmatterKey: `ADR${COMPONENT_KEY}`,
+    type: 'structured',
+    cardinality: '*',
+    components: [
+      ['POSTOFFICEBOX', 'POBOX'],
+      ['EXTENDEDADDRESS', 'EXTENDED'],
+      ['STREETADDRESS', 'STREET'],
+      ['LOCALITY', 'CITY'],
+      ['REGION'],
+      ['POSTALCODE', 'POSTAL'],
+      ['COUNTRYNAME', 'COUNTRY']
+    ],
+    parameters: [...TEXT_PARAMETERS, 'LABEL', 'GEO', 'TZ']
+  },
+  { vcardField: 'TEL', frontmatterKey: `TEL${VALUE_KEY}`, type: 'text', cardinality: '*', parameters: ALTERNATIVE_PARAMETERS },
+  { vcardField: 'EMAIL', frontmatterKey: `EMAIL${VALUE_KEY}`, type: 'text', cardinality: '*', parameters: ALTERNATIVE_PARAMETERS },
+  { vcardField: 'IMPP', frontmatterKey: `IMPP${VALUE_KEY}`, type: 'uri', cardinality: '*', valueType: 'uri', parameters: URI_PARAMETERS },
+  { vcardField: 'LANG', frontmatterKey: `LANG${VALUE_KEY}`, type: 'text', cardinality: '*', valueType: 'language-tag', parameters: ALTERNATIVE_PARAMETERS },
+  { vcardField: 'TZ', frontmatterKey: `TZ${VALUE_KEY}`, type: 'text', cardinality: '*', parameters: URI_PARAMETERS },
+  { vcardField: 'GEO', frontmatterKey: `GEO${VALUE_KEY}`, type: 'uri', cardinality: '*', valueType: 'uri', parameters: URI_PARAMETERS },
+  { vcardField: 'TITLE', frontmatterKey: `TITLE${VALUE_KEY}`, type: 'text', cardinality: '*', parameters: TEXT_PARAMETERS },
+  { vcardField: 'ROLE', frontmatterKey: `ROLE${VALUE_KEY}`, type: 'text', cardinality: '*', parameters: TEXT_PARAMETERS },
+  { vcardField: 'LOGO', frontmatterKey: `LOGO${VALUE_KEY}`, type: 'binary', cardinality: '*', valueType: 'uri', parameters: [...URI_PARAMETERS, 'LANGUAGE'] },
+  { vcardField: 'ORG', frontmatterKey: `ORG${LIST_KEY}`, type: 'list', cardinality: '*', separator: ';', parameters: [...TEXT_PARAMETERS, 'SORT-AS'] },
+  { vcardField: 'MEMBER', frontmatterKey: `MEMBER${VALUE_KEY}`, type: 'uri', cardinality: '*', valueType: 'uri', parameters: ['VALUE', 'PID', 'PREF', 'ALTID', 'MEDIATYPE'] },
+  { vcardField: 'RELATED', frontmatterKey: `RELATED${VALUE_KEY}`, type: 'uri', cardinality: '*', valueType: 'uri', parameters: [...URI_PARAMETERS, 'LANGUAGE'] },
+  { vcardField: 'CATEGORIES', frontmatterKey: `CATEGORIES${LIST_KEY}`, type: 'list', cardinality: '*', separator: ',', parameters: ALTERNATIVE_PARAMETERS },
+  { vcardField: 'NOTE', frontmatterKey: `NOTE${VALUE_KEY}`, type: 'text', cardinality: '*', parameters: TEXT_PARAMETERS },
+  { vcardField: 'PRODID', frontmatterKey: `PRODID${VALUE_KEY}`, type: 'text', cardinality: '*1', parameters: ['VALUE'] },
+  { vcardField: 'REV', frontmatterKey: `REV${VALUE_KEY}`, type: 'date', cardinality: '*1', valueType: 'timestamp', parameters: ['VALUE'] },
+  { vcardField: 'SOUND', frontmatterKey: `SOUND${VALUE_KEY}`, type: 'binary', cardinality: '*', valueType: 'uri', parameters: [...URI_PARAMETERS, 'LANGUAGE'] },
+  { vcardField: 'UID', frontmatterKey: `UID${VALUE_KEY}`, type: 'uri', cardinality: '*1', valueType: 'uri', parameters: ['VALUE'] },
+  { vcardField: 'CLIENTPIDMAP', frontmatterKey: `CLIENTPIDMAP${VALUE_KEY}`, type: 'uri', cardinality: '*', separator: ';', parameters: [] },
+  { vcardField: 'URL', frontmatterKey: `URL${VALUE_KEY}`, type: 'uri', cardinality: '*', valueType: 'uri', parameters: URI_PARAMETERS },
+  { vcardField: 'VERSION', frontmatterKey: 'VERSION', type: 'text', cardinality: '1', parameters: [] },
+  { vcardField: 'KEY', frontmatterKey: `KEY${VALUE_KEY}`, type: 'binary', cardinality: '*', valueType: 'uri', parameters: URI_PARAMETERS },
+  { vcardField: 'FBURL', frontmatterKey: `FBURL${VALUE_KEY}`, type: 'uri', cardinality: '*', valueType: 'uri', parameters: URI_PARAMETERS },
+  { vcardField: 'CALADRURI', frontmatterKey: `CALADRURI${VALUE_KEY}`, type: 'uri', cardinality: '*', valueType: 'uri', parameters: URI_PARAMETERS },
+  { vcardField: 'CALURI', frontmatterKey: `CALURI${VALUE_KEY}`, type: 'uri', cardinality: '*', valueType: 'uri', parameters: URI_PARAMETERS }
+];
+
+/**
+ * Field mappings by property name
+ */
+const MAPPINGS_BY_PROPERTY = new Map(PROPERTY_SCHEMA.map(mapping => [mapping.vcardField, mapping]));
+
+/**
+ * Field mappings by uppercased frontmatter key prefix
+ */
+const MAPPINGS_BY_KEY = new Map(PROPERTY_SCHEMA.map(mapping => [keyPrefix(mapping.frontmatterKey).toUpperCase(), mapping]));
+
+/**
+ * Get the field mapping of a property
+ * Properties outside RFC 6350 get a text mapping keyed by their name
+ * @param property - Property name
+ * @returns Field mapping
+ */
+export function getFieldMapping(property: string): FieldMapping {
+  const name = property.toUpperCase();
+  return MAPPINGS_BY_PROPERTY.get(name) ?? {
+    vcardField: name,
+    frontmatterKey: `${name}${VALUE_KEY}`,
+    type: 'text',
+    cardinality: '*'
+  };
+}
+
+/**
+ * Check whether a property is defined by RFC 6350
+ * @param property - Uppercased property name
+ * @returns True if the schema has the property
+ */
+export function isSchemaProperty(property: string): boolean {
+  return MAPPINGS_BY_PROPERTY.has(property);
+}
+
+/**
+ * Check whether the value of a property consists of ';'-separated components
+ * @param mapping - Field mapping
+ * @returns True for structured properties, ORG and CLIENTPIDMAP
+ */
+export function hasComponents(mapping: FieldMapping): boolean {
+  return mapping.type === 'structured' || mapping.separator === ';';
+}
+
+/**
+ * Check whether a property has to occur in every vCard
+ * @param mapping - Field mapping
+ * @returns True for cardinality 1 and 1*
+ */
+export function isRequired(mapping: FieldMapping): boolean {
+  return mapping.cardinality === '1' || mapping.cardinality === '1*';
+}
+
+/**
+ * Build a frontmatter key from the key template of a property
+ * Optional template parts whose slot has no value are left out
+ * @param mapping - Field mapping
+ * @param slots - Slot values; type may hold several types, joined by dots
+ * @returns Frontmatter key
+ */
+export function buildFrontmatterKey(
+  mapping: FieldMapping,
+  slots: { type?: string; index?: number; language?: string; component?: string; item?: number } = {}
+): string {
+  const values: Record<string, string> = {
+    type: slots.type ?? '',
+    index: slots.index !== undefined && slots.index >= 0 ? String(slots.index) : '',
+    language: slots.language ?? '',
+    component: slots.component ?? '',
+    item: slots.item !== undefined && slots.item >= 0 ? String(slots.item) : ''
+  };
+  const fill = (text: string) => text.replace(/\{(\w+)\}/g, (_, slot: string) => values[slot] ?? '');
+
+  return fill(mapping.frontmatterKey.replace(/\[([^\]]*)\]/g, (_, optional: string) => {
+    const slot = optional.match(/\{(\w+)\}/);
+    return slot && !values[slot[1]] ? '' : optional;
+  })).replace(/\.+$/, '');
+}
+
+/**
+ * Split a frontmatter key according to the field mapping of its prefix
+ * The last segment is the component of a structured property, and a trailing number the
+ * item of a list property; other numbers are the index and the remaining segments types.
+ * A language after a colon marks an alternative representation
+ * @param key - Frontmatter key such as EMAIL.WORK.0, ADR.HOME.CITY or N:ja.FAMILYNAMES
+ * @returns Key parts, or null for parameter keys and unknown components
+ */
+export function parseFrontmatterKey(key: string): FrontmatterKey | null {
+  if (key.includes('.@')) {
+    return null;
+  }
+
+  // Only properties with a LANGUAGE parameter have language alternatives
+  const languageMatch = key.match(LANGUAGE_SEGMENT);
+  const languageMapping = languageMatch ? MAPPINGS_BY_KEY.get(key.split(/[.:]/)[0].toUpperCase()) : undefined;
+  const language = languageMapping?.parameters?.includes('LANGUAGE') ? languageMatch![1] : '';
+  const parts = (language ? key.replace(LANGUAGE_SEGMENT, '') : key).split('.');
+  const mapping = MAPPINGS_BY_KEY.get(parts[0].toUpperCase()) ?? getFieldMapping(parts[0]);
+  let rest = parts.slice(1);
+  let component = '';
+  let item = -1;
+
+  if (mapping.components && rest.length > 0) {
+    const subKey = rest[rest.length - 1].toUpperCase();
+    const names = mapping.components.find(candidate => candidate.includes(subKey));
+    if (!names) {
+      return null;
+    }
+    component = names[0];
+    rest = rest.slice(0, -1);
+  } else if (mapping.frontmatterKey.includes('{item}') && rest.length > 0 && isIndex(rest[rest.length - 1])) {
+    item = Number(rest[rest.length - 1]);
+    rest = rest.slice(0, -1);
+  }
+
+  const indexPart = rest.find(isIndex);
+  return {
+    property: mapping.vcardField,
+    mapping,
+    types: rest.filter(part => part !== indexPart),
+    index: indexPart === undefined ? -1 : Number(indexPart),
+    component,
+    item,
+    language,
+    propertyKey: [parts[0], ...rest].join('.') + (language ? `:${language}` : '')
+  };
+}
+
+/**
+ * Get the property key an alternative representation belongs to
+ * @param parsed - Key parts
+ * @returns Property key without the language, e.g. N for N:ja
+ */
+export function basePropertyKey(parsed: FrontmatterKey): string {
+  return parsed.language ? parsed.propertyKey.substring(0, parsed.propertyKey.length - parsed.language.length - 1) : parsed.propertyKey;
+}
+
+/**
+ * Check a frontmatter key against the schema
+ * Unknown properties, unknown components and parameters a property does not define are reported;
+ * X- properties and parameters and preserved lines are accepted. Only uppercase keys name vCard
+ * properties, so other frontmatter (tags, aliases, cssclasses) is not checked
+ * @param key - Frontmatter key
+ * @returns Warning message, or null if the key is valid
+ */
+export function checkFrontmatterKey(key: string): string | null {
+  const name = key.split(/[.:]/)[0];
+  const prefix = name.toUpperCase();
+  if (prefix === PRESERVED_KEY || prefix.startsWith('X-') || name !== prefix) {
+    return null;
+  }
+
+  const parameterIndex = key.indexOf('.@');
+  const parsed = parseFrontmatterKey(parameterIndex === -1 ? key : key.substring(0, parameterIndex));
+  if (!parsed) {
+    return `Unknown component in ${key}`;
+  }
+  if (!isSchemaProperty(parsed.property)) {
+    return `Unknown property ${parsed.property} in ${key}`;
+  }
+
+  if (parameterIndex !== -1) {
+    const parameter = key.substring(parameterIndex + 2).toUpperCase();
+    const allowed = parsed.mapping.parameters ?? [];
+    if (!parameter.startsWith('X-') && !allowed.includes(parameter)) {
+      return `Parameter ${parameter} is not defined for ${parsed.property} in ${key}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Literal prefix of a key template
+ * @param template - Key template
+ * @returns Text up to the first optional part or dot
+ */
+function keyPrefix(template: string): string {
+  return template.split(/[.[]/)[0];
+}
+
+/**
+ * Check whether a key segment is an index
+ * @param part - Key segment
+ * @returns True for non-empty numeric segments
+ */
+function isIndex(part: string): boolean {
+  return part !== '' && !isNaN(Number(part));
+}
@@ -31,9 +31,21 @@ export interface VCardField {
 }
 
 /**
- * Mapping of vCard field names to their expected types
+ * How a property value is stored in frontmatter
+ * - text: escaped text
+ * - date: date, time or timestamp in ISO 8601 basic format
+ * - structured: one key per named component (N.GIVENNAMES, ADR.HOME.LOCALITY)
+ * - list: one key per value (ORG.0, CATEGORIES.1)
+ * - uri: URI written without escaping
+ * - binary: inline data URI or link to media (PHOTO, LOGO, SOUND, KEY)
  */
-export type VCardFieldType = 'text' | 'date' | 'structured' | 'uri' | 'binary';
+export type VCardFieldType = 'text' | 'date' | 'structured' | 'list' | 'uri' | 'binary';
+
+/**
+ * Property cardinality as written in RFC 6350 section 6
+ * '1' exactly one, '*1' at most one, '1*' at least one, '*' any number
+ */
+export type VCardCardinality = '1' | '*1' | '1*' | '*';
 
 /**
  * Field mapping configuration for conversion between vCard and frontmatter
@@ -41,8 +53,154 @@ export type VCardFieldType = 'text' | 'date' | 'structured' | 'uri' | 'binary';
 export interface FieldMapping {
   /** vCard property name */
   vcardField: string;
-  /** Frontmatter key (may use dot notation) */
+  /**
+   * Frontmatter key template, e.g. "ADR[.{type}][.{index}].{component}"
+   * The literal first segment is the key prefix; bracketed parts are optional.
+   * {type} is the first TYPE value, {index} numbers repeated keys,
+   * {component} names a structured component and {item} numbers list values
+   */
   frontmatterKey: string;
   /** Expected field type */
   type: VCardFieldType;
+  /** Number of occurrences allowed in one vCard */
+  cardinality: VCardCardinality;
+  /** Default VALUE type (RFC 6350); text if omitted */
+  valueType?: string;
+  /** Components of a structured value in order, each listing its frontmatter names, canonical first */
+  components?: string[][];
+  /** Separator of list values, or of the components of a structured value without named components */
+  separator?: ';' | ',';
+  /** Parameters defined for the property, VALUE included; X- parameters are always allowed */
+  parameters?: string[];
+}
+
+/**
+ * Options for parsing VCF content
+ */
+export interface VcfParseOptions {
+  /**
+   * Keep grouped, X- and unknown properties verbatim under PRESERVED.N keys
+   * so they are written back unchanged
+   */
+  preserveUnknownProperties?: boolean;
+  /**
+   * Collects the changes made while upgrading vCard 2.1 and 3.0 cards to 4.0
+   */
+  conversions?: VcardConversion[];
+}
+
+/**
+ * A change made while upgrading a vCard 2.1 or 3.0 card to 4.0
+ */
+export interface VcardConversion {
+  /** Index of the card in the file */
+  card: number;
+  /** Version the card was written in */
+  version: string;
+  /** Property the change applies to */
+  property: string;
+  /** Description of the change */
+  description: string;
+}
+
+/**
+ * Severity of a parse diagnostic
+ * Errors mean the card was skipped; warnings mean content was ignored
+ */
+export type VcfDiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A problem found while parsing VCF content
+ */
+export interface VcfDiagnostic {
+  /** Index of the card in the file, or -1 for content outside any card */
+  card: number;
+  /** 1-based line number in the file, or 0 when not known */
+  line: number;
+  /** Property the problem was found in, if known */
+  property?: string;
+  /** Description of the problem */
+  message: string;
+  /** Severity of the problem */
+  severity: VcfDiagnosticSeverity;
+}
+
+/**
+ * Result of parsing VCF content card by card
+ */
+export interface VcfParseResult {
+  /** Contacts parsed from the valid cards */
+  contacts: VCardData[];
+  /** Problems found, in file order per kind */
+  diagnostics: VcfDiagnostic[];
+}
+
+/**
+ * vCard version written on export
+ */
+export type VcardVersion = '4.0' | '3.0';
+
+/**
+ * Options for generating VCF content
+ */
+export interface VcfGenerateOptions {
+  /**
+   * vCard version to emit (default "4.0")
+   * Version 3.0 maps 4.0-only properties and parameters to their 3.0 or X- equivalents
+   */
+  version?: VcardVersion;
+}
+
+/**
+ * A jCard property (RFC 7095): name, parameters, value type and one or more values
+ * Structured values are arrays of components
+ */
+export type JCardProperty = [string, Record<string, string | string[]>, string, ...any[]];
+
+/**
+ * A jCard (RFC 7095)
+ */
+export type JCard = ['vcard', JCardProperty[]];
+
+/**
+ * Mapping of CSV columns to frontmatter keys
+ */
+export interface CsvColumnMapping {
+  /**
+   * Frontmatter key for each CSV header; unmapped headers are ignored
+   * Keys may carry an index to keep repeated columns apart (EMAIL.0, ADR.1.STREET)
+   */
+  columns: Record<string, string>;
+  /**
+   * Column holding the type label ("Home", "* Work") of a value column, by value column header
+   */
+  typeColumns?: Record<string, string>;
+}
+
+/**
+ * Built-in column mapping for a known CSV export layout
+ */
+export interface CsvPreset extends CsvColumnMapping {
+  /** Preset identifier */
+  id: string;
+  /** Display name */
+  name: string;
+}
+
+/**
+ * Options for writing contacts as CSV
+ */
+export interface CsvExportOptions {
+  /**
+   * Flat frontmatter keys to write, one column each (FN, EMAIL.WORK, ADR.HOME.LOCALITY)
+   * A key without a type takes the contact's preferred typed variant
+   */
+  columns: string[];
+  /**
+   * Types to prefer, in order, when a contact has several variants of a column (PREF, WORK, CELL)
+   * PREF matches variants with a PREF parameter
+   */
+  preferredTypes?: string[];
+  /** Field delimiter (default ",") */
+  delimiter?: string;
 }
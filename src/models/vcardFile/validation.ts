@@ -0,0 +1,236 @@
+/**
+ * RFC 6350 conformance checks for flat frontmatter
+ * Cardinality, value types and parameters come from the property schema
+ */
+
+import type { ValidationResult } from '../contactNote/types';
+import {
+  FrontmatterKey,
+  PROPERTY_SCHEMA,
+  PRESERVED_KEY,
+  basePropertyKey,
+  checkFrontmatterKey,
+  getFieldMapping,
+  parseFrontmatterKey
+} from './schema';
+import { isDateValue, toVcardDate } from './dates';
+import { parseAttachmentLink } from './attachments';
+
+/**
+ * Value types defined by RFC 6350 section 4
+ */
+const VALUE_TYPES = new Set([
+  'text', 'uri', 'date', 'time', 'date-time', 'date-and-or-time', 'timestamp',
+  'boolean', 'integer', 'float', 'utc-offset', 'language-tag'
+]);
+
+/**
+ * KIND values defined by RFC 6350 and RFC 6473
+ */
+const KIND_VALUES = new Set(['individual', 'group', 'org', 'location', 'application']);
+
+/**
+ * GENDER sex component values (RFC 6350 section 6.2.7)
+ */
+const SEX_VALUES = new Set(['M', 'F', 'O', 'N', 'U']);
+
+/**
+ * Properties that only describe individuals
+ */
+const INDIVIDUAL_PROPERTIES = new Set(['BDAY', 'ANNIVERSARY', 'GENDER']);
+
+/**
+ * Date forms (RFC 6350 section 4.3.1): year, year-month, full date, or without year or month
+ */
+const DATE = '(?:\\d{8}|\\d{4}(?:-\\d{2})?|--\\d{2}(?:\\d{2})?|---\\d{2})';
+
+/**
+ * UTC designator or offset
+ */
+const ZONE = '(?:Z|[+-]\\d{2}(?:\\d{2})?)';
+
+/**
+ * Time forms (RFC 6350 section 4.3.2): hours to seconds, or without hour or minute
+ */
+const TIME = `(?:\\d{2}(?:\\d{2}(?:\\d{2})?)?|-\\d{2}(?:\\d{2})?|--\\d{2})${ZONE}?`;
+
+/**
+ * Date-time forms (RFC 6350 section 4.3.3); the date must not be truncated on the right
+ */
+const DATE_TIME = `(?:\\d{8}|--\\d{4}|---\\d{2})T\\d{2}(?:\\d{2}(?:\\d{2})?)?${ZONE}?`;
+
+/**
+ * Value checks by value type; text and unknown types accept any value
+ */
+const VALUE_PATTERNS: Record<string, RegExp> = {
+  'date': new RegExp(`^${DATE}$`),
+  'time': new RegExp(`^${TIME}$`),
+  'date-time': new RegExp(`^${DATE_TIME}$`),
+  'date-and-or-time': new RegExp(`^(?:${DATE_TIME}|${DATE}|T${TIME})$`),
+  'timestamp': new RegExp(`^\\d{8}T\\d{6}${ZONE}$`),
+  'uri': /^[a-z][a-z0-9+.-]*:\S*$/i,
+  'boolean': /^(?:true|false)$/i,
+  'integer': /^[+-]?\d+$/,
+  'float': /^[+-]?\d+(?:\.\d+)?$/,
+  'utc-offset': /^[+-]\d{2}(?:\d{2})?$/,
+  'language-tag': /^(?:[a-z]{2,8}(?:-[a-z0-9]{1,8})*|[ix]-[a-z0-9]{1,8}(?:-[a-z0-9]{1,8})*)$/i
+};
+
+/**
+ * ISO 8601 extended dates and times, which vCard 4.0 writes in basic format
+ * BDAY and ANNIVERSARY are stored in extended format and checked after conversion
+ */
+const EXTENDED_DATE = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2})?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Validate contact frontmatter against RFC 6350
+ * Checks property cardinality, value types, parameters and KIND-specific rules.
+ * Messages name the frontmatter key they apply to
+ * @param data - Flat frontmatter data
+ * @returns Validation result; keys outside the schema are warnings
+ */
+export function validateVcardData(data: Record<string, any>): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const properties = new Map<string, { parsed: FrontmatterKey; key: string }[]>();
+
+  for (const [key, value] of Object.entries(data)) {
+    if (key.split('.')[0].toUpperCase() === PRESERVED_KEY || value === undefined || value === null || value === '') {
+      continue;
+    }
+
+    // The message names the key already
+    const keyWarning = checkFrontmatterKey(key);
+    if (keyWarning) {
+      warnings.push(keyWarning);
+      continue;
+    }
+
+    const parameterIndex = key.indexOf('.@');
+    if (parameterIndex !== -1) {
+      const error = checkParameter(key.substring(parameterIndex + 2).toUpperCase(), String(value));
+      if (error) {
+        errors.push(`${key}: ${error}`);
+      }
+      continue;
+    }
+
+    const parsed = parseFrontmatterKey(key)!;
+    if (!properties.has(parsed.property)) {
+      properties.set(parsed.property, []);
+    }
+    properties.get(parsed.property)!.push({ parsed, key });
+
+    const valueType = String(data[`${parsed.propertyKey}.@VALUE`] ?? parsed.mapping.valueType ?? 'text').toLowerCase();
+    const message = checkValue(parsed, valueType, value);
+    if (message) {
+      (message.severity === 'error' ? errors : warnings).push(`${key}: ${message.text}`);
+    }
+  }
+
+  // UID is required by the plugin, FN by RFC 6350
+  if (!data.UID) {
+    errors.push('UID: Missing required property');
+  }
+  for (const mapping of PROPERTY_SCHEMA.filter(candidate => candidate.cardinality === '1*')) {
+    if (!properties.has(mapping.vcardField)) {
+      errors.push(`${mapping.vcardField}: Missing required property`);
+    }
+  }
+
+  // Properties with cardinality *1 may only occur once; alternative representations share an ALTID
+  for (const [property, fields] of properties) {
+    const mapping = getFieldMapping(property);
+    if (mapping.cardinality !== '*1') {
+      continue;
+    }
+
+    const instances = new Set(fields.map(field => field.parsed.propertyKey));
+    const altIds = new Set(fields.map(({ parsed }) => data[`${parsed.propertyKey}.@ALTID`] ?? basePropertyKey(parsed)));
+    if (altIds.size > 1) {
+      errors.push(`${Array.from(instances).join(', ')}: ${property} may only occur once, found ${altIds.size}`);
+    }
+  }
+
+  // KIND-specific rules (RFC 6350 sections 6.1.4 and 6.6.5)
+  const kind = String(data.KIND ?? 'individual').toLowerCase();
+  if (!KIND_VALUES.has(kind) && !kind.startsWith('x-')) {
+    warnings.push(`KIND: Unknown kind "${data.KIND}"`);
+  }
+  for (const [property, fields] of properties) {
+    if (property === 'MEMBER' && kind !== 'group') {
+      errors.push(`${fields[0].key}: MEMBER is only allowed when KIND is group`);
+    } else if (INDIVIDUAL_PROPERTIES.has(property) && kind !== 'individual') {
+      warnings.push(`${fields[0].key}: ${property} only applies to individuals, but KIND is ${kind}`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Check a property value against its value type
+ * @param parsed - Key parts
+ * @param valueType - Lowercased value type from VALUE or the schema
+ * @param value - Frontmatter value
+ * @returns Message, or null if the value is valid
+ */
+function checkValue(
+  parsed: FrontmatterKey,
+  valueType: string,
+  value: any
+): { text: string; severity: 'error' | 'warning' } | null {
+  const text = Array.isArray(value) ? value.join(',') : String(value);
+
+  if (parsed.property === 'GENDER' && parsed.component === 'SEX') {
+    return SEX_VALUES.has(text.toUpperCase()) ? null : { text: `Invalid sex "${text}", expected M, F, O, N or U`, severity: 'error' };
+  }
+  if (parsed.property === 'EMAIL' && !text.includes('@')) {
+    return { text: `"${text}" does not look like an email address`, severity: 'warning' };
+  }
+  // UID defaults to uri but usually holds text; extracted media link to vault files
+  if (parsed.property === 'UID' || parsed.component !== '' || (parsed.mapping.type === 'binary' && parseAttachmentLink(text))) {
+    return null;
+  }
+
+  const pattern = VALUE_PATTERNS[valueType];
+  const vcardValue = isDateValue(parsed.mapping.valueType, valueType) ? toVcardDate(value) : text;
+  if (!pattern || pattern.test(vcardValue)) {
+    return null;
+  }
+  if (parsed.mapping.type === 'date' && EXTENDED_DATE.test(text)) {
+    return { text: `"${text}" should use the ISO 8601 basic format (e.g. 19850415)`, severity: 'warning' };
+  }
+  return { text: `Invalid ${valueType} value "${text}"`, severity: 'error' };
+}
+
+/**
+ * Check the value of a parameter
+ * @param name - Uppercased parameter name
+ * @param value - Parameter value
+ * @returns Error message, or null if the value is valid
+ */
+function checkParameter(name: string, value: string): string | null {
+  switch (name) {
+    case 'VALUE':
+      return VALUE_TYPES.has(value.toLowerCase()) || /^x-/i.test(value) ? null : `Unknown value type "${value}"`;
+    case 'PREF': {
+      const pref = Number(value);
+      return Number.isInteger(pref) && pref >= 1 && pref <= 100 ? null : `PREF must be an integer from 1 to 100, found "${value}"`;
+    }
+    case 'LANGUAGE':
+      return VALUE_PATTERNS['language-tag'].test(value) ? null : `Invalid language tag "${value}"`;
+    case 'PID':
+      return /^\d+(?:\.\d+)?(?:,\d+(?:\.\d+)?)*$/.test(value) ? null : `Invalid PID "${value}"`;
+    case 'MEDIATYPE':
+      return /^[a-z0-9!#$&^_.+-]+\/[a-z0-9!#$&^_.+-]+(?:;.*)?$/i.test(value) ? null : `Invalid media type "${value}"`;
+    case 'CALSCALE':
+      return value.toLowerCase() === 'gregorian' || /^x-/i.test(value) ? null : `Unknown calendar scale "${value}"`;
+    default:
+      return null;
+  }
+}
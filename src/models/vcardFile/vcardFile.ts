@@ -2,9 +2,13 @@
  * VcardFile class - Represents a vCard file with parsing and generation capabilities
  */
 
-import { VCardData } from './types';
-import { parseVcfFile, parseVcfContact } from './parsing';
+import { VCardData, VcfDiagnostic, VcfParseOptions, VcfGenerateOptions, JCard, CsvColumnMapping } from './types';
+import { parseVcfDocument, parseVcfContact } from './parsing';
 import { generateVcfFile, generateVcfContact } from './generation';
+import { parseJCard, generateJCard } from './jcard';
+import { parseXCard, generateXCard } from './xcard';
+import { parseCsvContacts } from './csv';
+import { parseLdif, generateLdif } from './ldif';
 
 /**
  * Represents a vCard file containing one or more contacts
@@ -19,6 +23,9 @@ export class VcardFile {
   /** Original file content (optional, for debugging) */
   public rawContent?: string;
 
+  /** Problems found while parsing the file content */
+  public diagnostics: VcfDiagnostic[] = [];
+
   /**
    * Create a new VcardFile instance
    * @param filename - Filename or path
@@ -35,11 +42,76 @@ export class VcardFile {
    * Create a VcardFile from file content
    * @param path - File path
    * @param content - File content as string
-   * @returns VcardFile instance
+   * @param options - Parse options
+   * @returns VcardFile instance holding the valid contacts and the diagnostics of invalid ones
+   */
+  static fromString(content: string, filename: string = 'contacts.vcf', options: VcfParseOptions = {}): VcardFile {
+    const { contacts, diagnostics } = parseVcfDocument(content, options);
+    const vcardFile = new VcardFile(filename, contacts, content);
+    vcardFile.diagnostics = diagnostics;
+    return vcardFile;
+  }
+
+  /**
+   * Create a VcardFile from jCard (RFC 7095) content
+   * @param json - jCard JSON text, a parsed jCard or an array of jCards
+   * @param filename - Filename
+   * @param options - Parse options
+   * @returns VcardFile instance holding the valid contacts and the diagnostics of invalid ones
    */
-  static fromString(content: string, filename: string = 'contacts.vcf'): VcardFile {
-    const contacts = parseVcfFile(content);
-    return new VcardFile(filename, contacts, content);
+  static fromJCard(json: string | unknown, filename: string = 'contacts.json', options: VcfParseOptions = {}): VcardFile {
+    const { contacts, diagnostics } = parseJCard(json, options);
+    const vcardFile = new VcardFile(filename, contacts, typeof json === 'string' ? json : undefined);
+    vcardFile.diagnostics = diagnostics;
+    return vcardFile;
+  }
+
+  /**
+   * Create a VcardFile from xCard (RFC 6351) content
+   * @param xml - xCard XML text
+   * @param filename - Filename
+   * @param options - Parse options
+   * @returns VcardFile instance holding the valid contacts and the diagnostics of invalid ones
+   */
+  static fromXCard(xml: string, filename: string = 'contacts.xml', options: VcfParseOptions = {}): VcardFile {
+    const { contacts, diagnostics } = parseXCard(xml, options);
+    const vcardFile = new VcardFile(filename, contacts, xml);
+    vcardFile.diagnostics = diagnostics;
+    return vcardFile;
+  }
+
+  /**
+   * Create a VcardFile from CSV content
+   * @param content - CSV text with a header row
+   * @param mapping - Column mapping or preset
+   * @param filename - Filename
+   * @param options - Parse options
+   * @returns VcardFile instance holding the valid rows and the diagnostics of invalid ones
+   */
+  static fromCsv(
+    content: string,
+    mapping: CsvColumnMapping,
+    filename: string = 'contacts.csv',
+    options: VcfParseOptions = {}
+  ): VcardFile {
+    const { contacts, diagnostics } = parseCsvContacts(content, mapping, options);
+    const vcardFile = new VcardFile(filename, contacts, content);
+    vcardFile.diagnostics = diagnostics;
+    return vcardFile;
+  }
+
+  /**
+   * Create a VcardFile from LDIF content (Thunderbird or LDAP export)
+   * @param content - LDIF text
+   * @param filename - Filename
+   * @param options - Parse options
+   * @returns VcardFile instance holding the person entries and the diagnostics of skipped ones
+   */
+  static fromLdif(content: string, filename: string = 'contacts.ldif', options: VcfParseOptions = {}): VcardFile {
+    const { contacts, diagnostics } = parseLdif(content, options);
+    const vcardFile = new VcardFile(filename, contacts, content);
+    vcardFile.diagnostics = diagnostics;
+    return vcardFile;
   }
 
   /**
@@ -110,10 +182,35 @@ export class VcardFile {
 
   /**
    * Convert the file to VCF string format
+   * @param options - Generate options
    * @returns VCF file content as string
    */
-  toVCardString(): string {
-    return generateVcfFile(this.contacts);
+  toVCardString(options: VcfGenerateOptions = {}): string {
+    return generateVcfFile(this.contacts, options);
+  }
+
+  /**
+   * Convert the file to jCard (RFC 7095)
+   * @returns One jCard per contact
+   */
+  toJCard(): JCard[] {
+    return generateJCard(this.contacts);
+  }
+
+  /**
+   * Convert the file to xCard (RFC 6351)
+   * @returns xCard XML text
+   */
+  toXCard(): string {
+    return generateXCard(this.contacts);
+  }
+
+  /**
+   * Convert the file to LDIF (RFC 2849)
+   * @returns LDIF text
+   */
+  toLdif(): string {
+    return generateLdif(this.contacts);
   }
 
   /**
@@ -138,16 +235,18 @@ export class VcardFile {
   clear(): void {
     this.contacts = [];
     this.rawContent = undefined;
+    this.diagnostics = [];
   }
 
   /**
    * Parse and add a vCard string to the file
    * @param vcardString - vCard string
+   * @param options - Parse options
    * @returns true if successfully added, false otherwise
    */
-  addFromString(vcardString: string): boolean {
+  addFromString(vcardString: string, options: VcfParseOptions = {}): boolean {
     try {
-      const contact = parseVcfContact(vcardString);
+      const contact = parseVcfContact(vcardString, options);
       if (contact) {
         this.addContact(contact);
         return true;
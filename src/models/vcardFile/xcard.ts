@@ -0,0 +1,434 @@
+/**
+ * xCard (RFC 6351) conversion
+ * xCard elements map one-to-one to jCard properties, so xCards are converted through
+ * jCard and share the flat frontmatter model of parseVcfDocument and frontmatterToVcard
+ */
+
+import { VCardData, VcfDiagnostic, VcfParseOptions, VcfParseResult, JCard, JCardProperty } from './types';
+import { parseJCard, generateJCard, DATE_VALUE_TYPES, toBasicFormat, toExtendedFormat } from './jcard';
+
+/**
+ * xCard namespace
+ */
+export const XCARD_NAMESPACE = 'urn:ietf:params:xml:ns:vcard-4.0';
+
+/**
+ * Component element names of structured properties, in value order
+ * ORG components are all <text> elements
+ */
+const STRUCTURED_COMPONENTS: Record<string, string[]> = {
+  n: ['surname', 'given', 'additional', 'prefix', 'suffix'],
+  adr: ['pobox', 'ext', 'street', 'locality', 'region', 'code', 'country'],
+  gender: ['sex', 'identity'],
+  clientpidmap: ['sourceid', 'uri']
+};
+
+/**
+ * Value type elements of parameters other than text
+ */
+const PARAMETER_VALUE_TYPES: Record<string, string> = {
+  pref: 'integer',
+  geo: 'uri',
+  language: 'language-tag'
+};
+
+/**
+ * An element of a parsed XML document
+ */
+interface XmlElement {
+  /** Local name (namespace prefix removed), lowercased */
+  name: string;
+  /** Attributes by local name */
+  attributes: Record<string, string>;
+  /** Child elements */
+  children: XmlElement[];
+  /** Concatenated text content of the element itself */
+  text: string;
+}
+
+/**
+ * Check whether XML content is an xCard document
+ * @param xml - XML text
+ * @returns True if the content uses the xCard namespace
+ */
+export function isXCard(xml: string): boolean {
+  return xml.includes(XCARD_NAMESPACE) && /<(?:[\w-]+:)?vcards?[\s>]/.test(xml);
+}
+
+/**
+ * Parse an xCard document
+ * @param xml - xCard XML text
+ * @param options - Parse options
+ * @returns Parsed contacts and diagnostics; line numbers are not known for xCards and are 0
+ */
+export function parseXCard(xml: string, options: VcfParseOptions = {}): VcfParseResult {
+  let root: XmlElement;
+  try {
+    root = parseXml(xml);
+  } catch (error) {
+    return { contacts: [], diagnostics: [xCardError(`Invalid XML: ${error.message}`)] };
+  }
+
+  if (root.name !== 'vcards' && root.name !== 'vcard') {
+    return { contacts: [], diagnostics: [xCardError('Not an xCard')] };
+  }
+  const cards = root.name === 'vcard' ? [root] : root.children.filter(child => child.name === 'vcard');
+  if (cards.length === 0) {
+    return { contacts: [], diagnostics: [xCardError('No vcard element found')] };
+  }
+
+  return parseJCard(cards.map(vcardElementToJCard), options);
+}
+
+/**
+ * Generate an xCard document
+ * @param contacts - Contact data
+ * @returns xCard XML text
+ */
+export function generateXCard(contacts: VCardData[]): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', `<vcards xmlns="${XCARD_NAMESPACE}">`];
+
+  for (const jCard of generateJCard(contacts)) {
+    lines.push('  <vcard>');
+
+    // Consecutive properties of the same group share a <group> element, keeping their order
+    let group: string | undefined;
+    for (const property of jCard[1]) {
+      if (property[0] === 'version') {
+        continue;
+      }
+      const propertyGroup = property[1].group as string | undefined;
+      if (propertyGroup !== group) {
+        if (group !== undefined) {
+          lines.push('    </group>');
+        }
+        if (propertyGroup !== undefined) {
+          lines.push(`    <group name="${escapeXml(propertyGroup)}">`);
+        }
+        group = propertyGroup;
+      }
+      lines.push(`${group !== undefined ? '      ' : '    '}${jCardPropertyToElement(property)}`);
+    }
+    if (group !== undefined) {
+      lines.push('    </group>');
+    }
+
+    lines.push('  </vcard>');
+  }
+
+  lines.push('</vcards>');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Convert a <vcard> element to a jCard
+ * @param vcard - vcard element
+ * @returns jCard
+ */
+function vcardElementToJCard(vcard: XmlElement): JCard {
+  const properties: JCardProperty[] = [];
+
+  for (const child of vcard.children) {
+    if (child.name === 'group') {
+      for (const property of child.children) {
+        properties.push(elementToJCardProperty(property, child.attributes.name));
+      }
+    } else {
+      properties.push(elementToJCardProperty(child));
+    }
+  }
+
+  return ['vcard', properties];
+}
+
+/**
+ * Convert a property element to a jCard property
+ * @param element - Property element
+ * @param group - Name of the enclosing group, if any
+ * @returns jCard property
+ */
+function elementToJCardProperty(element: XmlElement, group?: string): JCardProperty {
+  const parameters: Record<string, string | string[]> = {};
+  if (group) {
+    parameters.group = group;
+  }
+
+  const valueElements: XmlElement[] = [];
+  for (const child of element.children) {
+    if (child.name === 'parameters') {
+      for (const parameter of child.children) {
+        const values = parameter.children.map(value => value.text);
+        parameters[parameter.name] = values.length === 1 ? values[0] : values;
+      }
+    } else {
+      valueElements.push(child);
+    }
+  }
+
+  const components = STRUCTURED_COMPONENTS[element.name];
+  if (components) {
+    const value = components.map(component => {
+      const texts = valueElements.filter(child => child.name === component).map(child => child.text);
+      return texts.length === 0 ? '' : texts.length === 1 ? texts[0] : texts;
+    });
+    // The GENDER identity component is optional
+    while (element.name === 'gender' && value.length > 1 && value[value.length - 1] === '') {
+      value.pop();
+    }
+    return [element.name, parameters, 'text', ...(value.length > 1 ? [value] : value)];
+  }
+
+  if (element.name === 'org') {
+    const value = valueElements.map(child => child.text);
+    return [element.name, parameters, 'text', ...(value.length > 1 ? [value] : value)];
+  }
+
+  const type = valueElements[0]?.name ?? 'unknown';
+  const values = valueElements.length > 0 ? valueElements.map(child => fromXCardValue(child.text, type)) : [element.text];
+  return [element.name, parameters, type, ...values];
+}
+
+/**
+ * Convert a jCard property to a property element on one line
+ * @param property - jCard property
+ * @returns XML element
+ */
+function jCardPropertyToElement(property: JCardProperty): string {
+  const [name, parameters, type, ...values] = property;
+
+  let parameterXml = '';
+  for (const [parameterName, parameterValue] of Object.entries(parameters)) {
+    if (parameterName === 'group') {
+      continue;
+    }
+    const valueType = PARAMETER_VALUE_TYPES[parameterName] ?? 'text';
+    const list = Array.isArray(parameterValue) ? parameterValue : [parameterValue];
+    parameterXml += element(parameterName, list.map(item => element(valueType, escapeXml(String(item)))).join(''));
+  }
+  const content = parameterXml ? element('parameters', parameterXml) : '';
+
+  const components = STRUCTURED_COMPONENTS[name];
+  if (components || name === 'org') {
+    const value = Array.isArray(values[0]) ? values[0] : values;
+    const componentXml = value.map((component: string | string[], index: number) => {
+      const componentName = components ? components[index] : 'text';
+      const parts = Array.isArray(component) ? component : [component];
+      return parts.map(part => element(componentName, escapeXml(String(part ?? '')))).join('');
+    }).join('');
+    return element(name, content + componentXml);
+  }
+
+  const valueXml = values.map(value => element(type, escapeXml(toXCardValue(String(value), type)))).join('');
+  return element(name, content + valueXml);
+}
+
+/**
+ * Convert a jCard value to its xCard form (ISO 8601 basic format)
+ * @param value - jCard value
+ * @param type - Value type
+ * @returns xCard value
+ */
+function toXCardValue(value: string, type: string): string {
+  if (DATE_VALUE_TYPES.has(type)) {
+    return toBasicFormat(value);
+  }
+  if (type === 'utc-offset') {
+    return value.replace(/^([+-]\d{2}):(\d{2})$/, '$1$2');
+  }
+  return value;
+}
+
+/**
+ * Convert an xCard value to its jCard form (ISO 8601 extended format)
+ * @param value - xCard value
+ * @param type - Value type
+ * @returns jCard value
+ */
+function fromXCardValue(value: string, type: string): string {
+  if (DATE_VALUE_TYPES.has(type)) {
+    return toExtendedFormat(value);
+  }
+  if (type === 'utc-offset') {
+    return value.replace(/^([+-]\d{2})(\d{2})$/, '$1:$2');
+  }
+  return value;
+}
+
+/**
+ * Build an XML element, self-closing when empty
+ * @param name - Element name
+ * @param content - Escaped content
+ * @returns XML element
+ */
+function element(name: string, content: string): string {
+  return content === '' ? `<${name}/>` : `<${name}>${content}</${name}>`;
+}
+
+/**
+ * Escape text for XML content and attribute values
+ * @param value - Raw text
+ * @returns Escaped text
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Resolve XML entity and character references
+ * @param value - Escaped text
+ * @returns Raw text
+ */
+function unescapeXml(value: string): string {
+  const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return entities[entity] ?? match;
+  });
+}
+
+/**
+ * Parse an XML document into its root element
+ * Supports what xCard needs: elements, attributes, text, CDATA, comments and processing
+ * instructions; namespace prefixes are dropped
+ * @param xml - XML text
+ * @returns Root element
+ */
+function parseXml(xml: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let position = 0;
+
+  while (position < xml.length) {
+    const open = xml.indexOf('<', position);
+    const text = xml.substring(position, open === -1 ? xml.length : open);
+    if (stack.length > 0) {
+      stack[stack.length - 1].text += unescapeXml(text);
+    } else if (text.trim() !== '') {
+      throw new Error('Text outside the root element');
+    }
+    if (open === -1) {
+      break;
+    }
+
+    if (xml.startsWith('<!--', open)) {
+      position = skipPast(xml, '-->', open);
+    } else if (xml.startsWith('<![CDATA[', open)) {
+      const end = xml.indexOf(']]>', open);
+      if (end === -1 || stack.length === 0) {
+        throw new Error('Unterminated CDATA section');
+      }
+      stack[stack.length - 1].text += xml.substring(open + 9, end);
+      position = end + 3;
+    } else if (xml.startsWith('<?', open)) {
+      position = skipPast(xml, '?>', open);
+    } else if (xml.startsWith('<!', open)) {
+      position = skipPast(xml, '>', open);
+    } else if (xml.startsWith('</', open)) {
+      const end = skipPast(xml, '>', open);
+      const name = localName(xml.substring(open + 2, end - 1).trim());
+      const current = stack.pop();
+      if (!current || current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      position = end;
+    } else {
+      const end = findTagEnd(xml, open);
+      const selfClosing = xml[end - 1] === '/';
+      const tag = xml.substring(open + 1, selfClosing ? end - 1 : end);
+      const nameMatch = tag.match(/^[^\s/>]+/);
+      if (!nameMatch) {
+        throw new Error('Missing element name');
+      }
+
+      const attributes: Record<string, string> = {};
+      const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(tag.substring(nameMatch[0].length))) !== null) {
+        attributes[localName(attribute[1])] = unescapeXml(attribute[3] ?? attribute[4]);
+      }
+
+      const node: XmlElement = { name: localName(nameMatch[0]), attributes, children: [], text: '' };
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(node);
+      } else if (root) {
+        throw new Error('More than one root element');
+      } else {
+        root = node;
+      }
+      if (!selfClosing) {
+        stack.push(node);
+      }
+      position = end + 1;
+    }
+  }
+
+  if (!root) {
+    throw new Error('No root element');
+  }
+  if (stack.length > 0) {
+    throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  }
+  return root;
+}
+
+/**
+ * Find the end of a start tag, ignoring '>' inside attribute values
+ * @param xml - XML text
+ * @param start - Index of '<'
+ * @returns Index of the closing '>'
+ */
+function findTagEnd(xml: string, start: number): number {
+  let quote = '';
+  for (let i = start + 1; i < xml.length; i++) {
+    if (quote) {
+      if (xml[i] === quote) {
+        quote = '';
+      }
+    } else if (xml[i] === '"' || xml[i] === "'") {
+      quote = xml[i];
+    } else if (xml[i] === '>') {
+      return i;
+    }
+  }
+  throw new Error('Unterminated tag');
+}
+
+/**
+ * Find the index after a terminator
+ * @param xml - XML text
+ * @param terminator - Text that ends the construct
+ * @param start - Index to search from
+ * @returns Index after the terminator
+ */
+function skipPast(xml: string, terminator: string, start: number): number {
+  const end = xml.indexOf(terminator, start);
+  if (end === -1) {
+    throw new Error(`Missing ${terminator}`);
+  }
+  return end + terminator.length;
+}
+
+/**
+ * Remove the namespace prefix of a name and lowercase it
+ * @param name - Qualified name
+ * @returns Local name
+ */
+function localName(name: string): string {
+  return name.substring(name.indexOf(':') + 1).toLowerCase();
+}
+
+/**
+ * Build a diagnostic for content that is not a usable xCard
+ * @param message - Problem description
+ * @returns Error diagnostic
+ */
+function xCardError(message: string): VcfDiagnostic {
+  return { card: -1, line: 0, message, severity: 'error' };
+}
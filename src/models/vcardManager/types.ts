@@ -2,6 +2,10 @@
  * Type definitions for VcardManager model
  */
 
+import { ContactDiff } from '../vcardFile/diff';
+import { MergeConflict } from '../vcardFile/merge';
+import { SyncBase } from '../contactManager/types';
+
 /**
  * Write operation for the write queue
  */
@@ -68,4 +72,12 @@ export interface BatchImportOptions {
   targetFolder?: string;
   /** Whether to overwrite existing contacts */
   overwrite: boolean;
+  /** Asked before an existing note is overwritten with changed data; the note is kept when it resolves to false */
+  confirmUpdate?: (name: string, diff: ContactDiff) => Promise<boolean>;
+  /** Data of the last sync; overwriting a contact that has a base merges the changes of both sides */
+  syncBase?: SyncBase;
+  /** Let the side with the newer REV win fields that both sides changed */
+  preferNewerRev?: boolean;
+  /** Asked to choose a side for each conflict; the note is kept when it resolves to null */
+  resolveConflicts?: (name: string, conflicts: MergeConflict[]) => Promise<Record<string, 'ours' | 'theirs'> | null>;
 }
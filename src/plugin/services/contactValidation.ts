@@ -0,0 +1,110 @@
+/**
+ * Contact Validation Service
+ *
+ * Checks the contacts in the contact cache against RFC 6350 and writes
+ * the problems found to a report note.
+ */
+
+import { App, Notice, Plugin, TFile } from 'obsidian';
+import { ContactManager, ContactCacheEntry } from '../../models/contactManager';
+import { ValidationResult } from '../../models/contactNote';
+import { parseFrontmatter } from '../../models/contactNote/frontmatter';
+import { validateVcardData } from '../../models/vcardFile';
+import { writeExportFile } from './exportWriter';
+
+/**
+ * Vault path of the validation report note
+ */
+export const VALIDATION_REPORT_FILE = 'Contact validation report.md';
+
+/**
+ * Validation result of one contact
+ */
+export interface ContactValidation {
+  /** Cache entry of the contact */
+  entry: ContactCacheEntry;
+  /** Errors and warnings */
+  result: ValidationResult;
+}
+
+/**
+ * Register the "Validate all contacts" command
+ *
+ * @param plugin Plugin to register the command with
+ * @param contactManager Contact cache
+ */
+export function registerValidationCommands(plugin: Plugin, contactManager: ContactManager): void {
+  const app = plugin.app;
+
+  plugin.addCommand({
+    id: 'validate-all-contacts',
+    name: 'Validate all contacts',
+    callback: async () => {
+      try {
+        const validations = await validateContacts(app, contactManager.getAllContacts());
+        const content = formatValidationReport(validations, new Date());
+        const file = await writeExportFile(app, VALIDATION_REPORT_FILE, content);
+        await app.workspace.getLeaf().openFile(file);
+
+        const invalid = validations.filter(validation => !validation.result.valid).length;
+        new Notice(`Validated ${validations.length} contact(s), ${invalid} with errors`);
+      } catch (error) {
+        console.error('Error validating contacts:', error);
+        new Notice(`Error validating contacts: ${error.message}`);
+      }
+    }
+  });
+}
+
+/**
+ * Validate contacts against RFC 6350
+ *
+ * @param app Obsidian App instance
+ * @param entries Cache entries of the contacts to validate
+ * @returns Results sorted by name; contact notes that no longer exist are skipped
+ */
+export async function validateContacts(app: App, entries: ContactCacheEntry[]): Promise<ContactValidation[]> {
+  const validations: ContactValidation[] = [];
+  const sorted = [...entries].sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of sorted) {
+    const file = app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) {
+      continue;
+    }
+    const { frontmatter } = parseFrontmatter(await app.vault.cachedRead(file));
+    validations.push({ entry, result: validateVcardData(frontmatter) });
+  }
+  return validations;
+}
+
+/**
+ * Format validation results as a report note
+ * Only contacts with errors or warnings are listed, linked to their notes
+ *
+ * @param validations Validation results
+ * @param date Time of the validation
+ * @returns Markdown content
+ */
+export function formatValidationReport(validations: ContactValidation[], date: Date): string {
+  const withErrors = validations.filter(validation => validation.result.errors.length > 0).length;
+  const withWarnings = validations.filter(validation => validation.result.warnings.length > 0).length;
+  const lines = [
+    '# Contact validation report',
+    '',
+    `Validated ${validations.length} contact(s) on ${date.toISOString().substring(0, 10)}: ` +
+      `${withErrors} with errors, ${withWarnings} with warnings.`
+  ];
+
+  for (const { entry, result } of validations) {
+    if (result.errors.length === 0 && result.warnings.length === 0) {
+      continue;
+    }
+
+    lines.push('', `## [[${entry.path.replace(/\.md$/, '')}|${entry.name}]]`, '');
+    result.errors.forEach(error => lines.push(`- Error: ${error}`));
+    result.warnings.forEach(warning => lines.push(`- Warning: ${warning}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
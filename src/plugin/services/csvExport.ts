@@ -0,0 +1,58 @@
+/**
+ * CSV Export Service
+ *
+ * Writes the contacts in the contact cache to a CSV file in the vault,
+ * with the columns and preferred types configured in settings.
+ */
+
+import { App, Plugin, TFile } from 'obsidian';
+import { ContactsPluginSettings } from '../settings';
+import { ContactManager, ContactCacheEntry } from '../../models/contactManager';
+import { generateCsv } from '../../models/vcardFile';
+import { registerExportCommands, readContactFrontmatter, writeExportFile } from './exportWriter';
+
+/**
+ * Register the CSV export commands
+ *
+ * "Export contacts to CSV" exports every contact; "Export contacts in current folder to CSV"
+ * exports the contacts in the folder of the active contact note, including subfolders.
+ *
+ * @param plugin Plugin to register the commands with
+ * @param contactManager Contact cache
+ * @param settings Plugin settings
+ */
+export function registerCsvExportCommands(
+  plugin: Plugin,
+  contactManager: ContactManager,
+  settings: ContactsPluginSettings
+): void {
+  registerExportCommands(plugin, contactManager, settings, {
+    id: 'csv',
+    name: 'CSV',
+    exportContacts: exportContactsToCsv
+  });
+}
+
+/**
+ * Write contacts to the CSV export file
+ *
+ * @param app Obsidian App instance
+ * @param entries Cache entries of the contacts to export
+ * @param settings Plugin settings
+ * @returns The export file
+ */
+export async function exportContactsToCsv(
+  app: App,
+  entries: ContactCacheEntry[],
+  settings: ContactsPluginSettings
+): Promise<TFile> {
+  const contacts = await readContactFrontmatter(app, entries);
+
+  // The byte order mark makes spreadsheet applications read the file as UTF-8
+  const content = '\uFEFF' + generateCsv(contacts, {
+    columns: settings.csvExportColumns,
+    preferredTypes: settings.csvExportPreferredTypes
+  });
+
+  return writeExportFile(app, settings.csvExportFile || 'contacts.csv', content);
+}
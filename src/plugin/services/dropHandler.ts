@@ -1,20 +1,42 @@
 /**
  * Drop Handler Service
  * 
- * Handles VCF files dropped into the vault.
+ * Handles VCF and jCard (.json) files dropped into the vault, and imports VCF, jCard (.json),
+ * xCard (.xml), CSV and LDIF files chosen with a command.
  * Imports contacts from VCF files and optionally moves them to watch folder.
  */
 
-import { App, Notice, TFile } from 'obsidian';
+import { App, Notice, Plugin, TFile, normalizePath } from 'obsidian';
 import { ContactsPluginSettings } from '../settings';
-import { VcardFile } from '../../models/vcardFile';
+import {
+  VcardFile,
+  VcardConversion,
+  CsvColumnMapping,
+  formatVcfDiagnostic,
+  decodeVcfBytes,
+  isJCard,
+  isXCard,
+  getCsvPreview,
+  detectCsvPreset
+} from '../../models/vcardFile';
+import { CsvColumnMappingModal } from '../ui/modals/csvColumnMappingModal';
+import { ContactFileSuggestModal } from '../ui/modals/contactFileSuggestModal';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/**
+ * Extensions of the files the "Import contacts from file" command offers
+ * Only VCF and jCard files are imported when they are created in the vault
+ */
+const IMPORT_EXTENSIONS = new Set(['vcf', 'json', 'xml', 'csv', 'ldif']);
+
 /**
  * Setup VCF file drop handler
  * 
- * Watches for .vcf file creation events and handles them automatically
+ * Watches for .vcf and jCard .json file creation events and handles them automatically.
+ * An imported VCF file is moved to the watch folder, or deleted when there is none; an imported
+ * jCard file is deleted. Other JSON files are left alone, and other formats are imported with
+ * the "Import contacts from file" command.
  * 
  * @param app Obsidian App instance
  * @param settings Plugin settings
@@ -27,24 +49,24 @@ export function setupVcardDropHandler(
 ): () => void {
   
   const handleFileCreate = async (file: TFile) => {
-    // Only process VCF files
-    if (file.extension !== 'vcf') {
+    // Only process VCF and JSON files, leaving the plugin's own exports alone
+    if ((file.extension !== 'vcf' && file.extension !== 'json') || isExportFile(file, settings)) {
       return;
     }
 
     try {
-      // Read VCF file content
-      const content = await app.vault.read(file);
-      
-      // Parse VCF file
-      const vcardFile = VcardFile.fromString(content);
-      const contacts = vcardFile.getAllContacts();
-      
-      if (contacts.length === 0) {
-        new Notice('VCF file contains no valid contacts');
+      // Only import JSON files that contain jCards, without reporting other JSON files
+      if (file.extension === 'json' && !isJCard(parseJson(decodeVcfBytes(await app.vault.readBinary(file)).content))) {
         return;
       }
 
+      const read = await readContactFile(app, file, settings);
+      if (!read) {
+        return;
+      }
+      const { vcardFile, content } = read;
+      const contacts = vcardFile.getAllContacts();
+
       // Show notification
       new Notice(`Importing ${contacts.length} contact(s) from ${file.name}...`);
 
@@ -54,8 +76,11 @@ export function setupVcardDropHandler(
       }
 
       // Move VCF to watch folder if enabled and folder is configured
-      if (settings.vcardWatchEnabled && settings.vcardWatchFolder) {
-        await moveVcfToWatchFolder(app, file, settings.vcardWatchFolder);
+      if (file.extension === 'json') {
+        // The watch folder only holds VCF files
+        await app.vault.delete(file);
+      } else if (settings.vcardWatchEnabled && settings.vcardWatchFolder) {
+        await moveVcfToWatchFolder(app, file, content, settings.vcardWatchFolder);
         new Notice(`VCF file moved to watch folder`);
       } else {
         // Delete the VCF file from vault if not moving to watch folder
@@ -64,8 +89,8 @@ export function setupVcardDropHandler(
 
       new Notice(`Successfully imported ${contacts.length} contact(s)`);
     } catch (error) {
-      console.error('Error importing VCF file:', error);
-      new Notice(`Error importing VCF file: ${error.message}`);
+      console.error('Error importing contact file:', error);
+      new Notice(`Error importing ${file.name}: ${error.message}`);
     }
   };
 
@@ -78,18 +103,171 @@ export function setupVcardDropHandler(
   };
 }
 
+/**
+ * Register the "Import contacts from file" command
+ * Imports a VCF, jCard .json, xCard .xml, CSV or LDIF file chosen from the vault.
+ * The file is left in place.
+ *
+ * @param plugin Plugin to register the command with
+ * @param settings Plugin settings
+ * @param onImport Called with the contacts read from the file
+ */
+export function registerImportCommands(
+  plugin: Plugin,
+  settings: ContactsPluginSettings,
+  onImport: (vcardFile: VcardFile, sourcePath: string) => Promise<void>
+): void {
+  const app = plugin.app;
+
+  plugin.addCommand({
+    id: 'import-contacts-from-file',
+    name: 'Import contacts from file',
+    callback: () => {
+      new ContactFileSuggestModal(app, IMPORT_EXTENSIONS, async (file) => {
+        try {
+          const read = await readContactFile(app, file, settings);
+          if (read) {
+            new Notice(`Importing ${read.vcardFile.getAllContacts().length} contact(s) from ${file.name}...`);
+            await onImport(read.vcardFile, file.path);
+          }
+        } catch (error) {
+          console.error('Error importing contacts:', error);
+          new Notice(`Error importing contacts: ${error.message}`);
+        }
+      }).open();
+    }
+  });
+}
+
+/**
+ * Read the contacts of a VCF, jCard, xCard, CSV or LDIF file
+ * JSON and XML files that hold no jCards or xCards are left alone. CSV files in a known
+ * export layout are read directly; for other CSV files the columns are mapped in a modal.
+ * Problems are reported in notices and the console.
+ *
+ * @param app Obsidian App instance
+ * @param file File to read
+ * @param settings Plugin settings
+ * @returns The contacts and the decoded content, or null if there is nothing to import
+ */
+async function readContactFile(
+  app: App,
+  file: TFile,
+  settings: ContactsPluginSettings
+): Promise<{ vcardFile: VcardFile; content: string } | null> {
+  // Read file content, converting UTF-16 and 8-bit encodings to UTF-8
+  const decoded = decodeVcfBytes(await app.vault.readBinary(file));
+  const content = decoded.content;
+  const conversions: VcardConversion[] = [];
+  const options = {
+    preserveUnknownProperties: settings.vcardPreserveUnknownProperties,
+    conversions
+  };
+
+  let vcardFile: VcardFile;
+  if (file.extension === 'json') {
+    // Only import JSON files that contain jCards
+    const json = parseJson(content);
+    if (!isJCard(json)) {
+      new Notice(`${file.name} contains no jCards`);
+      return null;
+    }
+    vcardFile = VcardFile.fromJCard(json, file.name, options);
+  } else if (file.extension === 'xml') {
+    // Only import XML files that contain xCards
+    if (!isXCard(content)) {
+      new Notice(`${file.name} contains no xCards`);
+      return null;
+    }
+    vcardFile = VcardFile.fromXCard(content, file.name, options);
+  } else if (file.extension === 'csv') {
+    const mapping = await chooseCsvMapping(app, file.name, content);
+    if (!mapping) {
+      return null;
+    }
+    vcardFile = VcardFile.fromCsv(content, mapping, file.name, options);
+  } else if (file.extension === 'ldif') {
+    vcardFile = VcardFile.fromLdif(content, file.name, options);
+  } else {
+    // Parse VCF file, upgrading vCard 2.1 and 3.0 cards to 4.0
+    vcardFile = VcardFile.fromString(content, file.name, options);
+  }
+  vcardFile.diagnostics.unshift(...decoded.diagnostics);
+  const contacts = vcardFile.getAllContacts();
+  const errors = vcardFile.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+
+  if (vcardFile.diagnostics.length > 0) {
+    console.warn(`Problems parsing ${file.name}:\n${vcardFile.diagnostics.map(formatVcfDiagnostic).join('\n')}`);
+  }
+  
+  if (contacts.length === 0) {
+    const reason = errors.length > 0 ? `: ${formatVcfDiagnostic(errors[0])}` : '';
+    new Notice(`${file.name} contains no valid contacts${reason}`);
+    return null;
+  }
+
+  if (errors.length > 0) {
+    const report = errors.slice(0, 5).map(formatVcfDiagnostic).join('\n');
+    const more = errors.length > 5 ? `\n...and ${errors.length - 5} more (see console)` : '';
+    new Notice(`Skipped ${errors.length} invalid card(s) in ${file.name}:\n${report}${more}`, 10000);
+  }
+
+  if (conversions.length > 0) {
+    const upgradedCards = new Set(conversions.map(conversion => conversion.card)).size;
+    console.info(`Converted legacy vCards in ${file.name}:`, conversions);
+    new Notice(`Upgraded ${upgradedCards} vCard(s) from ${file.name} to version 4.0`);
+  }
+
+  return { vcardFile, content };
+}
+
+/**
+ * Check whether a VCF file is written by the group VCF export command
+ */
+function isExportFile(file: TFile, settings: ContactsPluginSettings): boolean {
+  const vcfExportFolder = normalizePath(settings.vcfExportFolder || 'Contact exports');
+  return file.path.startsWith(`${vcfExportFolder}/`);
+}
+
+/**
+ * Parse JSON content without throwing
+ */
+function parseJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Choose the column mapping of a CSV file
+ * Uses the preset of a known export layout, or asks the user to map the columns
+ * @returns The mapping, or null if the user cancelled
+ */
+function chooseCsvMapping(app: App, filename: string, content: string): Promise<CsvColumnMapping | null> {
+  const { headers, sample } = getCsvPreview(content);
+  const preset = detectCsvPreset(headers);
+  if (preset || headers.length === 0) {
+    return Promise.resolve(preset ?? { columns: {} });
+  }
+
+  return new Promise(resolve => {
+    new CsvColumnMappingModal(app, filename, headers, sample, resolve, () => resolve(null)).open();
+  });
+}
+
 /**
  * Move VCF file from vault to watch folder
+ * The decoded content is written, so the watch folder only holds UTF-8 files
  */
 async function moveVcfToWatchFolder(
   app: App,
   file: TFile,
+  content: string,
   watchFolder: string
 ): Promise<void> {
   try {
-    // Read file content
-    const content = await app.vault.read(file);
-    
     // Ensure watch folder exists
     if (!fs.existsSync(watchFolder)) {
       fs.mkdirSync(watchFolder, { recursive: true });
@@ -0,0 +1,141 @@
+/**
+ * Export Writer
+ *
+ * Shared by the export commands: reads the contacts to export, registers the
+ * "all contacts" and "current folder" commands of a format, and writes the
+ * export file into the vault.
+ */
+
+import { App, Notice, Plugin, TFile, TFolder, normalizePath } from 'obsidian';
+import { ContactsPluginSettings } from '../settings';
+import { ContactManager, ContactCacheEntry } from '../../models/contactManager';
+import { parseFrontmatter } from '../../models/contactNote/frontmatter';
+
+/**
+ * An export format with its commands
+ */
+export interface ExportFormat {
+  /** Command id suffix, e.g. csv */
+  id: string;
+  /** Format name in command names and notices, e.g. CSV */
+  name: string;
+  /** Write the contacts to the export file */
+  exportContacts: (app: App, entries: ContactCacheEntry[], settings: ContactsPluginSettings) => Promise<TFile>;
+}
+
+/**
+ * Register the export commands of a format
+ *
+ * "Export contacts to <format>" exports every contact; "Export contacts in current folder to <format>"
+ * exports the contacts in the folder of the active contact note, including subfolders.
+ *
+ * @param plugin Plugin to register the commands with
+ * @param contactManager Contact cache
+ * @param settings Plugin settings
+ * @param format Export format
+ */
+export function registerExportCommands(
+  plugin: Plugin,
+  contactManager: ContactManager,
+  settings: ContactsPluginSettings,
+  format: ExportFormat
+): void {
+  const app = plugin.app;
+
+  plugin.addCommand({
+    id: `export-contacts-${format.id}`,
+    name: `Export contacts to ${format.name}`,
+    callback: () => {
+      exportAndReport(app, contactManager.getAllContacts(), settings, format);
+    }
+  });
+
+  plugin.addCommand({
+    id: `export-folder-contacts-${format.id}`,
+    name: `Export contacts in current folder to ${format.name}`,
+    checkCallback: (checking: boolean) => {
+      const file = app.workspace.getActiveFile();
+      if (!file || !contactManager.isContactFile(file)) {
+        return false;
+      }
+
+      if (!checking) {
+        const folder = file.parent?.path ?? '';
+        const entries = contactManager.getAllContacts()
+          .filter(entry => folder === '' || folder === '/' || entry.path.startsWith(`${folder}/`));
+        exportAndReport(app, entries, settings, format);
+      }
+      return true;
+    }
+  });
+}
+
+/**
+ * Read the frontmatter of contacts, sorted by name
+ *
+ * @param app Obsidian App instance
+ * @param entries Cache entries of the contacts
+ * @returns Frontmatter of the contact notes that exist
+ */
+export async function readContactFrontmatter(
+  app: App,
+  entries: ContactCacheEntry[]
+): Promise<Record<string, any>[]> {
+  const contacts: Record<string, any>[] = [];
+  const sorted = [...entries].sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of sorted) {
+    const file = app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) {
+      continue;
+    }
+    const { frontmatter } = parseFrontmatter(await app.vault.cachedRead(file));
+    contacts.push(frontmatter);
+  }
+  return contacts;
+}
+
+/**
+ * Write an export file, overwriting an existing one
+ * Missing parent folders are created.
+ *
+ * @param app Obsidian App instance
+ * @param filePath Vault path of the file
+ * @param content File content
+ * @returns The export file
+ */
+export async function writeExportFile(app: App, filePath: string, content: string): Promise<TFile> {
+  const path = normalizePath(filePath);
+  const existing = app.vault.getAbstractFileByPath(path);
+  if (existing instanceof TFile) {
+    await app.vault.modify(existing, content);
+    return existing;
+  }
+
+  const parts = path.split('/').slice(0, -1);
+  for (let i = 1; i <= parts.length; i++) {
+    const folder = parts.slice(0, i).join('/');
+    if (!(app.vault.getAbstractFileByPath(folder) instanceof TFolder)) {
+      await app.vault.createFolder(folder);
+    }
+  }
+  return app.vault.create(path, content);
+}
+
+/**
+ * Export contacts and report the outcome with a notice
+ */
+async function exportAndReport(
+  app: App,
+  entries: ContactCacheEntry[],
+  settings: ContactsPluginSettings,
+  format: ExportFormat
+): Promise<void> {
+  try {
+    const file = await format.exportContacts(app, entries, settings);
+    new Notice(`Exported ${entries.length} contact(s) to ${file.path}`);
+  } catch (error) {
+    console.error(`Error exporting contacts to ${format.name}:`, error);
+    new Notice(`Error exporting contacts to ${format.name}: ${error.message}`);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Group Export Service
+ *
+ * Writes a group contact (KIND:group) and the contacts it lists as MEMBER
+ * to a VCF file in the vault.
+ */
+
+import { App, Notice, Plugin, TFile, normalizePath } from 'obsidian';
+import { ContactsPluginSettings } from '../settings';
+import { ContactManager, ContactCacheEntry } from '../../models/contactManager';
+import { parseFrontmatter } from '../../models/contactNote/frontmatter';
+import { parseKind, parseMemberFrontmatter } from '../../models/contactNote/members';
+import { writeExportFile } from './exportWriter';
+
+/**
+ * Register the "Export group to VCF" command
+ * The command is available when the active note is a group contact.
+ *
+ * @param plugin Plugin to register the command with
+ * @param contactManager Contact cache
+ * @param settings Plugin settings
+ */
+export function registerGroupExportCommands(
+  plugin: Plugin,
+  contactManager: ContactManager,
+  settings: ContactsPluginSettings
+): void {
+  const app = plugin.app;
+
+  plugin.addCommand({
+    id: 'export-group-vcf',
+    name: 'Export group to VCF',
+    checkCallback: (checking: boolean) => {
+      const file = app.workspace.getActiveFile();
+      const entry = file ? contactManager.getContactByPath(file.path) : undefined;
+      const frontmatter = file ? app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+      if (!entry || !frontmatter || parseKind(frontmatter) !== 'group') {
+        return false;
+      }
+
+      if (!checking) {
+        exportAndReport(app, contactManager, entry, settings);
+      }
+      return true;
+    }
+  });
+}
+
+/**
+ * Write a group contact and its members to a VCF file named after the group
+ * Members that are not in the contact cache are left out
+ *
+ * @param app Obsidian App instance
+ * @param contactManager Contact cache, used to resolve members and generate the vCards
+ * @param group Cache entry of the group contact
+ * @param settings Plugin settings
+ * @returns The export file and the number of members written
+ */
+export async function exportGroupToVcf(
+  app: App,
+  contactManager: ContactManager,
+  group: ContactCacheEntry,
+  settings: ContactsPluginSettings
+): Promise<{ file: TFile; members: number }> {
+  const file = contactManager.getContactFile(group.uid);
+  if (!file) {
+    throw new Error(`${group.path} not found`);
+  }
+
+  const { frontmatter } = parseFrontmatter(await app.vault.cachedRead(file));
+  const uids = [group.uid];
+  for (const member of parseMemberFrontmatter(frontmatter)) {
+    const entry = contactManager.resolveReference(member.reference);
+    if (entry && !uids.includes(entry.uid)) {
+      uids.push(entry.uid);
+    }
+  }
+
+  const vcards: string[] = [];
+  for (const uid of uids) {
+    const vcard = await contactManager.generateContactVcf(uid);
+    if (vcard) {
+      vcards.push(`${vcard}\r\n`);
+    }
+  }
+
+  const folder = normalizePath(settings.vcfExportFolder || 'Contact exports');
+  const exportFile = await writeExportFile(app, `${folder}/${file.basename}.vcf`, vcards.join(''));
+  return { file: exportFile, members: vcards.length - 1 };
+}
+
+/**
+ * Export a group and report the outcome with a notice
+ */
+async function exportAndReport(
+  app: App,
+  contactManager: ContactManager,
+  group: ContactCacheEntry,
+  settings: ContactsPluginSettings
+): Promise<void> {
+  try {
+    const { file, members } = await exportGroupToVcf(app, contactManager, group, settings);
+    new Notice(`Exported ${group.name} with ${members} member(s) to ${file.path}`);
+  } catch (error) {
+    console.error('Error exporting group to VCF:', error);
+    new Notice(`Error exporting group: ${error.message}`);
+  }
+}
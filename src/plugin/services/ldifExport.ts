@@ -0,0 +1,57 @@
+/**
+ * LDIF Export Service
+ *
+ * Writes the contacts in the contact cache to an LDIF file in the vault,
+ * for import into Thunderbird or an LDAP directory.
+ */
+
+import { App, Plugin, TFile } from 'obsidian';
+import { ContactsPluginSettings } from '../settings';
+import { ContactManager, ContactCacheEntry } from '../../models/contactManager';
+import { resolveAttachments } from '../../models/contactManager/attachments';
+import { generateLdif } from '../../models/vcardFile';
+import { registerExportCommands, readContactFrontmatter, writeExportFile } from './exportWriter';
+
+/**
+ * Register the LDIF export commands
+ *
+ * "Export contacts to LDIF" exports every contact; "Export contacts in current folder to LDIF"
+ * exports the contacts in the folder of the active contact note, including subfolders.
+ * LDIF files are imported with the "Import contacts from file" command.
+ *
+ * @param plugin Plugin to register the commands with
+ * @param contactManager Contact cache
+ * @param settings Plugin settings
+ */
+export function registerLdifExportCommands(
+  plugin: Plugin,
+  contactManager: ContactManager,
+  settings: ContactsPluginSettings
+): void {
+  registerExportCommands(plugin, contactManager, settings, {
+    id: 'ldif',
+    name: 'LDIF',
+    exportContacts: exportContactsToLdif
+  });
+}
+
+/**
+ * Write contacts to the LDIF export file
+ *
+ * @param app Obsidian App instance
+ * @param entries Cache entries of the contacts to export
+ * @param settings Plugin settings
+ * @returns The export file
+ */
+export async function exportContactsToLdif(
+  app: App,
+  entries: ContactCacheEntry[],
+  settings: ContactsPluginSettings
+): Promise<TFile> {
+  // jpegPhoto needs the photo itself, not a link to it
+  const inline: ContactsPluginSettings = { ...settings, vcardAttachmentExport: 'inline' };
+  const contacts = await Promise.all(
+    (await readContactFrontmatter(app, entries)).map(contact => resolveAttachments(app, contact, inline))
+  );
+  return writeExportFile(app, settings.ldifExportFile || 'contacts.ldif', generateLdif(contacts));
+}
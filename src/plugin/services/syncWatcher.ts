@@ -7,13 +7,20 @@
 
 import { App, TFile, TFolder, Notice } from 'obsidian';
 import { ContactsPluginSettings } from '../settings';
+import { VcardFile, decodeVcfBytes, fingerprintContacts, formatVcfDiagnostic } from '../../models/vcardFile';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/**
+ * A change in the watch folder
+ * 'touched' means the file was written but its contacts did not change
+ */
 export interface FileChange {
   path: string;
-  type: 'created' | 'modified' | 'deleted';
+  type: 'created' | 'modified' | 'touched' | 'deleted';
   timestamp: number;
+  /** Content fingerprint of the file's contacts; empty if the file has invalid cards */
+  fingerprint?: string;
 }
 
 export class SyncWatcher {
@@ -22,6 +29,8 @@ export class SyncWatcher {
   private pollingInterval: number;
   private intervalId?: NodeJS.Timeout;
   private lastChecked: Map<string, number>; // file path -> mtime timestamp
+  private fingerprints: Map<string, string>; // file path -> content fingerprint
+  private uids: Map<string, string[]>; // file path -> UIDs of its contacts
   private isRunning: boolean;
   private onChangeCallback?: (changes: FileChange[]) => Promise<void>;
 
@@ -30,6 +39,8 @@ export class SyncWatcher {
     this.settings = settings;
     this.pollingInterval = Math.max(settings.vcardWatchPollingInterval * 1000, 10000); // Minimum 10 seconds
     this.lastChecked = new Map();
+    this.fingerprints = new Map();
+    this.uids = new Map();
     this.isRunning = false;
   }
 
@@ -89,18 +100,24 @@ export class SyncWatcher {
         
         if (lastMtime === undefined) {
           // New file
+          const fingerprint = this.fingerprintFile(file.path);
           changes.push({
             path: file.path,
             type: 'created',
-            timestamp: file.mtime
+            timestamp: file.mtime,
+            fingerprint
           });
+          this.fingerprints.set(file.path, fingerprint);
         } else if (file.mtime > lastMtime) {
-          // Modified file
+          // Modified file, or only touched if its contacts are the same
+          const fingerprint = this.fingerprintFile(file.path);
           changes.push({
             path: file.path,
-            type: 'modified',
-            timestamp: file.mtime
+            type: fingerprint && fingerprint === this.fingerprints.get(file.path) ? 'touched' : 'modified',
+            timestamp: file.mtime,
+            fingerprint
           });
+          this.fingerprints.set(file.path, fingerprint);
         }
 
         this.lastChecked.set(file.path, file.mtime);
@@ -115,6 +132,8 @@ export class SyncWatcher {
             timestamp: Date.now()
           });
           this.lastChecked.delete(filePath);
+          this.fingerprints.delete(filePath);
+          this.uids.delete(filePath);
         }
       }
 
@@ -130,6 +149,79 @@ export class SyncWatcher {
     }
   }
 
+  /**
+   * Read and parse a VCF file from the watch folder
+   * The encoding is detected from the bytes and converted to UTF-8.
+   * Invalid cards are skipped and reported; the valid ones are returned
+   */
+  readVcfFile(filePath: string): VcardFile {
+    const decoded = decodeVcfBytes(fs.readFileSync(filePath));
+    const vcardFile = VcardFile.fromString(decoded.content, path.basename(filePath), {
+      preserveUnknownProperties: this.settings.vcardPreserveUnknownProperties
+    });
+    vcardFile.diagnostics.unshift(...decoded.diagnostics);
+
+    const errors = vcardFile.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    if (vcardFile.diagnostics.length > 0) {
+      console.warn(`Problems parsing ${filePath}:\n${vcardFile.diagnostics.map(formatVcfDiagnostic).join('\n')}`);
+    }
+    if (errors.length > 0) {
+      new Notice(`Skipped ${errors.length} invalid card(s) in ${path.basename(filePath)} (see console)`);
+    }
+
+    return vcardFile;
+  }
+
+  /**
+   * Write a VCF file in the watch folder
+   * The file is recorded as seen, so the next poll does not report the plugin's own write
+   * @param filePath Path of the VCF file
+   * @param content vCard content
+   */
+  writeVcfFile(filePath: string, content: string): void {
+    fs.writeFileSync(filePath, content, 'utf8');
+    this.lastChecked.set(filePath, fs.statSync(filePath).mtimeMs);
+    this.fingerprints.set(filePath, this.fingerprintFile(filePath));
+  }
+
+  /**
+   * Find the watch folder file that holds a contact
+   * @param uid Contact UID
+   * @returns Path of the file, or undefined if no tracked file holds the contact
+   */
+  findFileByUID(uid: string): string | undefined {
+    for (const [filePath, uids] of this.uids) {
+      if (uids.includes(uid)) {
+        return filePath;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Compute the content fingerprint of a VCF file
+   * Reordering the cards or rewriting them with the same data does not change it.
+   * The UIDs of the file's contacts are recorded for findFileByUID
+   * @param filePath Path of the VCF file
+   * @returns Fingerprint, or an empty string if the file cannot be read or has invalid cards
+   */
+  private fingerprintFile(filePath: string): string {
+    try {
+      const decoded = decodeVcfBytes(fs.readFileSync(filePath));
+      const vcardFile = VcardFile.fromString(decoded.content, path.basename(filePath), {
+        preserveUnknownProperties: this.settings.vcardPreserveUnknownProperties
+      });
+      this.uids.set(filePath, vcardFile.contacts.map(contact => contact.UID));
+      if (vcardFile.diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+        return '';
+      }
+      return fingerprintContacts(vcardFile.contacts);
+    } catch (error) {
+      this.uids.delete(filePath);
+      return '';
+    }
+  }
+
   /**
    * Scan watch folder for VCF files
    */
@@ -158,6 +250,7 @@ export class SyncWatcher {
 
           if (isInitial) {
             this.lastChecked.set(filePath, stats.mtimeMs);
+            this.fingerprints.set(filePath, this.fingerprintFile(filePath));
           }
         }
       }
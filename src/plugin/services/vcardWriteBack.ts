@@ -0,0 +1,107 @@
+/**
+ * vCard Write Back Service
+ *
+ * Writes contact notes back to the VCF files of the watch folder, in the
+ * vCard version chosen as write-back version.
+ */
+
+import { Notice, Plugin } from 'obsidian';
+import * as path from 'path';
+import { ContactsPluginSettings } from '../settings';
+import { ContactManager, ContactCacheEntry } from '../../models/contactManager';
+import { generateVcfContact } from '../../models/vcardFile';
+import { SyncWatcher } from './syncWatcher';
+
+/**
+ * Register the "Write contact back to VCF file" command
+ * The command is available when write back is enabled and the active note is a contact.
+ *
+ * @param plugin Plugin to register the command with
+ * @param contactManager Contact cache
+ * @param syncWatcher Watcher of the watch folder
+ * @param settings Plugin settings
+ */
+export function registerWriteBackCommands(
+  plugin: Plugin,
+  contactManager: ContactManager,
+  syncWatcher: SyncWatcher,
+  settings: ContactsPluginSettings
+): void {
+  const app = plugin.app;
+
+  plugin.addCommand({
+    id: 'write-contact-to-vcf',
+    name: 'Write contact back to VCF file',
+    checkCallback: (checking: boolean) => {
+      const file = app.workspace.getActiveFile();
+      const entry = file ? contactManager.getContactByPath(file.path) : undefined;
+      if (!entry || !settings.vcardWriteBackEnabled || !settings.vcardWatchFolder) {
+        return false;
+      }
+
+      if (!checking) {
+        writeBackAndReport(contactManager, syncWatcher, entry, settings);
+      }
+      return true;
+    }
+  });
+}
+
+/**
+ * Write a contact to the watch folder file that holds it
+ * Other contacts in the same file are rewritten in the write-back version as well.
+ * A contact that is in no file gets a file named after its note.
+ *
+ * @param contactManager Contact cache, used to generate the vCard
+ * @param syncWatcher Watcher of the watch folder, used to find and write the file
+ * @param contact Cache entry of the contact
+ * @param settings Plugin settings
+ * @returns Path of the written file
+ */
+export async function writeContactBack(
+  contactManager: ContactManager,
+  syncWatcher: SyncWatcher,
+  contact: ContactCacheEntry,
+  settings: ContactsPluginSettings
+): Promise<string> {
+  const vcard = await contactManager.generateContactVcf(contact.uid);
+  if (!vcard) {
+    throw new Error(`${contact.path} not found`);
+  }
+
+  const existing = syncWatcher.findFileByUID(contact.uid);
+  if (!existing) {
+    const filePath = path.join(settings.vcardWatchFolder, `${path.basename(contact.path, '.md')}.vcf`);
+    syncWatcher.writeVcfFile(filePath, `${vcard}\r\n`);
+    return filePath;
+  }
+
+  // Rewriting a file with cards that do not parse would drop them
+  const vcardFile = syncWatcher.readVcfFile(existing);
+  if (vcardFile.diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+    throw new Error(`${path.basename(existing)} has invalid cards`);
+  }
+  const vcards = vcardFile.contacts.map(data =>
+    data.UID === contact.uid ? vcard : generateVcfContact(data, { version: settings.vcardWriteBackVersion })
+  );
+  syncWatcher.writeVcfFile(existing, vcards.map(card => `${card}\r\n`).join(''));
+  return existing;
+}
+
+/**
+ * Write a contact back and report the outcome with a notice
+ */
+async function writeBackAndReport(
+  contactManager: ContactManager,
+  syncWatcher: SyncWatcher,
+  contact: ContactCacheEntry,
+  settings: ContactsPluginSettings
+): Promise<void> {
+  try {
+    const filePath = await writeContactBack(contactManager, syncWatcher, contact, settings);
+    new Notice(`Wrote ${contact.name} to ${path.basename(filePath)}`);
+  } catch (error) {
+    console.error('Error writing contact back to VCF:', error);
+    new Notice(`Error writing contact back: ${error.message}`);
+  }
+}
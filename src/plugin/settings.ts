@@ -1,6 +1,6 @@
 import { App, PluginSettingTab, Setting, Notice, Modal } from "obsidian";
 import { setSettings } from "src/plugin/context/sharedSettingsContext";
-import { CuratorSettingProperties } from "src/models/curatorManager/CuratorSettingProperties";
+import { CuratorSetting } from "src/models/curatorManager/types";
 import { curatorService } from "src/models/curatorManager/curatorManager";
 import ContactsPlugin from "src/main";
 import { FolderSuggest } from "src/plugin/ui/FolderSuggest";
@@ -11,17 +11,35 @@ import "src/curatorRegistration";
 export interface ContactsPluginSettings {
   contactsFolder: string;
   defaultHashtag: string;
+  displayLanguage: string;
   vcardStorageMethod: 'single-vcard' | 'vcard-folder';
   vcardFilename: string;
   vcardWatchFolder: string;
   vcardWatchEnabled: boolean;
   vcardWatchPollingInterval: number;
   vcardWriteBackEnabled: boolean;
+  vcardWriteBackVersion: '4.0' | '3.0';
+  vcardPreserveUnknownProperties: boolean;
+  vcardExtractAttachments: boolean;
+  vcardAttachmentsFolder: string;
+  vcardAttachmentExport: 'inline' | 'uri';
+  vcardAttachmentBaseUri: string;
   vcardCustomizeIgnoreList: boolean;
   vcardIgnoreFilenames: string[];
   vcardIgnoreUIDs: string[];
+  // CSV Export Settings
+  csvExportFile: string;
+  csvExportColumns: string[];
+  csvExportPreferredTypes: string[];
+  // LDIF Export Settings
+  ldifExportFile: string;
+  // VCF Export Settings
+  vcfExportFolder: string;
   // Contact Section Sync Settings
   contactSectionSyncConfirmation: boolean;
+  // VCF Sync Settings
+  vcardWatchAutoApply: boolean;
+  vcardMergeByRev: boolean;
   // Remove Invalid Fields Settings
   removeInvalidFieldsConfirmation: boolean;
   // vdirsyncer Configuration Settings
@@ -30,7 +48,7 @@ export interface ContactsPluginSettings {
   [key: string]: string|boolean|number|string[];
 }
 
-const curatorSetting = curatorService.settings();
+const curatorSetting: CuratorSetting[] = curatorService.settings();
 const curatorSettingDefaults = curatorSetting.reduce((acc:Record<string, string|boolean>, setting) => {
   acc[setting.settingPropertyName] = setting.settingDefaultValue;
   return acc;
@@ -39,17 +57,33 @@ const curatorSettingDefaults = curatorSetting.reduce((acc:Record<string, string|
 export const DEFAULT_SETTINGS: ContactsPluginSettings = {
   contactsFolder: "",
   defaultHashtag: "",
+  displayLanguage: "",
   vcardStorageMethod: 'vcard-folder',
   vcardFilename: "contacts.vcf",
   vcardWatchFolder: "",
   vcardWatchEnabled: false,
   vcardWatchPollingInterval: 30,
   vcardWriteBackEnabled: false,
+  vcardWriteBackVersion: '4.0',
+  vcardPreserveUnknownProperties: true,
+  vcardExtractAttachments: true,
+  vcardAttachmentsFolder: "Attachments",
+  vcardAttachmentExport: 'inline',
+  vcardAttachmentBaseUri: "",
   vcardCustomizeIgnoreList: false,
   vcardIgnoreFilenames: [],
   vcardIgnoreUIDs: [],
+  // CSV Export Defaults
+  csvExportFile: "contacts.csv",
+  csvExportColumns: ['FN', 'N.GIVENNAMES', 'N.FAMILYNAMES', 'EMAIL', 'TEL', 'ORG', 'TITLE', 'ADR.STREETADDRESS', 'ADR.LOCALITY', 'ADR.POSTALCODE', 'ADR.COUNTRYNAME'],
+  csvExportPreferredTypes: ['PREF', 'WORK', 'CELL', 'HOME'],
+  ldifExportFile: "contacts.ldif",
+  vcfExportFolder: "Contact exports",
   // Contact Section Sync Default
   contactSectionSyncConfirmation: true,
+  // VCF Sync Default
+  vcardWatchAutoApply: false,
+  vcardMergeByRev: true,
   // Remove Invalid Fields Default
   removeInvalidFieldsConfirmation: true,
   // vdirsyncer Configuration Defaults
@@ -124,6 +158,18 @@ export class ContactsSettingTab extends PluginSettingTab {
           setSettings(this.plugin.settings);
         }));
 
+    new Setting(containerEl)
+      .setName("Display language")
+      .setDesc("Language tag (e.g. en or ja) of the name used for note titles when a contact's name is written in several languages. If empty, the first name in the vcard is used.")
+      .addText(text => text
+        .setPlaceholder("en")
+        .setValue(this.plugin.settings.displayLanguage)
+        .onChange(async (value) => {
+          this.plugin.settings.displayLanguage = value.trim();
+          await this.plugin.saveSettings();
+          setSettings(this.plugin.settings);
+        }));
+
     // Sync Contacts Section
     const vcardStorageTitle = containerEl.createEl("h3", { text: "Sync Contacts" });
     vcardStorageTitle.style.marginTop = "2em";
@@ -161,10 +207,23 @@ export class ContactsSettingTab extends PluginSettingTab {
             }
           }));
 
+      // vcard Auto Apply Toggle (only shown when folder watching is enabled)
+      new Setting(containerEl)
+        .setName("Apply vcard changes automatically")
+        .setDesc("When enabled, created and changed vcard files in the watch folder create contact notes and update the notes with the same UID. Notes are never matched by name.")
+        .addToggle(toggle =>
+          toggle
+            .setValue(this.plugin.settings.vcardWatchAutoApply)
+            .onChange(async (value) => {
+              this.plugin.settings.vcardWatchAutoApply = value;
+              await this.plugin.saveSettings();
+              setSettings(this.plugin.settings);
+            }));
+
       // vcard Write Back Toggle (only shown when folder watching is enabled)
       new Setting(containerEl)
         .setName("Enable vcard Write Back")
-        .setDesc("When enabled, the vcard Sync Post Processor will write changes from Obsidian contacts back to vcard files. Disable to prevent any modifications to vcard files.")
+        .setDesc("When enabled, the \"Write contact back to VCF file\" command writes a contact note to the vcard file in the watch folder that holds it. Disable to prevent any modifications to vcard files.")
         .addToggle(toggle =>
           toggle
             .setValue(this.plugin.settings.vcardWriteBackEnabled)
@@ -175,6 +234,97 @@ export class ContactsSettingTab extends PluginSettingTab {
               // Refresh the display to show/hide dependent settings
               this.display();
             }));
+
+      // vcard Write Back Version (only shown when write back is enabled)
+      if (this.plugin.settings.vcardWriteBackEnabled) {
+        new Setting(containerEl)
+          .setName("vcard Write Back Version")
+          .setDesc("vCard version written to vcard files. Choose 3.0 for devices and CardDAV servers that do not support 4.0; GENDER, KIND, ANNIVERSARY and RELATED are then written as X- properties.")
+          .addDropdown(dropdown => {
+            dropdown
+              .addOption('4.0', 'vCard 4.0')
+              .addOption('3.0', 'vCard 3.0')
+              .setValue(this.plugin.settings.vcardWriteBackVersion)
+              .onChange(async (value: '4.0' | '3.0') => {
+                this.plugin.settings.vcardWriteBackVersion = value;
+                await this.plugin.saveSettings();
+                setSettings(this.plugin.settings);
+              });
+          });
+      }
+    }
+
+    // Preserve properties the plugin does not understand
+    new Setting(containerEl)
+      .setName("Preserve unknown vcard properties")
+      .setDesc("Keep grouped (item1.EMAIL), X- and other unrecognized properties verbatim in PRESERVED frontmatter fields so they are written back unchanged. Protects data owned by other contact apps.")
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.vcardPreserveUnknownProperties)
+          .onChange(async (value) => {
+            this.plugin.settings.vcardPreserveUnknownProperties = value;
+            await this.plugin.saveSettings();
+            setSettings(this.plugin.settings);
+          }));
+
+    // Embedded PHOTO, LOGO and SOUND data
+    new Setting(containerEl)
+      .setName("Extract vcard attachments")
+      .setDesc("Write embedded PHOTO, LOGO and SOUND data of imported contacts to the attachments folder. The frontmatter links to the file and the note embeds it.")
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.vcardExtractAttachments)
+          .onChange(async (value) => {
+            this.plugin.settings.vcardExtractAttachments = value;
+            await this.plugin.saveSettings();
+            setSettings(this.plugin.settings);
+            // Refresh the display to show/hide dependent settings
+            this.display();
+          }));
+
+    if (this.plugin.settings.vcardExtractAttachments) {
+      new Setting(containerEl)
+        .setName("Attachments folder")
+        .setDesc("Folder for extracted PHOTO, LOGO and SOUND files.")
+        .addText(text => text
+          .setPlaceholder("Attachments")
+          .setValue(this.plugin.settings.vcardAttachmentsFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.vcardAttachmentsFolder = value;
+            await this.plugin.saveSettings();
+            setSettings(this.plugin.settings);
+          }));
+    }
+
+    new Setting(containerEl)
+      .setName("Attachments in vcard files")
+      .setDesc("How linked PHOTO, LOGO and SOUND files are written to vcard files. Inline embeds the file as a data URI; URI writes a link below the base URI.")
+      .addDropdown(dropdown => {
+        dropdown
+          .addOption('inline', 'Inline')
+          .addOption('uri', 'URI')
+          .setValue(this.plugin.settings.vcardAttachmentExport)
+          .onChange(async (value: 'inline' | 'uri') => {
+            this.plugin.settings.vcardAttachmentExport = value;
+            await this.plugin.saveSettings();
+            setSettings(this.plugin.settings);
+            // Refresh the display to show/hide dependent settings
+            this.display();
+          });
+      });
+
+    if (this.plugin.settings.vcardAttachmentExport === 'uri') {
+      new Setting(containerEl)
+        .setName("Attachment base URI")
+        .setDesc("URI the vault is published under, e.g. https://example.com/vault/. Attachments are written inline while this is empty.")
+        .addText(text => text
+          .setPlaceholder("https://example.com/vault/")
+          .setValue(this.plugin.settings.vcardAttachmentBaseUri)
+          .onChange(async (value) => {
+            this.plugin.settings.vcardAttachmentBaseUri = value.trim();
+            await this.plugin.saveSettings();
+            setSettings(this.plugin.settings);
+          }));
     }
 
     // vcard Storage Method
@@ -326,6 +476,95 @@ export class ContactsSettingTab extends PluginSettingTab {
         });
     }
 
+    // CSV Export Section
+    const csvExportTitle = containerEl.createEl("h3", { text: "CSV Export" });
+    csvExportTitle.style.marginTop = "2em";
+
+    new Setting(containerEl)
+      .setName("CSV Export File")
+      .setDesc("Vault path of the file written by the \"Export contacts to CSV\" commands. An existing file is overwritten.")
+      .addText(text => text
+        .setPlaceholder("contacts.csv")
+        .setValue(this.plugin.settings.csvExportFile)
+        .onChange(async (value) => {
+          this.plugin.settings.csvExportFile = value.trim();
+          await this.plugin.saveSettings();
+          setSettings(this.plugin.settings);
+        }));
+
+    const csvColumnsDesc = document.createDocumentFragment();
+    csvColumnsDesc.append(
+      "Frontmatter keys to export, one column per line (for example EMAIL.WORK, TEL.CELL or ADR.HOME.LOCALITY).",
+      csvColumnsDesc.createEl("br"),
+      "A key without a type exports the contact's preferred variant."
+    );
+
+    new Setting(containerEl)
+      .setName("CSV Export Columns")
+      .setDesc(csvColumnsDesc)
+      .addTextArea(textArea => {
+        textArea
+          .setPlaceholder("FN\nEMAIL\nTEL.CELL")
+          .setValue(this.plugin.settings.csvExportColumns.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.csvExportColumns = value
+              .split('\n')
+              .map(line => line.trim())
+              .filter(line => line.length > 0);
+            await this.plugin.saveSettings();
+            setSettings(this.plugin.settings);
+          });
+        textArea.inputEl.rows = 6;
+        textArea.inputEl.style.width = "100%";
+      });
+
+    new Setting(containerEl)
+      .setName("CSV Preferred Types")
+      .setDesc("When a contact has several variants of a column, the first type listed here wins (comma-separated). PREF stands for the variant marked as preferred.")
+      .addText(text => text
+        .setPlaceholder("PREF, WORK, CELL, HOME")
+        .setValue(this.plugin.settings.csvExportPreferredTypes.join(', '))
+        .onChange(async (value) => {
+          this.plugin.settings.csvExportPreferredTypes = value
+            .split(',')
+            .map(type => type.trim().toUpperCase())
+            .filter(type => type.length > 0);
+          await this.plugin.saveSettings();
+          setSettings(this.plugin.settings);
+        }));
+
+    // LDIF Export Section
+    const ldifExportTitle = containerEl.createEl("h3", { text: "LDIF Export" });
+    ldifExportTitle.style.marginTop = "2em";
+
+    new Setting(containerEl)
+      .setName("LDIF Export File")
+      .setDesc("Vault path of the file written by the \"Export contacts to LDIF\" command, for Thunderbird and LDAP address books. An existing file is overwritten. Dropping an .ldif file into the vault imports it.")
+      .addText(text => text
+        .setPlaceholder("contacts.ldif")
+        .setValue(this.plugin.settings.ldifExportFile)
+        .onChange(async (value) => {
+          this.plugin.settings.ldifExportFile = value.trim();
+          await this.plugin.saveSettings();
+          setSettings(this.plugin.settings);
+        }));
+
+    // VCF Export Section
+    const vcfExportTitle = containerEl.createEl("h3", { text: "VCF Export" });
+    vcfExportTitle.style.marginTop = "2em";
+
+    new Setting(containerEl)
+      .setName("VCF Export Folder")
+      .setDesc("Vault folder for the files written by the \"Export group to VCF\" command. A group is written with its members to a file named after the group note. VCF files in this folder are not imported.")
+      .addText(text => text
+        .setPlaceholder("Contact exports")
+        .setValue(this.plugin.settings.vcfExportFolder)
+        .onChange(async (value) => {
+          this.plugin.settings.vcfExportFolder = value.trim();
+          await this.plugin.saveSettings();
+          setSettings(this.plugin.settings);
+        }));
+
     // External Integrations Section
     const externalIntegrationsTitle = containerEl.createEl("h3", { text: "External Integrations" });
     externalIntegrationsTitle.style.marginTop = "2em";
@@ -407,6 +646,24 @@ export class ContactsSettingTab extends PluginSettingTab {
           });
       });
 
+    // Curator Processors Section
+    const curatorTitle = containerEl.createEl("h3", { text: "Curator Processors" });
+    curatorTitle.style.marginTop = "2em";
+
+    for (const setting of curatorSetting) {
+      new Setting(containerEl)
+        .setName(setting.name)
+        .setDesc(setting.description)
+        .addToggle(toggle =>
+          toggle
+            .setValue(this.plugin.settings[setting.settingPropertyName] !== false)
+            .onChange(async (value) => {
+              this.plugin.settings[setting.settingPropertyName] = value;
+              await this.plugin.saveSettings();
+              setSettings(this.plugin.settings);
+            }));
+    }
+
     // Data Quality Section
     const dataQualityTitle = containerEl.createEl("h3", { text: "Data Quality" });
     dataQualityTitle.style.marginTop = "2em";
@@ -414,7 +671,7 @@ export class ContactsSettingTab extends PluginSettingTab {
     // Contact Section Sync Confirmation
     new Setting(containerEl)
       .setName("Confirm before syncing Contact section to frontmatter")
-      .setDesc("When enabled, shows a preview of changes before syncing Contact section data to frontmatter.")
+      .setDesc("When enabled, shows a preview of changes before syncing Contact section data to frontmatter, and before a changed VCF file in the watch folder updates a contact note.")
       .addToggle(toggle =>
         toggle
           .setValue(this.plugin.settings.contactSectionSyncConfirmation)
@@ -424,6 +681,19 @@ export class ContactsSettingTab extends PluginSettingTab {
             setSettings(this.plugin.settings);
           }));
 
+    // VCF Sync Conflict Resolution
+    new Setting(containerEl)
+      .setName("Resolve sync conflicts by REV")
+      .setDesc("When a field changed both in the note and in its VCF file since the last sync, keep the value of the side with the newer REV timestamp. Conflicts without REV timestamps, or all conflicts when disabled, are shown for resolution.")
+      .addToggle(toggle =>
+        toggle
+          .setValue(this.plugin.settings.vcardMergeByRev)
+          .onChange(async (value) => {
+            this.plugin.settings.vcardMergeByRev = value;
+            await this.plugin.saveSettings();
+            setSettings(this.plugin.settings);
+          }));
+
     // Remove Invalid Fields Confirmation
     new Setting(containerEl)
       .setName("Confirm before removing invalid fields")
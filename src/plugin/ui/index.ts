@@ -1,3 +1,7 @@
 export { FolderSuggest } from './FolderSuggest';
 export { VdirsyncerConfigModal } from './modals/vdirsyncerConfigModal';
 export type { VdirsyncerConfigSettings } from './modals/vdirsyncerConfigModal';
+export { CsvColumnMappingModal } from './modals/csvColumnMappingModal';
+export { ContactDiffModal } from './modals/contactDiffModal';
+export { MergeConflictModal } from './modals/mergeConflictModal';
+export { ContactFileSuggestModal } from './modals/contactFileSuggestModal';
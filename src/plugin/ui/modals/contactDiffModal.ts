@@ -0,0 +1,102 @@
+import { App, Modal } from 'obsidian';
+import { ContactDiff, ContactFieldChange } from '../../../models/vcardFile';
+
+/**
+ * Modal previewing the changes an incoming vCard makes to a contact note
+ *
+ * Lists the added, changed and removed fields with their old and new values,
+ * and applies the update only when confirmed
+ */
+export class ContactDiffModal extends Modal {
+    private submitted: boolean = false;
+
+    constructor(
+        app: App,
+        private contactName: string,
+        private diff: ContactDiff,
+        private onConfirm: () => void,
+        private onCancel?: () => void
+    ) {
+        super(app);
+    }
+
+    /**
+     * Called when modal opens
+     */
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: `Update ${this.contactName}` });
+        contentEl.createEl('p', {
+            text: 'The incoming vCard changes these fields of the contact note.'
+        });
+
+        const table = contentEl.createEl('table', { cls: 'contact-diff' });
+        const header = table.createEl('tr');
+        for (const title of ['', 'Field', 'Note', 'Incoming']) {
+            header.createEl('th', { text: title });
+        }
+        this.renderRows(table, this.diff.added, '+');
+        this.renderRows(table, this.diff.changed, '~');
+        this.renderRows(table, this.diff.removed, '−');
+
+        // Button container
+        const buttonContainer = contentEl.createEl('div', {
+            cls: 'modal-button-container'
+        });
+        buttonContainer.style.marginTop = '1em';
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.justifyContent = 'flex-end';
+        buttonContainer.style.gap = '0.5em';
+
+        // Apply button
+        const applyButton = buttonContainer.createEl('button', {
+            text: 'Apply',
+            cls: 'mod-cta'
+        });
+        applyButton.addEventListener('click', () => {
+            this.submitted = true;
+            this.close();
+            this.onConfirm();
+        });
+
+        // Cancel button
+        const cancelButton = buttonContainer.createEl('button', {
+            text: 'Keep note'
+        });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+    }
+
+    /**
+     * Add one table row per change
+     * @param table - Diff table
+     * @param changes - Changes of one kind
+     * @param marker - Symbol of the kind of change
+     */
+    private renderRows(table: HTMLElement, changes: ContactFieldChange[], marker: string): void {
+        for (const change of changes) {
+            const row = table.createEl('tr');
+            row.createEl('td', { text: marker });
+            row.createEl('td', {
+                text: change.previousKey ? `${change.previousKey} → ${change.key}` : change.key
+            });
+            row.createEl('td', { text: change.before ?? '' });
+            row.createEl('td', { text: change.after ?? '' });
+        }
+    }
+
+    /**
+     * Called when modal closes
+     */
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (!this.submitted && this.onCancel) {
+            this.onCancel();
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+/**
+ * Modal for picking a vault file to import contacts from
+ *
+ * Lists the files with one of the given extensions by path
+ */
+export class ContactFileSuggestModal extends FuzzySuggestModal<TFile> {
+    constructor(
+        app: App,
+        private extensions: Set<string>,
+        private onChoose: (file: TFile) => void
+    ) {
+        super(app);
+        this.setPlaceholder('Choose a VCF, jCard, xCard, CSV or LDIF file');
+    }
+
+    /**
+     * Get the files that can be imported
+     * @returns Vault files with an import extension
+     */
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(file => this.extensions.has(file.extension));
+    }
+
+    /**
+     * Get the text a file is matched by
+     * @param file - Vault file
+     * @returns File path
+     */
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    /**
+     * Handle file selection
+     * @param file - Selected file
+     */
+    onChooseItem(file: TFile): void {
+        this.onChoose(file);
+    }
+}
@@ -0,0 +1,149 @@
+import { App, Modal, Setting } from 'obsidian';
+import {
+    CsvColumnMapping,
+    CSV_PRESETS,
+    CSV_FIELD_OPTIONS,
+    suggestCsvMapping
+} from '../../../models/vcardFile';
+
+/**
+ * Modal for mapping the columns of a CSV file to contact fields
+ *
+ * Shows one dropdown per CSV column, prefilled with a preset
+ * or with suggestions based on the column names
+ */
+export class CsvColumnMappingModal extends Modal {
+    private mapping: CsvColumnMapping;
+    private submitted: boolean = false;
+
+    constructor(
+        app: App,
+        private filename: string,
+        private headers: string[],
+        private sampleRow: string[],
+        private onSubmit: (mapping: CsvColumnMapping) => void,
+        private onCancel?: () => void
+    ) {
+        super(app);
+        this.mapping = suggestCsvMapping(headers);
+    }
+
+    /**
+     * Called when modal opens
+     */
+    onOpen(): void {
+        this.render();
+    }
+
+    /**
+     * Build the mapping UI
+     */
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: `Import ${this.filename}` });
+        contentEl.createEl('p', {
+            text: 'Choose the contact field for each column. Ignored columns are not imported.'
+        });
+
+        // Preset selection
+        new Setting(contentEl)
+            .setName('Preset')
+            .setDesc('Column layout of a known CSV export')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Custom');
+                for (const preset of CSV_PRESETS) {
+                    dropdown.addOption(preset.id, preset.name);
+                }
+                dropdown
+                    .setValue('')
+                    .onChange((value: string) => {
+                        const preset = CSV_PRESETS.find(candidate => candidate.id === value);
+                        this.mapping = preset
+                            ? { columns: { ...preset.columns }, typeColumns: { ...preset.typeColumns } }
+                            : suggestCsvMapping(this.headers);
+                        this.renderColumns(columnsEl);
+                    });
+            });
+
+        const columnsEl = contentEl.createEl('div', { cls: 'csv-column-mapping' });
+        this.renderColumns(columnsEl);
+
+        // Button container
+        const buttonContainer = contentEl.createEl('div', {
+            cls: 'modal-button-container'
+        });
+        buttonContainer.style.marginTop = '1em';
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.justifyContent = 'flex-end';
+        buttonContainer.style.gap = '0.5em';
+
+        // Import button
+        const importButton = buttonContainer.createEl('button', {
+            text: 'Import',
+            cls: 'mod-cta'
+        });
+        importButton.addEventListener('click', () => {
+            this.submitted = true;
+            this.close();
+            this.onSubmit(this.mapping);
+        });
+
+        // Cancel button
+        const cancelButton = buttonContainer.createEl('button', {
+            text: 'Cancel'
+        });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+    }
+
+    /**
+     * Build one field dropdown per CSV column
+     * @param containerEl - Container of the column settings
+     */
+    private renderColumns(containerEl: HTMLElement): void {
+        containerEl.empty();
+
+        this.headers.forEach((header, index) => {
+            const sample = this.sampleRow[index] ?? '';
+            const current = this.mapping.columns[header] ?? '';
+
+            new Setting(containerEl)
+                .setName(header)
+                .setDesc(sample ? `e.g. ${sample}` : '')
+                .addDropdown(dropdown => {
+                    dropdown.addOption('', 'Ignore');
+                    for (const option of CSV_FIELD_OPTIONS) {
+                        dropdown.addOption(option.key, option.label);
+                    }
+                    // Preset keys such as EMAIL.0 are not in the option list
+                    if (current && !CSV_FIELD_OPTIONS.some(option => option.key === current)) {
+                        dropdown.addOption(current, current);
+                    }
+                    dropdown
+                        .setValue(current)
+                        .onChange((value: string) => {
+                            if (value) {
+                                this.mapping.columns[header] = value;
+                            } else {
+                                delete this.mapping.columns[header];
+                            }
+                        });
+                });
+        });
+    }
+
+    /**
+     * Called when modal closes
+     */
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (!this.submitted && this.onCancel) {
+            this.onCancel();
+        }
+    }
+}
@@ -0,0 +1,94 @@
+import { App, Modal, Setting } from 'obsidian';
+import { MergeConflict } from '../../../models/vcardFile';
+
+/**
+ * Modal for resolving fields changed both in a contact note and in its VCF file
+ *
+ * Shows one dropdown per conflicting field with the note's and the incoming value,
+ * prefilled with the note's value. Skipping drops the whole incoming change of the contact
+ */
+export class MergeConflictModal extends Modal {
+    private choices: Record<string, 'ours' | 'theirs'> = {};
+    private submitted: boolean = false;
+
+    constructor(
+        app: App,
+        private contactName: string,
+        private conflicts: MergeConflict[],
+        private onResolve: (choices: Record<string, 'ours' | 'theirs'>) => void,
+        private onCancel?: () => void
+    ) {
+        super(app);
+        for (const conflict of conflicts) {
+            this.choices[conflict.key] = 'ours';
+        }
+    }
+
+    /**
+     * Called when modal opens
+     */
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h2', { text: `Sync conflict: ${this.contactName}` });
+        contentEl.createEl('p', {
+            text: 'These fields changed both in the note and in the VCF file since the last sync. Choose the value to keep, or skip the incoming change to leave the note as it is.'
+        });
+
+        for (const conflict of this.conflicts) {
+            new Setting(contentEl)
+                .setName(conflict.key)
+                .setDesc(`Last synced: ${conflict.base ?? '(none)'}`)
+                .addDropdown(dropdown => {
+                    dropdown.addOption('ours', `Note: ${conflict.ours ?? '(removed)'}`);
+                    dropdown.addOption('theirs', `VCF: ${conflict.theirs ?? '(removed)'}`);
+                    dropdown
+                        .setValue(this.choices[conflict.key])
+                        .onChange((value: string) => {
+                            this.choices[conflict.key] = value === 'theirs' ? 'theirs' : 'ours';
+                        });
+                });
+        }
+
+        // Button container
+        const buttonContainer = contentEl.createEl('div', {
+            cls: 'modal-button-container'
+        });
+        buttonContainer.style.marginTop = '1em';
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.justifyContent = 'flex-end';
+        buttonContainer.style.gap = '0.5em';
+
+        // Resolve button
+        const resolveButton = buttonContainer.createEl('button', {
+            text: 'Apply',
+            cls: 'mod-cta'
+        });
+        resolveButton.addEventListener('click', () => {
+            this.submitted = true;
+            this.close();
+            this.onResolve(this.choices);
+        });
+
+        // Cancel button; the watcher does not report the file again until it changes
+        const cancelButton = buttonContainer.createEl('button', {
+            text: 'Skip incoming change'
+        });
+        cancelButton.addEventListener('click', () => {
+            this.close();
+        });
+    }
+
+    /**
+     * Called when modal closes
+     */
+    onClose(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        if (!this.submitted && this.onCancel) {
+            this.onCancel();
+        }
+    }
+}
@@ -0,0 +1,118 @@
+/**
+ * In-memory vault for service and contact manager tests
+ *
+ * Text files, binary files and folders live in maps; the vault methods the plugin
+ * uses read and write them, and registered event handlers can be called directly.
+ */
+
+import { TFile, TFolder } from 'obsidian';
+
+/**
+ * Create a file object for a vault path
+ * @param path - Vault path
+ * @param mtime - Modification time
+ */
+export function createFile(path: string, mtime: number = 1000): TFile {
+  const file = new TFile();
+  file.path = path;
+  file.name = path.split('/').pop() || path;
+  file.basename = file.name.replace(/\.[^.]*$/, '');
+  file.extension = path.split('.').pop() || '';
+  (file as any).stat = { mtime, ctime: mtime, size: 0 };
+  return file;
+}
+
+/**
+ * Create a mock app with a vault holding the given text files
+ * @param files - Content by vault path
+ */
+export function createMockApp(files: Record<string, string> = {}) {
+  const contents = new Map(Object.entries(files));
+  const fileObjects = new Map<string, TFile>();
+  for (const path of contents.keys()) {
+    fileObjects.set(path, createFile(path));
+  }
+  const handlers = new Map<string, (...args: any[]) => any>();
+  const frontmatters = new Map<string, any>();
+  const binaries = new Map<string, ArrayBuffer>();
+  const folders = new Set<string>();
+
+  const folderObject = (path: string) => {
+    const folder = new TFolder();
+    folder.path = path;
+    folder.name = path.split('/').pop() || path;
+    return folder;
+  };
+
+  const app = {
+    vault: {
+      getMarkdownFiles: () => Array.from(fileObjects.values()).filter(f => f.extension === 'md'),
+      cachedRead: async (file: TFile) => contents.get(file.path) || '',
+      read: async (file: TFile) => contents.get(file.path) || '',
+      create: async (path: string, data: string) => {
+        contents.set(path, data);
+        fileObjects.set(path, createFile(path));
+        return fileObjects.get(path)!;
+      },
+      modify: async (file: TFile, data: string) => {
+        contents.set(file.path, data);
+      },
+      createBinary: async (path: string, data: ArrayBuffer) => {
+        binaries.set(path, data);
+        fileObjects.set(path, createFile(path));
+        return fileObjects.get(path)!;
+      },
+      modifyBinary: async (file: TFile, data: ArrayBuffer) => {
+        binaries.set(file.path, data);
+      },
+      readBinary: async (file: TFile) => binaries.get(file.path)!,
+      createFolder: async (path: string) => {
+        if (folders.has(path) || fileObjects.has(path)) {
+          throw new Error('Folder already exists.');
+        }
+        folders.add(path);
+      },
+      process: async (file: TFile, fn: (data: string) => string) => {
+        contents.set(file.path, fn(contents.get(file.path) || ''));
+      },
+      getAbstractFileByPath: (path: string) => fileObjects.get(path) || (folders.has(path) ? folderObject(path) : null),
+      on: (name: string, callback: (...args: any[]) => any) => {
+        handlers.set(name, callback);
+        return { name };
+      },
+      offref: (ref: { name: string }) => {
+        handlers.delete(ref.name);
+      }
+    },
+    fileManager: {
+      processFrontMatter: async (file: TFile, fn: (frontmatter: any) => void) => {
+        const frontmatter: any = {};
+        fn(frontmatter);
+        frontmatters.set(file.path, frontmatter);
+      }
+    }
+  } as any;
+
+  return {
+    app,
+    handlers,
+    contents,
+    fileObjects,
+    frontmatters,
+    binaries,
+    folders,
+    setFile(path: string, content: string) {
+      contents.set(path, content);
+      if (!fileObjects.has(path)) {
+        fileObjects.set(path, createFile(path));
+      }
+      return fileObjects.get(path)!;
+    },
+    deleteFile(path: string) {
+      contents.delete(path);
+      const file = fileObjects.get(path);
+      fileObjects.delete(path);
+      return file!;
+    }
+  };
+}
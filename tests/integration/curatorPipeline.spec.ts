@@ -12,6 +12,8 @@ import { relatedFrontMatterProcessor } from '../../src/curators/relatedFrontMatt
 import { relatedListProcessor } from '../../src/curators/relatedListProcessor';
 import { genderInferenceProcessor } from '../../src/curators/genderInferenceProcessor';
 import { genderRenderProcessor } from '../../src/curators/genderRenderProcessor';
+import { memberFrontMatterProcessor } from '../../src/curators/memberFrontMatterProcessor';
+import { membersListProcessor } from '../../src/curators/membersListProcessor';
 import { parseFrontmatter } from '../../src/models/contactNote/frontmatter';
 
 // Simple interface for contact data matching processor expectations
@@ -143,6 +145,28 @@ Test content`;
             const shouldRun = await uidProcessor.shouldRun(contact);
             expect(shouldRun).toBe(false); // UID exists, no need to run
         });
+
+        it('should clear RELATED frontmatter when the last Related entry is removed', async () => {
+            const contact: ContactNote = {
+                path: '/test.md',
+                frontmatter: { UID: 'uid-1', FN: 'Test User', 'RELATED.FRIEND': 'urn:uuid:friend-1' },
+                content: '# Test User\n\n## Related\n\n'
+            };
+
+            expect(await relatedFrontMatterProcessor.shouldRun(contact)).toBe(true);
+            await relatedFrontMatterProcessor.process(contact);
+            expect(contact.frontmatter?.['RELATED.FRIEND']).toBeUndefined();
+        });
+
+        it('should keep RELATED frontmatter of notes without a Related section', async () => {
+            const contact: ContactNote = {
+                path: '/test.md',
+                frontmatter: { UID: 'uid-1', FN: 'Test User', 'RELATED.FRIEND': 'urn:uuid:friend-1' },
+                content: '# Test User\n'
+            };
+
+            expect(await relatedFrontMatterProcessor.shouldRun(contact)).toBe(false);
+        });
     });
 
     describe('Complete Pipeline Execution', () => {
@@ -200,6 +224,90 @@ Some body content here.
         });
     });
 
+    describe('Group Members', () => {
+        const entries = [
+            { uid: 'urn:uuid:03a0e51f-d1aa-4385-8a53-e29025acd8af', path: 'Contacts/Alice.md', name: 'Alice Smith', mtime: 0 },
+            { uid: 'bob-1', path: 'Contacts/Bob.md', name: 'Bob', mtime: 0 }
+        ];
+        const contactManager: any = {
+            getContactByName: (name: string) => entries.find(entry => entry.path === `Contacts/${name}.md`),
+            resolveReference: (reference: string) => entries.find(entry =>
+                entry.uid === reference || `uid:${entry.uid}` === reference)
+        };
+
+        it('should sync the Members section to MEMBER fields', async () => {
+            const content = `---
+UID: group-1
+FN: Book Club
+---
+
+## Members
+
+- [[Alice]]
+- [[Bob]]
+- [[Carol]]`;
+
+            const { frontmatter } = parseFrontmatter(content);
+            const contact: ContactNote = { path: '/Book Club.md', frontmatter, content };
+
+            expect(await memberFrontMatterProcessor.shouldRun(contact as any)).toBe(true);
+            await memberFrontMatterProcessor.process(contact as any, {}, contactManager);
+
+            expect(contact.frontmatter?.KIND).toBe('group');
+            expect(contact.frontmatter?.['MEMBER.0']).toBe('urn:uuid:03a0e51f-d1aa-4385-8a53-e29025acd8af');
+            expect(contact.frontmatter?.['MEMBER.1']).toBe('uid:bob-1');
+            expect(contact.frontmatter?.['MEMBER.2']).toBe('name:Carol');
+        });
+
+        it('should render MEMBER fields as a Members section', async () => {
+            const content = `---
+UID: group-1
+FN: Book Club
+KIND: group
+MEMBER.0: urn:uuid:03a0e51f-d1aa-4385-8a53-e29025acd8af
+MEMBER.1: mailto:dave@example.com
+---
+
+# Book Club`;
+
+            const { frontmatter } = parseFrontmatter(content);
+            const contact: ContactNote = { path: '/Book Club.md', frontmatter, content };
+
+            expect(await memberFrontMatterProcessor.shouldRun(contact as any)).toBe(false);
+            expect(await membersListProcessor.shouldRun(contact as any)).toBe(true);
+            await membersListProcessor.process(contact as any, {}, contactManager);
+
+            expect(contact.content).toContain('## Members\n\n- [[Alice]]\n- mailto:dave@example.com');
+        });
+
+        it('should remove MEMBER fields when the last member is removed from the section', async () => {
+            const content = `---
+UID: group-1
+FN: Book Club
+KIND: group
+MEMBER.0: urn:uuid:03a0e51f-d1aa-4385-8a53-e29025acd8af
+---
+
+## Members
+`;
+
+            const { frontmatter } = parseFrontmatter(content);
+            const contact: ContactNote = { path: '/Book Club.md', frontmatter, content };
+
+            expect(await memberFrontMatterProcessor.shouldRun(contact as any)).toBe(true);
+            await memberFrontMatterProcessor.process(contact as any, {}, contactManager);
+
+            expect(contact.frontmatter?.['MEMBER.0']).toBeUndefined();
+            expect(contact.frontmatter?.KIND).toBe('group');
+            expect(await membersListProcessor.shouldRun(contact as any)).toBe(false);
+            expect(contact.content).not.toContain('[[Alice]]');
+        });
+
+        it('should depend on the Members section sync', () => {
+            expect(membersListProcessor.dependencies).toContain('memberFrontMatterProcessor');
+        });
+    });
+
     describe('Error Handling', () => {
         it('should handle contacts with minimal frontmatter', async () => {
             const content = `---
@@ -0,0 +1,435 @@
+/**
+ * Unit tests for ContactManager class
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ContactManager } from '../../../../src/models/contactManager';
+import { parseFrontmatter } from '../../../../src/models/contactNote/frontmatter';
+import { createMockApp } from '../../../fixtures/mockVault';
+
+const contact = (uid: string, fn: string) => `---\nUID: ${uid}\nFN: ${fn}\n---\n\n# ${fn}\n`;
+
+describe('ContactManager', () => {
+  let mock: ReturnType<typeof createMockApp>;
+  let manager: ContactManager;
+
+  beforeEach(async () => {
+    mock = createMockApp({
+      'Contacts/Alice.md': contact('uid-alice', 'Alice'),
+      'Contacts/Bob.md': contact('uid-bob', 'Bob'),
+      'Contacts/NoUID.md': '---\nFN: Nobody\n---\n',
+      'Notes/Other.md': contact('uid-other', 'Other')
+    });
+    manager = new ContactManager(mock.app, { contactsFolder: 'Contacts' } as any);
+    await manager.initializeCache();
+  });
+
+  describe('initializeCache', () => {
+    it('should index contacts with a UID in the contacts folder', () => {
+      expect(manager.getContactCount()).toBe(2);
+      expect(manager.getContactByUID('uid-alice')?.path).toBe('Contacts/Alice.md');
+      expect(manager.getContactByPath('Contacts/Bob.md')?.name).toBe('Bob');
+    });
+
+    it('should ignore files outside the contacts folder', () => {
+      expect(manager.getContactByUID('uid-other')).toBeUndefined();
+    });
+
+    it('should scan the whole vault when no folder is configured', async () => {
+      const rootManager = new ContactManager(mock.app, { contactsFolder: '' } as any);
+      await rootManager.initializeCache();
+      expect(rootManager.getContactCount()).toBe(3);
+    });
+
+    it('should keep the first file when UIDs are duplicated', async () => {
+      mock.setFile('Contacts/Alice Copy.md', contact('uid-alice', 'Alice Copy'));
+      await manager.initializeCache();
+      expect(manager.getContactCount()).toBe(2);
+      expect(manager.getContactByUID('uid-alice')?.path).toBe('Contacts/Alice.md');
+    });
+  });
+
+  describe('fingerprints', () => {
+    it('should store a fingerprint with each cache entry', () => {
+      expect(manager.getContactByUID('uid-alice')?.fingerprint).toMatch(/^[0-9a-f]{14}$/);
+      expect(manager.getContactByUID('uid-alice')?.fingerprint).not.toBe(manager.getContactByUID('uid-bob')?.fingerprint);
+    });
+
+    it('should tell changed contact data from data that was only rewritten', () => {
+      expect(manager.hasContactChanged('uid-alice', { FN: 'Alice', UID: 'uid-alice', REV: '20250101T000000Z' })).toBe(false);
+      expect(manager.hasContactChanged('uid-alice', { UID: 'uid-alice', FN: 'Alice Smith' })).toBe(true);
+      expect(manager.hasContactChanged('uid-unknown', { UID: 'uid-unknown', FN: 'Unknown' })).toBe(true);
+    });
+  });
+
+  describe('event listeners', () => {
+    beforeEach(() => {
+      manager.setupEventListeners();
+    });
+
+    it('should register and clean up vault listeners', () => {
+      expect(Array.from(mock.handlers.keys())).toEqual(['create', 'modify', 'delete', 'rename']);
+      manager.cleanupEventListeners();
+      expect(mock.handlers.size).toBe(0);
+    });
+
+    it('should add created contacts', async () => {
+      const file = mock.setFile('Contacts/Carol.md', contact('uid-carol', 'Carol'));
+      await mock.handlers.get('create')!(file);
+      expect(manager.getContactByUID('uid-carol')?.name).toBe('Carol');
+    });
+
+    it('should update modified contacts', async () => {
+      const file = mock.setFile('Contacts/Alice.md', contact('uid-alice', 'Alice Smith'));
+      await mock.handlers.get('modify')!(file);
+      expect(manager.getContactByUID('uid-alice')?.name).toBe('Alice Smith');
+    });
+
+    it('should drop the old entry when a UID changes', async () => {
+      const file = mock.setFile('Contacts/Alice.md', contact('uid-alice-2', 'Alice'));
+      await mock.handlers.get('modify')!(file);
+      expect(manager.getContactByUID('uid-alice')).toBeUndefined();
+      expect(manager.getContactByPath('Contacts/Alice.md')?.uid).toBe('uid-alice-2');
+    });
+
+    it('should remove deleted contacts', async () => {
+      const file = mock.deleteFile('Contacts/Bob.md');
+      await mock.handlers.get('delete')!(file);
+      expect(manager.getContactByUID('uid-bob')).toBeUndefined();
+      expect(manager.getContactCount()).toBe(1);
+    });
+
+    it('should re-index renamed contacts', async () => {
+      mock.deleteFile('Contacts/Bob.md');
+      const file = mock.setFile('Contacts/Robert.md', contact('uid-bob', 'Bob'));
+      await mock.handlers.get('rename')!(file, 'Contacts/Bob.md');
+      expect(manager.getContactByUID('uid-bob')?.path).toBe('Contacts/Robert.md');
+      expect(manager.getContactByPath('Contacts/Bob.md')).toBeUndefined();
+    });
+
+    it('should remove contacts moved out of the contacts folder', async () => {
+      mock.deleteFile('Contacts/Bob.md');
+      const file = mock.setFile('Archive/Bob.md', contact('uid-bob', 'Bob'));
+      await mock.handlers.get('rename')!(file, 'Contacts/Bob.md');
+      expect(manager.getContactByUID('uid-bob')).toBeUndefined();
+    });
+  });
+
+  describe('ensureContactDataConsistency', () => {
+    it('should rebuild the cache when a file disappeared', async () => {
+      mock.deleteFile('Contacts/Bob.md');
+      await manager.ensureContactDataConsistency();
+      expect(manager.getContactByUID('uid-bob')).toBeUndefined();
+      expect(manager.getContactByUID('uid-alice')).toBeDefined();
+    });
+  });
+
+  describe('references', () => {
+    it('should find contacts by note name or FN', async () => {
+      mock.setFile('Contacts/Robert.md', contact('uid-robert', 'Bob Jones'));
+      await manager.initializeCache();
+
+      expect(manager.getContactByName('alice')?.uid).toBe('uid-alice');
+      expect(manager.getContactByName('Contacts/Robert')?.uid).toBe('uid-robert');
+      expect(manager.getContactByName('Bob Jones')?.uid).toBe('uid-robert');
+      expect(manager.getContactByName('Bob')?.uid).toBe('uid-bob');
+      expect(manager.getContactByName('Nobody')).toBeUndefined();
+    });
+
+    it('should resolve member references', () => {
+      expect(manager.resolveReference('uid:uid-alice')?.path).toBe('Contacts/Alice.md');
+      expect(manager.resolveReference('urn:uuid:uid-bob')?.path).toBe('Contacts/Bob.md');
+      expect(manager.resolveReference('name:Bob')?.path).toBe('Contacts/Bob.md');
+      expect(manager.resolveReference('uid-alice')?.path).toBe('Contacts/Alice.md');
+      expect(manager.resolveReference('urn:uuid:missing')).toBeUndefined();
+    });
+  });
+
+  describe('importContacts', () => {
+    it('should create notes for new contacts in the contacts folder', async () => {
+      const result = await manager.importContacts(
+        [{ UID: 'uid-carol', FN: 'Carol', EMAIL: 'carol@example.com' }],
+        { createNotes: true, overwrite: false }
+      );
+
+      expect(result).toEqual({ created: 1, updated: 0, skipped: 0, errors: [] });
+      const { frontmatter } = parseFrontmatter(mock.contents.get('Contacts/Carol.md')!);
+      expect(frontmatter.UID).toBe('uid-carol');
+      expect(frontmatter.EMAIL).toBe('carol@example.com');
+    });
+
+    it('should name notes after the name in the display language', async () => {
+      manager = new ContactManager(mock.app, { contactsFolder: 'Contacts', displayLanguage: 'en' } as any);
+      await manager.initializeCache();
+
+      await manager.importContacts(
+        [{ UID: 'uid-taro', FN: '山田太郎', 'FN.@LANGUAGE': 'ja', 'FN:en': 'Taro Yamada' }],
+        { createNotes: true, overwrite: false }
+      );
+
+      const { frontmatter } = parseFrontmatter(mock.contents.get('Contacts/Taro Yamada.md')!);
+      expect(frontmatter.FN).toBe('山田太郎');
+      await manager.initializeCache();
+      expect(manager.getContactByUID('uid-taro')?.name).toBe('Taro Yamada');
+    });
+
+    it('should generate missing UIDs', async () => {
+      await manager.importContacts([{ FN: 'Dave' } as any], { createNotes: true, overwrite: false });
+      const { frontmatter } = parseFrontmatter(mock.contents.get('Contacts/Dave.md')!);
+      expect(frontmatter.UID).toMatch(/^urn:uuid:[0-9a-f-]{36}$/);
+    });
+
+    it('should skip contacts whose UID or name already exists', async () => {
+      const result = await manager.importContacts(
+        [
+          { UID: 'uid-alice', FN: 'Alice Again' },
+          { UID: 'uid-new', FN: 'bob' },
+          { UID: 'uid-erin', FN: 'Erin' },
+          { UID: 'uid-erin', FN: 'Erin Copy' },
+          { UID: 'uid-erin-2', FN: 'Erin' }
+        ],
+        { createNotes: true, overwrite: false }
+      );
+
+      expect(result).toEqual({ created: 1, updated: 0, skipped: 4, errors: [] });
+      expect(mock.contents.has('Contacts/Alice Again.md')).toBe(false);
+    });
+
+    it('should update existing contacts when overwriting', async () => {
+      const result = await manager.importContacts(
+        [{ UID: 'uid-bob', FN: 'Bob', EMAIL: 'bob@example.com' }],
+        { createNotes: true, overwrite: true }
+      );
+
+      expect(result.updated).toBe(1);
+      expect(mock.frontmatters.get('Contacts/Bob.md')).toEqual({ UID: 'uid-bob', FN: 'Bob', EMAIL: 'bob@example.com' });
+    });
+
+    it('should not overwrite a different contact with the same name', async () => {
+      const result = await manager.importContacts(
+        [{ UID: 'uid-other-bob', FN: 'Bob', EMAIL: 'other@example.com' }],
+        { createNotes: true, overwrite: true }
+      );
+
+      expect(result).toEqual({ created: 0, updated: 0, skipped: 1, errors: [] });
+      expect(mock.frontmatters.has('Contacts/Bob.md')).toBe(false);
+    });
+
+    it('should not rewrite notes whose data is unchanged', async () => {
+      const result = await manager.importContacts(
+        [{ UID: 'uid-bob', FN: 'Bob', REV: '20250101T000000Z' }],
+        { createNotes: true, overwrite: true }
+      );
+
+      expect(result).toEqual({ created: 0, updated: 0, skipped: 1, errors: [] });
+      expect(mock.frontmatters.has('Contacts/Bob.md')).toBe(false);
+    });
+
+    it('should ask before overwriting a note with changed data', async () => {
+      const asked: any[] = [];
+      const result = await manager.importContacts(
+        [
+          { UID: 'uid-alice', FN: 'Alice' },
+          { UID: 'uid-bob', FN: 'Bob', EMAIL: 'bob@example.com' }
+        ],
+        {
+          createNotes: true,
+          overwrite: true,
+          confirmUpdate: async (name, diff) => {
+            asked.push([name, diff]);
+            return false;
+          }
+        }
+      );
+
+      expect(asked).toEqual([['Bob', { added: [{ property: 'EMAIL', key: 'EMAIL', after: 'bob@example.com' }], removed: [], changed: [] }]]);
+      expect(result).toEqual({ created: 0, updated: 0, skipped: 2, errors: [] });
+      expect(mock.frontmatters.has('Contacts/Bob.md')).toBe(false);
+    });
+
+    it('should merge with the last synced data when overwriting', async () => {
+      mock.setFile('Contacts/Bob.md', '---\nUID: uid-bob\nFN: Bob\nTEL: "+1 555 0199"\n---\n\n# Bob\n');
+      const bases = new Map<string, Record<string, any>>([['uid-bob', { UID: 'uid-bob', FN: 'Bob', TEL: '+1 555 0100' }]]);
+      const syncBase = { get: (uid: string) => bases.get(uid), set: (uid: string, data: Record<string, any>) => bases.set(uid, data) };
+
+      const result = await manager.importContacts(
+        [{ UID: 'uid-bob', FN: 'Bob', TEL: '+1 555 0100', EMAIL: 'bob@example.com' }],
+        { createNotes: true, overwrite: true, syncBase }
+      );
+
+      expect(result.updated).toBe(1);
+      expect(mock.frontmatters.get('Contacts/Bob.md')).toEqual({ UID: 'uid-bob', FN: 'Bob', TEL: '+1 555 0199', EMAIL: 'bob@example.com' });
+      expect(bases.get('uid-bob')?.EMAIL).toBe('bob@example.com');
+    });
+
+    it('should keep the sync base when the update is declined', async () => {
+      const base = { UID: 'uid-bob', FN: 'Bob' };
+      const bases = new Map<string, Record<string, any>>([['uid-bob', base]]);
+      const syncBase = { get: (uid: string) => bases.get(uid), set: (uid: string, data: Record<string, any>) => bases.set(uid, data) };
+
+      const result = await manager.importContacts(
+        [{ UID: 'uid-bob', FN: 'Bob', EMAIL: 'bob@example.com' }],
+        { createNotes: true, overwrite: true, syncBase, confirmUpdate: async () => false }
+      );
+
+      expect(result.skipped).toBe(1);
+      expect(bases.get('uid-bob')).toBe(base);
+    });
+
+    it('should keep the note and its sync base when conflicts are not resolved', async () => {
+      const base = { UID: 'uid-bob', FN: 'Robert' };
+      const bases = new Map<string, Record<string, any>>([['uid-bob', base]]);
+      const syncBase = { get: (uid: string) => bases.get(uid), set: (uid: string, data: Record<string, any>) => bases.set(uid, data) };
+      const conflicts: any[] = [];
+
+      const result = await manager.importContacts(
+        [{ UID: 'uid-bob', FN: 'Bobby' }, { UID: 'uid-dave', FN: 'Dave' }],
+        {
+          createNotes: true,
+          overwrite: true,
+          syncBase,
+          resolveConflicts: async (name, found) => {
+            conflicts.push(...found.map(conflict => [name, conflict.key, conflict.ours, conflict.theirs]));
+            return null;
+          }
+        }
+      );
+
+      expect(conflicts).toEqual([['Bob', 'FN', 'Bob', 'Bobby']]);
+      expect(result).toEqual({ created: 1, updated: 0, skipped: 1, errors: [] });
+      expect(mock.frontmatters.has('Contacts/Bob.md')).toBe(false);
+      expect(bases.get('uid-bob')).toBe(base);
+      expect(bases.get('uid-dave')).toEqual({ UID: 'uid-dave', FN: 'Dave' });
+    });
+
+    it('should use the target folder', async () => {
+      await manager.importContacts([{ UID: 'uid-carol', FN: 'Carol' }], {
+        createNotes: true,
+        targetFolder: 'Imported/',
+        overwrite: false
+      });
+      expect(mock.contents.has('Imported/Carol.md')).toBe(true);
+    });
+
+    it('should only count contacts when not creating notes', async () => {
+      const result = await manager.importContacts([{ UID: 'uid-carol', FN: 'Carol' }], {
+        createNotes: false,
+        overwrite: false
+      });
+      expect(result.created).toBe(1);
+      expect(mock.contents.has('Contacts/Carol.md')).toBe(false);
+    });
+
+    it('should report contacts that cannot be created', async () => {
+      const result = await manager.importContacts([{ UID: 'uid-x', FN: '///' }], { createNotes: true, overwrite: false });
+      expect(result.created).toBe(0);
+      expect(result.errors[0]).toContain('invalid name');
+    });
+  });
+
+  describe('attachments', () => {
+    const photo = 'data:image/jpeg;base64,/9j/4A==';
+    const settings = {
+      contactsFolder: 'Contacts',
+      vcardExtractAttachments: true,
+      vcardAttachmentsFolder: 'Attachments',
+      vcardAttachmentExport: 'inline',
+      vcardAttachmentBaseUri: '',
+      vcardWriteBackVersion: '4.0'
+    } as any;
+
+    beforeEach(async () => {
+      manager = new ContactManager(mock.app, settings);
+      await manager.initializeCache();
+    });
+
+    it('should write embedded photos to the attachments folder and link them', async () => {
+      await manager.importContacts(
+        [{ UID: 'uid-carol', FN: 'Carol', PHOTO: photo, 'LOGO.WORK': 'https://example.com/logo.png' }],
+        { createNotes: true, overwrite: false }
+      );
+
+      expect(mock.folders.has('Attachments')).toBe(true);
+      expect(Array.from(new Uint8Array(mock.binaries.get('Attachments/Carol-photo.jpg')!))).toEqual([0xff, 0xd8, 0xff, 0xe0]);
+      const { frontmatter, body } = parseFrontmatter(mock.contents.get('Contacts/Carol.md')!);
+      expect(frontmatter.PHOTO).toBe('[[Attachments/Carol-photo.jpg]]');
+      expect(frontmatter['LOGO.WORK']).toBe('https://example.com/logo.png');
+      expect(body).toContain('![[Attachments/Carol-photo.jpg]]');
+    });
+
+    it('should embed the attachment when overwriting an existing contact', async () => {
+      await manager.importContacts([{ UID: 'uid-bob', FN: 'Bob', PHOTO: photo }], { createNotes: true, overwrite: true });
+
+      expect(mock.binaries.has('Attachments/Bob-photo.jpg')).toBe(true);
+      expect(mock.contents.get('Contacts/Bob.md')).toContain('# Bob\n\n![[Attachments/Bob-photo.jpg]]\n');
+    });
+
+    it('should not write attachments of a declined update', async () => {
+      const result = await manager.importContacts([{ UID: 'uid-bob', FN: 'Bob', PHOTO: photo }], {
+        createNotes: true,
+        overwrite: true,
+        confirmUpdate: async () => false
+      });
+
+      expect(result.skipped).toBe(1);
+      expect(mock.binaries.size).toBe(0);
+      expect(mock.folders.size).toBe(0);
+    });
+
+    it('should not rewrite unchanged attachments', async () => {
+      await manager.importContacts([{ UID: 'uid-bob', FN: 'Bob', PHOTO: photo }], { createNotes: true, overwrite: true });
+      await manager.initializeCache();
+      const modifyBinary = vi.spyOn(mock.app.vault, 'modifyBinary');
+
+      const result = await manager.importContacts([{ UID: 'uid-bob', FN: 'Bob', PHOTO: photo }], { createNotes: true, overwrite: true });
+
+      expect(result.skipped).toBe(1);
+      expect(modifyBinary).not.toHaveBeenCalled();
+    });
+
+    it('should replace a changed attachment once the update is accepted', async () => {
+      await manager.importContacts([{ UID: 'uid-bob', FN: 'Bob', PHOTO: photo }], { createNotes: true, overwrite: true });
+      await manager.initializeCache();
+      const confirmUpdate = vi.fn(async () => true);
+
+      const result = await manager.importContacts(
+        [{ UID: 'uid-bob', FN: 'Bob', PHOTO: 'data:image/jpeg;base64,/9j/4QA=' }],
+        { createNotes: true, overwrite: true, confirmUpdate }
+      );
+
+      expect(result.updated).toBe(1);
+      expect(confirmUpdate).toHaveBeenCalled();
+      expect(Array.from(new Uint8Array(mock.binaries.get('Attachments/Bob-photo.jpg')!))).toEqual([0xff, 0xd8, 0xff, 0xe1, 0x00]);
+    });
+
+    it('should keep data URIs when extraction is disabled', async () => {
+      manager = new ContactManager(mock.app, { ...settings, vcardExtractAttachments: false });
+      await manager.importContacts([{ UID: 'uid-carol', FN: 'Carol', PHOTO: photo }], { createNotes: true, overwrite: false });
+
+      expect(mock.binaries.size).toBe(0);
+      expect(parseFrontmatter(mock.contents.get('Contacts/Carol.md')!).frontmatter.PHOTO).toBe(photo);
+    });
+
+    it('should inline linked attachments in the generated vCard', async () => {
+      await manager.importContacts([{ UID: 'uid-carol', FN: 'Carol', PHOTO: photo }], { createNotes: true, overwrite: false });
+      await manager.initializeCache();
+
+      const vcf = await manager.generateContactVcf('uid-carol');
+      expect(vcf).toContain(`PHOTO:${photo}`);
+      expect(await manager.generateContactVcf('uid-missing')).toBeNull();
+    });
+
+    it('should reference linked attachments by URI when configured', async () => {
+      manager = new ContactManager(mock.app, {
+        ...settings,
+        vcardAttachmentExport: 'uri',
+        vcardAttachmentBaseUri: 'https://example.com/vault'
+      });
+      await manager.importContacts([{ UID: 'uid-carol', FN: 'Carol', PHOTO: photo }], { createNotes: true, overwrite: false });
+      await manager.initializeCache();
+
+      const vcf = (await manager.generateContactVcf('uid-carol'))!.replace(/\r\n /g, '');
+      expect(vcf).toContain('PHOTO;MEDIATYPE=image/jpeg:https://example.com/vault/Attachments/Carol-photo.jpg');
+    });
+  });
+});
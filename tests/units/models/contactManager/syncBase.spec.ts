@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the sync base store
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SyncBaseStore } from '../../../../src/models/contactManager/syncBase';
+
+function createMockApp(files: Record<string, string> = {}) {
+  const contents = new Map(Object.entries(files));
+  const writes: string[] = [];
+  const app = {
+    vault: {
+      adapter: {
+        exists: async (path: string) => contents.has(path),
+        read: async (path: string) => contents.get(path)!,
+        write: async (path: string, data: string) => {
+          contents.set(path, data);
+          writes.push(path);
+        }
+      }
+    }
+  } as any;
+  return { app, contents, writes };
+}
+
+describe('SyncBaseStore', () => {
+  const path = '.obsidian/plugins/contacts/sync-base.json';
+  let mock: ReturnType<typeof createMockApp>;
+
+  beforeEach(() => {
+    mock = createMockApp({ [path]: JSON.stringify({ 'uid-alice': { UID: 'uid-alice', FN: 'Alice' } }) });
+  });
+
+  it('should load the stored data', async () => {
+    const store = new SyncBaseStore(mock.app, path);
+    await store.load();
+    expect(store.get('uid-alice')).toEqual({ UID: 'uid-alice', FN: 'Alice' });
+    expect(store.get('uid-bob')).toBeUndefined();
+  });
+
+  it('should start empty without a file or with an unreadable one', async () => {
+    const missing = new SyncBaseStore(createMockApp().app, path);
+    await missing.load();
+    expect(missing.get('uid-alice')).toBeUndefined();
+
+    const broken = new SyncBaseStore(createMockApp({ [path]: '{' }).app, path);
+    await broken.load();
+    expect(broken.get('uid-alice')).toBeUndefined();
+  });
+
+  it('should only write when data changed', async () => {
+    const store = new SyncBaseStore(mock.app, path);
+    await store.load();
+    await store.save();
+    expect(mock.writes).toEqual([]);
+
+    store.set('uid-bob', { UID: 'uid-bob', FN: 'Bob' });
+    await store.save();
+    await store.save();
+    expect(mock.writes).toEqual([path]);
+    expect(JSON.parse(mock.contents.get(path)!)['uid-bob']).toEqual({ UID: 'uid-bob', FN: 'Bob' });
+  });
+});
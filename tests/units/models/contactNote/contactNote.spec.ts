@@ -0,0 +1,248 @@
+/**
+ * Unit tests for ContactNote class
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TFile } from 'obsidian';
+import { ContactNote, formatREV } from '../../../../src/models/contactNote';
+import { parseFrontmatter, generateFrontmatter } from '../../../../src/models/contactNote/frontmatter';
+
+function createMockApp(initialFiles: Record<string, string>) {
+  const files = new Map(Object.entries(initialFiles));
+  const fileObject = (path: string) => {
+    const file = new TFile();
+    file.path = path;
+    file.name = path.split('/').pop()!;
+    file.basename = file.name.replace(/\.md$/, '');
+    file.extension = 'md';
+    return file;
+  };
+
+  const app = {
+    vault: {
+      read: async (file: TFile) => files.get(file.path)!,
+      process: async (file: TFile, fn: (data: string) => string) => {
+        const updated = fn(files.get(file.path)!);
+        files.set(file.path, updated);
+        return updated;
+      },
+      create: async (path: string, data: string) => {
+        files.set(path, data);
+        return fileObject(path);
+      },
+      getAbstractFileByPath: (path: string) => (files.has(path) ? fileObject(path) : null)
+    },
+    fileManager: {
+      processFrontMatter: async (file: TFile, fn: (frontmatter: any) => void) => {
+        const { frontmatter, body } = parseFrontmatter(files.get(file.path)!);
+        fn(frontmatter);
+        files.set(file.path, `---\n${generateFrontmatter(frontmatter)}---\n${body}`);
+      }
+    }
+  } as any;
+
+  return { app, files, fileObject };
+}
+
+const settings = { defaultHashtag: '#contact' } as any;
+
+describe('ContactNote', () => {
+  let mock: ReturnType<typeof createMockApp>;
+  let note: ContactNote;
+
+  beforeEach(async () => {
+    mock = createMockApp({
+      'Contacts/John.md': `---
+UID: urn:uuid:11111111-1111-4111-8111-111111111111
+FN: John Doe
+RELATED.friend: urn:uuid:22222222-2222-4222-8222-222222222222
+---
+
+# John Doe
+
+## Related
+
+- friend [[Jane]]
+`
+    });
+    note = await ContactNote.fromFile(mock.app, mock.fileObject('Contacts/John.md'), settings);
+  });
+
+  describe('fromFile', () => {
+    it('should load frontmatter and body', () => {
+      expect(note.path).toBe('Contacts/John.md');
+      expect(note.getUID()).toBe('urn:uuid:11111111-1111-4111-8111-111111111111');
+      expect(note.frontmatter.FN).toBe('John Doe');
+      expect(note.content).toContain('# John Doe');
+      expect(note.content).not.toContain('UID:');
+    });
+  });
+
+  describe('create', () => {
+    it('should create a note with a UID and the default hashtag', async () => {
+      const created = await ContactNote.create(mock.app, 'Jane Smith', 'Contacts', settings);
+
+      expect(created.path).toBe('Contacts/Jane Smith.md');
+      expect(created.getUID()).toMatch(/^urn:uuid:[0-9a-f-]{36}$/);
+      expect(mock.files.get('Contacts/Jane Smith.md')).toContain('FN: "Jane Smith"');
+      expect(mock.files.get('Contacts/Jane Smith.md')).toContain('#contact');
+    });
+
+    it('should refuse to overwrite an existing note', async () => {
+      await expect(ContactNote.create(mock.app, 'John', 'Contacts', settings)).rejects.toThrow('already exists');
+    });
+  });
+
+  describe('frontmatter operations', () => {
+    it('should persist single field updates', async () => {
+      await note.updateFrontmatterField('TITLE', 'Engineer');
+      expect(mock.files.get('Contacts/John.md')).toContain('TITLE: "Engineer"');
+
+      await note.updateFrontmatterField('TITLE', undefined);
+      expect(mock.files.get('Contacts/John.md')).not.toContain('TITLE');
+    });
+
+    it('should replace the whole frontmatter', async () => {
+      await note.setFrontmatter({ UID: 'uid-x', FN: 'Johnny' });
+      const { frontmatter } = parseFrontmatter(mock.files.get('Contacts/John.md')!);
+      expect(frontmatter).toEqual({ UID: 'uid-x', FN: 'Johnny' });
+    });
+
+    it('should keep an existing UID in ensureUID', async () => {
+      expect(await note.ensureUID()).toBe('urn:uuid:11111111-1111-4111-8111-111111111111');
+    });
+
+    it('should generate a missing UID in ensureUID', async () => {
+      delete note.frontmatter.UID;
+      const uid = await note.ensureUID();
+      expect(uid).toMatch(/^urn:uuid:/);
+      expect(mock.files.get('Contacts/John.md')).toContain(uid);
+    });
+  });
+
+  describe('relationship operations', () => {
+    it('should read relationships from frontmatter', () => {
+      const relationships = note.getRelationships();
+      expect(relationships).toHaveLength(1);
+      expect(relationships[0]).toMatchObject({
+        type: 'friend',
+        targetUID: '22222222-2222-4222-8222-222222222222',
+        namespace: 'urn:uuid'
+      });
+    });
+
+    it('should add relationships with genderless types', async () => {
+      await note.addRelationship('mother', '33333333-3333-4333-8333-333333333333');
+
+      expect(note.frontmatter['RELATED.PARENT']).toBe('urn:uuid:33333333-3333-4333-8333-333333333333');
+      expect(mock.files.get('Contacts/John.md')).toContain('RELATED.PARENT');
+    });
+
+    it('should not add duplicate relationships', async () => {
+      await note.addRelationship('friend', 'urn:uuid:22222222-2222-4222-8222-222222222222');
+      expect(note.getRelationships()).toHaveLength(1);
+    });
+
+    it('should remove relationships', async () => {
+      await note.removeRelationship('friend', '22222222-2222-4222-8222-222222222222');
+      expect(note.getRelationships()).toHaveLength(0);
+      expect(mock.files.get('Contacts/John.md')).not.toContain('RELATED.friend');
+    });
+  });
+
+  describe('section operations', () => {
+    it('should return the Related section', () => {
+      expect(note.getRelatedSection()).toBe('## Related\n\n- friend [[Jane]]');
+    });
+
+    it('should update the Contact section without touching frontmatter', async () => {
+      await note.updateContactSection({
+        emails: [{ type: 'work', value: 'john@work.com' }],
+        phones: [],
+        urls: [],
+        addresses: []
+      });
+
+      const file = mock.files.get('Contacts/John.md')!;
+      expect(file).toContain('## Contact\n\n- work john@work.com');
+      expect(file).toContain('FN: John Doe');
+      expect(note.getContactSection().emails[0].value).toBe('john@work.com');
+    });
+  });
+
+  describe('gender and revision', () => {
+    it('should set and get gender', async () => {
+      expect(note.getGender()).toBeUndefined();
+      await note.setGender('f');
+      expect(note.getGender()).toBe('F');
+      expect(note.frontmatter.GENDER).toBe('F');
+    });
+
+    it('should keep the GENDER.SEX key style', async () => {
+      note.frontmatter['GENDER.SEX'] = 'M';
+      await note.setGender('F');
+      expect(note.frontmatter['GENDER.SEX']).toBe('F');
+      expect(note.frontmatter.GENDER).toBeUndefined();
+    });
+
+    it('should update REV', async () => {
+      await note.updateREV();
+      expect(note.getREV()).toMatch(/^\d{8}T\d{6}Z$/);
+    });
+
+    it('should format REV timestamps', () => {
+      expect(formatREV(new Date('2025-01-25T10:30:00.123Z'))).toBe('20250125T103000Z');
+    });
+  });
+
+  describe('save', () => {
+    it('should persist working copy changes made by processors', async () => {
+      note.frontmatter.GENDER = 'M';
+      note.content = note.content.replace('friend [[Jane]]', 'colleague [[Jane]]');
+      await note.save();
+
+      const reloaded = await ContactNote.fromFile(mock.app, note.file, settings);
+      expect(reloaded.frontmatter.GENDER).toBe('M');
+      expect(reloaded.content).toContain('colleague [[Jane]]');
+    });
+
+    it('should write frontmatter and body in a single write', async () => {
+      let writes = 0;
+      const process = mock.app.vault.process;
+      mock.app.vault.process = async (file: TFile, fn: (data: string) => string) => {
+        writes++;
+        return process(file, fn);
+      };
+      mock.app.fileManager.processFrontMatter = async () => {
+        throw new Error('not expected');
+      };
+
+      note.frontmatter.GENDER = 'M';
+      note.content = note.content.replace('friend [[Jane]]', 'colleague [[Jane]]');
+      await note.save();
+
+      expect(writes).toBe(1);
+      expect(mock.files.get('Contacts/John.md')).toContain('GENDER: "M"');
+      expect(mock.files.get('Contacts/John.md')).toContain('colleague [[Jane]]');
+    });
+
+    it('should leave a note with invalid frontmatter untouched', async () => {
+      const broken = '---\nFN: [John\n---\n\n# John Doe\n';
+      mock.files.set('Contacts/John.md', broken);
+      note.content = '\n# John\n';
+
+      await expect(note.save()).rejects.toThrow();
+      expect(mock.files.get('Contacts/John.md')).toBe(broken);
+    });
+  });
+
+  describe('updateRelatedSection', () => {
+    it('should not copy invalid frontmatter into the body', async () => {
+      mock.files.set('Contacts/John.md', '---\nFN: [John\n---\n\n# John Doe\n');
+      await note.updateRelatedSection([]);
+
+      const data = mock.files.get('Contacts/John.md')!;
+      expect(data.match(/FN: \[John/g)).toHaveLength(1);
+    });
+  });
+});
@@ -147,6 +147,23 @@ Content`;
       expect(result.valid).toBe(false);
       expect(result.errors).toContain('Missing required field: FN (formatted name)');
     });
+
+    it('should warn about keys outside the property schema', () => {
+      const data = {
+        UID: 'test-uid',
+        FN: 'John Doe',
+        'ADR.HOME.TOWN': 'Springfield',
+        'EMAIL.WORK': 'john@example.com',
+        tags: ['contact'],
+        aliases: ['Johnny'],
+        cssclasses: ['card']
+      };
+
+      const result = validateFrontmatter(data);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual(['Unknown component in ADR.HOME.TOWN']);
+    });
   });
 
   describe('removeInvalidFields', () => {
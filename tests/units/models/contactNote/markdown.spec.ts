@@ -8,7 +8,9 @@ import {
   generateContactSection,
   extractHeadings,
   findSectionByHeading,
-  replaceSectionByHeading
+  replaceSectionByHeading,
+  findSection,
+  replaceSection
 } from '../../../../src/models/contactNote/markdown';
 
 describe('Markdown Operations', () => {
@@ -141,4 +143,39 @@ Old content
       expect(updated).toContain('New notes');
     });
   });
+
+  describe('findSection and replaceSection', () => {
+    const content = `# John
+
+## Related
+
+- friend [[Jane]]
+
+## Notes
+
+Some notes`;
+
+    it('should find a section including its heading', () => {
+      expect(findSection(content, 'Related')).toBe('## Related\n\n- friend [[Jane]]');
+      expect(findSection(content, 'Missing')).toBeNull();
+    });
+
+    it('should replace a section without duplicating its heading', () => {
+      const updated = replaceSection(content, 'Related', '## Related\n\n- parent [[Mary]]');
+      expect(updated).toBe(`# John
+
+## Related
+
+- parent [[Mary]]
+
+## Notes
+
+Some notes`);
+    });
+
+    it('should append the section when the heading is missing', () => {
+      const updated = replaceSection('# John\n', 'Related', '## Related\n\n- friend [[Jane]]');
+      expect(updated).toBe('# John\n\n## Related\n\n- friend [[Jane]]\n');
+    });
+  });
 });
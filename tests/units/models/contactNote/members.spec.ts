@@ -0,0 +1,112 @@
+/**
+ * Unit tests for ContactNote group member operations
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseKind,
+  parseMembersSection,
+  generateMembersSection,
+  parseMemberFrontmatter,
+  generateMemberFrontmatter,
+  formatMemberReference
+} from '../../../../src/models/contactNote/members';
+
+describe('Member Operations', () => {
+  describe('parseKind', () => {
+    it('should read KIND case-insensitively', () => {
+      expect(parseKind({ KIND: 'Group' })).toBe('group');
+      expect(parseKind({ KIND: 'org' })).toBe('org');
+    });
+
+    it('should default to individual for missing or unknown kinds', () => {
+      expect(parseKind({})).toBe('individual');
+      expect(parseKind({ KIND: 'x-device' })).toBe('individual');
+    });
+  });
+
+  describe('parseMembersSection', () => {
+    it('should parse linked members and member URIs', () => {
+      const content = `# Book Club
+
+## Members
+
+- [[Alice]]
+- [[Bob Smith|Bob]]
+- mailto:carol@example.com
+- just some text
+
+## Notes
+
+- [[Not A Member]]`;
+
+      expect(parseMembersSection(content)).toEqual([
+        { reference: '', name: 'Alice' },
+        { reference: '', name: 'Bob Smith' },
+        { reference: 'mailto:carol@example.com' }
+      ]);
+    });
+
+    it('should return no members without a Members section', () => {
+      expect(parseMembersSection('# Alice\n\nSome notes.')).toEqual([]);
+    });
+  });
+
+  describe('generateMembersSection', () => {
+    it('should link named members and list other references', () => {
+      const section = generateMembersSection([
+        { reference: 'urn:uuid:1', name: 'Alice' },
+        { reference: 'mailto:carol@example.com' }
+      ]);
+
+      expect(section).toBe('## Members\n\n- [[Alice]]\n- mailto:carol@example.com');
+    });
+
+    it('should generate nothing for no members', () => {
+      expect(generateMembersSection([])).toBe('');
+    });
+  });
+
+  describe('parseMemberFrontmatter', () => {
+    it('should parse MEMBER fields in index order', () => {
+      const members = parseMemberFrontmatter({
+        FN: 'Book Club',
+        'MEMBER.1': 'urn:uuid:2',
+        'MEMBER.0': 'urn:uuid:1',
+        'MEMBER.2': 'name:Dave'
+      });
+
+      expect(members).toEqual([
+        { reference: 'urn:uuid:1' },
+        { reference: 'urn:uuid:2' },
+        { reference: 'name:Dave', name: 'Dave' }
+      ]);
+    });
+
+    it('should parse a single MEMBER field', () => {
+      expect(parseMemberFrontmatter({ MEMBER: 'uid:alice' })).toEqual([{ reference: 'uid:alice' }]);
+    });
+  });
+
+  describe('generateMemberFrontmatter', () => {
+    it('should store a single member as MEMBER', () => {
+      expect(generateMemberFrontmatter([{ reference: 'urn:uuid:1' }])).toEqual({ MEMBER: 'urn:uuid:1' });
+    });
+
+    it('should index several members and skip empty references', () => {
+      expect(generateMemberFrontmatter([
+        { reference: 'urn:uuid:1' },
+        { reference: '', name: 'Unknown' },
+        { reference: 'urn:uuid:2' }
+      ])).toEqual({ 'MEMBER.0': 'urn:uuid:1', 'MEMBER.1': 'urn:uuid:2' });
+    });
+  });
+
+  describe('formatMemberReference', () => {
+    it('should format UIDs as member URIs', () => {
+      expect(formatMemberReference('urn:uuid:03a0e51f-d1aa-4385-8a53-e29025acd8af')).toBe('urn:uuid:03a0e51f-d1aa-4385-8a53-e29025acd8af');
+      expect(formatMemberReference('03a0e51f-d1aa-4385-8a53-e29025acd8af')).toBe('urn:uuid:03a0e51f-d1aa-4385-8a53-e29025acd8af');
+      expect(formatMemberReference('alice-123')).toBe('uid:alice-123');
+    });
+  });
+});
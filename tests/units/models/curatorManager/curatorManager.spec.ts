@@ -7,6 +7,8 @@ import {
     RunType, 
     ProcessorRegistry, 
     CuratorQueue,
+    CuratorManager,
+    CuratorService,
     type CuratorProcessor,
     type ContactNote
 } from '../../../../src/models/curatorManager';
@@ -345,4 +347,116 @@ describe('CuratorManager', () => {
             expect(queue.dequeue()?.contact).toBe(contact3);
         });
     });
+
+    describe('CuratorService', () => {
+        it('should expose processor settings in dependency order', () => {
+            const service = new CuratorService();
+            service.register({
+                name: 'second',
+                description: 'Second',
+                runType: RunType.UPCOMING,
+                dependencies: ['first'],
+                settingProperties: { key: 'secondEnabled', name: 'Second', description: 'Second processor', default: false },
+                shouldRun: async () => true,
+                process: async () => {}
+            });
+            service.register({
+                name: 'first',
+                description: 'First',
+                runType: RunType.IMMEDIATELY,
+                dependencies: [],
+                settingProperties: { key: 'firstEnabled', name: 'First', description: 'First processor', default: true },
+                shouldRun: async () => true,
+                process: async () => {}
+            });
+            service.register({
+                name: 'unconfigurable',
+                description: 'No settings',
+                runType: RunType.IMPROVEMENT,
+                dependencies: [],
+                shouldRun: async () => true,
+                process: async () => {}
+            });
+            
+            const settings = service.settings();
+            expect(settings.map(s => s.settingPropertyName)).toEqual(['firstEnabled', 'secondEnabled']);
+            expect(settings[0].settingDefaultValue).toBe(true);
+            expect(settings[1].settingDefaultValue).toBe(false);
+        });
+    });
+    
+    describe('CuratorManager class', () => {
+        const createManager = (settings: Record<string, any> = {}) =>
+            new CuratorManager({} as any, settings as any, {} as any);
+        
+        const trackingProcessor = (name: string, order: string[], dependencies: string[] = []): CuratorProcessor => ({
+            name,
+            description: name,
+            runType: RunType.UPCOMING,
+            dependencies,
+            settingProperties: { key: `${name}Enabled`, name, description: name, default: true },
+            shouldRun: async () => true,
+            process: async (contact: any) => {
+                order.push(name);
+                contact.frontmatter[name] = true;
+            }
+        });
+        
+        it('should run processors in dependency order and report changes', async () => {
+            const manager = createManager();
+            const order: string[] = [];
+            manager.registerProcessor(trackingProcessor('b', order, ['a']));
+            manager.registerProcessor(trackingProcessor('a', order));
+            
+            const contact = { path: '/c.md', frontmatter: {}, content: '' } as any;
+            const changed = await manager.runProcessors(contact);
+            
+            expect(changed).toBe(true);
+            expect(order.slice(-2)).toEqual(['a', 'b']);
+        });
+        
+        it('should skip processors disabled in settings', async () => {
+            const manager = createManager({ aEnabled: false });
+            const order: string[] = [];
+            manager.registerProcessor(trackingProcessor('a', order));
+            
+            const contact = { path: '/c.md', frontmatter: {}, content: '' } as any;
+            await manager.runProcessors(contact);
+            
+            expect(order).not.toContain('a');
+            expect(contact.frontmatter.a).toBeUndefined();
+        });
+        
+        it('should continue after a processor failure', async () => {
+            const manager = createManager();
+            const order: string[] = [];
+            manager.registerProcessor({
+                ...trackingProcessor('failing', order),
+                process: async () => { throw new Error('boom'); }
+            });
+            manager.registerProcessor(trackingProcessor('after', order, ['failing']));
+            
+            const contact = { path: '/c.md', frontmatter: {}, content: '' } as any;
+            const errors: string[] = [];
+            await manager.runProcessors(contact, errors);
+            
+            expect(errors.some(e => e.includes('failing: boom'))).toBe(true);
+            expect(order).toContain('after');
+        });
+        
+        it('should report no change when processors leave the contact untouched', async () => {
+            const manager = createManager();
+            manager.registerProcessor({
+                name: 'noop',
+                description: 'noop',
+                runType: RunType.UPCOMING,
+                dependencies: [],
+                shouldRun: async () => false,
+                process: async () => {}
+            });
+            
+            const contact = { path: '/c.md', frontmatter: { UID: 'x' }, content: '' } as any;
+            expect(await manager.runProcessors(contact)).toBe(false);
+        });
+    });
 });
@@ -0,0 +1,57 @@
+/**
+ * Unit tests for attachment helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateVcardData } from '../../../../src/models/vcardFile/validation';
+import {
+  findAttachments,
+  attachmentFileName,
+  parseAttachmentLink,
+  mediaTypeForPath,
+  toDataUri
+} from '../../../../src/models/vcardFile/attachments';
+
+describe('Attachments', () => {
+  it('should find the data URIs of PHOTO, LOGO and SOUND', () => {
+    const attachments = findAttachments({
+      UID: 'uid-1',
+      FN: 'Jane Doe',
+      PHOTO: 'data:image/jpeg;base64,/9j/4A==',
+      'LOGO.WORK': 'data:image/svg+xml,%3Csvg%2F%3E',
+      'SOUND.1': 'https://example.com/name.ogg',
+      KEY: 'data:application/pgp-keys;base64,AAAA'
+    });
+
+    expect(attachments.map(({ key, property, mediaType, extension }) => ({ key, property, mediaType, extension }))).toEqual([
+      { key: 'PHOTO', property: 'PHOTO', mediaType: 'image/jpeg', extension: 'jpg' },
+      { key: 'LOGO.WORK', property: 'LOGO', mediaType: 'image/svg+xml', extension: 'svg' }
+    ]);
+    expect(Array.from(new Uint8Array(attachments[0].data))).toEqual([0xff, 0xd8, 0xff, 0xe0]);
+    expect(new TextDecoder().decode(attachments[1].data)).toBe('<svg/>');
+  });
+
+  it('should name attachment files after the contact and key', () => {
+    const [photo, logo] = findAttachments({
+      'PHOTO.1': 'data:image/png;base64,AAAA',
+      'LOGO.WORK': 'data:image/gif;base64,AAAA'
+    });
+
+    expect(attachmentFileName('Jane: Doe', photo)).toBe('Jane Doe-photo-1.png');
+    expect(attachmentFileName('Jane Doe', logo)).toBe('Jane Doe-logo-work.gif');
+  });
+
+  it('should convert between links, media types and data URIs', () => {
+    expect(parseAttachmentLink('[[Attachments/Jane Doe-photo.jpg]]')).toBe('Attachments/Jane Doe-photo.jpg');
+    expect(parseAttachmentLink('![[Attachments/Jane Doe-photo.jpg|Jane]]')).toBe('Attachments/Jane Doe-photo.jpg');
+    expect(parseAttachmentLink('https://example.com/photo.jpg')).toBeNull();
+    expect(mediaTypeForPath('Attachments/Jane Doe-photo.JPG')).toBe('image/jpeg');
+    expect(mediaTypeForPath('Attachments/notes.xyz')).toBe('application/octet-stream');
+    expect(toDataUri('image/jpeg', new Uint8Array([0xff, 0xd8, 0xff, 0xe0]).buffer)).toBe('data:image/jpeg;base64,/9j/4A==');
+  });
+
+  it('should accept attachment links when validating', () => {
+    const result = validateVcardData({ UID: 'uid-1', FN: 'Jane Doe', PHOTO: '[[Attachments/Jane Doe-photo.jpg]]' });
+    expect(result.errors).toEqual([]);
+  });
+});
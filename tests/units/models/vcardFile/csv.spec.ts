@@ -0,0 +1,196 @@
+/**
+ * Unit tests for CSV import and export
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VcardFile } from '../../../../src/models/vcardFile';
+import {
+  parseCsvContacts,
+  generateCsv,
+  resolveCsvColumn,
+  getCsvPreview,
+  detectCsvPreset,
+  suggestCsvMapping,
+  CSV_PRESETS
+} from '../../../../src/models/vcardFile/csv';
+
+describe('CSV', () => {
+  const preset = (id: string) => CSV_PRESETS.find(candidate => candidate.id === id)!;
+
+  const googleCsv = [
+    'First Name,Middle Name,Last Name,Birthday,Labels,E-mail 1 - Label,E-mail 1 - Value,Phone 1 - Label,Phone 1 - Value,' +
+      'Address 1 - Label,Address 1 - Street,Address 1 - City,Organization Name',
+    'Jane,,Doe,--05-17,* myContacts ::: Friends,* Home,jane@home.com ::: jane@other.com,Mobile,+1 555 0100,' +
+      'Work,"1 Main St',
+    'Floor 2",Springfield,Acme',
+    ''
+  ].join('\r\n');
+
+  const outlookCsv = [
+    'First Name,Last Name,Company,E-mail Address,E-mail 2 Address,Business Phone,Business Street,Business Street 2,Birthday,Gender,Categories',
+    'Bob,Smith,Acme,bob@acme.com,bob@home.com,+1 555 0101,1 Main St,Suite 3,5/17/1990,Male,Friends;Work',
+    ',,,,,,,,0/0/00,Unspecified,',
+    ''
+  ].join('\r\n');
+
+  it('should detect the Google and Outlook layouts', () => {
+    expect(detectCsvPreset(getCsvPreview(googleCsv).headers)?.id).toBe('google');
+    expect(detectCsvPreset(getCsvPreview(outlookCsv).headers)?.id).toBe('outlook');
+    expect(detectCsvPreset(['Name', 'Email', 'Phone'])).toBeNull();
+  });
+
+  it('should import Google Contacts CSV', () => {
+    const { contacts, diagnostics } = parseCsvContacts(googleCsv, preset('google'));
+    expect(diagnostics).toEqual([]);
+    expect(contacts).toHaveLength(1);
+
+    const jane = contacts[0];
+    expect(jane.UID).toMatch(/^urn:uuid:/);
+    expect(parseCsvContacts(googleCsv, preset('google')).contacts[0].UID).toBe(jane.UID);
+    expect(jane).toEqual({
+      UID: jane.UID,
+      FN: 'Jane Doe',
+      'N.FAMILYNAMES': 'Doe',
+      'N.GIVENNAMES': 'Jane',
+      BDAY: '--05-17',
+      CATEGORIES: 'Friends',
+      'EMAIL.HOME.0': 'jane@home.com',
+      'EMAIL.HOME.1': 'jane@other.com',
+      'TEL.CELL': '+1 555 0100',
+      'ADR.WORK.STREETADDRESS': '1 Main St\nFloor 2',
+      'ADR.WORK.LOCALITY': 'Springfield',
+      ORG: 'Acme'
+    });
+  });
+
+  it('should import Outlook CSV', () => {
+    const { contacts, diagnostics } = parseCsvContacts(outlookCsv, preset('outlook'));
+    expect(diagnostics).toEqual([]);
+    expect(contacts).toHaveLength(1);
+
+    const bob = contacts[0];
+    expect(bob.FN).toBe('Bob Smith');
+    expect(bob['EMAIL.0']).toBe('bob@acme.com');
+    expect(bob['EMAIL.1']).toBe('bob@home.com');
+    expect(bob['TEL.WORK']).toBe('+1 555 0101');
+    expect(bob['ADR.WORK.STREETADDRESS']).toBe('1 Main St, Suite 3');
+    expect(bob.BDAY).toBe('1990-05-17');
+    expect(bob['GENDER.SEX']).toBe('M');
+    expect(bob['CATEGORIES.0']).toBe('Friends');
+    expect(bob['CATEGORIES.1']).toBe('Work');
+  });
+
+  it('should map arbitrary CSV columns', () => {
+    const csv = 'Full Name;E-Mail;Mobile;Favourite colour;uid\nAnn Lee;ann@example.com;+1 555 0102;blue;ann-1\n';
+    const mapping = suggestCsvMapping(getCsvPreview(csv).headers);
+    expect(mapping.columns).toEqual({
+      'Full Name': 'FN',
+      'E-Mail': 'EMAIL',
+      'Mobile': 'TEL.CELL',
+      'uid': 'UID'
+    });
+
+    const { contacts } = parseCsvContacts(csv, mapping);
+    expect(contacts).toEqual([
+      { UID: 'ann-1', FN: 'Ann Lee', EMAIL: 'ann@example.com', 'TEL.CELL': '+1 555 0102' }
+    ]);
+  });
+
+  it('should build the name from the company or email when there are no name columns', () => {
+    const csv = 'Company,Email\nAcme,\n,info@example.com\n';
+    const { contacts } = parseCsvContacts(csv, suggestCsvMapping(['Company', 'Email']));
+    expect(contacts.map(contact => contact.FN)).toEqual(['Acme', 'info@example.com']);
+  });
+
+  it('should report rows without a name and ignore invalid values', () => {
+    const csv = 'Notes,Birthday\nNo name here,\n"Has a, comma",someday\n';
+    const mapping = { columns: { Notes: 'NOTE', Birthday: 'BDAY' } };
+    const { contacts, diagnostics } = parseCsvContacts(csv, mapping);
+
+    expect(contacts).toEqual([]);
+    expect(diagnostics).toEqual([
+      { card: 0, line: 2, property: 'FN', message: 'Row has no name', severity: 'error' },
+      { card: 1, line: 3, property: 'BDAY', message: 'Ignored invalid value "someday" in column "Birthday"', severity: 'warning' },
+      { card: 1, line: 3, property: 'FN', message: 'Row has no name', severity: 'error' }
+    ]);
+  });
+
+  it('should create a VcardFile from CSV', () => {
+    const vcf = VcardFile.fromCsv(outlookCsv, preset('outlook'), 'outlook.csv');
+    expect(vcf.filename).toBe('outlook.csv');
+    expect(vcf.count).toBe(1);
+    expect(vcf.toVCardString()).toContain('TEL;TYPE=work:+1 555 0101');
+  });
+});
+
+describe('CSV export', () => {
+  const contact = {
+    UID: 'uid-1',
+    FN: 'Jane Doe',
+    'N.GIVENNAMES': 'Jane',
+    'EMAIL.HOME': 'jane@home.com',
+    'EMAIL.WORK': 'jane@work.com',
+    'TEL.CELL.0': '+1 555 0100',
+    'TEL.CELL.0.@TYPE': 'cell,voice',
+    'TEL.CELL.1': '+1 555 0101',
+    'TEL.HOME': '+1 555 0102',
+    'TEL.HOME.@PREF': '1',
+    'ADR.HOME.CITY': 'Springfield',
+    'ADR.WORK.LOCALITY': 'Shelbyville',
+    'ORG.0': 'Acme',
+    'ORG.1': 'Sales',
+    CATEGORIES: ['Friends', 'Work']
+  };
+
+  it('should resolve exact and typed columns', () => {
+    expect(resolveCsvColumn(contact, 'FN')).toBe('Jane Doe');
+    expect(resolveCsvColumn(contact, 'EMAIL.WORK')).toBe('jane@work.com');
+    expect(resolveCsvColumn(contact, 'TEL.CELL')).toBe('+1 555 0100');
+    expect(resolveCsvColumn(contact, 'TEL.CELL.1')).toBe('+1 555 0101');
+    expect(resolveCsvColumn(contact, 'TEL.VOICE')).toBe('+1 555 0100');
+    expect(resolveCsvColumn(contact, 'NOTE')).toBe('');
+  });
+
+  it('should match structured components by alias', () => {
+    expect(resolveCsvColumn(contact, 'ADR.HOME.LOCALITY')).toBe('Springfield');
+    expect(resolveCsvColumn(contact, 'ADR.WORK.CITY')).toBe('Shelbyville');
+  });
+
+  it('should take the preferred typed variant', () => {
+    expect(resolveCsvColumn(contact, 'EMAIL')).toBe('jane@home.com');
+    expect(resolveCsvColumn(contact, 'EMAIL', ['WORK'])).toBe('jane@work.com');
+    expect(resolveCsvColumn(contact, 'TEL', ['CELL'])).toBe('+1 555 0100');
+    expect(resolveCsvColumn(contact, 'TEL', ['PREF', 'CELL'])).toBe('+1 555 0102');
+    expect(resolveCsvColumn(contact, 'ADR.CITY', ['WORK'])).toBe('Shelbyville');
+  });
+
+  it('should join list properties', () => {
+    expect(resolveCsvColumn(contact, 'ORG')).toBe('Acme; Sales');
+    expect(resolveCsvColumn(contact, 'ORG.1')).toBe('Sales');
+    expect(resolveCsvColumn(contact, 'CATEGORIES')).toBe('Friends, Work');
+  });
+
+  it('should write a header row and quote values', () => {
+    const csv = generateCsv(
+      [contact, { UID: 'uid-2', FN: 'Smith, "Bob"', NOTE: 'Line 1\nLine 2' }],
+      { columns: ['FN', 'EMAIL', 'NOTE'], preferredTypes: ['work'] }
+    );
+
+    expect(csv).toBe(
+      'FN,EMAIL,NOTE\r\n' +
+      'Jane Doe,jane@work.com,\r\n' +
+      '"Smith, ""Bob""",,"Line 1\nLine 2"\r\n'
+    );
+  });
+
+  it('should round-trip through CSV import', () => {
+    const csv = generateCsv([contact], { columns: ['FN', 'EMAIL.WORK', 'TEL.CELL', 'ADR.HOME.LOCALITY'], delimiter: ';' });
+    const mapping = suggestCsvMapping(getCsvPreview(csv).headers);
+    const { contacts } = parseCsvContacts(csv, mapping);
+
+    expect(contacts[0].FN).toBe('Jane Doe');
+    expect(contacts[0]['EMAIL.WORK']).toBe('jane@work.com');
+    expect(contacts[0]['TEL.CELL']).toBe('+1 555 0100');
+    expect(contacts[0]['ADR.HOME.LOCALITY']).toBe('Springfield');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for vCard date handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseVcfContact } from '../../../../src/models/vcardFile/parsing';
+import { generateVcfContact } from '../../../../src/models/vcardFile/generation';
+import { parseDateAndOrTime, formatDateAndOrTime, toFrontmatterDate, toVcardDate } from '../../../../src/models/vcardFile/dates';
+
+describe('Dates', () => {
+  const forms: [string, string][] = [
+    ['19850415', '1985-04-15'],
+    ['1985-04', '1985-04'],
+    ['1985', '1985'],
+    ['--0415', '--04-15'],
+    ['--04', '--04'],
+    ['---15', '---15'],
+    ['T102200', 'T10:22:00'],
+    ['T1022', 'T10:22'],
+    ['T-2200', 'T-22:00'],
+    ['T--00', 'T--00'],
+    ['T102200+0530', 'T10:22:00+05:30'],
+    ['19850415T1030Z', '1985-04-15T10:30Z'],
+    ['--0415T10-05', '--04-15T10-05'],
+    ['---15T103000', '---15T10:30:00']
+  ];
+
+  it('should parse date, time and date-time forms', () => {
+    expect(parseDateAndOrTime('--0415')).toEqual({ month: 4, day: 15 });
+    expect(parseDateAndOrTime('1985-04')).toEqual({ year: 1985, month: 4 });
+    expect(parseDateAndOrTime('19850415T103000+0530')).toEqual({
+      year: 1985, month: 4, day: 15, hour: 10, minute: 30, second: 0, zone: '+0530'
+    });
+    expect(parseDateAndOrTime('T-2200')).toEqual({ minute: 22, second: 0 });
+  });
+
+  it('should reject values that are not dates', () => {
+    for (const value of ['circa 1800', '5/17/1990', '19851315', '--0432', '1985-04T10', '19850415T', 'T25']) {
+      expect(parseDateAndOrTime(value)).toBeNull();
+    }
+  });
+
+  it('should convert each form to frontmatter and back exactly', () => {
+    for (const [vcard, frontmatter] of forms) {
+      expect(toFrontmatterDate(vcard)).toBe(frontmatter);
+      expect(toVcardDate(frontmatter)).toBe(vcard);
+      expect(toVcardDate(vcard)).toBe(vcard);
+    }
+    expect(formatDateAndOrTime({ year: 1985, month: 4, day: 15 }, true)).toBe('1985-04-15');
+    expect(toVcardDate(new Date('1985-04-15T00:00:00Z'))).toBe('19850415');
+    expect(toVcardDate('circa 1800')).toBe('circa 1800');
+  });
+
+  it('should store BDAY and ANNIVERSARY in extended format and regenerate the original', () => {
+    const content = [
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'UID:uid-1',
+      'FN:Jane Doe',
+      'BDAY:--0415',
+      'ANNIVERSARY:19850415T1030Z',
+      'REV:20250125T103000Z',
+      'END:VCARD'
+    ].join('\r\n');
+    const contact = parseVcfContact(content)!;
+
+    expect(contact.BDAY).toBe('--04-15');
+    expect(contact.ANNIVERSARY).toBe('1985-04-15T10:30Z');
+    expect(contact.REV).toBe('20250125T103000Z');
+
+    const lines = generateVcfContact(contact).split('\r\n');
+    expect(lines).toContain('BDAY:--0415');
+    expect(lines).toContain('ANNIVERSARY:19850415T1030Z');
+    expect(lines).toContain('REV:20250125T103000Z');
+  });
+
+  it('should keep text dates as they are', () => {
+    const content = [
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'UID:uid-1',
+      'FN:Jane Doe',
+      'BDAY;VALUE=text:circa 1800',
+      'END:VCARD'
+    ].join('\r\n');
+    const contact = parseVcfContact(content)!;
+
+    expect(contact.BDAY).toBe('circa 1800');
+    expect(contact['BDAY.@VALUE']).toBe('text');
+    expect(generateVcfContact(contact).split('\r\n')).toContain('BDAY;VALUE=text:circa 1800');
+  });
+
+  it('should write full dates from frontmatter in basic format', () => {
+    const lines = generateVcfContact({ UID: 'uid-1', FN: 'Jane Doe', BDAY: '1985-04-15', ANNIVERSARY: '2010' }).split('\r\n');
+
+    expect(lines).toContain('BDAY:19850415');
+    expect(lines).toContain('ANNIVERSARY:2010');
+  });
+});
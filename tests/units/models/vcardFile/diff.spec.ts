@@ -0,0 +1,85 @@
+/**
+ * Unit tests for contact diffs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffContacts, isEmptyDiff } from '../../../../src/models/vcardFile/diff';
+
+describe('Diff', () => {
+  const before = {
+    UID: 'urn:uuid:diff-1',
+    FN: 'Jane Doe',
+    'EMAIL.HOME': 'jane@example.com',
+    'EMAIL.WORK.0': 'jane@acme.com',
+    'EMAIL.WORK.1': 'doe@acme.com',
+    'TEL.CELL': '+1 555 0100',
+    'ADR.HOME.STREET': 'Main St 1',
+    'ADR.HOME.LOCALITY': 'Springfield',
+    'RELATED.FRIEND': 'urn:uuid:friend-1',
+    REV: '20240101T000000Z'
+  };
+
+  it('should find no changes between equivalent versions', () => {
+    const after = {
+      ...before,
+      'ADR.HOME.STREET': undefined,
+      'ADR.HOME.STREETADDRESS': 'Main St 1',
+      'RELATED.FRIEND': 'uid:friend-1',
+      REV: '20250101T000000Z',
+      tags: ['people']
+    };
+    expect(isEmptyDiff(diffContacts(before, after))).toBe(true);
+  });
+
+  it('should report added, removed and changed values', () => {
+    const after = { ...before, FN: 'Jane Smith', 'TEL.CELL': undefined, TITLE: 'CEO' };
+    const diff = diffContacts(before, after);
+
+    expect(diff.added).toEqual([{ property: 'TITLE', key: 'TITLE', after: 'CEO' }]);
+    expect(diff.removed).toEqual([{ property: 'TEL', key: 'TEL.CELL', before: '+1 555 0100' }]);
+    expect(diff.changed).toEqual([{ property: 'FN', key: 'FN', before: 'Jane Doe', after: 'Jane Smith' }]);
+  });
+
+  it('should compare structured values as one field', () => {
+    const diff = diffContacts(before, { ...before, 'ADR.HOME.LOCALITY': 'Shelbyville', 'ADR.HOME.COUNTRY': 'USA' });
+
+    expect(diff.added).toEqual([]);
+    expect(diff.changed).toEqual([{
+      property: 'ADR',
+      key: 'ADR.HOME',
+      before: 'Main St 1, Springfield',
+      after: 'Main St 1, Shelbyville, USA'
+    }]);
+  });
+
+  it('should not report renumbered values of repeatable properties', () => {
+    const after = { ...before, 'EMAIL.WORK.0': 'doe@acme.com', 'EMAIL.WORK.1': undefined };
+    const diff = diffContacts(before, after);
+
+    expect(diff.changed).toEqual([]);
+    expect(diff.removed).toEqual([{ property: 'EMAIL', key: 'EMAIL.WORK.0', before: 'jane@acme.com' }]);
+  });
+
+  it('should report values that moved to another type', () => {
+    const after = { ...before, 'EMAIL.HOME': undefined, 'EMAIL.OTHER': 'jane@example.com' };
+    const diff = diffContacts(before, after);
+
+    expect(diff.changed).toEqual([{
+      property: 'EMAIL',
+      key: 'EMAIL.OTHER',
+      previousKey: 'EMAIL.HOME',
+      before: 'jane@example.com',
+      after: 'jane@example.com'
+    }]);
+  });
+
+  it('should report parameter and relationship changes', () => {
+    const after = { ...before, 'TEL.CELL.@PREF': '1', 'RELATED.FRIEND': 'urn:uuid:friend-2' };
+    const diff = diffContacts(before, after);
+
+    expect(diff.changed.map(change => [change.key, change.before, change.after])).toEqual([
+      ['RELATED.FRIEND', 'urn:uuid:friend-1', 'urn:uuid:friend-2'],
+      ['TEL.CELL', '+1 555 0100', '+1 555 0100 (PREF=1)']
+    ]);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for VCF encoding detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatVcfDiagnostic } from '../../../../src/models/vcardFile/parsing';
+import { decodeVcfBytes } from '../../../../src/models/vcardFile/encoding';
+
+describe('Encoding', () => {
+  const card = 'BEGIN:VCARD\r\nVERSION:4.0\r\nUID:uid-1\r\nFN:José Müller\r\nEND:VCARD\r\n';
+
+  const utf16 = (text: string, littleEndian: boolean, bom: boolean) => {
+    const bytes: number[] = bom ? (littleEndian ? [0xff, 0xfe] : [0xfe, 0xff]) : [];
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      bytes.push(...(littleEndian ? [code & 0xff, code >> 8] : [code >> 8, code & 0xff]));
+    }
+    return new Uint8Array(bytes);
+  };
+
+  const latin1 = (text: string) => new Uint8Array(Array.from(text).map(character => character.charCodeAt(0)));
+
+  it('should read UTF-8 without a warning', () => {
+    const decoded = decodeVcfBytes(new TextEncoder().encode(card));
+
+    expect(decoded.content).toBe(card);
+    expect(decoded.encoding).toBe('utf-8');
+    expect(decoded.diagnostics).toEqual([]);
+  });
+
+  it('should remove a UTF-8 byte order mark', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...Array.from(new TextEncoder().encode(card))]);
+    const decoded = decodeVcfBytes(bytes.buffer);
+
+    expect(decoded.content).toBe(card);
+    expect(decoded.detectedBy).toBe('bom');
+    expect(decoded.diagnostics).toEqual([]);
+  });
+
+  it('should convert UTF-16 with a byte order mark', () => {
+    const littleEndian = decodeVcfBytes(utf16(card, true, true));
+    const bigEndian = decodeVcfBytes(utf16(card, false, true));
+
+    expect(littleEndian.content).toBe(card);
+    expect(littleEndian.encoding).toBe('utf-16le');
+    expect(bigEndian.content).toBe(card);
+    expect(bigEndian.encoding).toBe('utf-16be');
+    expect(formatVcfDiagnostic(littleEndian.diagnostics[0])).toBe('File: Converted from UTF-16LE (byte order mark) to UTF-8');
+    expect(littleEndian.diagnostics[0].severity).toBe('warning');
+  });
+
+  it('should recognize UTF-16 without a byte order mark', () => {
+    const decoded = decodeVcfBytes(utf16(card, true, false));
+
+    expect(decoded.content).toBe(card);
+    expect(decoded.encoding).toBe('utf-16le');
+    expect(decoded.detectedBy).toBe('heuristic');
+  });
+
+  it('should use the CHARSET parameter for 8-bit content', () => {
+    const content = 'BEGIN:VCARD\r\nVERSION:2.1\r\nN;CHARSET=ISO-8859-15:M\xfcller;Jos\xe9\r\nEND:VCARD\r\n';
+    const decoded = decodeVcfBytes(latin1(content));
+
+    expect(decoded.encoding).toBe('iso-8859-15');
+    expect(decoded.detectedBy).toBe('charset');
+    expect(decoded.content).toContain('N;CHARSET=ISO-8859-15:Müller;José');
+  });
+
+  it('should fall back to Windows-1252 for other 8-bit content', () => {
+    const decoded = decodeVcfBytes(latin1(card));
+
+    expect(decoded.content).toBe(card);
+    expect(decoded.encoding).toBe('windows-1252');
+    expect(decoded.diagnostics[0].message).toBe('Converted from WINDOWS-1252 (detected) to UTF-8');
+  });
+});
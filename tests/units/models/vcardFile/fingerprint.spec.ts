@@ -0,0 +1,73 @@
+/**
+ * Unit tests for contact fingerprints
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseVcfFile } from '../../../../src/models/vcardFile/parsing';
+import { generateVcfFile } from '../../../../src/models/vcardFile/generation';
+import { canonicalizeContact, fingerprintContact, fingerprintContacts } from '../../../../src/models/vcardFile/fingerprint';
+
+describe('Fingerprint', () => {
+  const contact = {
+    UID: 'urn:uuid:fp-1',
+    FN: 'Jane Doe',
+    'N.FN': 'Doe',
+    'N.GN': 'Jane',
+    'EMAIL.HOME': 'jane@example.com',
+    'EMAIL.HOME.@PREF': '1',
+    BDAY: '1985-04-15',
+    REV: '20240101T000000Z'
+  };
+
+  it('should not depend on key order', () => {
+    const reordered = Object.fromEntries(Object.entries(contact).reverse());
+    expect(fingerprintContact(reordered)).toBe(fingerprintContact(contact));
+  });
+
+  it('should ignore REV, empty values and non-vCard frontmatter', () => {
+    const touched = { ...contact, REV: '20250601T120000Z', NOTE: '', tags: ['people'] };
+    expect(fingerprintContact(touched)).toBe(fingerprintContact(contact));
+  });
+
+  it('should treat equivalent formats as the same data', () => {
+    const equivalent = {
+      ...contact,
+      'N.FN': undefined,
+      'N.FAMILYNAMES': 'Doe',
+      'N.GN': undefined,
+      'N.GIVENNAMES': 'Jane',
+      BDAY: '19850415'
+    };
+    expect(canonicalizeContact(equivalent)).toBe(canonicalizeContact(contact));
+    const lowercaseType = { ...contact, 'EMAIL.HOME': undefined, 'EMAIL.home': 'jane@example.com' };
+    expect(fingerprintContact(lowercaseType)).toBe(fingerprintContact(contact));
+  });
+
+  it('should not depend on the order of repeated values', () => {
+    const listed = { UID: 'urn:uuid:fp-3', FN: 'Jane Doe', 'EMAIL.0': 'a@example.com', 'EMAIL.1': 'b@example.com', 'TEL.CELL': '+1 555 0100', 'TEL.CELL.1': '+1 555 0101' };
+    const swapped = { ...listed, 'EMAIL.0': 'b@example.com', 'EMAIL.1': 'a@example.com', 'TEL.CELL': '+1 555 0101', 'TEL.CELL.1': '+1 555 0100' };
+    expect(fingerprintContact(swapped)).toBe(fingerprintContact(listed));
+
+    const addresses = { ...listed, 'ADR.HOME.LOCALITY': 'Springfield', 'ADR.HOME.STREET': 'Main St 1', 'ADR.HOME.1.LOCALITY': 'Shelbyville', 'ADR.HOME.1.STREET': 'Elm St 2' };
+    const mixed = { ...addresses, 'ADR.HOME.LOCALITY': 'Shelbyville', 'ADR.HOME.1.LOCALITY': 'Springfield' };
+    expect(fingerprintContact(mixed)).not.toBe(fingerprintContact(addresses));
+    expect(fingerprintContact({ ...listed, 'EMAIL.1': undefined, 'EMAIL.WORK': 'b@example.com' })).not.toBe(fingerprintContact(listed));
+  });
+
+  it('should change when a value changes', () => {
+    expect(fingerprintContact({ ...contact, 'EMAIL.HOME': 'jane@example.org' })).not.toBe(fingerprintContact(contact));
+    expect(fingerprintContact({ ...contact, 'EMAIL.HOME.@PREF': '2' })).not.toBe(fingerprintContact(contact));
+    expect(fingerprintContact({ ...contact, TITLE: 'CEO' })).not.toBe(fingerprintContact(contact));
+  });
+
+  it('should survive a round trip through VCF', () => {
+    const [parsed] = parseVcfFile(generateVcfFile([contact]));
+    expect(fingerprintContact(parsed)).toBe(fingerprintContact(contact));
+  });
+
+  it('should fingerprint a set of contacts independent of order', () => {
+    const other = { UID: 'urn:uuid:fp-2', FN: 'John Doe' };
+    expect(fingerprintContacts([contact, other])).toBe(fingerprintContacts([other, contact]));
+    expect(fingerprintContacts([contact])).not.toBe(fingerprintContacts([contact, other]));
+  });
+});
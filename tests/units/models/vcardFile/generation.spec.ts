@@ -0,0 +1,377 @@
+/**
+ * Unit tests for VCF generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VcardFile } from '../../../../src/models/vcardFile';
+import { parseVcfFile, parseVcfContact } from '../../../../src/models/vcardFile/parsing';
+import { generateVcfFile, generateVcfContact } from '../../../../src/models/vcardFile/generation';
+
+describe('Property coverage', () => {
+  it('should generate multi-valued properties from indexed keys', () => {
+    const vcfString = generateVcfContact({
+      UID: 'uid',
+      FN: 'John Doe',
+      'ORG.0': 'Acme',
+      'ORG.1': 'Engineering',
+      'CATEGORIES.1': 'developer',
+      'CATEGORIES.0': 'work',
+      'NICKNAME.WORK.0': 'JD'
+    });
+
+    expect(vcfString).toContain('ORG:Acme;Engineering');
+    expect(vcfString).toContain('CATEGORIES:work,developer');
+    expect(vcfString).toContain('NICKNAME;TYPE=work:JD');
+  });
+
+  it('should generate plain multi-valued and structured keys as-is', () => {
+    const vcfString = generateVcfContact({
+      UID: 'uid',
+      FN: 'John Doe',
+      ORG: 'Acme Corporation',
+      CATEGORIES: 'work,developer',
+      GENDER: 'F'
+    });
+
+    expect(vcfString).toContain('ORG:Acme Corporation');
+    expect(vcfString).toContain('CATEGORIES:work,developer');
+    expect(vcfString).toContain('GENDER:F');
+  });
+
+  it('should generate structured GENDER', () => {
+    expect(generateVcfContact({ UID: 'uid', FN: 'A', 'GENDER.SEX': 'M', 'GENDER.IDENTITY': 'man' }))
+      .toContain('GENDER:M;man');
+    expect(generateVcfContact({ UID: 'uid', FN: 'A', 'GENDER.SEX': 'F' }))
+      .toContain('GENDER:F\r\n');
+  });
+
+  it('should accept short name and address sub-keys', () => {
+    const vcfString = generateVcfContact({
+      UID: 'uid',
+      FN: 'John Doe',
+      'N.GN': 'John',
+      'N.FN': 'Doe',
+      'ADR.HOME.STREET': '123 Main St',
+      'ADR.HOME.CITY': 'Springfield',
+      'ADR.HOME.POSTAL': '62701'
+    });
+
+    expect(vcfString).toContain('N:Doe;John;;;');
+    expect(vcfString).toContain('ADR;TYPE=home:;;123 Main St;Springfield;;62701;');
+  });
+
+  it('should generate typed and indexed simple properties', () => {
+    const vcfString = generateVcfContact({
+      UID: 'uid',
+      FN: 'John Doe',
+      BDAY: '19850415',
+      TITLE: 'Engineer',
+      'IMPP.WORK': 'xmpp:john@example.com',
+      'LANG.0': 'en',
+      'LANG.1': 'fr',
+      'NOTE.WORK': 'Met at conference',
+      'TEL.CELL.0': '+1-555-123-4567',
+      'RELATED.friend.1': 'urn:uuid:friend-uid'
+    });
+
+    expect(vcfString).toContain('BDAY:19850415');
+    expect(vcfString).toContain('TITLE:Engineer');
+    expect(vcfString).toContain('IMPP;TYPE=work:xmpp:john@example.com');
+    expect(vcfString).toContain('LANG:en\r\nLANG:fr');
+    expect(vcfString).toContain('NOTE;TYPE=work:Met at conference');
+    expect(vcfString).toContain('TEL;TYPE=cell:+1-555-123-4567');
+    expect(vcfString).toContain('RELATED;TYPE=friend:urn:uuid:friend-uid');
+  });
+
+  it('should end every line of a file with CRLF', () => {
+    const vcfString = generateVcfFile([
+      { UID: 'uid1', FN: 'John Doe' },
+      { UID: 'uid2', FN: 'Jane Doe' }
+    ]);
+
+    expect(vcfString).toContain('END:VCARD\r\nBEGIN:VCARD');
+    expect(vcfString.endsWith('END:VCARD\r\n')).toBe(true);
+    expect(parseVcfFile(vcfString)).toHaveLength(2);
+  });
+
+  it('should parse the GENDER identity as GENDER.IDENTITY', () => {
+    const parsed = parseVcfContact('BEGIN:VCARD\r\nVERSION:4.0\r\nUID:uid\r\nFN:A\r\nGENDER:F;woman\r\nEND:VCARD\r\n');
+
+    expect(parsed?.['GENDER.SEX']).toBe('F');
+    expect(parsed?.['GENDER.IDENTITY']).toBe('woman');
+  });
+});
+
+describe('Escaping and folding', () => {
+  it('should escape text values', () => {
+    const vcfString = generateVcfContact({
+      UID: 'uid',
+      FN: 'Doe, John',
+      NOTE: 'Line 1\nLine 2; C:\\new',
+      'ORG.0': 'Acme; Inc.',
+      'ORG.1': 'R&D, Europe',
+      'ADR.HOME.STREET': '1 Main St; Apt 2',
+      'CATEGORIES.0': 'a,b'
+    });
+
+    expect(vcfString).toContain('FN:Doe\\, John');
+    expect(vcfString).toContain('NOTE:Line 1\\nLine 2\\; C:\\\\new');
+    expect(vcfString).toContain('ORG:Acme\\; Inc.;R&D\\, Europe');
+    expect(vcfString).toContain('ADR;TYPE=home:;;1 Main St\\; Apt 2;;;;');
+    expect(vcfString).toContain('CATEGORIES:a\\,b');
+  });
+
+  it('should keep the separators of plain structured and list values', () => {
+    const vcfString = generateVcfContact({
+      UID: 'uid',
+      FN: 'John Doe',
+      N: 'Doe;John;;;',
+      CATEGORIES: 'work,friend;family'
+    });
+
+    expect(vcfString).toContain('N:Doe;John;;;');
+    expect(vcfString).toContain('CATEGORIES:work,friend\\;family');
+  });
+
+  it('should not escape URI values', () => {
+    const vcfString = generateVcfContact({
+      UID: 'urn:uuid:uid',
+      FN: 'John Doe',
+      URL: 'https://example.com/a,b;c',
+      GEO: 'geo:37.386013,-122.082932'
+    });
+
+    expect(vcfString).toContain('URL:https://example.com/a,b;c');
+    expect(vcfString).toContain('GEO:geo:37.386013,-122.082932');
+  });
+
+  it('should quote parameter values containing special characters', () => {
+    const vcfString = generateVcfContact({ UID: 'uid', FN: 'A', 'EMAIL.X:CUSTOM': 'a@b.c' });
+    expect(vcfString).toContain('EMAIL;TYPE="x:custom":a@b.c');
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const vcfString = generateVcfContact({ UID: 'uid', FN: 'A', NOTE: 'x'.repeat(200) });
+    const lines = vcfString.split('\r\n');
+
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(lines.filter(line => line.startsWith(' '))).toHaveLength(2);
+  });
+
+  it('should not split multi-byte characters when folding', () => {
+    const note = 'äöü€😀'.repeat(20);
+    const vcfString = generateVcfContact({ UID: 'uid', FN: 'A', NOTE: note });
+
+    for (const line of vcfString.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('\uFFFD');
+    }
+    expect(parseVcfContact(vcfString)?.NOTE).toBe(note);
+  });
+
+  it('should unescape text values when parsing', () => {
+    const vcfContent = [
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'UID:uid',
+      'FN:Doe\\, John',
+      'NOTE:Note: see C:\\\\new\\, then\\Nnext',
+      'ORG:Acme\\; Inc.;R&D',
+      'END:VCARD',
+      ''
+    ].join('\r\n');
+
+    const parsed = parseVcfContact(vcfContent);
+
+    expect(parsed?.FN).toBe('Doe, John');
+    expect(parsed?.NOTE).toBe('Note: see C:\\new, then\nnext');
+    expect(parsed?.['ORG.0']).toBe('Acme; Inc.');
+    expect(parsed?.['ORG.1']).toBe('R&D');
+  });
+
+  it('should read circumflex-encoded parameter values', () => {
+    const parsed = parseVcfContact(
+      'BEGIN:VCARD\r\nVERSION:4.0\r\nUID:uid\r\nFN:A\r\nNOTE;TYPE="a^^b":x\r\nEND:VCARD\r\n'
+    );
+    expect(parsed?.['NOTE.A^B']).toBe('x');
+  });
+
+  it('should round-trip special characters', () => {
+    const original = {
+      UID: 'uid',
+      FN: 'Doe, John; Jr.',
+      NOTE: 'Multi\nline\\note, with; separators\\n',
+      'ORG.0': 'A;B',
+      'ORG.1': 'C,D',
+      'ADR.WORK.STREETADDRESS': 'Road 1, Floor 2; Room 3',
+      'ADR.WORK.LOCALITY': 'Town'
+    };
+
+    expect(parseVcfContact(generateVcfContact(original))).toEqual(original);
+  });
+});
+
+describe('Parameters', () => {
+  const vcfContent = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    'UID:param-uid',
+    'FN;LANGUAGE=en:John Doe',
+    'EMAIL;TYPE=work;TYPE=internet;PREF=1;PID=1.1,2.1:john@work.com',
+    'EMAIL;TYPE=home:john@home.com',
+    'TEL;VALUE=uri;TYPE="cell,voice":tel:+1-555-123-4567',
+    'TEL;VALUE=uri;TYPE=cell:tel:+1-555-000-0000',
+    'ADR;TYPE=home;LABEL="1 Main St\\nSpringfield";GEO="geo:39.78,-89.65":;;1 Main St;Springfield;;;',
+    'TITLE;LANGUAGE=en;ALTID=1:Engineer',
+    'END:VCARD',
+    ''
+  ].join('\r\n');
+
+  it('should store parameters as KEY.@PARAM', () => {
+    const parsed = parseVcfContact(vcfContent)!;
+
+    expect(parsed['FN.@LANGUAGE']).toBe('en');
+    expect(parsed['EMAIL.WORK']).toBe('john@work.com');
+    expect(parsed['EMAIL.WORK.@TYPE']).toBe('work,internet');
+    expect(parsed['EMAIL.WORK.@PREF']).toBe('1');
+    expect(parsed['EMAIL.WORK.@PID']).toBe('1.1,2.1');
+    expect(parsed['EMAIL.HOME']).toBe('john@home.com');
+    expect(parsed['EMAIL.HOME.@TYPE']).toBeUndefined();
+    expect(parsed['ADR.HOME.@LABEL']).toBe('1 Main St\nSpringfield');
+    expect(parsed['ADR.HOME.@GEO']).toBe('geo:39.78,-89.65');
+    expect(parsed['TITLE.@ALTID']).toBe('1');
+  });
+
+  it('should number repeated keys', () => {
+    const parsed = parseVcfContact(vcfContent)!;
+
+    expect(parsed['TEL.CELL.0']).toBe('tel:+1-555-123-4567');
+    expect(parsed['TEL.CELL.0.@TYPE']).toBe('cell,voice');
+    expect(parsed['TEL.CELL.0.@VALUE']).toBe('uri');
+    expect(parsed['TEL.CELL.1']).toBe('tel:+1-555-000-0000');
+    expect(parsed['TEL.CELL.1.@VALUE']).toBe('uri');
+  });
+
+  it('should re-emit parameters', () => {
+    const vcfString = generateVcfContact(parseVcfContact(vcfContent)!).replace(/\r\n /g, '');
+
+    expect(vcfString).toContain('FN;LANGUAGE=en:John Doe');
+    expect(vcfString).toContain('EMAIL;TYPE=work,internet;PREF=1;PID=1.1,2.1:john@work.com');
+    expect(vcfString).toContain('TEL;TYPE=cell,voice;VALUE=uri:tel:+1-555-123-4567');
+    expect(vcfString).toContain('ADR;TYPE=home;LABEL=1 Main St^nSpringfield;GEO="geo:39.78,-89.65":;;1 Main St;Springfield;;;');
+    expect(vcfString).toContain('TITLE;LANGUAGE=en;ALTID=1:Engineer');
+  });
+
+  it('should round-trip parameters', () => {
+    const parsed = parseVcfContact(vcfContent)!;
+    expect(parseVcfContact(generateVcfContact(parsed))).toEqual(parsed);
+  });
+
+  it('should let KEY.@TYPE override the type in the key', () => {
+    const vcfString = generateVcfContact({
+      UID: 'uid',
+      FN: 'A',
+      'TEL.WORK': '+1-555',
+      'TEL.WORK.@TYPE': 'work,fax',
+      'TEL.WORK.@PREF': 2
+    });
+
+    expect(vcfString).toContain('TEL;TYPE=work,fax;PREF=2:+1-555');
+  });
+
+  it('should ignore parameters without a value key', () => {
+    const vcfString = generateVcfContact({ UID: 'uid', FN: 'A', 'EMAIL.WORK.@PREF': '1' });
+    expect(vcfString).not.toContain('EMAIL');
+  });
+});
+
+describe('vCard 3.0 export', () => {
+  const contact = {
+    UID: 'urn:uuid:export-3',
+    FN: 'Jane Doe',
+    'N.FAMILYNAMES': 'Doe',
+    'N.GIVENNAMES': 'Jane',
+    'GENDER.SEX': 'F',
+    'GENDER.IDENTITY': 'woman',
+    KIND: 'individual',
+    BDAY: '19850415',
+    ANNIVERSARY: '20100620',
+    'RELATED.FRIEND': 'urn:uuid:friend',
+    'EMAIL.WORK': 'jane@work.com',
+    'EMAIL.WORK.@PREF': '1',
+    'EMAIL.WORK.@PID': '1.1',
+    'TEL.CELL': 'tel:+1-555-123-4567',
+    'TEL.CELL.@VALUE': 'uri',
+    'ADR.HOME.STREETADDRESS': '1 Main St',
+    'ADR.HOME.LOCALITY': 'Springfield',
+    'ADR.HOME.@LABEL': '1 Main St\nSpringfield',
+    GEO: 'geo:39.78,-89.65',
+    TZ: '-0500',
+    PHOTO: 'data:image/jpeg;base64,/9j/4AAQ',
+    CLIENTPIDMAP: '1;urn:uuid:client'
+  };
+
+  it('should keep emitting vCard 4.0 by default', () => {
+    expect(generateVcfContact(contact)).toContain('VERSION:4.0');
+  });
+
+  it('should emit vCard 3.0 equivalents of 4.0-only properties', () => {
+    const lines = generateVcfContact(contact, { version: '3.0' }).replace(/\r\n /g, '').split('\r\n');
+
+    expect(lines).toContain('VERSION:3.0');
+    expect(lines).toContain('X-GENDER:Female');
+    expect(lines).toContain('BDAY:1985-04-15');
+    expect(lines).toContain('X-ANNIVERSARY:2010-06-20');
+    expect(lines).toContain('X-RELATED;TYPE=friend:urn:uuid:friend');
+    expect(lines).toContain('GEO:39.78;-89.65');
+    expect(lines).toContain('TZ:-05:00');
+    expect(lines).toContain('PHOTO;TYPE=JPEG;ENCODING=b:/9j/4AAQ');
+    expect(lines.some(line => /^(KIND|GENDER|CLIENTPIDMAP)[;:]/.test(line))).toBe(false);
+  });
+
+  it('should map 4.0-only parameters', () => {
+    const lines = generateVcfContact(contact, { version: '3.0' }).replace(/\r\n /g, '').split('\r\n');
+
+    expect(lines).toContain('EMAIL;TYPE=work,pref:jane@work.com');
+    expect(lines).toContain('TEL;TYPE=cell:+1-555-123-4567');
+    expect(lines).toContain('ADR;TYPE=home:;;1 Main St;Springfield;;;');
+    expect(lines).toContain('LABEL;TYPE=home:1 Main St\\nSpringfield');
+  });
+
+  it('should add an empty N when the contact has none', () => {
+    const vcfString = generateVcfContact({ UID: 'uid', FN: 'Acme', KIND: 'org', MEMBER: 'urn:uuid:member' }, { version: '3.0' });
+
+    expect(vcfString).toContain('FN:Acme\r\nN:;;;;\r\n');
+    expect(vcfString).toContain('X-ADDRESSBOOKSERVER-KIND:org');
+    expect(vcfString).toContain('X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:member');
+  });
+
+  it('should write a single FN and N of language alternatives', () => {
+    const vcfString = generateVcfContact({
+      UID: 'uid',
+      'FN:ja': '山田太郎',
+      FN: 'Taro Yamada',
+      'N.FAMILYNAMES:ja': '山田',
+      'N.FAMILYNAMES': 'Yamada'
+    }, { version: '3.0' });
+
+    expect(vcfString.match(/^FN[;:]/gm)).toHaveLength(1);
+    expect(vcfString).toContain('FN:Taro Yamada');
+    expect(vcfString.match(/^N[;:]/gm)).toHaveLength(1);
+    expect(vcfString).toContain('N:Yamada;;;;');
+  });
+
+  it('should write every contact of a VcardFile as 3.0', () => {
+    const vcf = new VcardFile('contacts.vcf', [
+      { UID: 'uid1', FN: 'One' },
+      { UID: 'uid2', FN: 'Two' }
+    ]);
+
+    const vcfString = vcf.toVCardString({ version: '3.0' });
+
+    expect(vcfString.match(/VERSION:3\.0/g)).toHaveLength(2);
+    expect(parseVcfFile(vcfString).map(contact => contact.UID)).toEqual(['uid1', 'uid2']);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for jCard conversion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VcardFile } from '../../../../src/models/vcardFile';
+import { parseVcfContact } from '../../../../src/models/vcardFile/parsing';
+import { parseJCard, generateJCard, isJCard } from '../../../../src/models/vcardFile/jcard';
+
+describe('jCard', () => {
+  const rfcJCard = ['vcard', [
+    ['version', {}, 'text', '4.0'],
+    ['uid', {}, 'uri', 'urn:uuid:4fbe8971-0bc3-424c-9c26-36c3e1eff6b1'],
+    ['fn', {}, 'text', 'Simon Perreault'],
+    ['n', {}, 'text', ['Perreault', 'Simon', '', '', ['ing. jr', 'M.Sc.']]],
+    ['bday', {}, 'date-and-or-time', '--02-03'],
+    ['anniversary', {}, 'date-and-or-time', '2009-08-08T14:30:00-05:00'],
+    ['gender', {}, 'text', 'M'],
+    ['lang', { pref: '1' }, 'language-tag', 'fr'],
+    ['org', { type: 'work' }, 'text', 'Viagenie'],
+    ['adr', { type: 'work' }, 'text', ['', 'Suite D2-630', '2875 Laurier', 'Quebec', 'QC', 'G1V 2M2', 'Canada']],
+    ['tel', { type: ['work', 'voice'], pref: '1' }, 'uri', 'tel:+1-418-656-9254;ext=102'],
+    ['email', { type: 'work' }, 'text', 'simon.perreault@viagenie.ca'],
+    ['categories', {}, 'text', 'work', 'friends, old'],
+    ['tz', {}, 'utc-offset', '-05:00'],
+    ['x-custom', { group: 'item1' }, 'unknown', 'raw;value']
+  ]];
+
+  it('should read jCard values into the frontmatter model', () => {
+    const { contacts, diagnostics } = parseJCard(rfcJCard, { preserveUnknownProperties: true });
+    const contact = contacts[0];
+
+    expect(diagnostics).toEqual([]);
+    expect(contact.UID).toBe('urn:uuid:4fbe8971-0bc3-424c-9c26-36c3e1eff6b1');
+    expect(contact['N.FAMILYNAMES']).toBe('Perreault');
+    expect(contact['N.HONORIFICSUFFIXES']).toEqual(['ing. jr', 'M.Sc.']);
+    expect(contact.BDAY).toBe('--02-03');
+    expect(contact.ANNIVERSARY).toBe('2009-08-08T14:30:00-05:00');
+    expect(contact['ADR.WORK.STREETADDRESS']).toBe('2875 Laurier');
+    expect(contact['TEL.WORK']).toBe('tel:+1-418-656-9254;ext=102');
+    expect(contact['TEL.WORK.@TYPE']).toBe('work,voice');
+    expect(contact['TEL.WORK.@VALUE']).toBe('uri');
+    expect(contact['CATEGORIES.1']).toBe('friends, old');
+    expect(contact.TZ).toBe('-0500');
+    expect(contact['PRESERVED.0']).toBe('item1.X-CUSTOM:raw;value');
+  });
+
+  it('should write the frontmatter model as jCard', () => {
+    const contact = parseVcfContact([
+      'BEGIN:VCARD',
+      'VERSION:4.0',
+      'UID:uid-1',
+      'FN:Jane Doe',
+      'N:Doe;Jane;;;',
+      'EMAIL;TYPE=work,internet;PREF=1:jane@work.com',
+      'NOTE:Line one\\nWith\\, comma',
+      'BDAY:19850415',
+      'REV:20240102T103000Z',
+      'END:VCARD',
+      ''
+    ].join('\r\n'))!;
+
+    const [jCard] = generateJCard([contact]);
+
+    expect(jCard[0]).toBe('vcard');
+    expect(jCard[1]).toContainEqual(['version', {}, 'text', '4.0']);
+    expect(jCard[1]).toContainEqual(['uid', {}, 'text', 'uid-1']);
+    expect(jCard[1]).toContainEqual(['n', {}, 'text', ['Doe', 'Jane', '', '', '']]);
+    expect(jCard[1]).toContainEqual(['email', { type: ['work', 'internet'], pref: '1' }, 'text', 'jane@work.com']);
+    expect(jCard[1]).toContainEqual(['note', {}, 'text', 'Line one\nWith, comma']);
+    expect(jCard[1]).toContainEqual(['bday', {}, 'date-and-or-time', '1985-04-15']);
+    expect(jCard[1]).toContainEqual(['rev', {}, 'timestamp', '2024-01-02T10:30:00Z']);
+  });
+
+  it('should round-trip contacts through jCard JSON', () => {
+    const original = parseJCard(rfcJCard, { preserveUnknownProperties: true }).contacts;
+
+    const json = JSON.stringify(new VcardFile('contacts.vcf', original).toJCard());
+    const vcf = VcardFile.fromJCard(json, 'contacts.json', { preserveUnknownProperties: true });
+
+    expect(vcf.getAllContacts()).toEqual(original);
+  });
+
+  it('should detect jCards', () => {
+    expect(isJCard(rfcJCard)).toBe(true);
+    expect(isJCard([rfcJCard, rfcJCard])).toBe(true);
+    expect(isJCard({ name: 'package' })).toBe(false);
+    expect(isJCard([])).toBe(false);
+  });
+
+  it('should report invalid JSON and cards', () => {
+    expect(parseJCard('{not json').diagnostics[0].message).toContain('Invalid JSON');
+    expect(parseJCard({}).diagnostics[0].message).toBe('Not a jCard');
+
+    const { contacts, diagnostics } = parseJCard([rfcJCard, ['vcard', [['fn', {}, 'text', 'No UID']]]]);
+    expect(contacts).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ card: 1, line: 0, property: 'UID', severity: 'error' });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for language alternatives
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseVcfContact } from '../../../../src/models/vcardFile/parsing';
+import { generateVcfContact } from '../../../../src/models/vcardFile/generation';
+import { getFieldMapping, buildFrontmatterKey, parseFrontmatterKey } from '../../../../src/models/vcardFile/schema';
+import { validateVcardData } from '../../../../src/models/vcardFile/validation';
+import { getLanguageAlternatives, getValueInLanguage } from '../../../../src/models/vcardFile/languages';
+
+describe('Language alternatives', () => {
+  const vcfContent = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    'UID:uid-taro',
+    'FN;ALTID=1;LANGUAGE=ja:山田太郎',
+    'FN;ALTID=1;LANGUAGE=en:Taro Yamada',
+    'N;ALTID=1;LANGUAGE=ja:山田;太郎;;;',
+    'N;ALTID=1;LANGUAGE=en:Yamada;Taro;;;',
+    'TITLE;ALTID=1;LANGUAGE=ja:部長',
+    'TITLE;ALTID=1;LANGUAGE=EN:Manager',
+    'TITLE:Treasurer',
+    'END:VCARD',
+    ''
+  ].join('\r\n');
+
+  it('should key alternatives by language', () => {
+    const contact = parseVcfContact(vcfContent)!;
+
+    expect(contact).toEqual({
+      UID: 'uid-taro',
+      FN: '山田太郎',
+      'FN.@LANGUAGE': 'ja',
+      'FN:en': 'Taro Yamada',
+      'N.FAMILYNAMES': '山田',
+      'N.GIVENNAMES': '太郎',
+      'N.@LANGUAGE': 'ja',
+      'N:en.FAMILYNAMES': 'Yamada',
+      'N:en.GIVENNAMES': 'Taro',
+      'TITLE.0': '部長',
+      'TITLE.0.@LANGUAGE': 'ja',
+      'TITLE.0:en': 'Manager',
+      'TITLE.1': 'Treasurer'
+    });
+  });
+
+  it('should regenerate the ALTID groups', () => {
+    const contact = parseVcfContact(vcfContent)!;
+    const lines = generateVcfContact(contact).split('\r\n');
+
+    expect(lines).toContain('FN;LANGUAGE=ja;ALTID=1:山田太郎');
+    expect(lines).toContain('FN;ALTID=1;LANGUAGE=en:Taro Yamada');
+    expect(lines).toContain('N;ALTID=1;LANGUAGE=en:Yamada;Taro;;;');
+    expect(lines).toContain('TITLE;ALTID=1;LANGUAGE=en:Manager');
+    expect(lines).toContain('TITLE:Treasurer');
+    expect(parseVcfContact(generateVcfContact(contact))).toEqual(contact);
+  });
+
+  it('should not number ALTID groups like existing ALTIDs', () => {
+    const lines = generateVcfContact({
+      UID: 'uid-1',
+      FN: 'Jane',
+      'NOTE.0': 'Hello',
+      'NOTE.0:de': 'Hallo',
+      'NOTE.1': 'Other',
+      'NOTE.1.@ALTID': '1'
+    }).split('\r\n');
+
+    expect(lines).toContain('NOTE;ALTID=2:Hello');
+    expect(lines).toContain('NOTE;ALTID=2;LANGUAGE=de:Hallo');
+    expect(lines).toContain('NOTE;ALTID=1:Other');
+  });
+
+  it('should accept alternatives of single-valued properties', () => {
+    const result = validateVcardData(parseVcfContact(vcfContent)!);
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should parse the language of a key', () => {
+    expect(parseFrontmatterKey('N:ja.FAMILYNAMES')).toMatchObject({ property: 'N', component: 'FAMILYNAMES', language: 'ja', propertyKey: 'N:ja' });
+    expect(parseFrontmatterKey('TITLE.WORK.0:zh-Hant')).toMatchObject({ types: ['WORK'], index: 0, language: 'zh-Hant' });
+    expect(parseFrontmatterKey('EMAIL.X:CUSTOM')).toMatchObject({ types: ['X:CUSTOM'], language: '' });
+    expect(buildFrontmatterKey(getFieldMapping('ORG'), { language: 'de', item: 1 })).toBe('ORG:de.1');
+  });
+
+  it('should pick the value in a language', () => {
+    const contact = parseVcfContact(vcfContent)!;
+
+    expect(Array.from(getLanguageAlternatives(contact, 'FN'))).toEqual([['FN', 'ja'], ['FN:en', 'en']]);
+    expect(getValueInLanguage(contact, 'FN', 'en')).toBe('Taro Yamada');
+    expect(getValueInLanguage(contact, 'FN', 'en-GB')).toBe('Taro Yamada');
+    expect(getValueInLanguage(contact, 'FN', 'JA')).toBe('山田太郎');
+    expect(getValueInLanguage(contact, 'FN', 'fr')).toBe('山田太郎');
+    expect(getValueInLanguage(contact, 'FN', '')).toBe('山田太郎');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Unit tests for LDIF import and export
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VcardFile } from '../../../../src/models/vcardFile';
+import { parseLdif, generateLdif } from '../../../../src/models/vcardFile/ldif';
+
+describe('LDIF', () => {
+  const thunderbird = [
+    'version: 1',
+    '',
+    'dn: cn=Jane Doe,mail=jane@example.com',
+    'objectclass: top',
+    'objectclass: person',
+    'objectclass: inetOrgPerson',
+    'objectclass: mozillaAbPersonAlpha',
+    'givenName: Jane',
+    'sn: Doe',
+    'cn: Jane Doe',
+    'mail: jane@example.com',
+    'mozillaSecondEmail: jane@home.com',
+    'telephoneNumber: +1 555 0100',
+    'mobile: +1 555 0101',
+    'o: Acme',
+    'ou: Sales',
+    'title: Engineer',
+    'street: 1 Main St',
+    'l: Springfield',
+    'postalCode: 62701',
+    'c: US',
+    'mozillaHomeLocalityName: Shelbyville',
+    'birthyear: 1990',
+    'birthmonth: 05',
+    'birthday: 17',
+    'description:: TGluZSAxCkxpbmUgMiDDpA==',
+    '',
+    '# A mailing list',
+    'dn: cn=Friends',
+    'objectclass: top',
+    'objectclass: groupOfNames',
+    'cn: Friends',
+    '',
+    'dn: mail=bob@example.com',
+    'mail: bob@example.com',
+    ''
+  ].join('\n');
+
+  it('should map inetOrgPerson and Mozilla attributes', () => {
+    const { contacts } = parseLdif(thunderbird);
+    const jane = contacts[0];
+
+    expect(jane.UID).toMatch(/^urn:uuid:/);
+    expect(jane.FN).toBe('Jane Doe');
+    expect(jane['N.GIVENNAMES']).toBe('Jane');
+    expect(jane['N.FAMILYNAMES']).toBe('Doe');
+    expect(jane['EMAIL.0']).toBe('jane@example.com');
+    expect(jane['EMAIL.1']).toBe('jane@home.com');
+    expect(jane['TEL.WORK']).toBe('+1 555 0100');
+    expect(jane['TEL.CELL']).toBe('+1 555 0101');
+    expect(jane['ORG.0']).toBe('Acme');
+    expect(jane['ORG.1']).toBe('Sales');
+    expect(jane.TITLE).toBe('Engineer');
+    expect(jane['ADR.WORK.STREETADDRESS']).toBe('1 Main St');
+    expect(jane['ADR.WORK.COUNTRYNAME']).toBe('US');
+    expect(jane['ADR.HOME.LOCALITY']).toBe('Shelbyville');
+    expect(jane.BDAY).toBe('1990-05-17');
+    expect(jane.NOTE).toBe('Line 1\nLine 2 ä');
+  });
+
+  it('should skip groups and name entries without a name', () => {
+    const { contacts, diagnostics } = parseLdif(thunderbird);
+
+    expect(contacts).toHaveLength(2);
+    expect(contacts[1].FN).toBe('bob@example.com');
+    expect(diagnostics).toEqual([
+      { card: 1, line: 29, message: 'Skipped group entry', severity: 'warning' }
+    ]);
+  });
+
+  it('should unfold lines and skip change records', () => {
+    const ldif = [
+      'dn: cn=Long Name',
+      'cn: Alexandra Katharina',
+      '  von Musterhausen',
+      'entryUUID: 4A5B6C7D-0000-4000-8000-000000000001',
+      '',
+      'dn: cn=Jane Doe',
+      'changetype: delete',
+      ''
+    ].join('\r\n');
+    const { contacts, diagnostics } = parseLdif(ldif);
+
+    expect(contacts).toHaveLength(1);
+    expect(contacts[0].FN).toBe('Alexandra Katharina von Musterhausen');
+    expect(contacts[0].UID).toBe('urn:uuid:4a5b6c7d-0000-4000-8000-000000000001');
+    expect(diagnostics[0].message).toBe('Skipped delete change record');
+  });
+
+  it('should report content without entries', () => {
+    const { contacts, diagnostics } = parseLdif('version: 1\n');
+
+    expect(contacts).toHaveLength(0);
+    expect(diagnostics[0].message).toBe('No LDIF entries found');
+  });
+
+  it('should write Thunderbird compatible entries', () => {
+    const ldif = generateLdif([{
+      UID: 'uid-1',
+      FN: 'Doe, Jane',
+      'N.GIVENNAMES': 'Jane',
+      'EMAIL.HOME': 'jane@home.com',
+      'EMAIL.WORK': 'jane@work.com',
+      'EMAIL.WORK.@PREF': '1',
+      TEL: '+1 555 0100',
+      'TEL.CELL': '+1 555 0101',
+      'ADR.LOCALITY': 'Springfield',
+      'ADR.HOME.LOCALITY': 'Shelbyville',
+      BDAY: '--0517',
+      NOTE: 'Grüße'
+    }]);
+
+    expect(ldif).toBe([
+      'version: 1',
+      '',
+      'dn: cn=Doe\\, Jane,mail=jane@work.com',
+      'objectclass: top',
+      'objectclass: person',
+      'objectclass: organizationalPerson',
+      'objectclass: inetOrgPerson',
+      'objectclass: mozillaAbPersonAlpha',
+      'cn: Doe, Jane',
+      'mail: jane@work.com',
+      'mozillaSecondEmail: jane@home.com',
+      'givenName: Jane',
+      'sn: Doe, Jane',
+      'telephoneNumber: +1 555 0100',
+      'mobile: +1 555 0101',
+      'l: Springfield',
+      'mozillaHomeLocalityName: Shelbyville',
+      'description:: R3LDvMOfZQ==',
+      'birthmonth: 05',
+      'birthday: 17',
+      ''
+    ].join('\n'));
+  });
+
+  it('should fold long lines and round-trip', () => {
+    const note = 'A note that is long enough to be folded over more than one line of the LDIF file';
+    const ldif = generateLdif([{ UID: 'uid-1', FN: 'Jane Doe', 'ADR.WORK.LOCALITY': 'Springfield', NOTE: note }]);
+    const lines = ldif.split('\n');
+
+    expect(lines.every(line => line.length <= 76)).toBe(true);
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+
+    const { contacts } = VcardFile.fromLdif(ldif);
+    expect(contacts[0].NOTE).toBe(note);
+    expect(contacts[0]['ADR.WORK.LOCALITY']).toBe('Springfield');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for three-way contact merges
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeContacts, resolveMergeConflicts } from '../../../../src/models/vcardFile/merge';
+
+describe('Merge', () => {
+  const base = {
+    UID: 'urn:uuid:merge-1',
+    FN: 'Jane Doe',
+    'EMAIL.HOME': 'jane@example.com',
+    'TEL.CELL': '+1 555 0100',
+    'ADR.HOME.STREET': 'Main St 1',
+    'ADR.HOME.LOCALITY': 'Springfield',
+    REV: '20240101T000000Z'
+  };
+
+  it('should take the changes of both sides', () => {
+    const ours = { ...base, 'TEL.CELL': '+1 555 0199', tags: ['people'] };
+    const theirs = { ...base, 'EMAIL.HOME': undefined, TITLE: 'CEO' };
+    const result = mergeContacts(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged['TEL.CELL']).toBe('+1 555 0199');
+    expect(result.merged['EMAIL.HOME']).toBeUndefined();
+    expect(result.merged.TITLE).toBe('CEO');
+    expect(result.merged.tags).toEqual(['people']);
+  });
+
+  it('should replace structured fields as a whole, whatever their key aliases', () => {
+    const theirs = { ...base, 'ADR.HOME.STREET': undefined, 'ADR.HOME.STREETADDRESS': 'Elm St 2' };
+    const result = mergeContacts(base, base, theirs);
+
+    expect(result.merged['ADR.HOME.STREET']).toBeUndefined();
+    expect(result.merged['ADR.HOME.STREETADDRESS']).toBe('Elm St 2');
+    expect(result.merged['ADR.HOME.LOCALITY']).toBe('Springfield');
+  });
+
+  it('should report fields both sides changed differently', () => {
+    const ours = { ...base, FN: 'Jane Smith' };
+    const theirs = { ...base, FN: 'Jane Miller' };
+    const result = mergeContacts(base, ours, theirs);
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ key: 'FN', base: 'Jane Doe', ours: 'Jane Smith', theirs: 'Jane Miller' });
+    expect(result.merged.FN).toBe('Jane Smith');
+    expect(resolveMergeConflicts(result, { FN: 'theirs' }).FN).toBe('Jane Miller');
+  });
+
+  it('should not report the same change on both sides', () => {
+    const ours = { ...base, FN: 'Jane Smith', REV: '20240301T000000Z' };
+    const theirs = { ...base, FN: 'Jane Smith', REV: '20240201T000000Z' };
+    expect(mergeContacts(base, ours, theirs).conflicts).toEqual([]);
+  });
+
+  it('should let the newer REV decide conflicts when asked', () => {
+    const ours = { ...base, FN: 'Jane Smith', REV: '2024-03-01T00:00:00Z' };
+    const theirs = { ...base, FN: 'Jane Miller', REV: '20240401T000000Z' };
+    const result = mergeContacts(base, ours, theirs, { preferNewerRev: true });
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.decidedByRev.map(conflict => conflict.key)).toEqual(['FN']);
+    expect(result.merged.FN).toBe('Jane Miller');
+    expect(result.merged.REV).toBe('20240401T000000Z');
+  });
+
+  it('should leave conflicts open when a side has no REV', () => {
+    const ours = { ...base, FN: 'Jane Smith', REV: undefined };
+    const theirs = { ...base, FN: 'Jane Miller', REV: '20240401T000000Z' };
+    expect(mergeContacts(base, ours, theirs, { preferNewerRev: true }).conflicts).toHaveLength(1);
+  });
+
+  it('should not report values that were only reordered', () => {
+    const listBase = { UID: 'urn:uuid:merge-2', FN: 'Jane Doe', 'EMAIL.1': 'a@example.com', 'EMAIL.2': 'b@example.com', 'TEL.CELL': '+1 555 0100' };
+    const ours = { ...listBase, 'EMAIL.1': 'b@example.com', 'EMAIL.2': 'a@example.com' };
+    const theirs = { ...listBase, 'EMAIL.2': 'c@example.com' };
+    const result = mergeContacts(listBase, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged['EMAIL.1']).toBe('c@example.com');
+    expect(result.merged['EMAIL.2']).toBe('a@example.com');
+  });
+
+  it('should take a removed value by value rather than by index', () => {
+    const listBase = { UID: 'urn:uuid:merge-2', FN: 'Jane Doe', 'TEL.1': '+1 555 0100', 'TEL.2': '+1 555 0101' };
+    const theirs = { UID: 'urn:uuid:merge-2', FN: 'Jane Doe', 'TEL.1': '+1 555 0101' };
+    const result = mergeContacts(listBase, listBase, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged['TEL.1']).toBeUndefined();
+    expect(result.merged['TEL.2']).toBe('+1 555 0101');
+  });
+
+  it('should keep a value the note removed when the incoming list is reordered', () => {
+    const listBase = { UID: 'urn:uuid:merge-3', FN: 'Jane Doe', 'EMAIL.HOME.0': 'a@x', 'EMAIL.HOME.1': 'b@x' };
+    const ours = { UID: 'urn:uuid:merge-3', FN: 'Jane Doe', 'EMAIL.HOME': 'a@x' };
+    const theirs = { ...listBase, 'EMAIL.HOME.0': 'b@x', 'EMAIL.HOME.1': 'a@x', 'EMAIL.HOME.2': 'c@x' };
+    const result = mergeContacts(listBase, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toEqual({ UID: 'urn:uuid:merge-3', FN: 'Jane Doe', 'EMAIL.HOME': 'a@x', 'EMAIL.HOME.2': 'c@x' });
+  });
+
+  it('should still report a value moved to another type', () => {
+    const ours = { ...base, 'EMAIL.HOME': undefined, 'EMAIL.WORK': 'jane@example.com' };
+    const theirs = { ...base, 'EMAIL.HOME': 'jane@home.example.com' };
+    const result = mergeContacts(base, ours, theirs);
+
+    expect(result.conflicts.map(conflict => conflict.key)).toEqual(['EMAIL.HOME']);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Unit tests for VCF parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VcardFile, VcardConversion } from '../../../../src/models/vcardFile';
+import { parseVcfFile, parseVcfContact, parseVcfDocument, formatVcfDiagnostic } from '../../../../src/models/vcardFile/parsing';
+import { generateVcfContact } from '../../../../src/models/vcardFile/generation';
+
+describe('Preserving unknown properties', () => {
+  const appleVcf = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    'UID:apple-uid',
+    'FN:John Doe',
+    'X-PHONETIC-FIRST-NAME:Jon',
+    'item1.EMAIL;type=INTERNET;type=pref:john@example.com',
+    'item1.X-ABLabel:_$!<Other>!$_',
+    'TEL;TYPE=cell:+1-555-123-4567',
+    'X-SOCIALPROFILE;type=twitter;x-user=johndoe:http://twitter.com/johndoe',
+    'item2.X-ANNIVERSARY;VALUE=date:2010-06-20',
+    'item2.X-ABLabel:Wedding\\, first',
+    'END:VCARD',
+    ''
+  ].join('\r\n');
+
+  it('should keep grouped, X- and unknown properties verbatim', () => {
+    const parsed = parseVcfContact(appleVcf, { preserveUnknownProperties: true })!;
+
+    expect(parsed['PRESERVED.0']).toBe('X-PHONETIC-FIRST-NAME:Jon');
+    expect(parsed['PRESERVED.1']).toBe('item1.EMAIL;type=INTERNET;type=pref:john@example.com');
+    expect(parsed['PRESERVED.2']).toBe('item1.X-ABLabel:_$!<Other>!$_');
+    expect(parsed['PRESERVED.5']).toBe('item2.X-ABLabel:Wedding\\, first');
+    expect(parsed['TEL.CELL']).toBe('+1-555-123-4567');
+  });
+
+  it('should write preserved lines back unchanged', () => {
+    const parsed = parseVcfContact(appleVcf, { preserveUnknownProperties: true })!;
+    const vcfString = generateVcfContact(parsed);
+
+    for (const line of appleVcf.split('\r\n').filter(line => /^(item|X-)/.test(line))) {
+      expect(vcfString).toContain(`\r\n${line}\r\n`);
+    }
+    expect(parseVcfContact(vcfString, { preserveUnknownProperties: true })).toEqual(parsed);
+  });
+
+  it('should unfold preserved lines and fold them again on output', () => {
+    const longValue = 'x'.repeat(100);
+    const vcfContent = `BEGIN:VCARD\r\nVERSION:4.0\r\nUID:uid\r\nFN:A\r\nX-LONG:${longValue.slice(0, 50)}\r\n ${longValue.slice(50)}\r\nEND:VCARD\r\n`;
+
+    const parsed = parseVcfContact(vcfContent, { preserveUnknownProperties: true })!;
+    expect(parsed['PRESERVED.0']).toBe(`X-LONG:${longValue}`);
+
+    const vcfString = generateVcfContact(parsed);
+    expect(vcfString.replace(/\r\n /g, '')).toContain(`X-LONG:${longValue}`);
+  });
+
+  it('should keep preserved lines with their own contact in multi-contact files', () => {
+    const vcfContent = [
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:uid1', 'FN:One', 'X-ONE:1', 'END:VCARD',
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:uid2', 'FN:Two', 'END:VCARD',
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:uid3', 'FN:Three', 'X-THREE:3', 'END:VCARD',
+      ''
+    ].join('\r\n');
+
+    const contacts = parseVcfFile(vcfContent, { preserveUnknownProperties: true });
+
+    expect(contacts[0]['PRESERVED.0']).toBe('X-ONE:1');
+    expect(contacts[1]['PRESERVED.0']).toBeUndefined();
+    expect(contacts[2]['PRESERVED.0']).toBe('X-THREE:3');
+  });
+
+  it('should not preserve lines when the mode is off', () => {
+    const parsed = parseVcfContact(appleVcf)!;
+    expect(Object.keys(parsed).some(key => key.startsWith('PRESERVED'))).toBe(false);
+  });
+
+  it('should pass parse options through VcardFile.fromString', () => {
+    const vcf = VcardFile.fromString(appleVcf, 'apple.vcf', { preserveUnknownProperties: true });
+    expect(vcf.getContact('apple-uid')?.['PRESERVED.0']).toBe('X-PHONETIC-FIRST-NAME:Jon');
+  });
+});
+
+describe('Legacy versions', () => {
+  it('should decode quoted-printable values with their charset', () => {
+    const vcfContent = [
+      'BEGIN:VCARD',
+      'VERSION:2.1',
+      'UID:legacy-1',
+      'N;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:M=C3=BCller;J=C3=BCrgen;;;',
+      'FN;CHARSET=ISO-8859-1;ENCODING=QUOTED-PRINTABLE:J=FCrgen M=FCller',
+      'NOTE;ENCODING=QUOTED-PRINTABLE:First line=0D=0A=',
+      'second line',
+      'END:VCARD',
+      ''
+    ].join('\r\n');
+
+    const parsed = parseVcfContact(vcfContent)!;
+
+    expect(parsed.FN).toBe('Jürgen Müller');
+    expect(parsed['N.FAMILYNAMES']).toBe('Müller');
+    expect(parsed['N.GIVENNAMES']).toBe('Jürgen');
+    expect(parsed.NOTE).toBe('First line\nsecond line');
+  });
+
+  it('should convert bare type tokens of vCard 2.1', () => {
+    const vcfContent = [
+      'BEGIN:VCARD',
+      'VERSION:2.1',
+      'UID:legacy-2',
+      'FN:Jane Doe',
+      'TEL;CELL;HOME:+1-555-123-4567',
+      'TEL;WORK;VOICE;PREF:+1-555-987-6543',
+      'EMAIL;INTERNET:jane@example.com',
+      'END:VCARD',
+      ''
+    ].join('\r\n');
+
+    const parsed = parseVcfContact(vcfContent)!;
+
+    expect(parsed['TEL.CELL']).toBe('+1-555-123-4567');
+    expect(parsed['TEL.CELL.@TYPE']).toBe('cell,home');
+    expect(parsed['TEL.WORK']).toBe('+1-555-987-6543');
+    expect(parsed['TEL.WORK.@TYPE']).toBe('work,voice');
+    expect(parsed['TEL.WORK.@PREF']).toBe('1');
+    expect(parsed.EMAIL).toBe('jane@example.com');
+  });
+
+  it('should turn base64 photos into data URIs', () => {
+    const vcfContent = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'UID:legacy-3',
+      'FN:Jane Doe',
+      'PHOTO;ENCODING=b;TYPE=JPEG:/9j/4AAQSkZJRgABAQ',
+      ' AAAQABAAD/2wBD',
+      'END:VCARD',
+      ''
+    ].join('\r\n');
+
+    const parsed = parseVcfContact(vcfContent)!;
+
+    expect(parsed.PHOTO).toBe('data:image/jpeg;base64,/9j/4AAQSkZJRgABAQAAAQABAAD/2wBD');
+  });
+
+  it('should convert vCard 3.0 values and parameters', () => {
+    const vcfContent = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'UID:legacy-4',
+      'FN:Jane Doe',
+      'EMAIL;TYPE=INTERNET;TYPE=WORK;TYPE=pref:jane@work.com',
+      'BDAY:1985-04-15',
+      'REV:2024-01-02T10:30:00Z',
+      'TZ:-05:00',
+      'GEO:37.386013;-122.082932',
+      'END:VCARD',
+      ''
+    ].join('\r\n');
+
+    const parsed = parseVcfContact(vcfContent)!;
+
+    expect(parsed['EMAIL.WORK']).toBe('jane@work.com');
+    expect(parsed['EMAIL.WORK.@PREF']).toBe('1');
+    expect(parsed.BDAY).toBe('1985-04-15');
+    expect(parsed.REV).toBe('20240102T103000Z');
+    expect(parsed.TZ).toBe('-0500');
+    expect(parsed.GEO).toBe('geo:37.386013,-122.082932');
+  });
+
+  it('should accept LF line endings and generate missing FN and UID', () => {
+    const vcfContent = 'BEGIN:VCARD\nVERSION:2.1\nN:Doe;John;;Dr.;\nEND:VCARD\n';
+
+    const parsed = parseVcfContact(vcfContent)!;
+
+    expect(parsed.FN).toBe('Dr. John Doe');
+    expect(parsed.UID).toMatch(/^urn:uuid:[0-9a-f-]{36}$/);
+  });
+
+  it('should drop or preserve properties removed in vCard 4.0', () => {
+    const vcfContent = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'UID:legacy-5',
+      'FN:Jane Doe',
+      'LABEL;TYPE=HOME:1 Main St',
+      'MAILER:Outlook',
+      'END:VCARD',
+      ''
+    ].join('\r\n');
+
+    expect(parseVcfContact(vcfContent)!.FN).toBe('Jane Doe');
+
+    const preserved = parseVcfContact(vcfContent, { preserveUnknownProperties: true })!;
+    expect(preserved['PRESERVED.0']).toBe('MAILER:Outlook');
+    expect(preserved['PRESERVED.1']).toBeUndefined();
+  });
+
+  it('should move LABEL into the LABEL parameter of the matching ADR and drop the others', () => {
+    const vcfContent = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'UID:legacy-6',
+      'FN:Jane Doe',
+      'ADR;TYPE=WORK:;;2 Office Rd;Springfield;;;',
+      'ADR;TYPE=HOME:;;1 Main St;Springfield;;;',
+      'LABEL;TYPE=HOME:1 Main St\\nSpringfield',
+      'LABEL;TYPE=POSTAL:PO Box 7',
+      'END:VCARD',
+      ''
+    ].join('\r\n');
+
+    const parsed = parseVcfContact(vcfContent, { preserveUnknownProperties: true })!;
+
+    expect(parsed['ADR.HOME.@LABEL']).toBe('1 Main St\nSpringfield');
+    expect(parsed['ADR.HOME.STREETADDRESS']).toBe('1 Main St');
+    expect(parsed['ADR.WORK.@LABEL']).toBeUndefined();
+    expect(Object.keys(parsed).some(key => key.startsWith('PRESERVED'))).toBe(false);
+  });
+
+  it('should derive the same UID each time a card without UID is parsed', () => {
+    const vcfContent = 'BEGIN:VCARD\r\nVERSION:3.0\r\nFN:John Doe\r\nEMAIL:john@example.com\r\nEND:VCARD\r\n';
+    const other = vcfContent.replace('john@', 'jdoe@');
+
+    const first = parseVcfContact(vcfContent)!.UID;
+    expect(first).toMatch(/^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(parseVcfContact(vcfContent)!.UID).toBe(first);
+    expect(parseVcfContact(other)!.UID).not.toBe(first);
+  });
+
+  it('should convert Apple group extensions to KIND and MEMBER', () => {
+    const vcfContent = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'UID:legacy-group',
+      'FN:Book Club',
+      'X-ADDRESSBOOKSERVER-KIND:Group',
+      'X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:alice',
+      'X-ADDRESSBOOKSERVER-MEMBER:urn:uuid:bob',
+      'END:VCARD',
+      ''
+    ].join('\r\n');
+
+    const parsed = parseVcfContact(vcfContent)!;
+
+    expect(parsed.KIND).toBe('group');
+    expect(parsed['MEMBER.0']).toBe('urn:uuid:alice');
+    expect(parsed['MEMBER.1']).toBe('urn:uuid:bob');
+  });
+
+  it('should report what was converted for each card', () => {
+    const vcfContent = [
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:modern', 'FN:Modern', 'END:VCARD',
+      'BEGIN:VCARD', 'VERSION:2.1', 'UID:old', 'FN:Old', 'TEL;CELL:123', 'END:VCARD',
+      ''
+    ].join('\r\n');
+    const conversions: VcardConversion[] = [];
+
+    const contacts = parseVcfFile(vcfContent, { conversions });
+
+    expect(contacts).toHaveLength(2);
+    expect(conversions.every(conversion => conversion.card === 1 && conversion.version === '2.1')).toBe(true);
+    expect(conversions.map(conversion => conversion.property)).toEqual(['VERSION', 'TEL']);
+  });
+
+  it('should generate vCard 4.0 from upgraded contacts', () => {
+    const vcfContent = 'BEGIN:VCARD\r\nVERSION:3.0\r\nUID:legacy-6\r\nFN:Jane Doe\r\nTEL;TYPE=CELL:123\r\nEND:VCARD\r\n';
+
+    const parsed = parseVcfContact(vcfContent)!;
+    const vcfString = generateVcfContact(parsed);
+
+    expect(vcfString).toContain('VERSION:4.0');
+    expect(parseVcfContact(vcfString)).toEqual(parsed);
+  });
+});
+
+describe('Diagnostics', () => {
+  const mixedVcf = [
+    'BEGIN:VCARD', 'VERSION:4.0', 'UID:uid1', 'FN:One', 'END:VCARD',
+    'BEGIN:VCARD', 'VERSION:4.0', 'FN:No UID', 'END:VCARD',
+    'BEGIN:VCARD', 'VERSION:4.0', 'UID:uid3', 'FN:Three', 'FOO:bar', 'END:VCARD',
+    'BEGIN:VCARD', 'VERSION:4.0', 'UID:uid4', 'FN:Four', 'END:VCARD',
+    ''
+  ].join('\r\n');
+
+  it('should keep the valid cards when others are invalid', () => {
+    const { contacts } = parseVcfDocument(mixedVcf);
+
+    expect(contacts.map(contact => contact.UID)).toEqual(['uid1', 'uid4']);
+    expect(parseVcfFile(mixedVcf)).toHaveLength(2);
+  });
+
+  it('should report card index, line, property and message of invalid cards', () => {
+    const { diagnostics } = parseVcfDocument(mixedVcf);
+
+    expect(diagnostics).toHaveLength(2);
+    expect(diagnostics[0]).toMatchObject({ card: 1, line: 6, property: 'UID', severity: 'error' });
+    expect(diagnostics[0].message).toContain('missing UID');
+    expect(diagnostics[1]).toMatchObject({ card: 2, line: 14, property: 'FOO', severity: 'error' });
+  });
+
+  it('should report unterminated cards and content outside cards', () => {
+    const vcfContent = 'garbage\r\nBEGIN:VCARD\r\nVERSION:4.0\r\nUID:uid1\r\nFN:One\r\nEND:VCARD\r\nBEGIN:VCARD\r\nUID:uid2\r\n';
+
+    const { contacts, diagnostics } = parseVcfDocument(vcfContent);
+
+    expect(contacts).toHaveLength(1);
+    expect(diagnostics).toEqual([
+      { card: -1, line: 1, message: 'Ignored content outside BEGIN:VCARD and END:VCARD', severity: 'warning' },
+      { card: 1, line: 9, message: 'Card is missing END:VCARD', severity: 'error' }
+    ]);
+  });
+
+  it('should report content without any card', () => {
+    const { contacts, diagnostics } = parseVcfDocument('INVALID CONTENT');
+
+    expect(contacts).toEqual([]);
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toContain('No BEGIN:VCARD found');
+  });
+
+  it('should format diagnostics for display', () => {
+    expect(formatVcfDiagnostic({ card: 2, line: 14, property: 'FOO', message: 'Unknown property', severity: 'error' }))
+      .toBe('Card 3, line 14 (FOO): Unknown property');
+    expect(formatVcfDiagnostic({ card: -1, line: 1, message: 'Ignored', severity: 'warning' }))
+      .toBe('Line 1: Ignored');
+  });
+
+  it('should expose diagnostics on VcardFile', () => {
+    const vcf = VcardFile.fromString(mixedVcf);
+
+    expect(vcf.count).toBe(2);
+    expect(vcf.diagnostics).toHaveLength(2);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for the vCard property schema
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  PROPERTY_SCHEMA,
+  getFieldMapping,
+  buildFrontmatterKey,
+  parseFrontmatterKey,
+  checkFrontmatterKey
+} from '../../../../src/models/vcardFile/schema';
+
+describe('Property schema', () => {
+  it('should build keys from key templates', () => {
+    const adr = getFieldMapping('ADR');
+
+    expect(buildFrontmatterKey(adr, { component: 'LOCALITY' })).toBe('ADR.LOCALITY');
+    expect(buildFrontmatterKey(adr, { type: 'HOME', index: 1, component: 'LOCALITY' })).toBe('ADR.HOME.1.LOCALITY');
+    expect(buildFrontmatterKey(getFieldMapping('ORG'), { item: 0 })).toBe('ORG.0');
+    expect(buildFrontmatterKey(getFieldMapping('EMAIL'), { type: 'WORK' })).toBe('EMAIL.WORK');
+    expect(buildFrontmatterKey(getFieldMapping('X-CUSTOM'), { index: 0 })).toBe('X-CUSTOM.0');
+  });
+
+  it('should build keys from a changed template', () => {
+    const mapping = { ...getFieldMapping('N'), frontmatterKey: 'NAME.{component}' };
+
+    expect(buildFrontmatterKey(mapping, { type: 'WORK', component: 'GIVENNAMES' })).toBe('NAME.GIVENNAMES');
+  });
+
+  it('should split keys according to the property type', () => {
+    expect(parseFrontmatterKey('ADR.HOME.0.CITY')).toMatchObject({
+      property: 'ADR', types: ['HOME'], index: 0, component: 'LOCALITY', item: -1, propertyKey: 'ADR.HOME.0'
+    });
+    expect(parseFrontmatterKey('ORG.WORK.1')).toMatchObject({
+      property: 'ORG', types: ['WORK'], index: -1, item: 1, propertyKey: 'ORG.WORK'
+    });
+    expect(parseFrontmatterKey('TEL.CELL.1')).toMatchObject({
+      property: 'TEL', types: ['CELL'], index: 1, component: '', item: -1
+    });
+    expect(parseFrontmatterKey('N.NICKNAME')).toBeNull();
+    expect(parseFrontmatterKey('EMAIL.@PREF')).toBeNull();
+  });
+
+  it('should describe every RFC 6350 property', () => {
+    expect(PROPERTY_SCHEMA.map(mapping => mapping.vcardField)).toContain('CLIENTPIDMAP');
+    expect(getFieldMapping('BDAY')).toMatchObject({ type: 'date', cardinality: '*1', valueType: 'date-and-or-time' });
+    expect(getFieldMapping('FN').cardinality).toBe('1*');
+    expect(getFieldMapping('NICKNAME')).toMatchObject({ type: 'list', separator: ',' });
+  });
+
+  it('should check keys against the schema', () => {
+    expect(checkFrontmatterKey('ADR.HOME.CITY')).toBeNull();
+    expect(checkFrontmatterKey('TEL.CELL.@PREF')).toBeNull();
+    expect(checkFrontmatterKey('EMAIL.@X-SOURCE')).toBeNull();
+    expect(checkFrontmatterKey('PRESERVED.0')).toBeNull();
+    expect(checkFrontmatterKey('tags')).toBeNull();
+    expect(checkFrontmatterKey('aliases')).toBeNull();
+    expect(checkFrontmatterKey('cssclasses')).toBeNull();
+    expect(checkFrontmatterKey('FN:ja')).toBeNull();
+    expect(checkFrontmatterKey('ADR.HOME.TOWN')).toBe('Unknown component in ADR.HOME.TOWN');
+    expect(checkFrontmatterKey('FOO')).toBe('Unknown property FOO in FOO');
+    expect(checkFrontmatterKey('BDAY.@TYPE')).toBe('Parameter TYPE is not defined for BDAY in BDAY.@TYPE');
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for vCard data validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateVcardData } from '../../../../src/models/vcardFile/validation';
+
+describe('Validation', () => {
+  it('should accept a conforming contact', () => {
+    const result = validateVcardData({
+      UID: 'urn:uuid:1',
+      FN: 'Jane Doe',
+      'N.GIVENNAMES': 'Jane',
+      BDAY: '--0517',
+      ANNIVERSARY: '20100601T1200Z',
+      REV: '20250125T103000Z',
+      'GENDER.SEX': 'F',
+      'EMAIL.WORK': 'jane@example.com',
+      'EMAIL.WORK.@PREF': '1',
+      LANG: 'en-US',
+      'TZ.@VALUE': 'utc-offset',
+      TZ: '-0500',
+      URL: 'https://example.com',
+      'PRESERVED.0': 'X-CUSTOM:1'
+    });
+
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('should check cardinality', () => {
+    const result = validateVcardData({
+      UID: 'uid-1',
+      'N.GIVENNAMES': 'Jane',
+      'N.WORK.GIVENNAMES': 'J.',
+      'TEL.0': '+1 555 0100',
+      'TEL.1': '+1 555 0101'
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'FN: Missing required property',
+      'N, N.WORK: N may only occur once, found 2'
+    ]);
+  });
+
+  it('should allow alternative representations with the same ALTID', () => {
+    const result = validateVcardData({
+      UID: 'uid-1',
+      FN: 'Jane Doe',
+      'N.0.FAMILYNAMES': 'Doe',
+      'N.0.@ALTID': '1',
+      'N.1.FAMILYNAMES': 'ドウ',
+      'N.1.@ALTID': '1',
+      'N.1.@LANGUAGE': 'ja'
+    });
+
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should check value types', () => {
+    const result = validateVcardData({
+      UID: 'uid-1',
+      FN: 'Jane Doe',
+      BDAY: '1990-05-17',
+      ANNIVERSARY: '5/17/1990',
+      REV: '20250125',
+      URL: 'example.com',
+      LANG: 'en_US',
+      'TZ.@VALUE': 'utc-offset',
+      TZ: '+05:00',
+      'GENDER.SEX': 'X',
+      EMAIL: 'jane'
+    });
+
+    expect(result.errors).toEqual([
+      'ANNIVERSARY: Invalid date-and-or-time value "5/17/1990"',
+      'REV: Invalid timestamp value "20250125"',
+      'URL: Invalid uri value "example.com"',
+      'LANG: Invalid language-tag value "en_US"',
+      'TZ: Invalid utc-offset value "+05:00"',
+      'GENDER.SEX: Invalid sex "X", expected M, F, O, N or U'
+    ]);
+    expect(result.warnings).toEqual([
+      'EMAIL: "jane" does not look like an email address'
+    ]);
+  });
+
+  it('should accept partial dates and text dates', () => {
+    for (const value of ['1985', '1985-04', '19850415', '--04', '---15', '19850415T1030', 'T1030Z', '1985-04-15', '--04-15', '1985-04-15T10:30Z']) {
+      expect(validateVcardData({ UID: 'uid-1', FN: 'Jane', BDAY: value }).errors).toEqual([]);
+    }
+    expect(validateVcardData({ UID: 'uid-1', FN: 'Jane', BDAY: 'circa 1800', 'BDAY.@VALUE': 'text' }).errors).toEqual([]);
+  });
+
+  it('should check parameters', () => {
+    const result = validateVcardData({
+      UID: 'uid-1',
+      FN: 'Jane Doe',
+      'TEL.CELL': '+1 555 0100',
+      'TEL.CELL.@PREF': '0',
+      'TEL.CELL.@X-SOURCE': 'phone',
+      NOTE: 'Hi',
+      'NOTE.@LANGUAGE': 'english',
+      'NOTE.@VALUE': 'string',
+      BDAY: '19900517',
+      'BDAY.@TYPE': 'home'
+    });
+
+    expect(result.errors).toEqual([
+      'TEL.CELL.@PREF: PREF must be an integer from 1 to 100, found "0"',
+      'NOTE.@VALUE: Unknown value type "string"'
+    ]);
+    expect(result.warnings).toEqual(['Parameter TYPE is not defined for BDAY in BDAY.@TYPE']);
+  });
+
+  it('should apply KIND-specific rules', () => {
+    const group = validateVcardData({ UID: 'uid-1', FN: 'Team', KIND: 'group', MEMBER: 'urn:uuid:2' });
+    const org = validateVcardData({ UID: 'uid-1', FN: 'Acme', KIND: 'org', MEMBER: 'urn:uuid:2', BDAY: '19900517' });
+
+    expect(group.valid).toBe(true);
+    expect(org.errors).toEqual(['MEMBER: MEMBER is only allowed when KIND is group']);
+    expect(org.warnings).toEqual(['BDAY: BDAY only applies to individuals, but KIND is org']);
+  });
+});
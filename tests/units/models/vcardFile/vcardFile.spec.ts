@@ -240,6 +240,53 @@ END:VCARD\r
       expect(generated).toContain('UID:test-uid');
       expect(generated).toContain('FN:John Doe');
     });
+
+    it('should round-trip all RFC 6350 properties', () => {
+      const vcfContent = [
+        'BEGIN:VCARD',
+        'VERSION:4.0',
+        'UID:urn:uuid:round-trip',
+        'FN:John Doe',
+        'N:Doe;John;Q,R;Dr.;Jr.',
+        'NICKNAME:Johnny,JD',
+        'KIND:individual',
+        'GENDER:M;man',
+        'BDAY:19850415',
+        'ANNIVERSARY:20100620',
+        'ORG:Acme;Engineering;Platform',
+        'TITLE:Engineer',
+        'ROLE:Lead',
+        'CATEGORIES:work,developer,friend',
+        'EMAIL;TYPE=work:john@work.com',
+        'TEL;TYPE=cell:+1-555-123-4567',
+        'ADR;TYPE=home:PO 1;Apt 2;1 Main St;Springfield;IL;62701;USA',
+        'ADR:;;2 Side St;Shelbyville;;;',
+        'IMPP;TYPE=work:xmpp:john@example.com',
+        'LANG;TYPE=home:en',
+        'LANG:fr',
+        'GEO:geo:37.386013,-122.082932',
+        'TZ:-0500',
+        'URL:https://johndoe.com',
+        'PHOTO:https://johndoe.com/photo.jpg',
+        'NOTE;TYPE=work:Met at conference',
+        'RELATED;TYPE=friend:urn:uuid:friend-uid',
+        'MEMBER:urn:uuid:member-uid',
+        'KEY:https://johndoe.com/key.asc',
+        'FBURL:https://johndoe.com/free.ifb',
+        'CALURI:https://johndoe.com/cal',
+        'CALADRURI:mailto:john@example.com',
+        'SOURCE:https://johndoe.com/john.vcf',
+        'PRODID:-//Test//EN',
+        'REV:20250125T103000Z',
+        'END:VCARD',
+        ''
+      ].join('\r\n');
+
+      const original = parseVcfContact(vcfContent)!;
+      const roundTripped = parseVcfContact(generateVcfContact(original));
+
+      expect(roundTripped).toEqual(original);
+    });
   });
 
   describe('Integration with VcardFile class', () => {
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for xCard conversion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VcardFile } from '../../../../src/models/vcardFile';
+import { parseXCard, generateXCard, isXCard } from '../../../../src/models/vcardFile/xcard';
+
+describe('xCard', () => {
+  const rfcXCard = `<?xml version="1.0" encoding="UTF-8"?>
+<!-- Directory export -->
+<vcards xmlns="urn:ietf:params:xml:ns:vcard-4.0">
+<vcard>
+  <uid><uri>urn:uuid:4fbe8971-0bc3-424c-9c26-36c3e1eff6b1</uri></uid>
+  <fn><text>Simon Perreault</text></fn>
+  <n>
+    <surname>Perreault</surname>
+    <given>Simon</given>
+    <additional/>
+    <prefix/>
+    <suffix>ing. jr</suffix>
+    <suffix>M.Sc.</suffix>
+  </n>
+  <bday><date>--0203</date></bday>
+  <anniversary><date-time>20090808T1430-0500</date-time></anniversary>
+  <gender><sex>M</sex></gender>
+  <org>
+    <parameters><type><text>work</text></type></parameters>
+    <text>Viagenie</text>
+  </org>
+  <adr>
+    <parameters>
+      <type><text>work</text></type>
+      <label><text>Simon Perreault
+2875 boul. Laurier, suite D2-630</text></label>
+    </parameters>
+    <pobox/><ext/>
+    <street>2875 boul. Laurier, suite D2-630</street>
+    <locality>Quebec</locality><region>QC</region>
+    <code>G1V 2M2</code><country>Canada</country>
+  </adr>
+  <tel>
+    <parameters>
+      <type><text>work</text><text>voice</text></type>
+      <pref><integer>1</integer></pref>
+    </parameters>
+    <uri>tel:+1-418-656-9254;ext=102</uri>
+  </tel>
+  <email>
+    <parameters><type><text>work</text></type></parameters>
+    <text>simon.perreault@viagenie.ca</text>
+  </email>
+  <note><text><![CDATA[Likes <xml> & "quotes"]]></text></note>
+  <group name="item1">
+    <x-ablabel><unknown>Home &amp; Garden</unknown></x-ablabel>
+  </group>
+</vcard>
+</vcards>
+`;
+
+  it('should read xCard elements into the frontmatter model', () => {
+    const { contacts, diagnostics } = parseXCard(rfcXCard, { preserveUnknownProperties: true });
+    const contact = contacts[0];
+
+    expect(diagnostics).toEqual([]);
+    expect(contact.UID).toBe('urn:uuid:4fbe8971-0bc3-424c-9c26-36c3e1eff6b1');
+    expect(contact.FN).toBe('Simon Perreault');
+    expect(contact['N.HONORIFICSUFFIXES']).toEqual(['ing. jr', 'M.Sc.']);
+    expect(contact.BDAY).toBe('--02-03');
+    expect(contact.ANNIVERSARY).toBe('2009-08-08T14:30-05:00');
+    expect(contact['GENDER.SEX']).toBe('M');
+    expect(contact['ORG.WORK']).toBe('Viagenie');
+    expect(contact['ADR.WORK.STREETADDRESS']).toBe('2875 boul. Laurier, suite D2-630');
+    expect(contact['ADR.WORK.@LABEL']).toBe('Simon Perreault\n2875 boul. Laurier, suite D2-630');
+    expect(contact['TEL.WORK']).toBe('tel:+1-418-656-9254;ext=102');
+    expect(contact['TEL.WORK.@PREF']).toBe('1');
+    expect(contact.NOTE).toBe('Likes <xml> & "quotes"');
+    expect(contact['PRESERVED.0']).toBe('item1.X-ABLABEL:Home & Garden');
+  });
+
+  it('should write the frontmatter model as xCard', () => {
+    const xml = generateXCard([{
+      UID: 'uid-1',
+      FN: 'Jane & Co',
+      'N.FAMILYNAMES': 'Doe',
+      'EMAIL.WORK': 'jane@work.com',
+      'EMAIL.WORK.@PREF': '1',
+      BDAY: '19850415'
+    }]);
+
+    expect(xml).toContain('<vcards xmlns="urn:ietf:params:xml:ns:vcard-4.0">');
+    expect(xml).toContain('<fn><text>Jane &amp; Co</text></fn>');
+    expect(xml).toContain('<n><surname>Doe</surname><given/><additional/><prefix/><suffix/></n>');
+    expect(xml).toContain('<email><parameters><type><text>work</text></type><pref><integer>1</integer></pref></parameters><text>jane@work.com</text></email>');
+    expect(xml).toContain('<bday><date-and-or-time>19850415</date-and-or-time></bday>');
+    expect(xml).not.toContain('<version>');
+  });
+
+  it('should round-trip contacts through xCard', () => {
+    const original = parseXCard(rfcXCard, { preserveUnknownProperties: true }).contacts;
+
+    const xml = new VcardFile('contacts.vcf', original).toXCard();
+    const vcf = VcardFile.fromXCard(xml, 'contacts.xml', { preserveUnknownProperties: true });
+
+    expect(vcf.getAllContacts()).toEqual(original);
+    expect(xml).toContain('<group name="item1">');
+  });
+
+  it('should detect xCard documents', () => {
+    expect(isXCard(rfcXCard)).toBe(true);
+    expect(isXCard('<?xml version="1.0"?><project><name>x</name></project>')).toBe(false);
+  });
+
+  it('should report malformed XML and missing cards', () => {
+    expect(parseXCard('<vcards><vcard></vcards>').diagnostics[0].message).toContain('Invalid XML');
+    expect(parseXCard('<project/>').diagnostics[0].message).toBe('Not an xCard');
+    expect(parseXCard(`<vcards xmlns="${'urn:ietf:params:xml:ns:vcard-4.0'}"/>`).diagnostics[0].message).toBe('No vcard element found');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { validateContacts, formatValidationReport } from '../../../../src/plugin/services/contactValidation';
+import { createMockApp } from '../../../fixtures/mockVault';
+
+describe('Contact Validation', () => {
+  const entries = [
+    { uid: 'uid-bob', path: 'Contacts/Bob.md', name: 'Bob', mtime: 0 },
+    { uid: 'uid-alice', path: 'Contacts/Alice.md', name: 'Alice', mtime: 0 },
+    { uid: 'uid-gone', path: 'Contacts/Gone.md', name: 'Gone', mtime: 0 }
+  ];
+
+  const { app } = createMockApp({
+    'Contacts/Alice.md': '---\nUID: uid-alice\nFN: Alice\nBDAY: "19900517"\n---\n',
+    'Contacts/Bob.md': '---\nUID: uid-bob\nFN: Bob\nEMAIL: bob\nGENDER.SEX: X\n---\n'
+  });
+
+  it('should validate the contacts sorted by name', async () => {
+    const validations = await validateContacts(app, entries);
+
+    expect(validations.map(validation => validation.entry.name)).toEqual(['Alice', 'Bob']);
+    expect(validations[0].result.valid).toBe(true);
+    expect(validations[1].result.errors).toEqual(['GENDER.SEX: Invalid sex "X", expected M, F, O, N or U']);
+  });
+
+  it('should list the contacts with problems in the report', async () => {
+    const validations = await validateContacts(app, entries);
+    const report = formatValidationReport(validations, new Date('2025-01-25T10:30:00Z'));
+
+    expect(report).toBe([
+      '# Contact validation report',
+      '',
+      'Validated 2 contact(s) on 2025-01-25: 1 with errors, 1 with warnings.',
+      '',
+      '## [[Contacts/Bob|Bob]]',
+      '',
+      '- Error: GENDER.SEX: Invalid sex "X", expected M, F, O, N or U',
+      '- Warning: EMAIL: "bob" does not look like an email address',
+      ''
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { exportContactsToCsv } from '../../../../src/plugin/services/csvExport';
+import { createMockApp } from '../../../fixtures/mockVault';
+
+describe('CSV Export', () => {
+  const settings = {
+    csvExportFile: 'Exports/contacts.csv',
+    csvExportColumns: ['FN', 'EMAIL', 'TEL'],
+    csvExportPreferredTypes: ['WORK']
+  } as any;
+
+  const entries = [
+    { uid: 'uid-bob', path: 'Contacts/Bob.md', name: 'Bob', mtime: 0 },
+    { uid: 'uid-alice', path: 'Contacts/Alice.md', name: 'Alice', mtime: 0 },
+    { uid: 'uid-gone', path: 'Contacts/Gone.md', name: 'Gone', mtime: 0 }
+  ];
+
+  it('should write the contacts sorted by name', async () => {
+    const mock = createMockApp({
+      'Contacts/Alice.md': '---\nUID: uid-alice\nFN: Alice\nEMAIL.HOME: alice@home.com\nEMAIL.WORK: alice@work.com\n---\n',
+      'Contacts/Bob.md': '---\nUID: uid-bob\nFN: Bob\nTEL.CELL: "+1 555 0100"\n---\n'
+    });
+
+    const file = await exportContactsToCsv(mock.app, entries, settings);
+
+    expect(file.path).toBe('Exports/contacts.csv');
+    expect(mock.folders.has('Exports')).toBe(true);
+    expect(mock.contents.get('Exports/contacts.csv')).toBe(
+      '\uFEFFFN,EMAIL,TEL\r\nAlice,alice@work.com,\r\nBob,,+1 555 0100\r\n'
+    );
+  });
+
+  it('should overwrite an existing export file', async () => {
+    const mock = createMockApp({
+      'Contacts/Bob.md': '---\nUID: uid-bob\nFN: Bob\n---\n',
+      'Exports/contacts.csv': 'old'
+    });
+
+    await exportContactsToCsv(mock.app, entries.slice(0, 1), settings);
+
+    expect(mock.contents.get('Exports/contacts.csv')).toBe('\uFEFFFN,EMAIL,TEL\r\nBob,,\r\n');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { writeExportFile, readContactFrontmatter } from '../../../../src/plugin/services/exportWriter';
+import { createMockApp } from '../../../fixtures/mockVault';
+
+describe('Export Writer', () => {
+  it('should create missing parent folders', async () => {
+    const mock = createMockApp({});
+    mock.folders.add('exports');
+
+    const file = await writeExportFile(mock.app, 'exports/2025/contacts.csv', 'data');
+
+    expect(file.path).toBe('exports/2025/contacts.csv');
+    expect(mock.contents.get('exports/2025/contacts.csv')).toBe('data');
+    expect(Array.from(mock.folders)).toEqual(['exports', 'exports/2025']);
+  });
+
+  it('should overwrite an existing file', async () => {
+    const mock = createMockApp({ 'contacts.ldif': 'old' });
+
+    await writeExportFile(mock.app, 'contacts.ldif', 'new');
+
+    expect(mock.contents.get('contacts.ldif')).toBe('new');
+    expect(mock.folders.size).toBe(0);
+  });
+
+  it('should read the frontmatter of existing contacts sorted by name', async () => {
+    const mock = createMockApp({
+      'Contacts/Bob.md': '---\nUID: uid-bob\nFN: Bob\n---\n',
+      'Contacts/Alice.md': '---\nUID: uid-alice\nFN: Alice\n---\n'
+    });
+
+    const contacts = await readContactFrontmatter(mock.app, [
+      { uid: 'uid-bob', path: 'Contacts/Bob.md', name: 'Bob', mtime: 0 },
+      { uid: 'uid-gone', path: 'Contacts/Gone.md', name: 'Gone', mtime: 0 },
+      { uid: 'uid-alice', path: 'Contacts/Alice.md', name: 'Alice', mtime: 0 }
+    ] as any);
+
+    expect(contacts.map(contact => contact.FN)).toEqual(['Alice', 'Bob']);
+  });
+});
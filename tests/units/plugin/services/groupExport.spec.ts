@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { exportGroupToVcf } from '../../../../src/plugin/services/groupExport';
+import { createMockApp } from '../../../fixtures/mockVault';
+
+describe('Group Export', () => {
+  const entries = [
+    { uid: 'uid-club', path: 'Contacts/Book Club.md', name: 'Book Club', mtime: 0 },
+    { uid: 'uid-alice', path: 'Contacts/Alice.md', name: 'Alice', mtime: 0 },
+    { uid: 'uid-bob', path: 'Contacts/Bob.md', name: 'Bob', mtime: 0 }
+  ];
+
+  function createContactManager(fileObjects: Map<string, any>): any {
+    return {
+      getContactFile: (uid: string) => fileObjects.get(entries.find(entry => entry.uid === uid)?.path ?? '') ?? null,
+      resolveReference: (reference: string) => entries.find(entry => `uid:${entry.uid}` === reference),
+      generateContactVcf: async (uid: string) => `BEGIN:VCARD\r\nUID:${uid}\r\nEND:VCARD`
+    };
+  }
+
+  it('should write the group and its known members', async () => {
+    const mock = createMockApp({
+      'Contacts/Book Club.md': '---\nUID: uid-club\nFN: Book Club\nKIND: group\nMEMBER.0: uid:uid-alice\nMEMBER.1: uid:uid-bob\nMEMBER.2: name:Carol\n---\n'
+    });
+
+    const { file, members } = await exportGroupToVcf(
+      mock.app,
+      createContactManager(mock.fileObjects),
+      entries[0],
+      { vcfExportFolder: 'Exports' } as any
+    );
+
+    expect(file.path).toBe('Exports/Book Club.vcf');
+    expect(members).toBe(2);
+    expect(mock.contents.get('Exports/Book Club.vcf')).toBe([
+      'BEGIN:VCARD', 'UID:uid-club', 'END:VCARD',
+      'BEGIN:VCARD', 'UID:uid-alice', 'END:VCARD',
+      'BEGIN:VCARD', 'UID:uid-bob', 'END:VCARD',
+      ''
+    ].join('\r\n'));
+  });
+
+  it('should fail when the group note is missing', async () => {
+    const mock = createMockApp({});
+
+    await expect(exportGroupToVcf(mock.app, createContactManager(mock.fileObjects), entries[0], {} as any))
+      .rejects.toThrow('Contacts/Book Club.md not found');
+  });
+});
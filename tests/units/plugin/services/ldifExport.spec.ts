@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { exportContactsToLdif } from '../../../../src/plugin/services/ldifExport';
+import { createMockApp } from '../../../fixtures/mockVault';
+
+describe('LDIF Export', () => {
+  const settings = { ldifExportFile: 'Exports/contacts.ldif' } as any;
+
+  const entries = [
+    { uid: 'uid-bob', path: 'Contacts/Bob.md', name: 'Bob', mtime: 0 },
+    { uid: 'uid-alice', path: 'Contacts/Alice.md', name: 'Alice', mtime: 0 }
+  ];
+
+  it('should write one entry per contact sorted by name', async () => {
+    const mock = createMockApp({
+      'Contacts/Alice.md': '---\nUID: uid-alice\nFN: Alice\nN.FAMILYNAMES: Smith\nEMAIL.WORK: alice@work.com\n---\n',
+      'Contacts/Bob.md': '---\nUID: uid-bob\nFN: Bob\nTEL.CELL: "+1 555 0100"\n---\n',
+      'Exports/contacts.ldif': 'old'
+    });
+
+    const file = await exportContactsToLdif(mock.app, entries, settings);
+    const ldif = mock.contents.get('Exports/contacts.ldif')!;
+
+    expect(file.path).toBe('Exports/contacts.ldif');
+    expect(ldif.startsWith('version: 1\n\ndn: cn=Alice,mail=alice@work.com\n')).toBe(true);
+    expect(ldif).toContain('\n\ndn: cn=Bob\n');
+    expect(ldif).toContain('sn: Smith\n');
+    expect(ldif).toContain('mobile: +1 555 0100\n');
+  });
+});
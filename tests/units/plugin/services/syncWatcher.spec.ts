@@ -138,6 +138,28 @@ describe('SyncWatcher', () => {
       expect(modifiedChange).toBeDefined();
     });
 
+    it('should report files rewritten with the same contacts as touched', async () => {
+      const testFile = path.join(testFolder, 'test.vcf');
+      fs.writeFileSync(testFile, 'BEGIN:VCARD\r\nVERSION:4.0\r\nUID:urn:uuid:1\r\nFN:Test\r\nREV:20240101T000000Z\r\nEND:VCARD\r\n');
+      fs.utimesSync(testFile, new Date(2024, 0, 1), new Date(2024, 0, 1));
+
+      await syncWatcher.start();
+
+      // Rewrite with a new REV only
+      fs.writeFileSync(testFile, 'BEGIN:VCARD\r\nVERSION:4.0\r\nFN:Test\r\nUID:urn:uuid:1\r\nREV:20250101T000000Z\r\nEND:VCARD\r\n');
+      let changes = await syncWatcher.checkForChanges();
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('touched');
+      expect(changes[0].fingerprint).toMatch(/^[0-9a-f]{14}$/);
+
+      // Change a value
+      fs.writeFileSync(testFile, 'BEGIN:VCARD\r\nVERSION:4.0\r\nFN:Test User\r\nUID:urn:uuid:1\r\nEND:VCARD\r\n');
+      fs.utimesSync(testFile, new Date(), new Date(Date.now() + 1000));
+      changes = await syncWatcher.checkForChanges();
+      expect(changes).toHaveLength(1);
+      expect(changes[0].type).toBe('modified');
+    });
+
     it('should detect deleted VCF file', async () => {
       // Create initial file
       const testFile = path.join(testFolder, 'test.vcf');
@@ -268,6 +290,59 @@ describe('SyncWatcher', () => {
     });
   });
 
+  describe('Reading VCF Files', () => {
+    it('should return the valid contacts and diagnostics of invalid cards', () => {
+      const filePath = path.join(testFolder, 'contacts.vcf');
+      fs.writeFileSync(filePath, [
+        'BEGIN:VCARD', 'VERSION:4.0', 'UID:uid1', 'FN:One', 'END:VCARD',
+        'BEGIN:VCARD', 'VERSION:4.0', 'FN:No UID', 'END:VCARD',
+        ''
+      ].join('\r\n'));
+
+      const vcardFile = syncWatcher.readVcfFile(filePath);
+
+      expect(vcardFile.getUIDs()).toEqual(['uid1']);
+      expect(vcardFile.diagnostics).toHaveLength(1);
+      expect(vcardFile.diagnostics[0].card).toBe(1);
+    });
+
+    it('should convert UTF-16 files and report the conversion', () => {
+      const filePath = path.join(testFolder, 'outlook.vcf');
+      const content = 'BEGIN:VCARD\r\nVERSION:3.0\r\nUID:uid1\r\nFN:Zoë\r\nEND:VCARD\r\n';
+      fs.writeFileSync(filePath, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(content, 'utf16le')]));
+
+      const vcardFile = syncWatcher.readVcfFile(filePath);
+
+      expect(vcardFile.getContact('uid1')?.FN).toBe('Zoë');
+      expect(vcardFile.diagnostics).toHaveLength(1);
+      expect(vcardFile.diagnostics[0].severity).toBe('warning');
+      expect(vcardFile.diagnostics[0].message).toContain('UTF-16LE');
+    });
+  });
+
+  describe('Writing VCF Files', () => {
+    it('should find the file that holds a contact', async () => {
+      fs.writeFileSync(path.join(testFolder, 'one.vcf'), 'BEGIN:VCARD\r\nVERSION:4.0\r\nUID:uid1\r\nFN:One\r\nEND:VCARD\r\n');
+      fs.writeFileSync(path.join(testFolder, 'two.vcf'), 'BEGIN:VCARD\r\nVERSION:4.0\r\nUID:uid2\r\nFN:Two\r\nEND:VCARD\r\n');
+
+      await syncWatcher.start();
+
+      expect(syncWatcher.findFileByUID('uid2')).toBe(path.join(testFolder, 'two.vcf'));
+      expect(syncWatcher.findFileByUID('uid3')).toBeUndefined();
+    });
+
+    it('should not report its own writes as changes', async () => {
+      await syncWatcher.start();
+
+      const filePath = path.join(testFolder, 'written.vcf');
+      syncWatcher.writeVcfFile(filePath, 'BEGIN:VCARD\r\nVERSION:3.0\r\nUID:uid1\r\nFN:One\r\nN:;;;;\r\nEND:VCARD\r\n');
+
+      expect(fs.readFileSync(filePath, 'utf8')).toContain('VERSION:3.0');
+      expect(await syncWatcher.checkForChanges()).toHaveLength(0);
+      expect(syncWatcher.findFileByUID('uid1')).toBe(filePath);
+    });
+  });
+
   describe('Return Empty Changes', () => {
     it('should return empty array when watch disabled', async () => {
       const settings = createMockSettings({
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SyncWatcher } from '../../../../src/plugin/services/syncWatcher';
+import { writeContactBack } from '../../../../src/plugin/services/vcardWriteBack';
+import { generateVcfContact } from '../../../../src/models/vcardFile';
+
+describe('vCard write back', () => {
+  let testFolder: string;
+  let settings: any;
+  let syncWatcher: SyncWatcher;
+
+  // Generates the vCard from fixed data in the write-back version, like ContactManager.generateContactVcf
+  const contactManager = {
+    generateContactVcf: async (uid: string) =>
+      uid === 'uid1' ? generateVcfContact({ UID: 'uid1', FN: 'Jane Doe', 'GENDER.SEX': 'F' }, { version: settings.vcardWriteBackVersion }) : null
+  } as any;
+  const jane = { uid: 'uid1', name: 'Jane Doe', path: 'Contacts/Jane Doe.md' } as any;
+
+  beforeEach(() => {
+    testFolder = `/tmp/test-write-back-${Date.now()}`;
+    fs.mkdirSync(testFolder, { recursive: true });
+    settings = {
+      vcardWatchFolder: testFolder,
+      vcardWatchEnabled: true,
+      vcardWatchPollingInterval: 30,
+      vcardWriteBackEnabled: true,
+      vcardWriteBackVersion: '3.0',
+      vcardCustomizeIgnoreList: false,
+      vcardIgnoreFilenames: [],
+      vcardIgnoreUIDs: []
+    };
+    syncWatcher = new SyncWatcher({} as any, settings);
+  });
+
+  afterEach(() => {
+    syncWatcher.stop();
+    fs.rmSync(testFolder, { recursive: true, force: true });
+  });
+
+  it('should rewrite the file that holds the contact in the write-back version', async () => {
+    const filePath = path.join(testFolder, 'contacts.vcf');
+    fs.writeFileSync(filePath, [
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:uid0', 'FN:John Doe', 'END:VCARD',
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:uid1', 'FN:Jane', 'END:VCARD',
+      ''
+    ].join('\r\n'));
+    await syncWatcher.start();
+
+    expect(await writeContactBack(contactManager, syncWatcher, jane, settings)).toBe(filePath);
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    expect(content.match(/VERSION:3\.0/g)).toHaveLength(2);
+    expect(content).toContain('FN:John Doe');
+    expect(content).toContain('FN:Jane Doe');
+    expect(content).toContain('X-GENDER:Female');
+    expect(await syncWatcher.checkForChanges()).toHaveLength(0);
+  });
+
+  it('should write a contact that is in no file to a file named after its note', async () => {
+    await syncWatcher.start();
+
+    const filePath = await writeContactBack(contactManager, syncWatcher, jane, settings);
+
+    expect(filePath).toBe(path.join(testFolder, 'Jane Doe.vcf'));
+    expect(fs.readFileSync(filePath, 'utf8')).toContain('VERSION:3.0');
+  });
+
+  it('should not rewrite a file with invalid cards', async () => {
+    const filePath = path.join(testFolder, 'contacts.vcf');
+    const original = [
+      'BEGIN:VCARD', 'VERSION:4.0', 'UID:uid1', 'FN:Jane', 'END:VCARD',
+      'BEGIN:VCARD', 'VERSION:4.0', 'FN:No UID', 'END:VCARD',
+      ''
+    ].join('\r\n');
+    fs.writeFileSync(filePath, original);
+    await syncWatcher.start();
+
+    await expect(writeContactBack(contactManager, syncWatcher, jane, settings)).rejects.toThrow('invalid cards');
+    expect(fs.readFileSync(filePath, 'utf8')).toBe(original);
+  });
+});